@@ -4,7 +4,11 @@ import withPWA from 'next-pwa';
 const nextConfig = {
   experimental: {
     // Server Components用のパッケージ設定
-    serverComponentsExternalPackages: ['@google/generative-ai'],
+    serverComponentsExternalPackages: ['@google/generative-ai', 'ffmpeg-static'],
+    // 動画正規化用の ffmpeg バイナリをサーバー関数に同梱
+    outputFileTracingIncludes: {
+      '/api/analyze-file/**': ['./node_modules/ffmpeg-static/ffmpeg'],
+    },
     // 大きなファイルサイズに対応
     serverMinification: false,
   },
@@ -15,6 +19,10 @@ export default withPWA({
   disable: process.env.NODE_ENV === 'development',
   register: true,
   skipWaiting: true,
+  // 解析履歴（IndexedDB）は未訪問でもオフラインで開けるよう事前キャッシュする
+  additionalManifestEntries: [
+    { url: '/history', revision: String(Date.now()) },
+  ],
   runtimeCaching: [
     {
       urlPattern: /^https?.*/,
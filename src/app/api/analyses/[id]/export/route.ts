@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAnalysisRecord } from "@/lib/analysis-records";
+import { requireAuth } from "@/lib/auth/sessions";
+import { describeError } from "@/lib/api-errors";
+import { LocalizedError, localizeError } from "@/lib/i18n/localized-error";
+import { getRequestLocale } from "@/lib/i18n/request-locale";
+import { exportAnalysisRecord, parseExportFormat } from "@/lib/report-export";
+
+// Next.js API Route Configuration
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+    params: { id: string };
+}
+
+// 解析結果のエクスポート（?format=pdf|html。未指定は PDF）
+// 見出しなどの文言は ?locale= または Accept-Language の言語で出力する
+export async function GET(request: NextRequest, { params }: RouteContext) {
+    const locale = getRequestLocale(request);
+    try {
+        const auth = await requireAuth(request);
+        const format = parseExportFormat(request.nextUrl.searchParams.get('format'));
+        const record = await getAnalysisRecord(auth, params.id);
+        if (!record) {
+            throw new LocalizedError('errors.analysisNotFound', { id: params.id });
+        }
+        const { body, contentType, fileName } = exportAnalysisRecord(record, format, locale);
+        console.log(`📄 解析結果をエクスポート: ${params.id} (${format}, ${(body.length / 1024).toFixed(0)}KB)`);
+        return new NextResponse(body, {
+            headers: {
+                'Content-Type': contentType,
+                'Content-Disposition': `attachment; filename="${fileName.replace(/[^\x20-\x7e]|"/g, '_')}"; filename*=UTF-8''${encodeURIComponent(fileName)}`,
+                'Cache-Control': 'private, no-store',
+            },
+        });
+    } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+        const { status, details } = describeError(error);
+        console.error(`❌ エクスポートエラー (${params.id}):`, { message: errorMessage, errorCode: details.errorCode });
+        return NextResponse.json({ success: false, error: localizeError(error, locale), ...details }, { status });
+    }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import { saveAttachedFrames } from "@/lib/analysis-records";
+import { validateAttachedFrames } from "@/lib/attached-frames";
+import { requireAuth } from "@/lib/auth/sessions";
+import { describeError } from "@/lib/api-errors";
+import { localizeError } from "@/lib/i18n/localized-error";
+import { getRequestLocale } from "@/lib/i18n/request-locale";
+
+// Next.js API Route Configuration
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+    params: { id: string };
+}
+
+// 添付フレームの保存（JSON: frames。解析後にプレーヤーで追加・削除したフレームで置き換える）
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+    try {
+        const auth = await requireAuth(request);
+        const body = await request.json().catch(() => null);
+        const record = await saveAttachedFrames(auth, params.id, validateAttachedFrames(body?.frames));
+        return NextResponse.json(record);
+    } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+        const { status, details } = describeError(error);
+        console.error(`❌ 添付フレームの保存エラー (${params.id}):`, { message: errorMessage, errorCode: details.errorCode });
+        return NextResponse.json({ success: false, error: localizeError(error, getRequestLocale(request)), ...details }, { status });
+    }
+}
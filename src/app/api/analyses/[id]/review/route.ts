@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import { saveCoachReview } from "@/lib/analysis-records";
+import { requireAuth } from "@/lib/auth/sessions";
+import { describeError } from "@/lib/api-errors";
+import { localizeError } from "@/lib/i18n/localized-error";
+import { getRequestLocale } from "@/lib/i18n/request-locale";
+
+// Next.js API Route Configuration
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+    params: { id: string };
+}
+
+// コーチのレビューの保存（JSON: reports, comments, publish。コーチのみ）
+// publish: true でプレーヤーに公開し、false で下書きとして保存する（公開中の場合は非公開に戻る）
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+    try {
+        const auth = await requireAuth(request);
+        const body = await request.json().catch(() => null);
+        const record = await saveCoachReview(auth, params.id, body, body?.publish === true);
+        return NextResponse.json(record);
+    } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+        const { status, details } = describeError(error);
+        console.error(`❌ レビューの保存エラー (${params.id}):`, { message: errorMessage, errorCode: details.errorCode });
+        return NextResponse.json({ success: false, error: localizeError(error, getRequestLocale(request)), ...details }, { status });
+    }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { deleteAnalysisRecord, getAnalysisRecord } from "@/lib/analysis-records";
+import { getAuth, signInRequiredResponse } from "@/lib/auth/sessions";
+import { errorDetailsOf } from "@/lib/api-errors";
+import { getRequestLocale } from "@/lib/i18n/request-locale";
+import { translate } from "@/lib/i18n/translate";
+
+// Next.js API Route Configuration
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+    params: { id: string };
+}
+
+const notFound = (request: NextRequest, id: string) =>
+    NextResponse.json({ success: false, error: translate(getRequestLocale(request), 'errors.analysisNotFound', { id }), ...errorDetailsOf('not-found') }, { status: 404 });
+
+// 解析結果の取得（閲覧できない解析結果は存在しない場合と同じく 404）
+export async function GET(request: NextRequest, { params }: RouteContext) {
+    const auth = await getAuth(request);
+    if (!auth) {
+        return signInRequiredResponse(request);
+    }
+    const record = await getAnalysisRecord(auth, params.id);
+    if (!record) {
+        return notFound(request, params.id);
+    }
+    return NextResponse.json(record);
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+    const auth = await getAuth(request);
+    if (!auth) {
+        return signInRequiredResponse(request);
+    }
+    if (!await deleteAnalysisRecord(auth, params.id)) {
+        return notFound(request, params.id);
+    }
+    return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from "next/server";
+import { listAnalysisRecords } from "@/lib/analysis-records";
+import { requireAuth } from "@/lib/auth/sessions";
+import { describeError } from "@/lib/api-errors";
+import { localizeError } from "@/lib/i18n/localized-error";
+import { getRequestLocale } from "@/lib/i18n/request-locale";
+
+// Next.js API Route Configuration
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// ワークスペースに保存された解析結果の一覧（コーチは全員分、プレーヤーは自分の分のみ）
+export async function GET(request: NextRequest) {
+    try {
+        const auth = await requireAuth(request);
+        return NextResponse.json({ analyses: await listAnalysisRecords(auth) });
+    } catch (error: unknown) {
+        const { status, details } = describeError(error);
+        return NextResponse.json({ success: false, error: localizeError(error, getRequestLocale(request)), ...details }, { status });
+    }
+}
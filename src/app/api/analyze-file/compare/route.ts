@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { cleanup } from "@/lib/analysis-pipeline";
+import { GolfComparisonResponse, extractComparisonInput, runComparisonPipeline } from "@/lib/comparison-pipeline";
+import { describeError, retryAfterHeaders } from "@/lib/api-errors";
+import { requireAuth } from "@/lib/auth/sessions";
+import { consumeAnalysisRequest, getUsageSnapshot, identifyCaller, usageHeaders, usageRecorder } from "@/lib/usage-limits";
+import { localizeError } from "@/lib/i18n/localized-error";
+import { getRequestLocale } from "@/lib/i18n/request-locale";
+import { translate } from "@/lib/i18n/translate";
+
+// Next.js API Route Configuration
+export const runtime = 'nodejs';
+export const maxDuration = 300; // 5 minutes
+export const dynamic = 'force-dynamic';
+
+// 2つのスイングの比較（動画2本、または解析履歴の保存済みレポート2件）
+export async function POST(request: NextRequest) {
+    const locale = getRequestLocale(request);
+    try {
+        console.log('🆚 スイング比較リクエスト開始');
+        const auth = await requireAuth(request);
+        const input = await extractComparisonInput(request);
+        if (input.kind === 'videos') {
+            console.log(`📁 比較ファイル: ${input.before.fileName} / ${input.after.fileName}`);
+        }
+
+        // 入力の検証が済んでから解析回数を数える（上限を超えた場合は保存した動画を削除する）
+        const caller = identifyCaller(request, auth.user.id);
+        try {
+            await consumeAnalysisRequest(caller);
+        } catch (error) {
+            if (input.kind === 'videos') {
+                await cleanup(input.before.tempFilePath, null, null);
+                await cleanup(input.after.tempFilePath, null, null);
+            }
+            throw error;
+        }
+
+        const response = await runComparisonPipeline(input, { onUsage: usageRecorder(caller) });
+        return NextResponse.json(response, { headers: usageHeaders(await getUsageSnapshot(caller)) });
+
+    } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+        const { status, details } = describeError(error);
+        console.error('❌ スイング比較エラー:', { message: errorMessage, errorCode: details.errorCode });
+        const errorResponse: GolfComparisonResponse = {
+            success: false,
+            error: translate(locale, 'errors.comparisonFailed', { message: localizeError(error, locale) }),
+            ...details,
+        };
+        return NextResponse.json(errorResponse, { status, headers: retryAfterHeaders(details) });
+    }
+}
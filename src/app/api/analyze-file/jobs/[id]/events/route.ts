@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AnalysisJobEvent, releaseFinishedJob, subscribeToJob, toJobStatus } from "@/lib/analysis-jobs";
+import { isTerminalStage } from "@/lib/analysis-stages";
+import { getJobStore } from "@/lib/job-store";
+import { SSE_HEADERS, encodeSSE } from "@/lib/sse";
+import { errorDetailsOf } from "@/lib/api-errors";
+import { canAccess, getAuth, signInRequiredResponse } from "@/lib/auth/sessions";
+import { getRequestLocale } from "@/lib/i18n/request-locale";
+import { translate } from "@/lib/i18n/translate";
+
+// Next.js API Route Configuration
+export const runtime = 'nodejs';
+export const maxDuration = 300; // 切断後はEventSourceが自動で再接続する
+export const dynamic = 'force-dynamic';
+
+const STORE_POLL_INTERVAL = 3000; // 3秒
+
+interface RouteContext {
+    params: { id: string };
+}
+
+// ジョブの進行段階と部分テキストをSSEで配信
+export async function GET(request: NextRequest, { params }: RouteContext) {
+    const auth = await getAuth(request);
+    if (!auth) {
+        return signInRequiredResponse(request);
+    }
+    const store = getJobStore();
+    const job = await store.get(params.id);
+    if (!job || !canAccess(auth, job)) {
+        return NextResponse.json({ success: false, error: translate(getRequestLocale(request), 'errors.jobNotFound', { id: params.id }), ...errorDetailsOf('not-found') }, { status: 404 });
+    }
+
+    let close = () => {};
+
+    const stream = new ReadableStream<Uint8Array>({
+        start(controller) {
+            let closed = false;
+            let unsubscribe = () => {};
+            let stopPolling = () => {};
+
+            close = () => {
+                if (closed) return;
+                closed = true;
+                unsubscribe();
+                stopPolling();
+                controller.close();
+            };
+
+            const send = (event: AnalysisJobEvent) => {
+                if (closed) return;
+                controller.enqueue(encodeSSE(event.type, event));
+                if (event.type === 'end') {
+                    close();
+                    // 結果を受け取ったジョブはストアに残さない（結果は /api/analyses/:id で取得できる）
+                    void releaseFinishedJob(job.id);
+                }
+            };
+
+            request.signal.addEventListener('abort', close);
+
+            send({ type: 'stage', stage: job.stage });
+            if (isTerminalStage(job.stage)) {
+                send({ type: 'end', status: toJobStatus(job) });
+                return;
+            }
+
+            // このプロセスで実行中なら、ここまでのテキストを送ってから購読する
+            const subscription = subscribeToJob(job.id, send);
+            if (subscription) {
+                unsubscribe = subscription.unsubscribe;
+                send({ type: 'reset' });
+                if (subscription.text) {
+                    send({ type: 'text', delta: subscription.text });
+                }
+                return;
+            }
+
+            // 別プロセスで実行中（または購読前に完了）の場合はストアをポーリングして段階のみ通知
+            let lastStage = job.stage;
+            const pollTimer = setInterval(async () => {
+                const current = await store.get(job.id);
+                if (!current) {
+                    close();
+                    return;
+                }
+                if (current.stage !== lastStage) {
+                    lastStage = current.stage;
+                    send({ type: 'stage', stage: current.stage });
+                }
+                if (isTerminalStage(current.stage)) {
+                    send({ type: 'end', status: toJobStatus(current) });
+                }
+            }, STORE_POLL_INTERVAL);
+            stopPolling = () => clearInterval(pollTimer);
+        },
+        cancel() {
+            close();
+        },
+    });
+
+    return new Response(stream, { headers: SSE_HEADERS });
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { cancelAnalysisJob, toJobStatus } from "@/lib/analysis-jobs";
+import { getJobStore } from "@/lib/job-store";
+import { errorDetailsOf } from "@/lib/api-errors";
+import { canAccess, getAuth, signInRequiredResponse } from "@/lib/auth/sessions";
+import { getRequestLocale } from "@/lib/i18n/request-locale";
+import { translate } from "@/lib/i18n/translate";
+
+// Next.js API Route Configuration
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+    params: { id: string };
+}
+
+const notFound = (request: NextRequest, id: string) =>
+    NextResponse.json({ success: false, error: translate(getRequestLocale(request), 'errors.jobNotFound', { id }), ...errorDetailsOf('not-found') }, { status: 404 });
+
+// ジョブ状態の取得（クライアントはこれをポーリングする）
+// 閲覧できないジョブは存在しない場合と同じく 404
+export async function GET(request: NextRequest, { params }: RouteContext) {
+    const auth = await getAuth(request);
+    if (!auth) {
+        return signInRequiredResponse(request);
+    }
+    const job = await getJobStore().get(params.id);
+    if (!job || !canAccess(auth, job)) {
+        return notFound(request, params.id);
+    }
+    return NextResponse.json(toJobStatus(job));
+}
+
+// ジョブのキャンセルとクリーンアップ
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+    const auth = await getAuth(request);
+    if (!auth) {
+        return signInRequiredResponse(request);
+    }
+    const owned = await getJobStore().get(params.id);
+    if (!owned || !canAccess(auth, owned)) {
+        return notFound(request, params.id);
+    }
+    const job = await cancelAnalysisJob(params.id);
+    if (!job) {
+        return notFound(request, params.id);
+    }
+    return NextResponse.json(toJobStatus(job));
+}
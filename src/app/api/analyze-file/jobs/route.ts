@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from "next/server";
+import { GolfAnalysisResponse, cleanup, saveTemporaryFile, validateAndExtractFile } from "@/lib/analysis-pipeline";
+import { startAnalysisJob, toJobStatus } from "@/lib/analysis-jobs";
+import { inspectVideoFile } from "@/lib/video-probe";
+import { ownerOf } from "@/lib/analysis-records";
+import { requireAuth } from "@/lib/auth/sessions";
+import { describeError, retryAfterHeaders } from "@/lib/api-errors";
+import { consumeAnalysisRequest, identifyCaller, usageHeaders } from "@/lib/usage-limits";
+import { localizeError } from "@/lib/i18n/localized-error";
+import { getRequestLocale } from "@/lib/i18n/request-locale";
+import { translate } from "@/lib/i18n/translate";
+
+// Next.js API Route Configuration
+export const runtime = 'nodejs';
+// ジョブはレスポンスを返した後もバックグラウンドで実行するため、常駐する Node.js サーバー（next start など）が必要
+// サーバーレス環境ではレスポンス後に関数が停止・凍結されることがあり、maxDuration では実行を保証できない
+export const maxDuration = 300;
+export const dynamic = 'force-dynamic';
+
+// 解析ジョブ作成（ファイル受信後すぐにジョブIDを返す）
+export async function POST(request: NextRequest) {
+    let tempFilePath = '';
+    const locale = getRequestLocale(request);
+
+    try {
+        const auth = await requireAuth(request);
+        const { file, fileSize, fileSizeMB, ...options } = await validateAndExtractFile(request);
+        console.log(`📁 受信ファイル: ${file.name} (${fileSizeMB.toFixed(1)}MB)`);
+
+        tempFilePath = await saveTemporaryFile(file);
+        // クライアントの申告する MIME タイプは使わず、ファイルの中身から判定する
+        const video = await inspectVideoFile(tempFilePath);
+        // ファイルの検証が済んでから解析回数を数える（不正なファイルでは利用量を消費しない）
+        const caller = identifyCaller(request, auth.user.id);
+        const usage = await consumeAnalysisRequest(caller);
+        const job = await startAnalysisJob({
+            tempFilePath,
+            fileName: file.name,
+            fileSize,
+            mimeType: video.mimeType,
+            video,
+            ...options,
+            locale,
+            caller,
+            owner: ownerOf(auth),
+        });
+        return NextResponse.json(toJobStatus(job), {
+            status: 202,
+            headers: { Location: `/api/analyze-file/jobs/${job.id}`, ...usageHeaders(usage) },
+        });
+
+    } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+        const { status, details } = describeError(error);
+        console.error('❌ 解析ジョブ作成エラー:', { message: errorMessage, errorCode: details.errorCode });
+        await cleanup(tempFilePath, null, null);
+        const errorResponse: GolfAnalysisResponse = {
+            success: false,
+            error: translate(locale, 'errors.jobCreationFailed', { message: localizeError(error, locale) }),
+            ...details,
+        };
+        return NextResponse.json(errorResponse, { status, headers: retryAfterHeaders(details) });
+    }
+}
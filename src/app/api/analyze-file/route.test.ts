@@ -0,0 +1,86 @@
+import { after, before, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { NextRequest } from "next/server";
+import { POST } from "@/app/api/analyze-file/route";
+import { GEMINI_BASE64_LIMIT, GolfAnalysisResponse } from "@/lib/analysis-pipeline";
+import { SESSION_COOKIE, createSession } from "@/lib/auth/sessions";
+import { findOrCreateUser } from "@/lib/auth/accounts";
+import { MockProvider } from "@/lib/providers/mock-provider";
+
+// モックプロバイダーで同期解析のルートを実行する（ネットワーク・ffmpeg・Gemini の認証なし）
+// 一時ファイルは専用ディレクトリに保存させ、解析後に残っていないことを確認する
+
+const MP4_HEADER = Buffer.from('00000020667479706973736f6d0000020069736f6d69736f3261766331', 'hex');
+
+// マジックバイトだけを持つ MP4 として判定されるファイル
+const fakeVideo = (size: number, name = 'swing.mp4') => {
+    const bytes = Buffer.alloc(size);
+    MP4_HEADER.copy(bytes);
+    return new File([bytes], name, { type: 'video/mp4' });
+};
+
+describe('POST /api/analyze-file（モックプロバイダー）', () => {
+    const originalEnv = { ...process.env };
+    let tempDir = '';
+    let cookie = '';
+    const deleteFile = mock.method(MockProvider.prototype, 'delete');
+
+    const analyze = async (file: File): Promise<{ status: number; body: GolfAnalysisResponse }> => {
+        const formData = new FormData();
+        formData.append('file', file);
+        const response = await POST(new NextRequest('http://localhost/api/analyze-file', {
+            method: 'POST',
+            body: formData,
+            headers: { cookie },
+        }));
+        return { status: response.status, body: await response.json() };
+    };
+
+    before(async () => {
+        tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'analyze-file-test-'));
+        Object.assign(process.env, { ANALYSIS_PROVIDER: 'mock', VIDEO_NORMALIZE: 'off', TMPDIR: tempDir });
+        const { token } = await createSession(await findOrCreateUser('player@example.com'));
+        cookie = `${SESSION_COOKIE}=${token}`;
+    });
+
+    beforeEach(() => deleteFile.mock.resetCalls());
+
+    after(async () => {
+        process.env = originalEnv;
+        mock.restoreAll();
+        await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    it('20MB以下は Base64 で解析し、一時ファイルを削除する', async () => {
+        const { status, body } = await analyze(fakeVideo(1024 * 1024));
+
+        assert.equal(status, 200);
+        assert.equal(body.success, true);
+        assert.equal(body.fileInfo?.method, 'Base64');
+        assert.ok(body.report);
+        assert.equal(deleteFile.mock.callCount(), 0);
+        assert.deepEqual(await fs.readdir(tempDir), []);
+    });
+
+    it('20MB超は Files API にアップロードし、解析後にアップロードしたファイルと一時ファイルを削除する', async () => {
+        const { status, body } = await analyze(fakeVideo(GEMINI_BASE64_LIMIT + 1));
+
+        assert.equal(status, 200);
+        assert.equal(body.success, true);
+        assert.equal(body.fileInfo?.method, 'Files API');
+        assert.equal(deleteFile.mock.callCount(), 1);
+        assert.deepEqual(await fs.readdir(tempDir), []);
+    });
+
+    it('動画でないファイルは 415 で失敗し、一時ファイルを削除する', async () => {
+        const { status, body } = await analyze(new File(['not a video'], 'notes.mp4', { type: 'video/mp4' }));
+
+        assert.equal(status, 415);
+        assert.equal(body.success, false);
+        assert.equal(body.errorCode, 'unsupported-media-type');
+        assert.deepEqual(await fs.readdir(tempDir), []);
+    });
+});
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from "next/server";
+import { GolfAnalysisResponse, cleanup, parseAnalysisOptions } from "@/lib/analysis-pipeline";
+import { startAnalysisJob, toJobStatus } from "@/lib/analysis-jobs";
+import { getUploadStatus, takeCompletedUpload, verifyCompletedUpload } from "@/lib/upload-store";
+import { inspectVideoFile } from "@/lib/video-probe";
+import { ownerOf } from "@/lib/analysis-records";
+import { getAuth, signInRequiredResponse } from "@/lib/auth/sessions";
+import { describeError, errorDetailsOf, retryAfterHeaders } from "@/lib/api-errors";
+import { consumeAnalysisRequest, identifyCaller, usageHeaders } from "@/lib/usage-limits";
+import { localizeError } from "@/lib/i18n/localized-error";
+import { getRequestLocale } from "@/lib/i18n/request-locale";
+import { translate } from "@/lib/i18n/translate";
+
+// Next.js API Route Configuration
+export const runtime = 'nodejs';
+// ジョブはレスポンスを返した後もバックグラウンドで実行するため、常駐する Node.js サーバー（next start など）が必要
+// サーバーレス環境ではレスポンス後に関数が停止・凍結されることがあり、maxDuration では実行を保証できない
+export const maxDuration = 300;
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+    params: { id: string };
+}
+
+// 分割アップロードの完了と解析ジョブの作成（フォームの解析オプションは multipart の解析リクエストと同じ）
+export async function POST(request: NextRequest, { params }: RouteContext) {
+    const locale = getRequestLocale(request);
+    const auth = await getAuth(request);
+    if (!auth) {
+        return signInRequiredResponse(request);
+    }
+    if (!await getUploadStatus(params.id, auth.user.id)) {
+        return NextResponse.json({ success: false, error: translate(locale, 'errors.uploadNotFound', { id: params.id }), ...errorDetailsOf('not-found') }, { status: 404 });
+    }
+
+    let tempFilePath = '';
+    try {
+        // レート制限・オプションが不正な場合はアップロードを残したまま失敗させる（時間をおいて再送できる）
+        // 解析回数は、オプションとアップロードの受信状況を確認してから数える
+        const options = parseAnalysisOptions(await request.formData());
+        await verifyCompletedUpload(params.id);
+        const caller = identifyCaller(request, auth.user.id);
+        const usage = await consumeAnalysisRequest(caller);
+        const upload = await takeCompletedUpload(params.id);
+        tempFilePath = upload.tempFilePath;
+        console.log(`📁 分割アップロード完了: ${upload.fileName} (${(upload.fileSize / 1024 / 1024).toFixed(1)}MB)`);
+
+        const video = await inspectVideoFile(tempFilePath);
+        const job = await startAnalysisJob({ ...upload, mimeType: video.mimeType, video, ...options, locale, caller, owner: ownerOf(auth) });
+        return NextResponse.json(toJobStatus(job), {
+            status: 202,
+            headers: { Location: `/api/analyze-file/jobs/${job.id}`, ...usageHeaders(usage) },
+        });
+
+    } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+        const { status, details } = describeError(error);
+        console.error('❌ 解析ジョブ作成エラー:', { message: errorMessage, errorCode: details.errorCode });
+        await cleanup(tempFilePath, null, null);
+        const errorResponse: GolfAnalysisResponse = {
+            success: false,
+            error: translate(locale, 'errors.jobCreationFailed', { message: localizeError(error, locale) }),
+            ...details,
+        };
+        return NextResponse.json(errorResponse, { status, headers: retryAfterHeaders(details) });
+    }
+}
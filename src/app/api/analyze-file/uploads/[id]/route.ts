@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from "next/server";
+import { deleteUpload, getUploadStatus, writeUploadChunk } from "@/lib/upload-store";
+import { getAuth, signInRequiredResponse } from "@/lib/auth/sessions";
+import { describeError, errorDetailsOf, retryAfterHeaders } from "@/lib/api-errors";
+import { localizeError } from "@/lib/i18n/localized-error";
+import { getRequestLocale } from "@/lib/i18n/request-locale";
+import { translate } from "@/lib/i18n/translate";
+
+// Next.js API Route Configuration
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+    params: { id: string };
+}
+
+const notFound = (request: NextRequest, id: string) =>
+    NextResponse.json({ success: false, error: translate(getRequestLocale(request), 'errors.uploadNotFound', { id }), ...errorDetailsOf('not-found') }, { status: 404 });
+
+// アップロード状態の取得（再開時に受信済みの位置を確認する）
+export async function GET(request: NextRequest, { params }: RouteContext) {
+    const auth = await getAuth(request);
+    if (!auth) {
+        return signInRequiredResponse(request);
+    }
+    const status = await getUploadStatus(params.id, auth.user.id);
+    if (!status) {
+        return notFound(request, params.id);
+    }
+    return NextResponse.json(status);
+}
+
+// チャンクの受信（?offset= は受信済みバイト数と一致している必要がある）
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+    const locale = getRequestLocale(request);
+    const auth = await getAuth(request);
+    if (!auth) {
+        return signInRequiredResponse(request);
+    }
+    const status = await getUploadStatus(params.id, auth.user.id);
+    if (!status) {
+        return notFound(request, params.id);
+    }
+
+    // 位置がずれている場合は現在の状態を返し、クライアントはその位置から再送する
+    const offset = Number(request.nextUrl.searchParams.get('offset'));
+    if (offset !== status.receivedBytes || !request.body) {
+        return NextResponse.json({
+            ...status,
+            error: translate(locale, 'errors.uploadOffsetMismatch', { received: status.receivedBytes }),
+            ...errorDetailsOf('conflict'),
+        }, { status: 409 });
+    }
+
+    try {
+        const updated = await writeUploadChunk(status, request.body);
+        if (!updated) {
+            return NextResponse.json({ ...status, error: translate(locale, 'errors.uploadInProgress'), ...errorDetailsOf('conflict') }, { status: 409 });
+        }
+        return NextResponse.json(updated);
+    } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+        const { status, details } = describeError(error);
+        console.error(`❌ チャンク受信エラー (${params.id}):`, { message: errorMessage, errorCode: details.errorCode });
+        return NextResponse.json({
+            ...await getUploadStatus(params.id),
+            error: translate(locale, 'errors.uploadFailed', { message: localizeError(error, locale) }),
+            ...details,
+        }, { status, headers: retryAfterHeaders(details) });
+    }
+}
+
+// アップロードの中止（受信済みのデータを削除）
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+    const auth = await getAuth(request);
+    if (!auth) {
+        return signInRequiredResponse(request);
+    }
+    const status = await getUploadStatus(params.id, auth.user.id);
+    if (!status) {
+        return notFound(request, params.id);
+    }
+    await deleteUpload(params.id);
+    console.log(`🗑️ 分割アップロードを中止: ${params.id}`);
+    return new NextResponse(null, { status: 204 });
+}
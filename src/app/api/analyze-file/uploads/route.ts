@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createUpload } from "@/lib/upload-store";
+import { requireAuth } from "@/lib/auth/sessions";
+import { describeError, retryAfterHeaders } from "@/lib/api-errors";
+import { checkUsageQuota, identifyCaller, usageHeaders } from "@/lib/usage-limits";
+import { localizeError } from "@/lib/i18n/localized-error";
+import { getRequestLocale } from "@/lib/i18n/request-locale";
+import { translate } from "@/lib/i18n/translate";
+
+// Next.js API Route Configuration
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// 分割アップロードの開始（JSON: fileName, fileSize, mimeType）
+// 以降は PUT /api/analyze-file/uploads/:id?offset=N でチャンクを送り、finalize で解析を開始する
+// 利用量の上限に達している場合は、大きなファイルを送り始める前にここで断る
+export async function POST(request: NextRequest) {
+    const locale = getRequestLocale(request);
+    try {
+        const auth = await requireAuth(request);
+        const usage = await checkUsageQuota(identifyCaller(request, auth.user.id));
+        const body = await request.json().catch(() => ({}));
+        const upload = await createUpload(body.fileName, body.fileSize, body.mimeType, auth.user.id);
+        return NextResponse.json(upload, {
+            status: 201,
+            headers: { Location: `/api/analyze-file/uploads/${upload.uploadId}`, ...usageHeaders(usage) },
+        });
+    } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+        const { status, details } = describeError(error);
+        console.error('❌ アップロード開始エラー:', { message: errorMessage, errorCode: details.errorCode });
+        return NextResponse.json({
+            success: false,
+            error: translate(locale, 'errors.uploadFailed', { message: localizeError(error, locale) }),
+            ...details,
+        }, { status, headers: retryAfterHeaders(details) });
+    }
+}
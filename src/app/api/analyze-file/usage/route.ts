@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+import { describeError } from "@/lib/api-errors";
+import { getUsageSnapshot, identifyCaller, usageHeaders } from "@/lib/usage-limits";
+import { requireAuth } from "@/lib/auth/sessions";
+import { localizeError } from "@/lib/i18n/localized-error";
+import { getRequestLocale } from "@/lib/i18n/request-locale";
+
+// Next.js API Route Configuration
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// 呼び出し元の利用状況（1分あたりのリクエスト数・本日と今月のトークン数）
+export async function GET(request: NextRequest) {
+    try {
+        const auth = await requireAuth(request);
+        const snapshot = await getUsageSnapshot(identifyCaller(request, auth.user.id));
+        return NextResponse.json(snapshot, { headers: usageHeaders(snapshot) });
+    } catch (error: unknown) {
+        const { status, details } = describeError(error);
+        return NextResponse.json({
+            success: false,
+            error: localizeError(error, getRequestLocale(request)),
+            ...details,
+        }, { status });
+    }
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from "next/server";
+import { findOrCreateUser } from "@/lib/auth/accounts";
+import { consumeSignInToken, createSession, safeNextPath, setSessionCookie } from "@/lib/auth/sessions";
+
+// Next.js API Route Configuration
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// メールのリンクからのサインイン（Cookie にセッションを保存して元の画面に戻る）
+export async function GET(request: NextRequest) {
+    const token = request.nextUrl.searchParams.get('token') ?? '';
+    const signIn = token ? await consumeSignInToken(token) : null;
+    if (!signIn) {
+        return NextResponse.redirect(new URL('/login?error=invalid', request.url));
+    }
+
+    const user = await findOrCreateUser(signIn.email);
+    const { token: sessionToken, expiresAt } = await createSession(user);
+    // 保存済みのトークンの移動先も、リダイレクトの直前に改めて検証する
+    const response = NextResponse.redirect(new URL(safeNextPath(signIn.next, request.nextUrl.origin), request.url));
+    setSessionCookie(response, sessionToken, expiresAt);
+    return response;
+}
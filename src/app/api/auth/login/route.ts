@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { parseEmail } from "@/lib/auth/accounts";
+import { sendSignInLink } from "@/lib/auth/mailer";
+import { createSignInLink } from "@/lib/auth/sessions";
+import { describeError, retryAfterHeaders } from "@/lib/api-errors";
+import { localizeError } from "@/lib/i18n/localized-error";
+import { getRequestLocale } from "@/lib/i18n/request-locale";
+
+// Next.js API Route Configuration
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// サインイン用リンクをメールで送信する（JSON: email, next）
+// 未登録のメールアドレスでも同じレスポンスを返し、リンクからのサインイン時にユーザーを作成する
+export async function POST(request: NextRequest) {
+    const locale = getRequestLocale(request);
+    try {
+        const body = await request.json().catch(() => ({}));
+        const email = parseEmail(body.email);
+        const url = await createSignInLink(request, email, body.next);
+        await sendSignInLink(email, url, locale);
+        return NextResponse.json({ success: true }, { status: 202 });
+    } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+        const { status, details } = describeError(error);
+        console.error('❌ サインイン用リンクの送信エラー:', { message: errorMessage, errorCode: details.errorCode });
+        return NextResponse.json({
+            success: false,
+            error: localizeError(error, locale),
+            ...details,
+        }, { status, headers: retryAfterHeaders(details) });
+    }
+}
@@ -0,0 +1,17 @@
+import { NextRequest, NextResponse } from "next/server";
+import { clearSessionCookie, deleteSession, getAuth } from "@/lib/auth/sessions";
+
+// Next.js API Route Configuration
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// サインアウト（セッションを削除して Cookie を消す）
+export async function POST(request: NextRequest) {
+    const auth = await getAuth(request);
+    if (auth) {
+        await deleteSession(auth);
+    }
+    const response = NextResponse.json({ success: true });
+    clearSessionCookie(response);
+    return response;
+}
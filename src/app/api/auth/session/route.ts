@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getWorkspace, listMemberships } from "@/lib/auth/accounts";
+import { AuthContext, requireAuth, switchWorkspace } from "@/lib/auth/sessions";
+import { describeError } from "@/lib/api-errors";
+import { localizeError } from "@/lib/i18n/localized-error";
+import { getRequestLocale } from "@/lib/i18n/request-locale";
+
+// Next.js API Route Configuration
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// サインイン中のユーザー・選択中のワークスペース・所属するワークスペースの一覧
+async function toSessionResponse(auth: AuthContext) {
+    const workspaces = [];
+    for (const membership of await listMemberships(auth.user.id)) {
+        const workspace = await getWorkspace(membership.workspaceId);
+        if (workspace) workspaces.push({ id: workspace.id, name: workspace.name, role: membership.role });
+    }
+    return {
+        user: { id: auth.user.id, email: auth.user.email },
+        workspace: auth.workspace,
+        role: auth.role,
+        workspaces,
+    };
+}
+
+const errorResponse = (request: NextRequest, error: unknown) => {
+    const { status, details } = describeError(error);
+    return NextResponse.json({ success: false, error: localizeError(error, getRequestLocale(request)), ...details }, { status });
+};
+
+export async function GET(request: NextRequest) {
+    try {
+        return NextResponse.json(await toSessionResponse(await requireAuth(request)));
+    } catch (error: unknown) {
+        return errorResponse(request, error);
+    }
+}
+
+// 選択中のワークスペースの切り替え（JSON: workspaceId）
+export async function PUT(request: NextRequest) {
+    try {
+        const auth = await requireAuth(request);
+        const body = await request.json().catch(() => ({}));
+        await switchWorkspace(auth, body.workspaceId);
+        return NextResponse.json(await toSessionResponse(await requireAuth(request)));
+    } catch (error: unknown) {
+        return errorResponse(request, error);
+    }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+import { cancelInvitation } from "@/lib/auth/accounts";
+import { requireAuth, requireCoach } from "@/lib/auth/sessions";
+import { describeError } from "@/lib/api-errors";
+import { localizeError } from "@/lib/i18n/localized-error";
+import { getRequestLocale } from "@/lib/i18n/request-locale";
+
+// Next.js API Route Configuration
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+    params: { id: string };
+}
+
+// 招待の取り消し（コーチのみ）
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+    try {
+        const auth = await requireAuth(request);
+        requireCoach(auth);
+        await cancelInvitation(auth.workspace.id, params.id);
+        return new NextResponse(null, { status: 204 });
+    } catch (error: unknown) {
+        const { status, details } = describeError(error);
+        return NextResponse.json({ success: false, error: localizeError(error, getRequestLocale(request)), ...details }, { status });
+    }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { removeMember } from "@/lib/auth/accounts";
+import { requireAuth, requireCoach } from "@/lib/auth/sessions";
+import { describeError } from "@/lib/api-errors";
+import { localizeError } from "@/lib/i18n/localized-error";
+import { getRequestLocale } from "@/lib/i18n/request-locale";
+
+// Next.js API Route Configuration
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+    params: { userId: string };
+}
+
+// メンバーをワークスペースから外す（コーチのみ。保存済みの解析結果は残る）
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+    try {
+        const auth = await requireAuth(request);
+        requireCoach(auth);
+        await removeMember(auth.workspace.id, params.userId);
+        console.log(`👋 メンバーを削除: ${params.userId} (${auth.workspace.id})`);
+        return new NextResponse(null, { status: 204 });
+    } catch (error: unknown) {
+        const { status, details } = describeError(error);
+        return NextResponse.json({ success: false, error: localizeError(error, getRequestLocale(request)), ...details }, { status });
+    }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { inviteMember, isWorkspaceRole, listInvitations, listMembers, parseEmail } from "@/lib/auth/accounts";
+import { sendSignInLink } from "@/lib/auth/mailer";
+import { AuthContext, createSignInLink, requireAuth, requireCoach } from "@/lib/auth/sessions";
+import { describeError } from "@/lib/api-errors";
+import { LocalizedError, localizeError } from "@/lib/i18n/localized-error";
+import { getRequestLocale } from "@/lib/i18n/request-locale";
+
+// Next.js API Route Configuration
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// メンバー一覧（招待中の一覧はコーチのみ）
+async function toMembersResponse(auth: AuthContext) {
+    return {
+        members: await listMembers(auth.workspace.id),
+        invitations: auth.role === 'coach' ? await listInvitations(auth.workspace.id) : [],
+    };
+}
+
+const errorResponse = (request: NextRequest, error: unknown) => {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    const { status, details } = describeError(error);
+    console.error('❌ ワークスペースのメンバー操作エラー:', { message: errorMessage, errorCode: details.errorCode });
+    return NextResponse.json({ success: false, error: localizeError(error, getRequestLocale(request)), ...details }, { status });
+};
+
+export async function GET(request: NextRequest) {
+    try {
+        return NextResponse.json(await toMembersResponse(await requireAuth(request)));
+    } catch (error: unknown) {
+        return errorResponse(request, error);
+    }
+}
+
+// メンバーの招待・役割の変更（JSON: email, role）
+// 未登録のメールアドレスには招待メールを送り、サインイン時にメンバーになる
+export async function POST(request: NextRequest) {
+    try {
+        const auth = await requireAuth(request);
+        requireCoach(auth);
+        const body = await request.json().catch(() => ({}));
+        const email = parseEmail(body.email);
+        if (!isWorkspaceRole(body.role)) {
+            throw new LocalizedError('errors.invalidRole');
+        }
+
+        const result = await inviteMember(auth.workspace.id, email, body.role, auth.user.id);
+        if (result === 'invited') {
+            const url = await createSignInLink(request, email, '/workspace');
+            await sendSignInLink(email, url, getRequestLocale(request), auth.workspace.name);
+        }
+        console.log(`📨 メンバーを${result === 'invited' ? '招待' : '追加'}: ${email} → ${auth.workspace.id} (${body.role})`);
+        return NextResponse.json({ result, ...await toMembersResponse(auth) });
+    } catch (error: unknown) {
+        return errorResponse(request, error);
+    }
+}
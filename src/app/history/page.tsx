@@ -0,0 +1,316 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import SwingReportView, { scoreColor } from '@/components/SwingReportView';
+import SessionReportView from '@/components/SessionReportView';
+import TempoCard from '@/components/TempoCard';
+import AttachedFrames from '@/components/AttachedFrames';
+import KeyFrames from '@/components/KeyFrames';
+import LocaleSelect from '@/components/LocaleSelect';
+import { useTranslation } from '@/components/I18nProvider';
+import { SCORE_MAX } from '@/lib/swing-report';
+import { formatTimestamp } from '@/lib/swing-session';
+import { CLUB_TYPES, ClubType } from '@/lib/clubs';
+import {
+  AnalysisHistoryEntry,
+  deleteHistoryEntry,
+  listHistoryEntries,
+  updateHistoryEntry,
+} from '@/lib/history-store';
+
+interface HistoryFilter {
+  dateFrom: string;   // YYYY-MM-DD
+  dateTo: string;
+  club: ClubType | '';
+  keyword: string;
+}
+
+const EMPTY_FILTER: HistoryFilter = { dateFrom: '', dateTo: '', club: '', keyword: '' };
+
+// 端末のタイムゾーンでの日付（YYYY-MM-DD）
+const toLocalDate = (iso: string) => {
+  const date = new Date(iso);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+const matchesFilter = (entry: AnalysisHistoryEntry, filter: HistoryFilter) => {
+  const date = toLocalDate(entry.createdAt);
+  if (filter.dateFrom && date < filter.dateFrom) return false;
+  if (filter.dateTo && date > filter.dateTo) return false;
+  if (filter.club && entry.club !== filter.club) return false;
+  if (filter.keyword) {
+    const keyword = filter.keyword.toLowerCase();
+    const haystack = [entry.fileName, entry.notes, entry.report?.summary ?? entry.session?.summary?.summary ?? '']
+      .join('\n')
+      .toLowerCase();
+    if (!haystack.includes(keyword)) return false;
+  }
+  return true;
+};
+
+// 一覧に表示する総合スコア（セッションは平均）
+const entryScore = (entry: AnalysisHistoryEntry) =>
+  entry.session ? entry.session.averageScores.overall : entry.report?.overallScore ?? undefined;
+
+export default function HistoryPage() {
+  const { locale, t } = useTranslation();
+  const [entries, setEntries] = useState<AnalysisHistoryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [filter, setFilter] = useState<HistoryFilter>(EMPTY_FILTER);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [notesDraft, setNotesDraft] = useState('');
+  const [selectedSwingIndex, setSelectedSwingIndex] = useState(0);
+
+  useEffect(() => {
+    listHistoryEntries()
+      .then(setEntries)
+      .catch((error) => {
+        console.error('履歴の読み込みエラー:', error);
+        setLoadError(error instanceof Error ? error.message : '');
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const filteredEntries = useMemo(() => entries.filter(entry => matchesFilter(entry, filter)), [entries, filter]);
+  const selectedEntry = entries.find(entry => entry.id === selectedId) ?? null;
+
+  const handleSelect = (entry: AnalysisHistoryEntry) => {
+    if (entry.id === selectedId) {
+      setSelectedId(null);
+      return;
+    }
+    setSelectedId(entry.id);
+    setNotesDraft(entry.notes);
+    setSelectedSwingIndex(0);
+  };
+
+  const handleUpdate = async (id: string, changes: Parameters<typeof updateHistoryEntry>[1]) => {
+    try {
+      const updated = await updateHistoryEntry(id, changes);
+      setEntries(prev => prev.map(entry => entry.id === id ? updated : entry));
+    } catch (error) {
+      alert(error instanceof Error ? error.message : t('history.updateFailed'));
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm(t('history.confirmDelete'))) return;
+    try {
+      await deleteHistoryEntry(id);
+      setEntries(prev => prev.filter(entry => entry.id !== id));
+      setSelectedId(null);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : t('history.deleteFailed'));
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-green-50 to-blue-50 p-4">
+      <div className="max-w-4xl mx-auto">
+        {/* ヘッダー */}
+        <header className="text-center py-8">
+          <h1 className="text-4xl font-bold text-gray-800 mb-2">
+            {t('history.title')}
+          </h1>
+          <p className="text-gray-600">
+            {t('history.description')}
+          </p>
+          <Link
+            href="/"
+            className="inline-block mt-3 px-4 py-1 text-sm text-blue-700 border border-blue-300 rounded-full hover:bg-blue-50 transition-colors"
+          >
+            {t('history.back')}
+          </Link>
+          <div className="mt-3">
+            <LocaleSelect />
+          </div>
+        </header>
+
+        <main className="space-y-6">
+          {/* 絞り込み */}
+          <div className="bg-white rounded-lg shadow-lg p-4 flex flex-wrap items-end gap-3 text-sm text-gray-700">
+            <label className="flex flex-col gap-1">
+              {t('history.dateFrom')}
+              <input
+                type="date"
+                value={filter.dateFrom}
+                onChange={(e) => setFilter({ ...filter, dateFrom: e.target.value })}
+                className="px-2 py-1 border border-gray-300 rounded"
+              />
+            </label>
+            <label className="flex flex-col gap-1">
+              {t('history.dateTo')}
+              <input
+                type="date"
+                value={filter.dateTo}
+                onChange={(e) => setFilter({ ...filter, dateTo: e.target.value })}
+                className="px-2 py-1 border border-gray-300 rounded"
+              />
+            </label>
+            <label className="flex flex-col gap-1">
+              {t('history.club')}
+              <select
+                value={filter.club}
+                onChange={(e) => setFilter({ ...filter, club: e.target.value as ClubType | '' })}
+                className="px-2 py-1 border border-gray-300 rounded"
+              >
+                <option value="">{t('common.all')}</option>
+                {CLUB_TYPES.map(({ key }) => (
+                  <option key={key} value={key}>{t(`clubs.${key}`)}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1 flex-1 min-w-[10rem]">
+              {t('history.keyword')}
+              <input
+                type="search"
+                value={filter.keyword}
+                onChange={(e) => setFilter({ ...filter, keyword: e.target.value })}
+                placeholder={t('history.keywordPlaceholder')}
+                className="px-2 py-1 border border-gray-300 rounded"
+              />
+            </label>
+            <button
+              type="button"
+              onClick={() => setFilter(EMPTY_FILTER)}
+              className="px-3 py-1 text-xs bg-gray-100 rounded hover:bg-gray-200"
+            >
+              {t('common.clear')}
+            </button>
+          </div>
+
+          {/* 一覧 */}
+          <div className="bg-white rounded-lg shadow-lg p-4">
+            {isLoading ? (
+              <p className="text-center text-gray-500 py-8">{t('history.loading')}</p>
+            ) : loadError !== null ? (
+              <p className="text-center text-red-600 py-8">❌ {loadError || t('history.loadFailed')}</p>
+            ) : filteredEntries.length === 0 ? (
+              <p className="text-center text-gray-500 py-8">
+                {entries.length === 0 ? t('history.empty') : t('history.noMatch')}
+              </p>
+            ) : (
+              <ul className="divide-y divide-gray-200">
+                {filteredEntries.map((entry) => {
+                  const score = entryScore(entry);
+                  return (
+                    <li key={entry.id} className="py-3">
+                      <button
+                        type="button"
+                        onClick={() => handleSelect(entry)}
+                        className="w-full flex items-center gap-3 text-left hover:bg-gray-50 rounded p-1"
+                      >
+                        {entry.thumbnail ? (
+                          // eslint-disable-next-line @next/next/no-img-element
+                          <img src={entry.thumbnail} alt="" className="w-20 h-14 object-cover rounded bg-black flex-shrink-0" />
+                        ) : (
+                          <div className="w-20 h-14 rounded bg-gray-200 flex items-center justify-center text-2xl flex-shrink-0">🏌️</div>
+                        )}
+                        <div className="flex-1 min-w-0">
+                          <p className="font-medium text-gray-800 truncate">{entry.fileName}</p>
+                          <p className="text-xs text-gray-500">
+                            {new Date(entry.createdAt).toLocaleString(locale)} ・ {entry.club ? t(`clubs.${entry.club}`) : t('common.unspecified')}
+                            {entry.session && ` ・ ${t('history.swingCount', { count: entry.session.swings.length })}`}
+                          </p>
+                          {entry.notes && <p className="text-xs text-gray-600 truncate">📝 {entry.notes}</p>}
+                        </div>
+                        {score !== undefined && (
+                          <span className={`flex-shrink-0 px-3 py-1 rounded-full text-sm font-semibold ${scoreColor(score)}`}>
+                            {score} / {SCORE_MAX}
+                          </span>
+                        )}
+                      </button>
+
+                      {/* 詳細 */}
+                      {selectedEntry?.id === entry.id && (
+                        <div className="mt-3 space-y-4 border-t border-gray-100 pt-3">
+                          <div className="flex flex-wrap items-center gap-3 text-sm text-gray-700">
+                            <label className="flex items-center gap-2">
+                              {t('home.club')}
+                              <select
+                                value={entry.club ?? ''}
+                                onChange={(e) => handleUpdate(entry.id, { club: (e.target.value as ClubType) || undefined })}
+                                className="px-2 py-1 border border-gray-300 rounded"
+                              >
+                                <option value="">{t('common.unspecified')}</option>
+                                {CLUB_TYPES.map(({ key }) => (
+                                  <option key={key} value={key}>{t(`clubs.${key}`)}</option>
+                                ))}
+                              </select>
+                            </label>
+                            {entry.cameraAngle && (
+                              <span className="text-xs text-gray-500">🎥 {t(`cameraAngles.${entry.cameraAngle}`)}</span>
+                            )}
+                            {entry.fileInfo && (
+                              <span className="text-xs text-gray-500">
+                                {entry.fileInfo.originalSize} ・ {entry.fileInfo.method}
+                                {entry.fileInfo.model && ` ・ ${entry.fileInfo.model}`}
+                                {entry.fileInfo.video?.width && ` ・ ${entry.fileInfo.video.width}x${entry.fileInfo.video.height}`}
+                                {entry.fileInfo.video?.codec && ` ・ ${entry.fileInfo.video.codec}`}
+                                {entry.fileInfo.video?.durationSeconds !== undefined && ` ・ ${formatTimestamp(entry.fileInfo.video.durationSeconds)}`}
+                              </span>
+                            )}
+                          </div>
+
+                          <div className="space-y-2">
+                            <textarea
+                              value={notesDraft}
+                              onChange={(e) => setNotesDraft(e.target.value)}
+                              placeholder={t('history.notesPlaceholder')}
+                              rows={3}
+                              className="w-full px-3 py-2 text-sm border border-gray-300 rounded"
+                            />
+                            <div className="flex justify-between">
+                              <button
+                                type="button"
+                                onClick={() => handleUpdate(entry.id, { notes: notesDraft })}
+                                disabled={notesDraft === entry.notes}
+                                className="px-4 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:bg-gray-300"
+                              >
+                                {t('history.saveNotes')}
+                              </button>
+                              <button
+                                type="button"
+                                onClick={() => handleDelete(entry.id)}
+                                className="px-4 py-1 text-sm text-red-600 hover:underline"
+                              >
+                                {t('common.delete')}
+                              </button>
+                            </div>
+                          </div>
+
+                          {entry.tempo && <TempoCard tempo={entry.tempo} />}
+
+                          {entry.session ? (
+                            <SessionReportView
+                              session={entry.session}
+                              selectedIndex={selectedSwingIndex}
+                              onSelect={setSelectedSwingIndex}
+                            />
+                          ) : entry.report ? (
+                            <SwingReportView report={entry.report} />
+                          ) : (
+                            <pre className="whitespace-pre-wrap text-gray-800 text-sm leading-relaxed font-sans">
+                              {entry.analysis}
+                            </pre>
+                          )}
+
+                          {entry.keyFrames && <KeyFrames frames={entry.keyFrames} />}
+
+                          {entry.frames && <AttachedFrames frames={entry.frames} />}
+                        </div>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </div>
+        </main>
+      </div>
+    </div>
+  );
+}
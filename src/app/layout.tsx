@@ -1,6 +1,7 @@
 import type { Metadata, Viewport } from "next";
 import localFont from "next/font/local";
 import "./globals.css";
+import I18nProvider from "@/components/I18nProvider";
 
 const geistSans = localFont({
   src: "./fonts/GeistVF.woff",
@@ -34,6 +35,7 @@ export default function RootLayout({
   children: React.ReactNode;
 }>) {
   return (
+    // lang はクライアントで表示言語に合わせて更新する（I18nProvider）
     <html lang="ja">
       <head>
         <link rel="manifest" href="/manifest.json" />
@@ -42,7 +44,7 @@ export default function RootLayout({
         <meta name="apple-mobile-web-app-title" content="Golf Analyze" />
       </head>
       <body className={`${geistSans.variable} ${geistMono.variable} antialiased`}>
-        {children}
+        <I18nProvider>{children}</I18nProvider>
       </body>
     </html>
   );
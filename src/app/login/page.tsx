@@ -0,0 +1,106 @@
+'use client';
+
+import { Suspense, useState } from 'react';
+import { useSearchParams } from 'next/navigation';
+import LocaleSelect from '@/components/LocaleSelect';
+import { useTranslation } from '@/components/I18nProvider';
+
+// メールのリンクによるサインイン
+function LoginForm() {
+  const { locale, t } = useTranslation();
+  const searchParams = useSearchParams();
+  const [email, setEmail] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // 期限切れ・使用済みのリンクからサインインしようとした場合
+  const isLinkInvalid = searchParams.get('error') === 'invalid';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSending(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Accept-Language': locale },
+        body: JSON.stringify({ email, next: searchParams.get('next') ?? '/' }),
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || t('common.serverError', { status: response.status }));
+      }
+      setSentTo(email.trim());
+    } catch (err) {
+      setError(t('auth.sendFailed', { message: err instanceof Error ? err.message : '' }));
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6 space-y-4">
+      <p className="text-gray-600 text-sm">{t('auth.description')}</p>
+      {sentTo ? (
+        <p className="p-3 bg-green-50 border border-green-200 rounded-lg text-sm text-green-800">
+          ✅ {t('auth.linkSent', { email: sentTo })}
+        </p>
+      ) : (
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <label className="flex flex-col gap-1 text-sm text-gray-700">
+            {t('auth.email')}
+            <input
+              type="email"
+              required
+              autoComplete="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder={t('auth.emailPlaceholder')}
+              className="px-3 py-2 border border-gray-300 rounded"
+            />
+          </label>
+          <button
+            type="submit"
+            disabled={isSending || email.trim() === ''}
+            className="w-full px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-300 transition-colors"
+          >
+            {isSending ? t('auth.sending') : t('auth.sendLink')}
+          </button>
+        </form>
+      )}
+      {error && <p className="text-sm text-red-600">❌ {error}</p>}
+      {!error && !sentTo && isLinkInvalid && <p className="text-sm text-red-600">❌ {t('auth.invalidLink')}</p>}
+      {process.env.NODE_ENV !== 'production' && (
+        <p className="text-xs text-gray-500">💡 {t('auth.devHint')}</p>
+      )}
+    </div>
+  );
+}
+
+export default function LoginPage() {
+  const { t } = useTranslation();
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-green-50 to-blue-50 p-4">
+      <div className="max-w-md mx-auto">
+        {/* ヘッダー */}
+        <header className="text-center py-8">
+          <h1 className="text-4xl font-bold text-gray-800 mb-2">
+            🏌️ Golf Analyze
+          </h1>
+          <p className="text-gray-600 text-lg">
+            {t('auth.title')}
+          </p>
+          <div className="mt-3">
+            <LocaleSelect />
+          </div>
+        </header>
+
+        {/* useSearchParams を使うため Suspense で囲む */}
+        <Suspense>
+          <LoginForm />
+        </Suspense>
+      </div>
+    </div>
+  );
+}
@@ -1,20 +1,179 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
+import Link from 'next/link';
+import SwingReportView from '@/components/SwingReportView';
+import SessionReportView from '@/components/SessionReportView';
+import PhaseTimeline from '@/components/PhaseTimeline';
+import SwingComparePanel from '@/components/SwingComparePanel';
+import PlayerProfileForm from '@/components/PlayerProfileForm';
+import LocaleSelect from '@/components/LocaleSelect';
+import PoseOverlay from '@/components/PoseOverlay';
+import PoseMetricsPanel, { PoseExtractionStatus } from '@/components/PoseMetricsPanel';
+import TempoCard from '@/components/TempoCard';
+import SwingPlayer from '@/components/SwingPlayer';
+import AttachedFrames from '@/components/AttachedFrames';
+import KeyFrames from '@/components/KeyFrames';
+import ExportButtons from '@/components/ExportButtons';
+import { useTranslation } from '@/components/I18nProvider';
+import type { SwingReport } from '@/lib/swing-report';
+import type { SwingSession } from '@/lib/swing-session';
+import type { AnalysisJobEvent, AnalysisJobStatus } from '@/lib/analysis-jobs';
+import type { AnalysisStage } from '@/lib/analysis-stages';
+import { CLUB_TYPES, ClubType } from '@/lib/clubs';
+import { CAMERA_ANGLES, CameraAngle } from '@/lib/camera-angles';
+import { saveHistoryEntry, updateHistoryEntry } from '@/lib/history-store';
+import { captureVideoThumbnail } from '@/lib/video-thumbnail';
+import { clearUploadResume, uploadInChunks } from '@/lib/chunked-upload';
+import { ApiResponseError, ErrorAction, errorActionOf } from '@/lib/api-errors';
+import type { PlayerProfile } from '@/lib/player-profile';
+import { loadPlayerProfile, savePlayerProfile } from '@/lib/player-profile-storage';
+import type { UsageSnapshot } from '@/lib/usage-limits';
+import type { Locale } from '@/lib/i18n/locales';
+import { translate } from '@/lib/i18n/translate';
+import { PoseTrack, computePoseMetrics } from '@/lib/pose-metrics';
+import { extractPoseTrack } from '@/lib/pose-extraction';
+import { SwingTempo, computeSwingTempo } from '@/lib/swing-tempo';
+import type { KeyFrameImage } from '@/lib/key-frames';
+import type { CapturedFrame } from '@/lib/video-canvas';
+import { MAX_ATTACHED_FRAMES } from '@/lib/attached-frames';
+
+// 解析失敗時に案内する対処方法
+interface ErrorHint {
+  action: ErrorAction;
+  retryAfterSeconds?: number;
+}
+
+// 進行表示に使う段階（20MB以下は uploading / processing を経由しない）
+const PROGRESS_STAGES: AnalysisStage[] = ['received', 'normalizing', 'uploading', 'processing', 'extractingFrames', 'detecting', 'analyzing'];
+
+interface JobWatchHandlers {
+  onStage: (stage: AnalysisStage) => void;
+  onText: (delta: string) => void;
+  onReset: () => void;
+}
+
+// 残りの利用量を取得する（取得できない場合は表示しない）
+const fetchUsage = async (): Promise<UsageSnapshot | null> => {
+  try {
+    const response = await fetch('/api/analyze-file/usage');
+    return response.ok ? await response.json() as UsageSnapshot : null;
+  } catch {
+    return null;
+  }
+};
+
+// ワークスペースの解析結果の添付フレームを置き換える
+const saveRecordFrames = async (analysisId: string, frames: CapturedFrame[], locale: Locale) => {
+  const response = await fetch(`/api/analyses/${analysisId}/frames`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json', 'Accept-Language': locale },
+    body: JSON.stringify({ frames }),
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || translate(locale, 'common.serverError', { status: response.status }));
+  }
+};
+
+// 解析ジョブのSSEを購読し、終了時の状態を返す
+// locale: 404などサーバーのメッセージの言語（EventSource はヘッダーを指定できないためクエリで渡す）
+const watchAnalysisJob = (jobId: string, locale: Locale, handlers: JobWatchHandlers) =>
+  new Promise<AnalysisJobStatus>((resolve, reject) => {
+    const source = new EventSource(`/api/analyze-file/jobs/${jobId}/events?locale=${locale}`);
+    const parse = (event: Event) => JSON.parse((event as MessageEvent<string>).data) as AnalysisJobEvent;
+
+    source.addEventListener('stage', (event) => {
+      const data = parse(event);
+      if (data.type === 'stage') handlers.onStage(data.stage);
+    });
+    source.addEventListener('text', (event) => {
+      const data = parse(event);
+      if (data.type === 'text') handlers.onText(data.delta);
+    });
+    source.addEventListener('reset', () => handlers.onReset());
+    source.addEventListener('end', (event) => {
+      const data = parse(event);
+      source.close();
+      if (data.type === 'end') resolve(data.status);
+    });
+    // 接続が切れた場合はEventSourceが自動で再接続する。再接続不能な場合のみ失敗とする
+    source.onerror = () => {
+      if (source.readyState === EventSource.CLOSED) {
+        reject(new Error(translate(locale, 'home.watchFailed')));
+      }
+    };
+  });
 
 export default function Home() {
+  const { locale, t } = useTranslation();
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [videoPreviewUrl, setVideoPreviewUrl] = useState<string | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [analysisResult, setAnalysisResult] = useState<string>('');
+  const [swingReport, setSwingReport] = useState<SwingReport | null>(null);
   const [showResult, setShowResult] = useState(false);
+  const [jobStage, setJobStage] = useState<AnalysisStage | null>(null);
+  const [streamingText, setStreamingText] = useState('');
+  const [activeJobId, setActiveJobId] = useState<string | null>(null);
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null); // 分割アップロードの進捗（%）
+  const [errorHint, setErrorHint] = useState<ErrorHint | null>(null);
+  const [usage, setUsage] = useState<UsageSnapshot | null>(null);
+  const [trimStart, setTrimStart] = useState('');
+  const [trimEnd, setTrimEnd] = useState('');
+  const [sessionMode, setSessionMode] = useState(false);
+  const [keyFrameMode, setKeyFrameMode] = useState(false);
+  const [club, setClub] = useState<ClubType | ''>('');
+  const [cameraAngle, setCameraAngle] = useState<CameraAngle | ''>('');
+  const [pageMode, setPageMode] = useState<'single' | 'compare'>('single');
+  const [playerProfile, setPlayerProfile] = useState<PlayerProfile | undefined>(undefined);
+  const [swingSession, setSwingSession] = useState<SwingSession | null>(null);
+  const [swingTempo, setSwingTempo] = useState<SwingTempo | null>(null);
+  const [keyFrames, setKeyFrames] = useState<KeyFrameImage[]>([]);
+  const [selectedSwingIndex, setSelectedSwingIndex] = useState(0);
+  const [videoDuration, setVideoDuration] = useState(0);
+  const [videoTime, setVideoTime] = useState(0);
+  const [poseTrack, setPoseTrack] = useState<PoseTrack | null>(null);
+  const [poseStatus, setPoseStatus] = useState<PoseExtractionStatus>('idle');
+  const [poseProgress, setPoseProgress] = useState(0);
+  const [showPoseOverlay, setShowPoseOverlay] = useState(true);
+  const [attachedFrames, setAttachedFrames] = useState<CapturedFrame[]>([]);
+  const [historyEntryId, setHistoryEntryId] = useState<string | null>(null); // 解析結果を保存した履歴
+  const [analysisId, setAnalysisId] = useState<string | null>(null);         // ワークスペースに保存した解析結果（ジョブID）
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const uploadAbortRef = useRef<AbortController | null>(null);
+  const poseAbortRef = useRef<AbortController | null>(null);
+
+  // 解析範囲内のフレームから求めた姿勢とテンポの計測値
+  const poseFrames = useMemo(() => {
+    if (!poseTrack) return null;
+    const start = Number(trimStart) || 0;
+    const end = trimEnd ? Number(trimEnd) : Infinity;
+    return poseTrack.frames.filter(frame => frame.seconds >= start && frame.seconds <= end);
+  }, [poseTrack, trimStart, trimEnd]);
+  const poseMetrics = useMemo(() => poseFrames && computePoseMetrics(poseFrames), [poseFrames]);
+  const measuredTempo = useMemo(() => poseFrames && computeSwingTempo(poseFrames), [poseFrames]);
 
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file && isValidVideoFile(file)) {
       setSelectedFile(file);
       setAnalysisResult(''); // 新しいファイルが選択されたら結果をクリア
+      setSwingReport(null);
+      setSwingSession(null);
+      setSwingTempo(null);
+      setKeyFrames([]);
+      setAnalysisId(null);
       setShowResult(false);
+      setErrorHint(null);
+      setTrimStart('');
+      setTrimEnd('');
+      // 前の動画の姿勢推定は破棄する
+      poseAbortRef.current?.abort();
+      setPoseTrack(null);
+      setPoseStatus('idle');
+      setAttachedFrames([]);
+      setHistoryEntryId(null);
 
       // 動画プレビューURLを作成
       const url = URL.createObjectURL(file);
@@ -24,11 +183,68 @@ export default function Home() {
       console.log('選択された動画ファイル:', {
         name: file.name,
         size: `${(file.size / 1024 / 1024).toFixed(2)}MB`,
-        type: file.type,
-        detectedMimeType: getVideoMimeType(file)
+        type: file.type
       });
     } else {
-      alert('対応していない動画ファイル形式です。\n\n対応形式：\nMP4, MOV, AVI, MKV, WebM, WMV, FLV, 3GP, M4V, OGV');
+      alert(t('home.unsupportedFile'));
+    }
+  };
+
+  // 保存済みのプレーヤープロフィールを読み込む（localStorage はクライアントでのみ参照できる）
+  useEffect(() => {
+    setPlayerProfile(loadPlayerProfile());
+  }, []);
+
+  // 本日・今月の残りの利用量（上限が設定されている場合のみ表示）
+  useEffect(() => {
+    void fetchUsage().then(setUsage);
+  }, []);
+
+  const handleSaveProfile = (profile: PlayerProfile | undefined) => {
+    savePlayerProfile(profile);
+    setPlayerProfile(profile);
+  };
+
+  // 選択した動画の姿勢をブラウザで推定する（動画は送信しない）
+  const handleExtractPose = async () => {
+    if (!selectedFile) return;
+    const controller = new AbortController();
+    poseAbortRef.current = controller;
+    setPoseStatus('extracting');
+    setPoseProgress(0);
+    try {
+      const track = await extractPoseTrack(selectedFile, { signal: controller.signal, onProgress: setPoseProgress });
+      setPoseTrack(track);
+      setPoseStatus('done');
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.error('姿勢推定エラー:', error);
+      setPoseStatus('failed');
+    } finally {
+      if (poseAbortRef.current === controller) poseAbortRef.current = null;
+    }
+  };
+
+  const handleCancelPose = () => {
+    poseAbortRef.current?.abort();
+    setPoseStatus('idle');
+  };
+
+  // ページを離れたら推定を止める
+  useEffect(() => () => poseAbortRef.current?.abort(), []);
+
+  // 添付フレームの変更（解析結果を保存済みなら履歴とワークスペースにも反映する）
+  const updateAttachedFrames = (frames: CapturedFrame[]) => {
+    setAttachedFrames(frames);
+    if (historyEntryId) {
+      updateHistoryEntry(historyEntryId, { frames }).catch(error => {
+        console.warn('⚠️ 添付フレームの保存に失敗しました:', error);
+      });
+    }
+    if (analysisId) {
+      saveRecordFrames(analysisId, frames, locale).catch(error => {
+        console.warn('⚠️ ワークスペースへの添付フレームの保存に失敗しました:', error);
+      });
     }
   };
 
@@ -43,49 +259,6 @@ export default function Home() {
 
 
 
-  // 動画ファイル形式をGemini API対応のmimeTypeに変換する関数
-  const getVideoMimeType = (file: File): string => {
-    const fileName = file.name.toLowerCase();
-    const fileType = file.type.toLowerCase();
-
-    // ファイル拡張子から判定
-    if (fileName.endsWith('.mp4')) {
-      return 'video/mp4';
-    } else if (fileName.endsWith('.mov') || fileName.endsWith('.qt')) {
-      return 'video/mp4'; // MOVをMP4として送信（Gemini APIの互換性向上）
-    } else if (fileName.endsWith('.avi')) {
-      return 'video/mp4'; // AVIもMP4として送信
-    } else if (fileName.endsWith('.mkv')) {
-      return 'video/mp4'; // MKVもMP4として送信
-    } else if (fileName.endsWith('.webm')) {
-      return 'video/webm'; // WebMはサポートされている場合が多い
-    } else if (fileName.endsWith('.wmv')) {
-      return 'video/mp4'; // WMVもMP4として送信
-    } else if (fileName.endsWith('.flv')) {
-      return 'video/mp4'; // FLVもMP4として送信
-    } else if (fileName.endsWith('.3gp') || fileName.endsWith('.3gpp')) {
-      return 'video/3gpp'; // 3GPPはサポートされている場合がある
-    } else if (fileName.endsWith('.m4v')) {
-      return 'video/mp4'; // M4VはMP4として送信
-    } else if (fileName.endsWith('.ogv')) {
-      return 'video/mp4'; // OGVもMP4として送信
-    }
-
-    // MIMEタイプから判定
-    if (fileType.includes('mp4')) {
-      return 'video/mp4';
-    } else if (fileType.includes('quicktime') || fileType.includes('mov')) {
-      return 'video/mp4'; // QuickTime MOVをMP4として送信
-    } else if (fileType.includes('webm')) {
-      return 'video/webm';
-    } else if (fileType.includes('3gpp')) {
-      return 'video/3gpp';
-    }
-
-    // デフォルトはMP4（最も互換性が高い）
-    return 'video/mp4';
-  };
-
   // 動画ファイル形式をチェックする関数
   const isValidVideoFile = (file: File): boolean => {
     const fileName = file.name.toLowerCase();
@@ -116,13 +289,21 @@ export default function Home() {
 
   const handleAnalyze = async () => {
     if (!selectedFile) {
-      alert('まず動画ファイルを選択してください。');
+      alert(t('home.selectFileFirst'));
       return;
     }
 
     setIsAnalyzing(true);
     setAnalysisResult('');
+    setSwingReport(null);
+    setSwingSession(null);
+    setSwingTempo(null);
+    setKeyFrames([]);
+    setAnalysisId(null);
+    setHistoryEntryId(null);
+    setStreamingText('');
     setShowResult(false);
+    setErrorHint(null);
 
     try {
       console.log('🚀 解析開始:', {
@@ -131,110 +312,150 @@ export default function Home() {
         type: selectedFile.type
       });
 
-      const fileSize = selectedFile.size;
-      const GEMINI_BASE64_LIMIT = 20 * 1024 * 1024; // 20MB
-
-      let analysisResult;
-
-      if (fileSize <= GEMINI_BASE64_LIMIT) {
-        // 20MB以下 → クライアント側で直接Gemini API呼び出し
-        console.log('📊 20MB以下 → クライアント側でGemini API直接呼び出し');
-
-        // Google Generative AI SDKを使用
-        const { GoogleGenerativeAI } = await import('@google/generative-ai');
-        const apiKey = process.env.NEXT_PUBLIC_GEMINI_API_KEY;
-
-        if (!apiKey) {
-          throw new Error('Gemini APIキーが設定されていません');
-        }
-
-        const genAI = new GoogleGenerativeAI(apiKey);
-
-        // FileReaderでBase64変換
-        const base64 = await new Promise<string>((resolve, reject) => {
-          const reader = new FileReader();
-          reader.onload = () => {
-            if (typeof reader.result === 'string') {
-              const base64Data = reader.result.split(',')[1];
-              resolve(base64Data);
-            } else {
-              reject(new Error('FileReader結果が文字列ではありません'));
-            }
-          };
-          reader.onerror = () => reject(reader.error);
-          reader.readAsDataURL(selectedFile);
-        });
-
-        console.log(`✅ Base64変換完了: ${base64.length} chars`);
-
-        const model = genAI.getGenerativeModel({
-          model: "gemini-1.5-flash",
-          generationConfig: { maxOutputTokens: 8192, temperature: 0.7 }
-        });
+      // 動画はチャンクに分けてアップロードし、通信が切れても続きから再開する
+      const uploadController = new AbortController();
+      uploadAbortRef.current = uploadController;
+      setUploadProgress(0);
+      const uploadId = await uploadInChunks(selectedFile, {
+        locale,
+        signal: uploadController.signal,
+        onProgress: (received, total) => setUploadProgress(Math.floor((received / total) * 100)),
+      });
+      uploadAbortRef.current = null;
+      setUploadProgress(null);
 
-        const prompt = `この動画はゴルフスイングの動画です。以下の観点から詳細に分析し、日本語で回答してください：
-
-1. **スイングフォーム分析**: アドレス、バックスイング、ダウンスイング、インパクト、フォロースルー
-2. **テンポとリズム**: スイングのテンポ、切り返しのタイミング
-3. **体重移動**: 左右の体重移動の流れ
-4. **軸の安定性**: 頭の位置、体の軸のブレ
-5. **クラブパス**: スイング軌道の確認
-6. **フィニッシュ**: バランスの良いフィニッシュポジション
-7. **改善提案**: 具体的な改善点とアドバイス
-
-**重要**: 動画から実際に観察できる内容のみを分析し、推測は避けてください。観察できない部分は「確認できません」と記載してください。`;
-
-        console.log('🔄 Gemini API呼び出し開始');
-        const result = await model.generateContent({
-          contents: [{
-            role: "user",
-            parts: [
-              { text: prompt },
-              { inlineData: { mimeType: selectedFile.type || 'video/quicktime', data: base64 } }
-            ]
-          }]
-        });
+      // 解析オプションを添えてアップロードを完了し、解析ジョブを開始する
+      // （20MB以下はサーバー側でBase64、20MB超はFiles APIで処理される）
+      const formData = new FormData();
+      // トリミング範囲（秒）。指定がなければ動画全体を解析
+      if (trimStart) formData.append('trimStart', trimStart);
+      if (trimEnd) formData.append('trimEnd', trimEnd);
+      // 複数スイングを検出して個別に解析する場合
+      if (sessionMode) formData.append('mode', 'session');
+      // 動画の代わりにキーフレームの静止画だけを送る（1スイングの解析のみ）
+      else if (keyFrameMode) formData.append('pipeline', 'keyFrames');
+      // プレーヤー情報をプロンプトに反映する
+      if (playerProfile) formData.append('profile', JSON.stringify(playerProfile));
+      // クラブ種別と撮影アングルに応じたプロンプトで解析する
+      if (club) formData.append('club', club);
+      if (cameraAngle) formData.append('cameraAngle', cameraAngle);
+      // 姿勢の計測値をレポートの根拠として渡す（1スイングの解析のみ）
+      if (poseMetrics && !sessionMode) formData.append('poseMetrics', JSON.stringify(poseMetrics));
+      if (measuredTempo && !sessionMode) formData.append('tempo', JSON.stringify(measuredTempo));
+      // 解析結果は表示言語で出力する
+      formData.append('language', locale);
+      // 添付したフレームはワークスペースの解析結果に保存する（解析には使わない）
+      if (attachedFrames.length > 0) formData.append('frames', JSON.stringify(attachedFrames));
 
-        analysisResult = result.response.text();
-        console.log('✅ Gemini解析成功！');
+      // ジョブを作成し、完了まで進行段階と部分テキストを受信する
+      const response = await fetch(`/api/analyze-file/uploads/${uploadId}/finalize`, {
+        method: 'POST',
+        headers: { 'Accept-Language': locale },
+        body: formData,
+      });
 
-      } else {
-        // 20MB以上 → サーバー経由でFiles API使用
-        console.log('🎬 20MB以上 → サーバー経由でFiles API使用');
+      const created = await response.json();
 
-        const formData = new FormData();
-        formData.append('file', selectedFile);
+      if (!response.ok) {
+        throw new ApiResponseError(created.error || t('common.serverError', { status: response.status }), created, response.status);
+      }
 
-        const response = await fetch('/api/analyze-file', {
-          method: 'POST',
-          body: formData,
-        });
+      clearUploadResume(selectedFile);
+      setActiveJobId(created.jobId);
+      setJobStage(created.stage);
 
-        const data = await response.json();
+      const status = await watchAnalysisJob(created.jobId, locale, {
+        onStage: setJobStage,
+        onText: (delta) => setStreamingText(prev => prev + delta),
+        onReset: () => setStreamingText(''),
+      });
 
-        if (!response.ok) {
-          throw new Error(data.error || `サーバーエラー: ${response.status}`);
-        }
+      if (status.stage === 'cancelled') {
+        throw new Error(t('home.cancelled'));
+      }
 
-        if (data.success) {
-          analysisResult = data.analysis;
-        } else {
-          throw new Error(data.error || '解析に失敗しました');
-        }
+      const data = status.result;
+      if (status.stage !== 'done' || !data?.success) {
+        throw new ApiResponseError(status.error || data?.error || t('home.failed'), status.errorCode ? status : data ?? {});
       }
 
       // 結果表示
-      setAnalysisResult(analysisResult);
+      setAnalysisResult(data.analysis ?? '');
+      setSwingReport(data.report ?? null);
+      setSwingSession(data.session ?? null);
+      setSwingTempo(data.tempo ?? null);
+      setKeyFrames(data.keyFrames ?? []);
+      setAnalysisId(created.jobId);
+      setSelectedSwingIndex(0);
       setShowResult(true);
 
+      // 解析結果を端末内の履歴に保存（失敗しても結果表示は継続）
+      try {
+        const saved = await saveHistoryEntry({
+          fileName: selectedFile.name,
+          club: club || undefined,
+          cameraAngle: cameraAngle || undefined,
+          notes: '',
+          analysis: data.analysis ?? '',
+          report: data.report ?? null,
+          session: data.session,
+          tempo: data.tempo,
+          keyFrames: data.keyFrames,
+          fileInfo: data.fileInfo,
+          thumbnail: captureVideoThumbnail(videoRef.current),
+          frames: attachedFrames,
+        });
+        setHistoryEntryId(saved.id);
+        console.log('💾 解析結果を履歴に保存しました');
+      } catch (historyError) {
+        console.warn('⚠️ 履歴の保存に失敗しました:', historyError);
+      }
+
     } catch (error) {
       console.error('解析エラー:', error);
 
-      const errorMessage = error instanceof Error ? error.message : '解析中にエラーが発生しました。';
+      const cancelled = uploadAbortRef.current?.signal.aborted;
+      const errorMessage = cancelled
+        ? t('home.cancelled')
+        : error instanceof Error ? error.message : t('home.unexpectedError');
       setAnalysisResult(`❌ ${errorMessage}`);
+      // エラーコードに応じた対処方法を案内する（キャンセル・通信エラーは除く）
+      if (!cancelled && error instanceof ApiResponseError) {
+        setErrorHint({ action: errorActionOf(error.details.errorCode), retryAfterSeconds: error.details.retryAfterSeconds });
+      }
       setShowResult(true);
     } finally {
+      uploadAbortRef.current = null;
+      setUploadProgress(null);
+      setActiveJobId(null);
+      setJobStage(null);
+      setStreamingText('');
       setIsAnalyzing(false);
+      void fetchUsage().then(setUsage);
+    }
+  };
+
+  // プレビュー動画を指定位置から再生
+  const handleSeek = (seconds: number) => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.currentTime = seconds;
+    video.play().catch(() => undefined);
+  };
+
+  const resultSucceeded = analysisResult !== '' && !analysisResult.startsWith('❌');
+
+  // タイムラインに表示するレポート（セッションモードでは選択中のスイング）
+  const timelineReport = swingSession ? swingSession.swings[selectedSwingIndex]?.report : swingReport;
+
+  // アップロード中または実行中の解析ジョブをキャンセル
+  const handleCancel = async () => {
+    uploadAbortRef.current?.abort();
+    if (!activeJobId) return;
+    try {
+      await fetch(`/api/analyze-file/jobs/${activeJobId}?locale=${locale}`, { method: 'DELETE' });
+    } catch (error) {
+      console.error('キャンセルエラー:', error);
     }
   };
 
@@ -262,282 +483,554 @@ export default function Home() {
             🏌️ Golf Analyze
           </h1>
           <p className="text-gray-600 text-lg">
-            AIでゴルフスイングを解析して上達をサポート
+            {t('home.tagline')}
           </p>
           <p className="text-sm text-gray-500 mt-2">
             Powered by Google Gemini AI
           </p>
+          <Link
+            href="/history"
+            className="inline-block mt-3 px-4 py-1 text-sm text-blue-700 border border-blue-300 rounded-full hover:bg-blue-50 transition-colors"
+          >
+            {t('home.historyLink')}
+          </Link>
+          <Link
+            href="/workspace"
+            className="inline-block mt-3 ml-2 px-4 py-1 text-sm text-blue-700 border border-blue-300 rounded-full hover:bg-blue-50 transition-colors"
+          >
+            {t('workspace.link')}
+          </Link>
+          <div className="mt-3">
+            <LocaleSelect />
+          </div>
+          <div className="mt-3">
+            <PlayerProfileForm profile={playerProfile} onSave={handleSaveProfile} />
+          </div>
         </header>
 
         {/* メインコンテンツ */}
         <main className="space-y-8">
-          {/* ファイルアップロードセクション */}
-          <div className="bg-white rounded-lg shadow-lg p-6">
-            <h2 className="text-2xl font-semibold text-gray-800 mb-4">
-              📹 動画をアップロード
-            </h2>
-            <div className="border-2 border-dashed border-gray-300 rounded-lg p-8 text-center hover:border-blue-400 transition-colors">
-              <input
-                type="file"
-                accept="video/*,.mp4,.mov,.qt,.avi,.mkv,.webm,.wmv,.flv,.3gp,.3gpp,.m4v,.ogv"
-                onChange={handleFileChange}
-                className="hidden"
-                id="upload"
-              />
-
-              {!videoPreviewUrl ? (
-                // 動画がない場合のアップロードUI
-                <label
-                  htmlFor="upload"
-                  className="cursor-pointer block"
-                >
-                  <div className="mb-4">
-                    <svg
-                      className="mx-auto h-12 w-12 text-gray-400"
-                      stroke="currentColor"
-                      fill="none"
-                      viewBox="0 0 48 48"
-                    >
-                      <path
-                        d="M28 8H12a4 4 0 00-4 4v20m32-12v8m0 0v8a4 4 0 01-4 4H12a4 4 0 01-4-4v-4m32-4l-3.172-3.172a4 4 0 00-5.656 0L28 28M8 32l9.172-9.172a4 4 0 015.656 0L28 28m0 0l4 4m4-24h8m-4-4v8m-12 4h.02"
-                        strokeWidth={2}
-                        strokeLinecap="round"
-                        strokeLinejoin="round"
-                      />
-                    </svg>
-                  </div>
-                  <p className="text-lg text-gray-600 mb-2">
-                    クリックして動画ファイルを選択
-                  </p>
-                  <p className="text-sm text-gray-500">
-                    対応形式：MP4, MOV, AVI, MKV, WebM, WMV, FLV, 3GP, M4V, OGV
-                  </p>
-                  <p className="text-xs text-gray-400 mt-1">
-                    最大2GB対応・iPhone MOVファイル対応
-                  </p>
-                  <div className="mt-2 p-2 bg-blue-50 border border-blue-200 rounded text-xs">
-                    <p className="text-blue-700 font-medium">📝 推奨事項</p>
-                    <p className="text-blue-600 mt-1">
-                      • <strong>20MB未満の動画が好ましい</strong>（高速処理）
+          {/* 解析モードの切り替え */}
+          <div className="flex justify-center gap-2">
+            {([['single', t('home.modeSingle')], ['compare', t('home.modeCompare')]] as const).map(([key, label]) => (
+              <button
+                key={key}
+                type="button"
+                onClick={() => setPageMode(key)}
+                disabled={isAnalyzing}
+                className={`px-4 py-2 rounded-full text-sm font-medium border transition-colors ${
+                  pageMode === key ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
+          {pageMode === 'compare' ? (
+            <SwingComparePanel profile={playerProfile} />
+          ) : (
+            <>
+            {/* ファイルアップロードセクション */}
+            <div className="bg-white rounded-lg shadow-lg p-6">
+              <h2 className="text-2xl font-semibold text-gray-800 mb-4">
+                {t('home.uploadTitle')}
+              </h2>
+              <div className="border-2 border-dashed border-gray-300 rounded-lg p-8 text-center hover:border-blue-400 transition-colors">
+                <input
+                  type="file"
+                  accept="video/*,.mp4,.mov,.qt,.avi,.mkv,.webm,.wmv,.flv,.3gp,.3gpp,.m4v,.ogv"
+                  onChange={handleFileChange}
+                  className="hidden"
+                  id="upload"
+                />
+
+                {!videoPreviewUrl ? (
+                  // 動画がない場合のアップロードUI
+                  <label
+                    htmlFor="upload"
+                    className="cursor-pointer block"
+                  >
+                    <div className="mb-4">
+                      <svg
+                        className="mx-auto h-12 w-12 text-gray-400"
+                        stroke="currentColor"
+                        fill="none"
+                        viewBox="0 0 48 48"
+                      >
+                        <path
+                          d="M28 8H12a4 4 0 00-4 4v20m32-12v8m0 0v8a4 4 0 01-4 4H12a4 4 0 01-4-4v-4m32-4l-3.172-3.172a4 4 0 00-5.656 0L28 28M8 32l9.172-9.172a4 4 0 015.656 0L28 28m0 0l4 4m4-24h8m-4-4v8m-12 4h.02"
+                          strokeWidth={2}
+                          strokeLinecap="round"
+                          strokeLinejoin="round"
+                        />
+                      </svg>
+                    </div>
+                    <p className="text-lg text-gray-600 mb-2">
+                      {t('home.uploadPrompt')}
                     </p>
-                    <p className="text-blue-600">
-                      • 20MB以上の動画は<strong>MP4形式に変換</strong>してください
+                    <p className="text-sm text-gray-500">
+                      {t('home.supportedFormats')}
                     </p>
-                  </div>
-                </label>
-              ) : (
-                // 動画がある場合のプレビューUI
-                <div className="space-y-4">
-                  {/* 動画プレイヤー */}
-                  <div className="relative bg-black rounded-lg overflow-hidden">
-                    <video
+                    <p className="text-xs text-gray-400 mt-1">
+                      {t('home.sizeNote')}
+                    </p>
+                    <div className="mt-2 p-2 bg-blue-50 border border-blue-200 rounded text-xs">
+                      <p className="text-blue-700 font-medium">{t('home.recommendations')}</p>
+                      <p className="text-blue-600 mt-1">
+                        {t('home.recommendSize')}
+                      </p>
+                      <p className="text-blue-600">
+                        {t('home.recommendConvert')}
+                      </p>
+                    </div>
+                  </label>
+                ) : (
+                  // 動画がある場合のプレビューUI
+                  <div className="space-y-4">
+                    {/* 動画プレイヤー（コマ送り・スロー・A–Bループ・描画・フレームの添付） */}
+                    <SwingPlayer
                       src={videoPreviewUrl}
-                      controls
-                      className="w-full max-h-96 object-contain"
-                      preload="metadata"
-                    >
-                      お使いのブラウザは動画の再生をサポートしていません。
-                    </video>
+                      videoRef={videoRef}
+                      overlay={showPoseOverlay && poseTrack && <PoseOverlay videoRef={videoRef} track={poseTrack} />}
+                      onLoadedMetadata={setVideoDuration}
+                      onTimeUpdate={setVideoTime}
+                      onCaptureFrame={attachedFrames.length < MAX_ATTACHED_FRAMES
+                        ? (frame) => updateAttachedFrames([...attachedFrames, frame])
+                        : undefined}
+                    />
+
+                    {/* 添付したフレーム（解析が完了したら解析結果の欄に表示） */}
+                    {!resultSucceeded && (
+                      <AttachedFrames
+                        frames={attachedFrames}
+                        onSeek={handleSeek}
+                        onRemove={(index) => updateAttachedFrames(attachedFrames.filter((_, i) => i !== index))}
+                      />
+                    )}
+
+                    {/* スイングフェーズのタイムライン（解析結果がある場合） */}
+                    {timelineReport?.phases && (
+                      <PhaseTimeline
+                        phases={timelineReport.phases}
+                        duration={videoDuration}
+                        currentTime={videoTime}
+                        onSeek={handleSeek}
+                      />
+                    )}
+
+                    {/* トリミング範囲（スイング部分のみ解析する場合） */}
+                    <div className="flex flex-wrap items-center justify-center gap-2 text-sm text-gray-700">
+                      <span className="font-medium">{t('home.trimLabel')}</span>
+                      <input
+                        type="number"
+                        min={0}
+                        step={0.1}
+                        value={trimStart}
+                        onChange={(e) => setTrimStart(e.target.value)}
+                        placeholder={t('home.trimStart')}
+                        className="w-24 px-2 py-1 border border-gray-300 rounded"
+                      />
+                      <button
+                        type="button"
+                        onClick={() => setTrimStart((videoRef.current?.currentTime ?? 0).toFixed(1))}
+                        className="px-2 py-1 text-xs bg-gray-100 rounded hover:bg-gray-200"
+                      >
+                        {t('home.currentPosition')}
+                      </button>
+                      <span>〜</span>
+                      <input
+                        type="number"
+                        min={0}
+                        step={0.1}
+                        value={trimEnd}
+                        onChange={(e) => setTrimEnd(e.target.value)}
+                        placeholder={t('home.trimEnd')}
+                        className="w-24 px-2 py-1 border border-gray-300 rounded"
+                      />
+                      <button
+                        type="button"
+                        onClick={() => setTrimEnd((videoRef.current?.currentTime ?? 0).toFixed(1))}
+                        className="px-2 py-1 text-xs bg-gray-100 rounded hover:bg-gray-200"
+                      >
+                        {t('home.currentPosition')}
+                      </button>
+                      {(trimStart || trimEnd) && (
+                        <button
+                          type="button"
+                          onClick={() => { setTrimStart(''); setTrimEnd(''); }}
+                          className="px-2 py-1 text-xs text-red-600 hover:underline"
+                        >
+                          {t('common.clear')}
+                        </button>
+                      )}
+                    </div>
+
+                    {/* ブラウザでの姿勢推定と計測値 */}
+                    <PoseMetricsPanel
+                      status={poseStatus}
+                      progress={poseProgress}
+                      metrics={poseMetrics}
+                      showOverlay={showPoseOverlay}
+                      onToggleOverlay={setShowPoseOverlay}
+                      onExtract={handleExtractPose}
+                      onCancel={handleCancelPose}
+                      onSeek={handleSeek}
+                    />
+
+                    {/* 解析モード・使用クラブ・撮影アングル */}
+                    <div className="flex flex-wrap items-center justify-center gap-4 text-sm text-gray-700">
+                      <label className="flex items-center gap-2">
+                        <input
+                          type="checkbox"
+                          checked={sessionMode}
+                          onChange={(e) => setSessionMode(e.target.checked)}
+                        />
+                        {t('home.sessionMode')}
+                      </label>
+                      <label className="flex items-center gap-2" title={t('home.keyFrameModeHint')}>
+                        <input
+                          type="checkbox"
+                          checked={keyFrameMode && !sessionMode}
+                          disabled={sessionMode}
+                          onChange={(e) => setKeyFrameMode(e.target.checked)}
+                        />
+                        {t('home.keyFrameMode')}
+                      </label>
+                      <label className="flex items-center gap-2">
+                        {t('home.club')}
+                        <select
+                          value={club}
+                          onChange={(e) => setClub(e.target.value as ClubType | '')}
+                          className="px-2 py-1 border border-gray-300 rounded"
+                        >
+                          <option value="">{t('common.unspecified')}</option>
+                          {CLUB_TYPES.map(({ key }) => (
+                            <option key={key} value={key}>{t(`clubs.${key}`)}</option>
+                          ))}
+                        </select>
+                      </label>
+                      <label className="flex items-center gap-2">
+                        {t('home.cameraAngle')}
+                        <select
+                          value={cameraAngle}
+                          onChange={(e) => setCameraAngle(e.target.value as CameraAngle | '')}
+                          className="px-2 py-1 border border-gray-300 rounded"
+                        >
+                          <option value="">{t('common.unspecified')}</option>
+                          {CAMERA_ANGLES.map(({ key }) => (
+                            <option key={key} value={key}>{t(`cameraAngles.${key}`)}</option>
+                          ))}
+                        </select>
+                      </label>
+                    </div>
+
+                    {/* ファイル情報と再選択ボタン */}
+                    <div className="text-center space-y-2">
+                      <p className="text-sm text-gray-600">
+                        {t('home.previewNote')}
+                      </p>
+                      <label
+                        htmlFor="upload"
+                        className="inline-block px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors cursor-pointer text-sm"
+                      >
+                        {t('home.chooseAnother')}
+                      </label>
+                    </div>
                   </div>
+                )}
 
-                  {/* ファイル情報と再選択ボタン */}
-                  <div className="text-center space-y-2">
-                    <p className="text-sm text-gray-600">
-                      この動画が解析されます。再生して内容を確認してください。
+                {selectedFile && (
+                  <div className="mt-4 p-3 bg-green-50 rounded-lg">
+                    <p className="text-green-800 font-medium">
+                      {t('home.selected', { name: selectedFile.name })}
                     </p>
-                    <label
-                      htmlFor="upload"
-                      className="inline-block px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors cursor-pointer text-sm"
-                    >
-                      📁 別の動画を選択
-                    </label>
-                  </div>
-                </div>
-              )}
-
-              {selectedFile && (
-                <div className="mt-4 p-3 bg-green-50 rounded-lg">
-                  <p className="text-green-800 font-medium">
-                    ✅ 選択済み: {selectedFile.name}
-                  </p>
-                  <p className="text-green-600 text-sm">
-                    サイズ: {(selectedFile.size / 1024 / 1024).toFixed(2)} MB
-                  </p>
-                  <p className="text-purple-600 text-xs">
-                    ファイル形式: {selectedFile.type || '不明'} → {getVideoMimeType(selectedFile)}
-                  </p>
-                  <p className="text-blue-600 text-xs">
-                    処理方法: {selectedFile.size <= 20 * 1024 * 1024 ? 'Base64形式（20MB以下）' : 'Files API（20MB超）'}
-                  </p>
-                  {selectedFile.size > 20 * 1024 * 1024 && selectedFile.size <= 2 * 1024 * 1024 * 1024 && (
-                    <div className="text-orange-600 text-xs mt-1 p-2 bg-orange-50 rounded border border-orange-200">
-                      <p className="font-medium">💡 最適化のヒント</p>
-                      <p>20MB以上のファイルです。MP4形式に変換すると処理が安定します。</p>
-                    </div>
-                  )}
-                  {selectedFile.size > 2 * 1024 * 1024 * 1024 && (
-                    <p className="text-red-600 text-sm mt-1">
-                      ⚠️ ファイルサイズが2GBを超えています
+                    <p className="text-green-600 text-sm">
+                      {t('home.fileSize', { size: (selectedFile.size / 1024 / 1024).toFixed(2) })}
                     </p>
-                  )}
-                </div>
-              )}
+                    <p className="text-purple-600 text-xs">
+                      {t('home.fileType', { type: selectedFile.type || t('common.unknown') })}
+                    </p>
+                    <p className="text-blue-600 text-xs">
+                      {t('home.processingMethod')}
+                    </p>
+                    {selectedFile.size > 2 * 1024 * 1024 * 1024 && (
+                      <p className="text-red-600 text-sm mt-1">
+                        {t('home.fileTooLarge')}
+                      </p>
+                    )}
+                  </div>
+                )}
+              </div>
             </div>
-          </div>
 
-          {/* 解析ボタンセクション */}
-          <div className="bg-white rounded-lg shadow-lg p-6">
-            <h2 className="text-2xl font-semibold text-gray-800 mb-4">
-              🤖 AI解析
-            </h2>
-            <button
-              id="analyze-button"
-              onClick={handleAnalyze}
-              disabled={!selectedFile || isAnalyzing || (selectedFile && selectedFile.size > 2 * 1024 * 1024 * 1024)}
-              className={`w-full py-4 px-6 rounded-lg font-semibold text-lg transition-all ${
-                !selectedFile || isAnalyzing || (selectedFile && selectedFile.size > 2 * 1024 * 1024 * 1024)
-                  ? 'bg-gray-300 text-gray-500 cursor-not-allowed'
-                  : 'bg-blue-600 text-white hover:bg-blue-700 active:bg-blue-800'
-              }`}
-            >
-              {isAnalyzing ? (
-                <div className="flex items-center justify-center">
-                  <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-white mr-3"></div>
-                  Gemini AIで解析中...
-                </div>
-              ) : (
-                '🚀 スイング解析を開始'
-              )}
-            </button>
-            <div className="text-xs text-gray-500 mt-2 text-center space-y-1">
-              <p>※ ファイルサイズが大きい場合、解析に数分かかることがあります</p>
-              <p className="text-blue-600">
-                💡 20MB未満の動画：約30秒〜1分 / 20MB以上：約2〜5分
-              </p>
+            {/* 解析ボタンセクション */}
+            <div className="bg-white rounded-lg shadow-lg p-6">
+              <h2 className="text-2xl font-semibold text-gray-800 mb-4">
+                {t('home.analyzeTitle')}
+              </h2>
+              <button
+                id="analyze-button"
+                onClick={handleAnalyze}
+                disabled={!selectedFile || isAnalyzing || (selectedFile && selectedFile.size > 2 * 1024 * 1024 * 1024)}
+                className={`w-full py-4 px-6 rounded-lg font-semibold text-lg transition-all ${
+                  !selectedFile || isAnalyzing || (selectedFile && selectedFile.size > 2 * 1024 * 1024 * 1024)
+                    ? 'bg-gray-300 text-gray-500 cursor-not-allowed'
+                    : 'bg-blue-600 text-white hover:bg-blue-700 active:bg-blue-800'
+                }`}
+              >
+                {isAnalyzing ? (
+                  <div className="flex items-center justify-center">
+                    <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-white mr-3"></div>
+                    {t('home.analyzing')}
+                  </div>
+                ) : (
+                  t('home.startAnalysis')
+                )}
+              </button>
+              <div className="text-xs text-gray-500 mt-2 text-center space-y-1">
+                <p>{t('home.durationNote')}</p>
+                <p className="text-blue-600">
+                  {t('home.durationEstimate')}
+                </p>
+                {usage?.daily && (
+                  <p>📊 {t('home.usageDaily', { remaining: usage.daily.remaining.toLocaleString(locale), limit: usage.daily.limit.toLocaleString(locale) })}</p>
+                )}
+                {usage?.monthly && (
+                  <p>📊 {t('home.usageMonthly', { remaining: usage.monthly.remaining.toLocaleString(locale), limit: usage.monthly.limit.toLocaleString(locale) })}</p>
+                )}
+              </div>
             </div>
-          </div>
 
-          {/* 結果表示セクション */}
-          <div className="bg-white rounded-lg shadow-lg p-6">
-            <h2 className="text-2xl font-semibold text-gray-800 mb-4">
-              📊 解析結果
-            </h2>
-            <div
-              id="result"
-              className={`min-h-[200px] p-4 rounded-lg border-2 transition-all duration-700 ease-in-out ${
-                analysisResult
-                  ? analysisResult.startsWith('❌')
-                    ? 'bg-red-50 border-red-200'
-                    : 'bg-green-50 border-green-200'
-                  : 'bg-gray-50 border-gray-200'
-              }`}
-            >
-              {isAnalyzing ? (
-                /* ローディング表示 */
-                <div className="flex flex-col items-center justify-center h-full min-h-[200px] text-blue-600">
-                  <div className="relative">
-                    {/* メインローディングスピナー */}
-                    <div className="animate-spin rounded-full h-16 w-16 border-4 border-blue-200 border-t-blue-600 mb-4"></div>
-
-                    {/* パルス効果 */}
-                    <div className="absolute inset-0 rounded-full animate-ping bg-blue-400 opacity-20"></div>
-                  </div>
+            {/* 結果表示セクション */}
+            <div className="bg-white rounded-lg shadow-lg p-6">
+              <h2 className="text-2xl font-semibold text-gray-800 mb-4">
+                {t('home.resultTitle')}
+              </h2>
+              <div
+                id="result"
+                className={`min-h-[200px] p-4 rounded-lg border-2 transition-all duration-700 ease-in-out ${
+                  analysisResult
+                    ? analysisResult.startsWith('❌')
+                      ? 'bg-red-50 border-red-200'
+                      : 'bg-green-50 border-green-200'
+                    : 'bg-gray-50 border-gray-200'
+                }`}
+              >
+                {isAnalyzing ? (
+                  /* ローディング表示 */
+                  <div className="flex flex-col items-center justify-center h-full min-h-[200px] text-blue-600">
+                    <div className="relative">
+                      {/* メインローディングスピナー */}
+                      <div className="animate-spin rounded-full h-16 w-16 border-4 border-blue-200 border-t-blue-600 mb-4"></div>
 
-                  <div className="text-center">
-                    <p className="text-lg font-semibold text-blue-700 mb-2">
-                      🤖 Gemini AIが動画を解析中...
-                    </p>
-                    <p className="text-sm text-blue-600 animate-pulse">
-                      スイングの詳細な分析を行っています
-                    </p>
+                      {/* パルス効果 */}
+                      <div className="absolute inset-0 rounded-full animate-ping bg-blue-400 opacity-20"></div>
+                    </div>
+
+                    <div className="text-center">
+                      <p className="text-lg font-semibold text-blue-700 mb-2">
+                        {t('home.loadingTitle')}
+                      </p>
+                      <p className="text-sm text-blue-600 animate-pulse">
+                        {uploadProgress !== null
+                          ? t('home.uploading', { percent: uploadProgress })
+                          : jobStage ? t(`stages.${jobStage}`) : t('home.loadingDefault')}
+                      </p>
+
+                      {/* 進行段階に応じたプログレスバー */}
+                      <div className="w-64 bg-blue-100 rounded-full h-2 mt-4 mx-auto">
+                        <div
+                          className="bg-blue-600 h-2 rounded-full transition-all duration-500"
+                          style={{
+                            width: `${uploadProgress !== null
+                              ? uploadProgress
+                              : jobStage ? ((PROGRESS_STAGES.indexOf(jobStage) + 1) / PROGRESS_STAGES.length) * 100 : 10}%`
+                          }}
+                        ></div>
+                      </div>
 
-                    {/* プログレスバー風アニメーション */}
-                    <div className="w-64 bg-blue-100 rounded-full h-2 mt-4 mx-auto">
-                      <div className="bg-blue-600 h-2 rounded-full animate-pulse"></div>
+                      {(activeJobId || uploadProgress !== null) && (
+                        <button
+                          onClick={handleCancel}
+                          className="mt-4 px-4 py-1 text-sm text-red-600 border border-red-300 rounded-lg hover:bg-red-50 transition-colors"
+                        >
+                          {t('home.cancel')}
+                        </button>
+                      )}
                     </div>
+
+                    {/* ストリーミング中の部分テキスト */}
+                    {streamingText && (
+                      <div className="w-full mt-4 bg-white bg-opacity-70 rounded-lg p-4 border border-gray-200 max-h-80 overflow-y-auto">
+                        <pre className="whitespace-pre-wrap text-gray-700 text-xs leading-relaxed font-mono">
+                          {streamingText}
+                        </pre>
+                      </div>
+                    )}
                   </div>
-                </div>
-              ) : analysisResult ? (
-                /* 結果表示（アニメーション付き） */
-                <div
-                  className={`transform transition-all duration-700 ease-out ${
-                    showResult
-                      ? 'translate-y-0 opacity-100 scale-100'
-                      : 'translate-y-4 opacity-0 scale-95'
-                  }`}
-                >
-                  <div className="flex items-start space-x-3 mb-3">
-                    <div className="flex-shrink-0">
-                      {analysisResult.startsWith('❌') ? (
-                        <div className="w-8 h-8 bg-red-100 rounded-full flex items-center justify-center">
-                          <span className="text-red-600 text-lg">❌</span>
-                        </div>
+                ) : analysisResult ? (
+                  /* 結果表示（アニメーション付き） */
+                  <div
+                    className={`transform transition-all duration-700 ease-out ${
+                      showResult
+                        ? 'translate-y-0 opacity-100 scale-100'
+                        : 'translate-y-4 opacity-0 scale-95'
+                    }`}
+                  >
+                    <div className="flex items-start space-x-3 mb-3">
+                      <div className="flex-shrink-0">
+                        {analysisResult.startsWith('❌') ? (
+                          <div className="w-8 h-8 bg-red-100 rounded-full flex items-center justify-center">
+                            <span className="text-red-600 text-lg">❌</span>
+                          </div>
+                        ) : (
+                          <div className="w-8 h-8 bg-green-100 rounded-full flex items-center justify-center">
+                            <span className="text-green-600 text-lg">✅</span>
+                          </div>
+                        )}
+                      </div>
+                      <div className="flex-1">
+                        <h3 className="font-semibold text-lg text-gray-800 mb-2">
+                          {analysisResult.startsWith('❌') ? t('home.errorTitle') : t('home.doneTitle')}
+                        </h3>
+                      </div>
+                    </div>
+
+                    {/* テンポの計測値（姿勢推定を行った1スイングの解析のみ） */}
+                    {swingTempo && <TempoCard tempo={swingTempo} onSeek={handleSeek} />}
+
+                    <div className="bg-white bg-opacity-70 rounded-lg p-4 border border-gray-200">
+                      {swingSession ? (
+                        <SessionReportView
+                          session={swingSession}
+                          selectedIndex={selectedSwingIndex}
+                          onSelect={setSelectedSwingIndex}
+                          onSeek={handleSeek}
+                        />
+                      ) : swingReport ? (
+                        <SwingReportView report={swingReport} />
                       ) : (
-                        <div className="w-8 h-8 bg-green-100 rounded-full flex items-center justify-center">
-                          <span className="text-green-600 text-lg">✅</span>
-                        </div>
+                        /* 構造化レポートがない場合は生テキストを表示 */
+                        <pre className="whitespace-pre-wrap text-gray-800 text-sm leading-relaxed font-sans">
+                          {analysisResult}
+                        </pre>
                       )}
                     </div>
-                    <div className="flex-1">
-                      <h3 className="font-semibold text-lg text-gray-800 mb-2">
-                        {analysisResult.startsWith('❌') ? '解析エラー' : '解析完了！'}
-                      </h3>
-                    </div>
-                  </div>
 
-                  <div className="bg-white bg-opacity-70 rounded-lg p-4 border border-gray-200">
-                    <pre className="whitespace-pre-wrap text-gray-800 text-sm leading-relaxed font-sans">
-                      {analysisResult}
-                    </pre>
-                  </div>
+                    {resultSucceeded && keyFrames.length > 0 && (
+                      <div className="mt-4 bg-white bg-opacity-70 rounded-lg p-4 border border-gray-200">
+                        <KeyFrames frames={keyFrames} onSeek={handleSeek} />
+                      </div>
+                    )}
 
-                  {!analysisResult.startsWith('❌') && (
-                    <div className="mt-4 text-center">
-                      <button
-                        onClick={() => {
-                          setAnalysisResult('');
-                          setShowResult(false);
-                          setSelectedFile(null);
-                          setVideoPreviewUrl(null);
-                        }}
-                        className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm"
+                    {resultSucceeded && attachedFrames.length > 0 && (
+                      <div className="mt-4 bg-white bg-opacity-70 rounded-lg p-4 border border-gray-200">
+                        <AttachedFrames
+                          frames={attachedFrames}
+                          onSeek={handleSeek}
+                          onRemove={(index) => updateAttachedFrames(attachedFrames.filter((_, i) => i !== index))}
+                        />
+                      </div>
+                    )}
+
+                    {/* 失敗時の対処方法 */}
+                    {analysisResult.startsWith('❌') && errorHint && (
+                      <div className="mt-4 p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-gray-700 space-y-3">
+                        <p>
+                          💡 {errorHint.action === 'retryLater' && errorHint.retryAfterSeconds !== undefined
+                            ? t('errorActions.retryAfter', { seconds: errorHint.retryAfterSeconds })
+                            : t(`errorActions.${errorHint.action}`)}
+                        </p>
+                        {(errorHint.action === 'retry' || errorHint.action === 'retryLater') && (
+                          <button
+                            onClick={handleAnalyze}
+                            className="px-4 py-1 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                          >
+                            {t('errorActions.retryButton')}
+                          </button>
+                        )}
+                        {(errorHint.action === 'shrinkFile' || errorHint.action === 'changeFile') && (
+                          <button
+                            onClick={() => {
+                              setAnalysisResult('');
+                              setShowResult(false);
+                              setErrorHint(null);
+                              setSelectedFile(null);
+                              setVideoPreviewUrl(null);
+                            }}
+                            className="px-4 py-1 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+                          >
+                            {t('errorActions.chooseFileButton')}
+                          </button>
+                        )}
+                        {errorHint.action === 'signIn' && (
+                          <Link
+                            href="/login"
+                            className="inline-block px-4 py-1 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                          >
+                            {t('errorActions.signInButton')}
+                          </Link>
+                        )}
+                      </div>
+                    )}
+
+                    {!analysisResult.startsWith('❌') && (
+                      <div className="mt-4 flex flex-wrap items-center justify-center gap-2">
+                        <button
+                          onClick={() => {
+                            setAnalysisResult('');
+                            setSwingReport(null);
+                            setSwingSession(null);
+                            setSwingTempo(null);
+                            setKeyFrames([]);
+                            setAnalysisId(null);
+                            setShowResult(false);
+                            setSelectedFile(null);
+                            setVideoPreviewUrl(null);
+                          }}
+                          className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm"
+                        >
+                          {t('home.analyzeNew')}
+                        </button>
+                        {/* 解析結果を PDF・HTML で保存してコーチなどに共有する */}
+                        {analysisId && <ExportButtons analysisId={analysisId} />}
+                      </div>
+                    )}
+                  </div>
+                ) : (
+                  /* 初期状態 */
+                  <div className="flex items-center justify-center h-full text-gray-500">
+                    <div className="text-center">
+                      <svg
+                        className="mx-auto h-12 w-12 mb-3 text-gray-400"
+                        fill="none"
+                        stroke="currentColor"
+                        viewBox="0 0 24 24"
                       >
-                        🔄 新しい動画を解析
-                      </button>
+                        <path
+                          strokeLinecap="round"
+                          strokeLinejoin="round"
+                          strokeWidth={2}
+                          d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z"
+                        />
+                      </svg>
+                      <p className="text-lg font-medium text-gray-600">{t('home.placeholderTitle')}</p>
+                      <p className="text-sm mt-1 text-gray-500">
+                        {t('home.placeholderBody')}
+                      </p>
                     </div>
-                  )}
-                </div>
-              ) : (
-                /* 初期状態 */
-                <div className="flex items-center justify-center h-full text-gray-500">
-                  <div className="text-center">
-                    <svg
-                      className="mx-auto h-12 w-12 mb-3 text-gray-400"
-                      fill="none"
-                      stroke="currentColor"
-                      viewBox="0 0 24 24"
-                    >
-                      <path
-                        strokeLinecap="round"
-                        strokeLinejoin="round"
-                        strokeWidth={2}
-                        d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z"
-                      />
-                    </svg>
-                    <p className="text-lg font-medium text-gray-600">Gemini AIの解析結果がここに表示されます</p>
-                    <p className="text-sm mt-1 text-gray-500">
-                      動画をアップロードして解析を開始してください
-                    </p>
                   </div>
-                </div>
-              )}
+                )}
+              </div>
             </div>
-          </div>
+            </>
+          )}
         </main>
 
         {/* フッター */}
         <footer className="text-center py-8 text-gray-500">
-          <p>&copy; 2024 Golf Analyze. AI-powered golf improvement.</p>
+          <p>{t('home.footer')}</p>
         </footer>
       </div>
     </div>
@@ -0,0 +1,526 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import SwingReportView, { scoreColor } from '@/components/SwingReportView';
+import SessionReportView from '@/components/SessionReportView';
+import TempoCard from '@/components/TempoCard';
+import KeyFrames from '@/components/KeyFrames';
+import AttachedFrames from '@/components/AttachedFrames';
+import SwingPlayer from '@/components/SwingPlayer';
+import CoachReviewView from '@/components/CoachReviewView';
+import CoachReviewEditor from '@/components/CoachReviewEditor';
+import LocaleSelect from '@/components/LocaleSelect';
+import { useTranslation } from '@/components/I18nProvider';
+import { SCORE_MAX } from '@/lib/swing-report';
+import type { Invitation, Workspace, WorkspaceMember, WorkspaceRole } from '@/lib/auth/accounts';
+import type { AnalysisRecord, AnalysisRecordSummary } from '@/lib/analysis-records';
+import { CoachReviewContent, createReviewDraft, reviewableReports } from '@/lib/coach-review';
+
+interface SessionInfo {
+  user: { id: string; email: string };
+  workspace: Workspace;
+  role: WorkspaceRole;
+  workspaces: { id: string; name: string; role: WorkspaceRole }[];
+}
+
+interface MembersInfo {
+  members: WorkspaceMember[];
+  invitations: Invitation[];
+}
+
+// サインインが切れた場合（401）はサインイン画面に移動させるためのエラー
+class SignInRequiredError extends Error {}
+
+// JSON の API を呼び出す（失敗時はサーバーのメッセージで Error）
+const requestJson = async <T,>(url: string, locale: string, init: RequestInit = {}): Promise<T> => {
+  const response = await fetch(url, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', 'Accept-Language': locale, ...init.headers },
+  });
+  if (response.status === 401) {
+    throw new SignInRequiredError();
+  }
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error || `${response.status}`);
+  }
+  return (response.status === 204 ? null : await response.json()) as T;
+};
+
+export default function WorkspacePage() {
+  const { locale, t } = useTranslation();
+  const router = useRouter();
+  const [session, setSession] = useState<SessionInfo | null>(null);
+  const [membersInfo, setMembersInfo] = useState<MembersInfo>({ members: [], invitations: [] });
+  const [analyses, setAnalyses] = useState<AnalysisRecordSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<WorkspaceRole>('player');
+  const [selected, setSelected] = useState<AnalysisRecord | null>(null);
+  const [selectedSwingIndex, setSelectedSwingIndex] = useState(0);
+  const [showOriginal, setShowOriginal] = useState(false);
+  const [isEditingReview, setIsEditingReview] = useState(false);
+  // コメントの時刻を確認するための動画（サーバーには保存されないため端末のファイルを読み込む）
+  const [videoUrl, setVideoUrl] = useState<string | null>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => {
+    return () => {
+      if (videoUrl) URL.revokeObjectURL(videoUrl);
+    };
+  }, [videoUrl]);
+
+  const roleLabel = (role: WorkspaceRole) => role === 'coach' ? t('workspace.roleCoach') : t('workspace.rolePlayer');
+
+  const handleError = useCallback((error: unknown) => {
+    if (error instanceof SignInRequiredError) {
+      router.push('/login?next=/workspace');
+      return;
+    }
+    console.error('ワークスペースの操作エラー:', error);
+    alert(t('workspace.actionFailed', { message: error instanceof Error ? error.message : '' }));
+  }, [router, t]);
+
+  const loadWorkspace = useCallback(async () => {
+    setIsLoading(true);
+    setLoadError(null);
+    setSelected(null);
+    try {
+      const [sessionInfo, members, analysisList] = await Promise.all([
+        requestJson<SessionInfo>('/api/auth/session', locale),
+        requestJson<MembersInfo>('/api/workspace/members', locale),
+        requestJson<{ analyses: AnalysisRecordSummary[] }>('/api/analyses', locale),
+      ]);
+      setSession(sessionInfo);
+      setMembersInfo(members);
+      setAnalyses(analysisList.analyses);
+    } catch (error) {
+      if (error instanceof SignInRequiredError) {
+        router.push('/login?next=/workspace');
+        return;
+      }
+      console.error('ワークスペースの読み込みエラー:', error);
+      setLoadError(error instanceof Error ? error.message : '');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [locale, router]);
+
+  // 表示言語を切り替えた場合も、エラーメッセージをその言語で受け取れるよう読み込み直す
+  useEffect(() => {
+    void loadWorkspace();
+  }, [loadWorkspace]);
+
+  const handleSwitchWorkspace = async (workspaceId: string) => {
+    try {
+      await requestJson('/api/auth/session', locale, { method: 'PUT', body: JSON.stringify({ workspaceId }) });
+      setNotice(null);
+      await loadWorkspace();
+    } catch (error) {
+      handleError(error);
+    }
+  };
+
+  const handleSignOut = async () => {
+    await fetch('/api/auth/logout', { method: 'POST' }).catch(() => undefined);
+    router.push('/login');
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const { result, ...members } = await requestJson<MembersInfo & { result: 'added' | 'invited' }>('/api/workspace/members', locale, {
+        method: 'POST',
+        body: JSON.stringify({ email: inviteEmail, role: inviteRole }),
+      });
+      setMembersInfo(members);
+      setNotice(t(result === 'invited' ? 'workspace.invited' : 'workspace.added', { email: inviteEmail.trim() }));
+      setInviteEmail('');
+    } catch (error) {
+      handleError(error);
+    }
+  };
+
+  const handleRemoveMember = async (member: WorkspaceMember) => {
+    if (!confirm(t('workspace.confirmRemove', { email: member.email }))) return;
+    try {
+      await requestJson(`/api/workspace/members/${member.userId}`, locale, { method: 'DELETE' });
+      // 自分を外した場合は別のワークスペースに切り替わる
+      await loadWorkspace();
+    } catch (error) {
+      handleError(error);
+    }
+  };
+
+  const handleCancelInvitation = async (invitation: Invitation) => {
+    try {
+      await requestJson(`/api/workspace/invitations/${invitation.id}`, locale, { method: 'DELETE' });
+      setMembersInfo(prev => ({ ...prev, invitations: prev.invitations.filter(item => item.id !== invitation.id) }));
+    } catch (error) {
+      handleError(error);
+    }
+  };
+
+  const handleSelectAnalysis = async (id: string) => {
+    if (selected?.id === id) {
+      setSelected(null);
+      return;
+    }
+    try {
+      setSelected(await requestJson<AnalysisRecord>(`/api/analyses/${id}`, locale));
+      setSelectedSwingIndex(0);
+      setShowOriginal(false);
+      setIsEditingReview(false);
+      setVideoUrl(null);
+    } catch (error) {
+      handleError(error);
+    }
+  };
+
+  const handleDeleteAnalysis = async (id: string) => {
+    if (!confirm(t('workspace.confirmDeleteAnalysis'))) return;
+    try {
+      await requestJson(`/api/analyses/${id}`, locale, { method: 'DELETE' });
+      setAnalyses(prev => prev.filter(item => item.id !== id));
+      setSelected(null);
+    } catch (error) {
+      handleError(error);
+    }
+  };
+
+  const handleSaveReview = async (content: CoachReviewContent, publish: boolean) => {
+    if (!selected) return;
+    try {
+      const updated = await requestJson<AnalysisRecord>(`/api/analyses/${selected.id}/review`, locale, {
+        method: 'PUT',
+        body: JSON.stringify({ ...content, publish }),
+      });
+      setSelected(updated);
+      setAnalyses(prev => prev.map(item => item.id === updated.id ? { ...item, reviewStatus: updated.review?.status } : item));
+      setIsEditingReview(false);
+      setShowOriginal(false);
+    } catch (error) {
+      handleError(error);
+    }
+  };
+
+  const handleSeek = (seconds: number) => {
+    if (videoRef.current) {
+      videoRef.current.currentTime = seconds;
+    }
+  };
+
+  const isCoach = session?.role === 'coach';
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-green-50 to-blue-50 p-4">
+      <div className="max-w-4xl mx-auto">
+        {/* ヘッダー */}
+        <header className="text-center py-8">
+          <h1 className="text-4xl font-bold text-gray-800 mb-2">
+            {t('workspace.title')}
+          </h1>
+          {session && (
+            <p className="text-gray-600">
+              {t('workspace.signedInAs', { email: session.user.email })}
+            </p>
+          )}
+          <div className="mt-3 flex justify-center gap-2">
+            <Link
+              href="/"
+              className="inline-block px-4 py-1 text-sm text-blue-700 border border-blue-300 rounded-full hover:bg-blue-50 transition-colors"
+            >
+              {t('workspace.back')}
+            </Link>
+            <button
+              type="button"
+              onClick={handleSignOut}
+              className="px-4 py-1 text-sm text-gray-700 border border-gray-300 rounded-full hover:bg-gray-50 transition-colors"
+            >
+              {t('auth.signOut')}
+            </button>
+          </div>
+          <div className="mt-3">
+            <LocaleSelect />
+          </div>
+        </header>
+
+        <main className="space-y-6">
+          {isLoading ? (
+            <p className="text-center text-gray-500 py-8">{t('workspace.loading')}</p>
+          ) : loadError !== null || !session ? (
+            <p className="text-center text-red-600 py-8">❌ {loadError || t('workspace.loadFailed')}</p>
+          ) : (
+            <>
+              {/* ワークスペースと役割 */}
+              <div className="bg-white rounded-lg shadow-lg p-4 flex flex-wrap items-center gap-3 text-sm text-gray-700">
+                <label className="flex items-center gap-2">
+                  {t('workspace.current')}
+                  <select
+                    value={session.workspace.id}
+                    onChange={(e) => handleSwitchWorkspace(e.target.value)}
+                    disabled={session.workspaces.length < 2}
+                    className="px-2 py-1 border border-gray-300 rounded"
+                  >
+                    {session.workspaces.map(workspace => (
+                      <option key={workspace.id} value={workspace.id}>
+                        {workspace.name}（{roleLabel(workspace.role)}）
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <span className="text-xs text-gray-500">
+                  {isCoach ? t('workspace.coachNote') : t('workspace.playerNote')}
+                </span>
+              </div>
+
+              {/* メンバー */}
+              <div className="bg-white rounded-lg shadow-lg p-4 space-y-3">
+                <h2 className="font-semibold text-gray-800">{t('workspace.members')}</h2>
+                <ul className="divide-y divide-gray-200 text-sm">
+                  {membersInfo.members.map(member => (
+                    <li key={member.userId} className="py-2 flex items-center gap-3">
+                      <span className="flex-1 text-gray-800">
+                        {member.email}
+                        {member.userId === session.user.id && ` ${t('workspace.you')}`}
+                      </span>
+                      <span className="px-2 py-0.5 rounded-full text-xs bg-gray-100 text-gray-700">{roleLabel(member.role)}</span>
+                      {isCoach && (
+                        <button
+                          type="button"
+                          onClick={() => handleRemoveMember(member)}
+                          className="text-xs text-red-600 hover:underline"
+                        >
+                          {t('workspace.remove')}
+                        </button>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+
+                {isCoach && membersInfo.invitations.length > 0 && (
+                  <div className="space-y-1">
+                    <h3 className="text-sm font-medium text-gray-700">{t('workspace.pendingInvitations')}</h3>
+                    <ul className="text-sm text-gray-600">
+                      {membersInfo.invitations.map(invitation => (
+                        <li key={invitation.id} className="flex items-center gap-3 py-1">
+                          <span className="flex-1">📨 {invitation.email}</span>
+                          <span className="px-2 py-0.5 rounded-full text-xs bg-gray-100">{roleLabel(invitation.role)}</span>
+                          <button
+                            type="button"
+                            onClick={() => handleCancelInvitation(invitation)}
+                            className="text-xs text-red-600 hover:underline"
+                          >
+                            {t('workspace.cancelInvitation')}
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                {/* 招待（コーチのみ） */}
+                {isCoach && (
+                  <form onSubmit={handleInvite} className="flex flex-wrap items-end gap-2 border-t border-gray-100 pt-3 text-sm">
+                    <label className="flex flex-col gap-1 flex-1 min-w-[12rem] text-gray-700">
+                      {t('workspace.invite')}
+                      <input
+                        type="email"
+                        required
+                        value={inviteEmail}
+                        onChange={(e) => setInviteEmail(e.target.value)}
+                        placeholder={t('auth.emailPlaceholder')}
+                        className="px-2 py-1 border border-gray-300 rounded"
+                      />
+                    </label>
+                    <select
+                      value={inviteRole}
+                      onChange={(e) => setInviteRole(e.target.value as WorkspaceRole)}
+                      className="px-2 py-1 border border-gray-300 rounded"
+                    >
+                      <option value="player">{t('workspace.rolePlayer')}</option>
+                      <option value="coach">{t('workspace.roleCoach')}</option>
+                    </select>
+                    <button
+                      type="submit"
+                      className="px-4 py-1 bg-blue-600 text-white rounded hover:bg-blue-700"
+                    >
+                      {t('workspace.inviteButton')}
+                    </button>
+                  </form>
+                )}
+                {notice && <p className="text-sm text-green-700">✅ {notice}</p>}
+              </div>
+
+              {/* 解析結果 */}
+              <div className="bg-white rounded-lg shadow-lg p-4">
+                <h2 className="font-semibold text-gray-800 mb-2">{t('workspace.analyses')}</h2>
+                {analyses.length === 0 ? (
+                  <p className="text-center text-gray-500 py-8">{t('workspace.analysesEmpty')}</p>
+                ) : (
+                  <ul className="divide-y divide-gray-200">
+                    {analyses.map(analysis => (
+                      <li key={analysis.id} className="py-3">
+                        <button
+                          type="button"
+                          onClick={() => handleSelectAnalysis(analysis.id)}
+                          className="w-full flex items-center gap-3 text-left hover:bg-gray-50 rounded p-1"
+                        >
+                          <div className="flex-1 min-w-0">
+                            <p className="font-medium text-gray-800 truncate">{analysis.fileName}</p>
+                            <p className="text-xs text-gray-500">
+                              {new Date(analysis.createdAt).toLocaleString(locale)} ・ {analysis.ownerEmail}
+                              {analysis.club && ` ・ ${t(`clubs.${analysis.club}`)}`}
+                              {analysis.swingCount !== undefined && ` ・ ${t('history.swingCount', { count: analysis.swingCount })}`}
+                              {analysis.frameCount !== undefined && ` ・ ${t('workspace.frameCount', { count: analysis.frameCount })}`}
+                            </p>
+                          </div>
+                          {analysis.reviewStatus && (
+                            <span className="flex-shrink-0 px-2 py-0.5 rounded-full text-xs bg-gray-100 text-gray-700">
+                              {analysis.reviewStatus === 'published' ? t('review.approvedBadge') : t('review.draftBadge')}
+                            </span>
+                          )}
+                          {analysis.overallScore !== undefined && (
+                            <span className={`flex-shrink-0 px-3 py-1 rounded-full text-sm font-semibold ${scoreColor(analysis.overallScore)}`}>
+                              {analysis.overallScore} / {SCORE_MAX}
+                            </span>
+                          )}
+                        </button>
+
+                        {/* 詳細 */}
+                        {selected?.id === analysis.id && (
+                          <div className="mt-3 space-y-4 border-t border-gray-100 pt-3">
+                            {/* コメントの時刻を確認するための動画 */}
+                            <div className="flex flex-wrap items-center gap-2">
+                              <label className="px-3 py-1 text-sm border border-gray-300 rounded cursor-pointer hover:bg-gray-50">
+                                {t('review.loadVideo')}
+                                <input
+                                  type="file"
+                                  accept="video/*"
+                                  className="hidden"
+                                  onChange={(e) => {
+                                    const file = e.target.files?.[0];
+                                    if (file) setVideoUrl(URL.createObjectURL(file));
+                                  }}
+                                />
+                              </label>
+                              <span className="text-xs text-gray-500">{t('review.videoNote')}</span>
+                            </div>
+                            {videoUrl && (
+                              <SwingPlayer src={videoUrl} videoRef={videoRef} className="max-h-80" />
+                            )}
+
+                            {isEditingReview ? (
+                              <CoachReviewEditor
+                                originals={reviewableReports(selected.result)}
+                                initial={selected.review
+                                  ? { reports: selected.review.reports, comments: selected.review.comments }
+                                  : createReviewDraft(reviewableReports(selected.result))}
+                                status={selected.review?.status}
+                                getCurrentTime={() => videoRef.current?.currentTime}
+                                onSeek={handleSeek}
+                                onSave={handleSaveReview}
+                                onCancel={() => setIsEditingReview(false)}
+                              />
+                            ) : (
+                              <div className="flex flex-wrap items-center gap-2">
+                                {selected.review && ([[false, t('review.approvedVersion')], [true, t('review.originalVersion')]] as const).map(([original, label]) => (
+                                  <button
+                                    key={label}
+                                    type="button"
+                                    onClick={() => setShowOriginal(original)}
+                                    className={`px-3 py-1 rounded-full text-xs border transition-colors ${
+                                      showOriginal === original ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                                    }`}
+                                  >
+                                    {label}
+                                  </button>
+                                ))}
+                                {isCoach && (
+                                  <button
+                                    type="button"
+                                    onClick={() => setIsEditingReview(true)}
+                                    className="ml-auto px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700"
+                                  >
+                                    {t('review.edit')}
+                                  </button>
+                                )}
+                              </div>
+                            )}
+
+                            {!isEditingReview && selected.result.tempo && (
+                              <TempoCard tempo={selected.result.tempo} onSeek={videoUrl ? handleSeek : undefined} />
+                            )}
+
+                            {isEditingReview ? null : selected.review && !showOriginal ? (
+                              <CoachReviewView
+                                review={selected.review}
+                                originals={reviewableReports(selected.result)}
+                                onSeek={videoUrl ? handleSeek : undefined}
+                              />
+                            ) : selected.result.session ? (
+                              <SessionReportView
+                                session={selected.result.session}
+                                selectedIndex={selectedSwingIndex}
+                                onSelect={setSelectedSwingIndex}
+                              />
+                            ) : selected.result.report ? (
+                              <SwingReportView report={selected.result.report} />
+                            ) : (
+                              <pre className="whitespace-pre-wrap text-gray-800 text-sm leading-relaxed font-sans">
+                                {selected.result.analysis}
+                              </pre>
+                            )}
+
+                            {!isEditingReview && selected.result.keyFrames && (
+                              <KeyFrames frames={selected.result.keyFrames} onSeek={videoUrl ? handleSeek : undefined} />
+                            )}
+
+                            {!isEditingReview && selected.frames && (
+                              <AttachedFrames frames={selected.frames} onSeek={videoUrl ? handleSeek : undefined} />
+                            )}
+
+                            {/* レビューの操作履歴（監査用。コーチのみ） */}
+                            {isCoach && selected.review && selected.review.history.length > 0 && (
+                              <details className="text-xs text-gray-500">
+                                <summary className="cursor-pointer">{t('review.history')}</summary>
+                                <ul className="mt-1 space-y-0.5">
+                                  {selected.review.history.map((event, i) => (
+                                    <li key={i}>
+                                      {new Date(event.at).toLocaleString(locale)} ・ {t(
+                                        event.action === 'published' ? 'review.historyPublished'
+                                          : event.action === 'unpublished' ? 'review.historyUnpublished' : 'review.historySaved',
+                                        { email: event.userEmail },
+                                      )}
+                                    </li>
+                                  ))}
+                                </ul>
+                              </details>
+                            )}
+                            <div className="text-right">
+                              <button
+                                type="button"
+                                onClick={() => handleDeleteAnalysis(analysis.id)}
+                                className="px-4 py-1 text-sm text-red-600 hover:underline"
+                              >
+                                {t('common.delete')}
+                              </button>
+                            </div>
+                          </div>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </>
+          )}
+        </main>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+import { useTranslation } from '@/components/I18nProvider';
+import { formatTimestamp } from '@/lib/swing-session';
+import type { CapturedFrame } from '@/lib/video-canvas';
+import { MAX_ATTACHED_FRAMES } from '@/lib/attached-frames';
+
+interface AttachedFramesProps {
+  frames: CapturedFrame[];
+  onSeek?: (seconds: number) => void;
+  onRemove?: (index: number) => void;   // 指定しない場合は閲覧のみ
+}
+
+// 解析結果に添付したフレームの一覧
+export default function AttachedFrames({ frames, onSeek, onRemove }: AttachedFramesProps) {
+  const { t } = useTranslation();
+  if (frames.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <h4 className="font-semibold text-gray-800 text-sm">{t('swingPlayer.attachedFrames')}</h4>
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+        {frames.map((frame, i) => (
+          <figure key={`${frame.seconds}-${i}`} className="space-y-1">
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            <img src={frame.image} alt={formatTimestamp(frame.seconds)} className="w-full rounded border border-gray-200 bg-black" />
+            <figcaption className="flex items-center justify-between text-xs text-gray-600">
+              <button
+                type="button"
+                onClick={() => onSeek?.(frame.seconds)}
+                disabled={!onSeek}
+                className="px-2 py-0.5 rounded bg-blue-50 text-blue-700 font-mono hover:bg-blue-100 disabled:hover:bg-blue-50"
+              >
+                {formatTimestamp(frame.seconds)}
+              </button>
+              {onRemove && (
+                <button type="button" onClick={() => onRemove(i)} className="text-red-600 hover:underline">
+                  {t('swingPlayer.removeFrame')}
+                </button>
+              )}
+            </figcaption>
+          </figure>
+        ))}
+      </div>
+      {onRemove && <p className="text-xs text-gray-500">{t('swingPlayer.attachedNote', { max: MAX_ATTACHED_FRAMES })}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,256 @@
+import { useState } from 'react';
+import { useTranslation } from '@/components/I18nProvider';
+import { SWING_REPORT_SECTIONS, SCORE_MAX, SCORE_MIN, SwingReport, SwingReportSectionKey } from '@/lib/swing-report';
+import { formatTimestamp } from '@/lib/swing-session';
+import { CoachReviewContent, REVIEW_TEXT_MAX_LENGTH, ReviewStatus, ReviewedReport, ReviewedSection } from '@/lib/coach-review';
+
+interface CoachReviewEditorProps {
+  originals: (SwingReport | null)[];
+  initial: CoachReviewContent;
+  status?: ReviewStatus;                     // 保存済みのレビューの状態（未作成は undefined）
+  getCurrentTime?: () => number | undefined; // プレビュー動画の再生位置（動画がなければ undefined）
+  onSeek?: (seconds: number) => void;
+  onSave: (content: CoachReviewContent, publish: boolean) => Promise<void>;
+  onCancel: () => void;
+}
+
+const SCORE_OPTIONS = Array.from({ length: SCORE_MAX - SCORE_MIN + 1 }, (_, i) => SCORE_MIN + i);
+
+// スコアの選択（空欄は「確認できない」）
+function ScoreSelect({ value, onChange }: { value: number | null; onChange: (value: number | null) => void }) {
+  return (
+    <select
+      value={value ?? ''}
+      onChange={(e) => onChange(e.target.value === '' ? null : Number(e.target.value))}
+      className="px-2 py-1 text-xs border border-gray-300 rounded"
+    >
+      <option value="">-</option>
+      {SCORE_OPTIONS.map(score => <option key={score} value={score}>{score} / {SCORE_MAX}</option>)}
+    </select>
+  );
+}
+
+// AIレポートのレビュー（指摘の編集・取り消し、動画の時刻つきコメント）
+export default function CoachReviewEditor({ originals, initial, status, getCurrentTime, onSeek, onSave, onCancel }: CoachReviewEditorProps) {
+  const { t } = useTranslation();
+  const [content, setContent] = useState<CoachReviewContent>(initial);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [commentSeconds, setCommentSeconds] = useState('0');
+  const [commentText, setCommentText] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const report = content.reports[selectedIndex];
+  const original = originals[selectedIndex];
+
+  const updateReport = (changes: Partial<ReviewedReport>) => {
+    setContent(prev => ({
+      ...prev,
+      reports: prev.reports.map((item, i) => i === selectedIndex && item ? { ...item, ...changes } : item),
+    }));
+  };
+
+  const updateSection = (key: SwingReportSectionKey, changes: Partial<ReviewedSection>) => {
+    if (!report) return;
+    updateReport({ sections: { ...report.sections, [key]: { ...report.sections[key], ...changes } } });
+  };
+
+  const updatePoint = (key: SwingReportSectionKey, index: number, changes: { text?: string; struck?: boolean }) => {
+    if (!report) return;
+    updateSection(key, {
+      points: report.sections[key].points.map((point, i) => i === index ? { ...point, ...changes } : point),
+    });
+  };
+
+  const handleUseCurrentTime = () => {
+    const seconds = getCurrentTime?.();
+    if (seconds !== undefined) setCommentSeconds(seconds.toFixed(1));
+  };
+
+  const handleAddComment = () => {
+    const seconds = Number(commentSeconds);
+    if (!commentText.trim() || !Number.isFinite(seconds) || seconds < 0) return;
+    setContent(prev => ({
+      ...prev,
+      comments: [...prev.comments, { seconds, text: commentText.trim() }].sort((a, b) => a.seconds - b.seconds),
+    }));
+    setCommentText('');
+  };
+
+  const handleSave = async (publish: boolean) => {
+    setIsSaving(true);
+    try {
+      await onSave(content, publish);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4 p-3 border border-blue-200 rounded-lg bg-blue-50/30">
+      <h4 className="font-semibold text-gray-800">{t('review.editTitle')}</h4>
+
+      {/* スイングの切り替え（セッションのみ） */}
+      {content.reports.length > 1 && (
+        <div className="flex flex-wrap gap-2">
+          {content.reports.map((_, i) => (
+            <button
+              key={i}
+              type="button"
+              onClick={() => setSelectedIndex(i)}
+              className={`px-3 py-1 rounded-lg text-sm border transition-colors ${
+                i === selectedIndex ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+              }`}
+            >
+              {t('review.swing', { index: i + 1 })}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {report && original ? (
+        <>
+          <div className="space-y-1">
+            <div className="flex items-center justify-between text-sm text-gray-700">
+              <span>{t('review.summary')}</span>
+              <label className="flex items-center gap-2">
+                {t('review.overallScore')}
+                <ScoreSelect value={report.overallScore} onChange={(overallScore) => updateReport({ overallScore })} />
+              </label>
+            </div>
+            <textarea
+              value={report.summary}
+              onChange={(e) => updateReport({ summary: e.target.value })}
+              maxLength={REVIEW_TEXT_MAX_LENGTH}
+              rows={3}
+              className="w-full px-3 py-2 text-sm border border-gray-300 rounded"
+            />
+          </div>
+
+          {SWING_REPORT_SECTIONS.map(({ key }, index) => {
+            const section = report.sections[key];
+            return (
+              <div key={key} className="border-t border-gray-200 pt-3 space-y-2">
+                <div className="flex items-center justify-between">
+                  <h5 className="font-semibold text-gray-800 text-sm">
+                    {index + 1}. {t(`sections.${key}`)}
+                  </h5>
+                  <ScoreSelect value={section.score} onChange={(score) => updateSection(key, { score })} />
+                </div>
+                {section.points.map((point, i) => (
+                  <div key={i} className="flex items-start gap-2">
+                    <textarea
+                      value={point.text}
+                      onChange={(e) => updatePoint(key, i, { text: e.target.value })}
+                      maxLength={REVIEW_TEXT_MAX_LENGTH}
+                      rows={2}
+                      disabled={point.struck}
+                      title={t('review.originalText', { text: original.sections[key].observations[i] })}
+                      className={`flex-1 px-2 py-1 text-sm border border-gray-300 rounded ${point.struck ? 'line-through text-gray-400 bg-gray-50' : ''}`}
+                    />
+                    <button
+                      type="button"
+                      onClick={() => updatePoint(key, i, { struck: !point.struck })}
+                      className="flex-shrink-0 px-2 py-1 text-xs border border-gray-300 rounded hover:bg-gray-100"
+                    >
+                      {point.struck ? t('review.restore') : t('review.strike')}
+                    </button>
+                  </div>
+                ))}
+              </div>
+            );
+          })}
+        </>
+      ) : (
+        <p className="text-sm text-gray-500">{t('review.noReport')}</p>
+      )}
+
+      {/* 時刻つきのコメント */}
+      <div className="border-t border-gray-200 pt-3 space-y-2">
+        <h5 className="font-semibold text-gray-800 text-sm">{t('review.comments')}</h5>
+        {content.comments.map((comment, i) => (
+          <div key={i} className="flex items-start gap-2 text-sm text-gray-700">
+            <button
+              type="button"
+              onClick={() => onSeek?.(comment.seconds)}
+              className="flex-shrink-0 px-2 py-0.5 rounded bg-blue-50 text-blue-700 font-mono text-xs hover:bg-blue-100"
+            >
+              {formatTimestamp(comment.seconds)}
+            </button>
+            <span className="flex-1 whitespace-pre-wrap">{comment.text}</span>
+            <button
+              type="button"
+              onClick={() => setContent(prev => ({ ...prev, comments: prev.comments.filter((_, j) => j !== i) }))}
+              className="flex-shrink-0 text-xs text-red-600 hover:underline"
+            >
+              {t('review.removeComment')}
+            </button>
+          </div>
+        ))}
+        <div className="flex flex-wrap items-start gap-2 text-sm">
+          <label className="flex items-center gap-1 text-gray-700">
+            {t('review.seconds')}
+            <input
+              type="number"
+              min={0}
+              step={0.1}
+              value={commentSeconds}
+              onChange={(e) => setCommentSeconds(e.target.value)}
+              className="w-20 px-2 py-1 border border-gray-300 rounded"
+            />
+          </label>
+          <button
+            type="button"
+            onClick={handleUseCurrentTime}
+            disabled={getCurrentTime?.() === undefined}
+            className="px-2 py-1 text-xs border border-gray-300 rounded hover:bg-gray-100 disabled:text-gray-400"
+          >
+            {t('review.useCurrentTime')}
+          </button>
+          <textarea
+            value={commentText}
+            onChange={(e) => setCommentText(e.target.value)}
+            placeholder={t('review.commentPlaceholder')}
+            maxLength={REVIEW_TEXT_MAX_LENGTH}
+            rows={2}
+            className="flex-1 min-w-[12rem] px-2 py-1 border border-gray-300 rounded"
+          />
+          <button
+            type="button"
+            onClick={handleAddComment}
+            disabled={!commentText.trim()}
+            className="px-3 py-1 text-xs bg-gray-100 rounded hover:bg-gray-200 disabled:text-gray-400"
+          >
+            {t('review.addComment')}
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap justify-end gap-2 border-t border-gray-200 pt-3">
+        <button
+          type="button"
+          onClick={onCancel}
+          disabled={isSaving}
+          className="px-4 py-1 text-sm text-gray-700 hover:underline"
+        >
+          {t('review.cancel')}
+        </button>
+        <button
+          type="button"
+          onClick={() => handleSave(false)}
+          disabled={isSaving}
+          className="px-4 py-1 text-sm bg-gray-100 rounded hover:bg-gray-200 disabled:text-gray-400"
+        >
+          {status === 'published' ? t('review.unpublish') : t('review.saveDraft')}
+        </button>
+        <button
+          type="button"
+          onClick={() => handleSave(true)}
+          disabled={isSaving}
+          className="px-4 py-1 text-sm bg-green-600 text-white rounded hover:bg-green-700 disabled:bg-gray-300"
+        >
+          {t('review.publish')}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+import { useState } from 'react';
+import { scoreColor } from '@/components/SwingReportView';
+import { useTranslation } from '@/components/I18nProvider';
+import { SWING_REPORT_SECTIONS, SCORE_MAX, SwingReport } from '@/lib/swing-report';
+import { formatTimestamp } from '@/lib/swing-session';
+import type { CoachReview } from '@/lib/coach-review';
+
+interface CoachReviewViewProps {
+  review: CoachReview;
+  originals: (SwingReport | null)[];   // 編集済みの指摘に元の文言を表示するため
+  onSeek?: (seconds: number) => void;
+}
+
+// コーチが承認したレポート（取り消した指摘は取り消し線、編集した指摘は元の文言を併記）
+export default function CoachReviewView({ review, originals, onSeek }: CoachReviewViewProps) {
+  const { locale, t } = useTranslation();
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const report = review.reports[selectedIndex];
+  const original = originals[selectedIndex];
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-gray-500">
+        {review.status === 'published' && review.publishedAt
+          ? t('review.approvedBy', { email: review.reviewerEmail, date: new Date(review.publishedAt).toLocaleString(locale) })
+          : t('review.draftBy', { email: review.reviewerEmail, date: new Date(review.updatedAt).toLocaleString(locale) })}
+      </p>
+
+      {/* スイングの切り替え（セッションのみ） */}
+      {review.reports.length > 1 && (
+        <div className="flex flex-wrap gap-2">
+          {review.reports.map((_, i) => (
+            <button
+              key={i}
+              type="button"
+              onClick={() => setSelectedIndex(i)}
+              className={`px-3 py-1 rounded-lg text-sm border transition-colors ${
+                i === selectedIndex ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+              }`}
+            >
+              {t('review.swing', { index: i + 1 })}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {report ? (
+        <>
+          {/* 総評 */}
+          <div className="flex items-start justify-between gap-4">
+            <p className="text-gray-800 text-sm leading-relaxed">{report.summary}</p>
+            {report.overallScore !== null && (
+              <span className={`flex-shrink-0 px-3 py-1 rounded-full font-semibold ${scoreColor(report.overallScore)}`}>
+                {report.overallScore} / {SCORE_MAX}
+              </span>
+            )}
+          </div>
+
+          {/* セクションごとの評価 */}
+          {SWING_REPORT_SECTIONS.map(({ key }, index) => {
+            const section = report.sections[key];
+            const observations = original?.sections[key].observations ?? [];
+            return (
+              <div key={key} className="border-t border-gray-200 pt-3">
+                <div className="flex items-center justify-between mb-1">
+                  <h4 className="font-semibold text-gray-800">
+                    {index + 1}. {t(`sections.${key}`)}
+                  </h4>
+                  {section.score !== null && (
+                    <span className={`text-xs px-2 py-0.5 rounded-full font-semibold ${scoreColor(section.score)}`}>
+                      {section.score} / {SCORE_MAX}
+                    </span>
+                  )}
+                </div>
+                {section.points.length > 0 && (
+                  <ul className="list-disc list-inside text-sm text-gray-700 space-y-1">
+                    {section.points.map((point, i) => (
+                      <li key={i} className={point.struck ? 'line-through text-gray-400' : undefined} title={point.struck ? t('review.struckNote') : undefined}>
+                        {point.text}
+                        {!point.struck && observations[i] !== undefined && point.text !== observations[i] && (
+                          <span className="ml-2 text-xs text-blue-600" title={t('review.originalText', { text: observations[i] })}>
+                            {t('review.edited')}
+                          </span>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            );
+          })}
+        </>
+      ) : (
+        <p className="text-sm text-gray-500">{t('review.noReport')}</p>
+      )}
+
+      {/* 時刻つきのコメント（クリックで該当位置へジャンプ） */}
+      <div className="border-t border-gray-200 pt-3">
+        <h4 className="font-semibold text-gray-800 mb-2">{t('review.comments')}</h4>
+        {review.comments.length === 0 ? (
+          <p className="text-sm text-gray-500">{t('review.commentsEmpty')}</p>
+        ) : (
+          <ul className="space-y-1 text-sm text-gray-700">
+            {review.comments.map((comment, i) => (
+              <li key={i} className="flex items-start gap-2">
+                <button
+                  type="button"
+                  onClick={() => onSeek?.(comment.seconds)}
+                  disabled={!onSeek}
+                  className="flex-shrink-0 px-2 py-0.5 rounded bg-blue-50 text-blue-700 font-mono text-xs hover:bg-blue-100 disabled:hover:bg-blue-50"
+                >
+                  {formatTimestamp(comment.seconds)}
+                </button>
+                <span className="whitespace-pre-wrap">{comment.text}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+import { RefObject, useEffect, useRef, useState } from 'react';
+import { VideoPoint, fitCanvasToVideo, toScreenPoint, toVideoPoint, videoContentRect } from '@/lib/video-canvas';
+
+export type ShapeKind = 'line' | 'angle' | 'circle';
+export type DrawingTool = ShapeKind | 'none';
+
+// 図形の点は動画のピクセル座標で持ち、表示サイズが変わっても位置がずれないようにする
+export interface DrawingShape {
+  kind: ShapeKind;
+  points: VideoPoint[];   // line: 始点・終点 / angle: 端点・頂点・端点 / circle: 中心・円周上の点
+  color: string;
+}
+
+// 図形ごとに必要な点の数
+export const SHAPE_POINT_COUNTS: Record<ShapeKind, number> = { line: 2, angle: 3, circle: 2 };
+
+const toDegrees = (radians: number) => Math.round(Math.abs(radians) * 180 / Math.PI * 10) / 10;
+
+// 直線の水平からの角度（0〜90°。スイングプレーンの傾きの目安）
+const lineAngle = ([a, b]: VideoPoint[]) => {
+  const degrees = toDegrees(Math.atan2(b.y - a.y, b.x - a.x));
+  return degrees > 90 ? Math.round((180 - degrees) * 10) / 10 : degrees;
+};
+
+// 頂点（2点目）での角度
+const vertexAngle = ([a, vertex, b]: VideoPoint[]) => {
+  const angle = Math.atan2(a.y - vertex.y, a.x - vertex.x) - Math.atan2(b.y - vertex.y, b.x - vertex.x);
+  const degrees = toDegrees(angle);
+  return degrees > 180 ? Math.round((360 - degrees) * 10) / 10 : degrees;
+};
+
+function drawLabel(context: CanvasRenderingContext2D, text: string, at: VideoPoint, color: string) {
+  context.font = 'bold 14px sans-serif';
+  const width = context.measureText(text).width;
+  context.fillStyle = 'rgba(0, 0, 0, 0.6)';
+  context.fillRect(at.x + 6, at.y - 20, width + 8, 18);
+  context.fillStyle = color;
+  context.fillText(text, at.x + 10, at.y - 6);
+}
+
+// 図形を描く（toScreen で動画のピクセル座標を描画先の座標に変換する）
+// 描画途中の図形は points が必要数に満たないまま渡してよい
+export function drawShapes(context: CanvasRenderingContext2D, shapes: DrawingShape[], toScreen: (point: VideoPoint) => VideoPoint) {
+  context.lineWidth = 3;
+  for (const shape of shapes) {
+    const points = shape.points.map(toScreen);
+    context.strokeStyle = shape.color;
+    context.fillStyle = shape.color;
+    for (const p of points) {
+      context.beginPath();
+      context.arc(p.x, p.y, 3, 0, Math.PI * 2);
+      context.fill();
+    }
+    if (points.length < 2) continue;
+
+    context.beginPath();
+    if (shape.kind === 'circle') {
+      const [center, edge] = points;
+      context.arc(center.x, center.y, Math.hypot(edge.x - center.x, edge.y - center.y), 0, Math.PI * 2);
+    } else {
+      context.moveTo(points[0].x, points[0].y);
+      points.slice(1).forEach(p => context.lineTo(p.x, p.y));
+    }
+    context.stroke();
+
+    if (shape.kind === 'line') {
+      drawLabel(context, `${lineAngle(shape.points)}°`, points[1], shape.color);
+    } else if (shape.kind === 'angle' && points.length === 3) {
+      drawLabel(context, `${vertexAngle(shape.points)}°`, points[1], shape.color);
+    }
+  }
+}
+
+interface DrawingLayerProps {
+  videoRef: RefObject<HTMLVideoElement>;
+  shapes: DrawingShape[];
+  tool: DrawingTool;
+  color: string;
+  onAddShape: (shape: DrawingShape) => void;
+}
+
+// プレビュー動画に重ねる描画レイヤー（ツールを選んでいる間だけクリックを受け付ける）
+export default function DrawingLayer({ videoRef, shapes, tool, color, onAddShape }: DrawingLayerProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [pending, setPending] = useState<VideoPoint[]>([]);
+  const hoverRef = useRef<VideoPoint | null>(null);
+
+  // ツールを切り替えたら描画途中の図形は破棄する
+  useEffect(() => setPending([]), [tool]);
+
+  useEffect(() => {
+    let animationFrame = 0;
+    const draw = () => {
+      animationFrame = requestAnimationFrame(draw);
+      const video = videoRef.current;
+      const canvas = canvasRef.current;
+      const context = video && canvas && fitCanvasToVideo(canvas, video);
+      const rect = video && videoContentRect(video);
+      if (!context || !rect) return;
+
+      const inProgress: DrawingShape[] = tool !== 'none' && pending.length > 0
+        ? [{ kind: tool, points: hoverRef.current ? [...pending, hoverRef.current] : pending, color }]
+        : [];
+      drawShapes(context, [...shapes, ...inProgress], point => toScreenPoint(rect, point));
+    };
+    draw();
+    return () => cancelAnimationFrame(animationFrame);
+  }, [videoRef, shapes, pending, tool, color]);
+
+  const pointerToVideo = (event: React.PointerEvent<HTMLCanvasElement>): VideoPoint | null => {
+    const video = videoRef.current;
+    const rect = video && videoContentRect(video);
+    if (!rect) return null;
+    const bounds = event.currentTarget.getBoundingClientRect();
+    return toVideoPoint(rect, { x: event.clientX - bounds.left, y: event.clientY - bounds.top });
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (tool === 'none') return;
+    const point = pointerToVideo(event);
+    if (!point) return;
+    const points = [...pending, point];
+    if (points.length < SHAPE_POINT_COUNTS[tool]) {
+      setPending(points);
+      return;
+    }
+    onAddShape({ kind: tool, points, color });
+    setPending([]);
+    hoverRef.current = null;
+  };
+
+  return (
+    <canvas
+      ref={canvasRef}
+      onPointerDown={handlePointerDown}
+      onPointerMove={(event) => { hoverRef.current = pointerToVideo(event); }}
+      onPointerLeave={() => { hoverRef.current = null; }}
+      className={`absolute top-0 left-0 ${tool === 'none' ? 'pointer-events-none' : 'cursor-crosshair touch-none'}`}
+    />
+  );
+}
@@ -0,0 +1,164 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useTranslation } from '@/components/I18nProvider';
+import { formatTimestamp } from '@/lib/swing-session';
+
+interface DualSwingPlayerProps {
+  beforeUrl: string;
+  afterUrl: string;
+  beforeImpact: number | null;   // インパクトの時刻（秒）。不明な場合は先頭で揃える
+  afterImpact: number | null;
+}
+
+const PLAYBACK_RATES = [1, 0.5, 0.25];
+const DRIFT_TOLERANCE = 0.08; // 秒。これ以上ずれたら「最近」側を補正する
+
+// 2つの動画をインパクトの位置で揃えて同時再生するプレイヤー
+// 時刻はインパクトを0とした相対秒で扱い、「以前」側を基準に「最近」側を追従させる
+export default function DualSwingPlayer({ beforeUrl, afterUrl, beforeImpact, afterImpact }: DualSwingPlayerProps) {
+  const { t } = useTranslation();
+  const beforeRef = useRef<HTMLVideoElement>(null);
+  const afterRef = useRef<HTMLVideoElement>(null);
+  const [durations, setDurations] = useState({ before: 0, after: 0 });
+  const [relativeTime, setRelativeTime] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [playbackRate, setPlaybackRate] = useState(1);
+
+  const impactBefore = beforeImpact ?? 0;
+  const impactAfter = afterImpact ?? 0;
+  // 両方の動画が存在する区間（インパクト基準の相対秒）
+  const rangeStart = -Math.min(impactBefore, impactAfter);
+  const rangeEnd = Math.max(0, Math.min(durations.before - impactBefore, durations.after - impactAfter));
+
+  const seek = useCallback((relative: number) => {
+    const clamped = Math.min(Math.max(relative, rangeStart), rangeEnd);
+    if (beforeRef.current) beforeRef.current.currentTime = impactBefore + clamped;
+    if (afterRef.current) afterRef.current.currentTime = impactAfter + clamped;
+    setRelativeTime(clamped);
+  }, [rangeStart, rangeEnd, impactBefore, impactAfter]);
+
+  const pause = () => {
+    beforeRef.current?.pause();
+    afterRef.current?.pause();
+    setIsPlaying(false);
+  };
+
+  const play = async () => {
+    const before = beforeRef.current;
+    const after = afterRef.current;
+    if (!before || !after) return;
+    // 終端にいる場合は共通区間の先頭から再生
+    if (relativeTime >= rangeEnd) seek(rangeStart);
+    try {
+      await Promise.all([before.play(), after.play()]);
+      setIsPlaying(true);
+    } catch (error) {
+      console.warn('⚠️ 同時再生に失敗しました:', error);
+      pause();
+    }
+  };
+
+  // 再生中は「最近」側のずれを補正し、共通区間の終わりで停止する
+  useEffect(() => {
+    if (!isPlaying) return;
+    let frame = 0;
+    const tick = () => {
+      const before = beforeRef.current;
+      const after = afterRef.current;
+      if (!before || !after) return;
+      const relative = before.currentTime - impactBefore;
+      if (relative >= rangeEnd || before.ended || after.ended) {
+        pause();
+        setRelativeTime(Math.min(relative, rangeEnd));
+        return;
+      }
+      const expected = impactAfter + relative;
+      if (Math.abs(after.currentTime - expected) > DRIFT_TOLERANCE) {
+        after.currentTime = expected;
+      }
+      setRelativeTime(relative);
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying, impactBefore, impactAfter, rangeEnd]);
+
+  useEffect(() => {
+    if (beforeRef.current) beforeRef.current.playbackRate = playbackRate;
+    if (afterRef.current) afterRef.current.playbackRate = playbackRate;
+  }, [playbackRate]);
+
+  // 読み込み完了後、両方の動画を共通区間の先頭に合わせる
+  useEffect(() => {
+    if (durations.before > 0 && durations.after > 0) {
+      seek(rangeStart);
+    }
+  }, [durations.before, durations.after, seek, rangeStart]);
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-2">
+        {([[t('player.beforeLabel'), beforeUrl, beforeRef, 'before'], [t('player.afterLabel'), afterUrl, afterRef, 'after']] as const).map(([label, url, ref, key]) => (
+          <div key={key} className="space-y-1">
+            <p className="text-xs font-semibold text-gray-600 text-center">{label}</p>
+            <div className="bg-black rounded-lg overflow-hidden">
+              <video
+                ref={ref}
+                src={url}
+                muted
+                playsInline
+                preload="metadata"
+                className="w-full max-h-72 object-contain"
+                onLoadedMetadata={(e) => {
+                  const duration = e.currentTarget.duration;
+                  setDurations(prev => ({ ...prev, [key]: duration }));
+                }}
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* 共通コントロール */}
+      <div className="flex flex-wrap items-center gap-3 text-sm text-gray-700">
+        <button
+          type="button"
+          onClick={() => (isPlaying ? pause() : play())}
+          className="px-4 py-1 bg-blue-600 text-white rounded hover:bg-blue-700"
+        >
+          {isPlaying ? t('player.pause') : t('player.play')}
+        </button>
+        <button
+          type="button"
+          onClick={() => { pause(); seek(0); }}
+          className="px-3 py-1 text-xs bg-gray-100 rounded hover:bg-gray-200"
+        >
+          {t('player.toImpact')}
+        </button>
+        <select
+          value={playbackRate}
+          onChange={(e) => setPlaybackRate(Number(e.target.value))}
+          className="px-2 py-1 border border-gray-300 rounded"
+        >
+          {PLAYBACK_RATES.map(rate => (
+            <option key={rate} value={rate}>{rate}x</option>
+          ))}
+        </select>
+        <span className="text-xs text-gray-500">
+          {t(relativeTime < 0 ? 'player.beforeImpact' : 'player.afterImpact', { time: formatTimestamp(Math.abs(relativeTime)) })}
+        </span>
+      </div>
+      <input
+        type="range"
+        min={rangeStart}
+        max={rangeEnd}
+        step={0.01}
+        value={relativeTime}
+        onChange={(e) => { pause(); seek(Number(e.target.value)); }}
+        className="w-full"
+      />
+      {(beforeImpact === null || afterImpact === null) && (
+        <p className="text-xs text-gray-500">{t('player.impactUnknown')}</p>
+      )}
+    </div>
+  );
+}
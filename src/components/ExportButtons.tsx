@@ -0,0 +1,64 @@
+import { useState } from 'react';
+import { useTranslation } from '@/components/I18nProvider';
+import type { ExportFormat } from '@/lib/report-export';
+
+interface ExportButtonsProps {
+  analysisId: string;
+}
+
+const EXPORT_FORMATS: ExportFormat[] = ['pdf', 'html'];
+
+// Content-Disposition の filename*（UTF-8）からファイル名を取り出す
+const fileNameOf = (disposition: string | null, format: ExportFormat) => {
+  const encoded = disposition?.match(/filename\*=UTF-8''([^;]+)/)?.[1];
+  return encoded ? decodeURIComponent(encoded) : `golf-analysis.${format}`;
+};
+
+// 解析結果を PDF・HTML で保存するボタン（サーバーで生成してダウンロードする）
+export default function ExportButtons({ analysisId }: ExportButtonsProps) {
+  const { t, locale } = useTranslation();
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async (format: ExportFormat) => {
+    setExporting(format);
+    setError(null);
+    try {
+      const response = await fetch(`/api/analyses/${analysisId}/export?format=${format}`, {
+        headers: { 'Accept-Language': locale },
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || t('common.serverError', { status: response.status }));
+      }
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileNameOf(response.headers.get('Content-Disposition'), format);
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (exportError) {
+      console.error('エクスポートエラー:', exportError);
+      setError(t('export.failed', { message: exportError instanceof Error ? exportError.message : String(exportError) }));
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <>
+      {EXPORT_FORMATS.map(format => (
+        <button
+          key={format}
+          type="button"
+          onClick={() => handleExport(format)}
+          disabled={exporting !== null}
+          className="px-4 py-2 bg-white text-green-700 border border-green-600 rounded-lg hover:bg-green-50 transition-colors text-sm disabled:opacity-50"
+        >
+          {exporting === format ? t('export.exporting') : t(`export.${format}`)}
+        </button>
+      ))}
+      {error && <p className="w-full text-sm text-red-600">{error}</p>}
+    </>
+  );
+}
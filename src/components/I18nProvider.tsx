@@ -0,0 +1,48 @@
+'use client';
+
+import { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { DEFAULT_LOCALE, Locale } from '@/lib/i18n/locales';
+import { loadLocale, saveLocale } from '@/lib/i18n/locale-storage';
+import { MessageKey, MessageParams, translate } from '@/lib/i18n/translate';
+
+interface I18nContextValue {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: (key: MessageKey, params?: MessageParams) => string;
+}
+
+const I18nContext = createContext<I18nContextValue | null>(null);
+
+// 表示言語の提供（サーバー描画は既定の言語で行い、マウント後にブラウザの言語へ切り替える）
+export default function I18nProvider({ children }: { children: React.ReactNode }) {
+  const [locale, setLocaleState] = useState<Locale>(DEFAULT_LOCALE);
+
+  useEffect(() => {
+    setLocaleState(loadLocale());
+  }, []);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const setLocale = useCallback((next: Locale) => {
+    saveLocale(next);
+    setLocaleState(next);
+  }, []);
+
+  const value = useMemo<I18nContextValue>(() => ({
+    locale,
+    setLocale,
+    t: (key, params) => translate(locale, key, params),
+  }), [locale, setLocale]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
+
+export function useTranslation(): I18nContextValue {
+  const context = useContext(I18nContext);
+  if (!context) {
+    throw new Error('useTranslation は I18nProvider の内側で使用してください。');
+  }
+  return context;
+}
@@ -0,0 +1,40 @@
+import { useTranslation } from '@/components/I18nProvider';
+import { formatTimestamp } from '@/lib/swing-session';
+import type { KeyFrameImage } from '@/lib/key-frames';
+
+interface KeyFramesProps {
+  frames: KeyFrameImage[];
+  onSeek?: (seconds: number) => void;
+}
+
+// キーフレーム方式の解析で使用した画像の一覧（レポートの【フェーズ名】に対応）
+export default function KeyFrames({ frames, onSeek }: KeyFramesProps) {
+  const { t } = useTranslation();
+  if (frames.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <h4 className="font-semibold text-gray-800 text-sm">{t('keyFrames.title')}</h4>
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+        {frames.map(frame => (
+          <figure key={frame.phase} className="space-y-1">
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            <img src={frame.image} alt={t(`keyFrames.phases.${frame.phase}`)} className="w-full rounded border border-gray-200 bg-black" />
+            <figcaption className="flex items-center justify-between text-xs text-gray-600">
+              <span className="font-semibold">{t(`keyFrames.phases.${frame.phase}`)}</span>
+              <button
+                type="button"
+                onClick={() => onSeek?.(frame.seconds)}
+                disabled={!onSeek}
+                className="px-2 py-0.5 rounded bg-blue-50 text-blue-700 font-mono hover:bg-blue-100 disabled:hover:bg-blue-50"
+              >
+                {formatTimestamp(frame.seconds)}
+              </button>
+            </figcaption>
+          </figure>
+        ))}
+      </div>
+      <p className="text-xs text-gray-500">{t('keyFrames.note')}</p>
+    </div>
+  );
+}
@@ -0,0 +1,22 @@
+import { useTranslation } from '@/components/I18nProvider';
+import { LOCALE_LABELS, Locale, SUPPORTED_LOCALES } from '@/lib/i18n/locales';
+
+// 表示言語の切り替え（解析結果の出力言語も同じ言語になる）
+export default function LocaleSelect() {
+  const { locale, setLocale, t } = useTranslation();
+
+  return (
+    <label className="inline-flex items-center gap-1 text-sm text-gray-700">
+      {t('common.language')}
+      <select
+        value={locale}
+        onChange={(e) => setLocale(e.target.value as Locale)}
+        className="px-2 py-1 border border-gray-300 rounded bg-white"
+      >
+        {SUPPORTED_LOCALES.map(key => (
+          <option key={key} value={key}>{LOCALE_LABELS[key]}</option>
+        ))}
+      </select>
+    </label>
+  );
+}
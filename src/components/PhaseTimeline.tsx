@@ -0,0 +1,90 @@
+import { useTranslation } from '@/components/I18nProvider';
+import { SWING_PHASES, SwingPhase, SwingPhaseKey } from '@/lib/swing-report';
+import { formatTimestamp } from '@/lib/swing-session';
+
+interface PhaseTimelineProps {
+  phases: Record<SwingPhaseKey, SwingPhase>;
+  duration: number;       // 動画の長さ（秒）
+  currentTime: number;    // 再生位置（秒）
+  onSeek: (seconds: number) => void;
+}
+
+// 再生位置を過ぎた最後のフェーズを「現在のフェーズ」とする
+const findActivePhase = (phases: Record<SwingPhaseKey, SwingPhase>, currentTime: number) => {
+  let active: SwingPhaseKey | null = null;
+  let activeSeconds = -Infinity;
+  for (const { key } of SWING_PHASES) {
+    const seconds = phases[key].seconds;
+    if (seconds !== null && seconds <= currentTime && seconds >= activeSeconds) {
+      active = key;
+      activeSeconds = seconds;
+    }
+  }
+  return active;
+};
+
+export default function PhaseTimeline({ phases, duration, currentTime, onSeek }: PhaseTimelineProps) {
+  const { t } = useTranslation();
+  const activePhase = findActivePhase(phases, currentTime);
+
+  return (
+    <div className="space-y-3">
+      {/* タイムライン（マーカーをクリックするとその時刻へ移動） */}
+      {duration > 0 && (
+        <div className="relative h-8 mx-2">
+          <div className="absolute top-1/2 left-0 right-0 h-1 -translate-y-1/2 bg-gray-200 rounded" />
+          <div
+            className="absolute top-1/2 left-0 h-1 -translate-y-1/2 bg-blue-300 rounded"
+            style={{ width: `${Math.min(currentTime / duration, 1) * 100}%` }}
+          />
+          {SWING_PHASES.map(({ key }, index) => {
+            const seconds = phases[key].seconds;
+            if (seconds === null || seconds > duration) return null;
+            return (
+              <button
+                key={key}
+                type="button"
+                title={`${t(`phases.${key}`)} (${formatTimestamp(seconds)})`}
+                onClick={() => onSeek(seconds)}
+                className={`absolute top-1/2 -translate-x-1/2 -translate-y-1/2 w-5 h-5 rounded-full text-[10px] font-semibold border-2 transition-colors ${
+                  key === activePhase ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-700 border-blue-400 hover:bg-blue-50'
+                }`}
+                style={{ left: `${(seconds / duration) * 100}%` }}
+              >
+                {index + 1}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {/* フェーズごとのコメント（現在のフェーズを強調） */}
+      <ol className="space-y-1 text-sm">
+        {SWING_PHASES.map(({ key }, index) => {
+          const { seconds, comment } = phases[key];
+          const isActive = key === activePhase;
+          return (
+            <li key={key}>
+              <button
+                type="button"
+                disabled={seconds === null}
+                onClick={() => seconds !== null && onSeek(seconds)}
+                className={`w-full text-left px-2 py-1 rounded transition-colors ${
+                  isActive ? 'bg-blue-50 border-l-4 border-blue-600' : 'border-l-4 border-transparent hover:bg-gray-50'
+                } disabled:cursor-default disabled:hover:bg-transparent`}
+              >
+                <span className="font-semibold text-gray-800">
+                  {index + 1}. {t(`phases.${key}`)}
+                </span>
+                <span className="ml-2 text-xs text-gray-500">
+                  {seconds !== null ? formatTimestamp(seconds) : t('common.notObservable')}
+                </span>
+                <span className="block text-gray-700">{comment}</span>
+              </button>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,154 @@
+import { useState } from 'react';
+import { useTranslation } from '@/components/I18nProvider';
+import { HANDEDNESS_LABELS, Handedness, PROFILE_TEXT_MAX_LENGTH, PlayerProfile } from '@/lib/player-profile';
+
+interface PlayerProfileFormProps {
+  profile: PlayerProfile | undefined;
+  onSave: (profile: PlayerProfile | undefined) => void;
+}
+
+// フォーム入力中は文字列で保持する
+interface ProfileDraft {
+  handedness: Handedness;
+  handicap: string;
+  heightCm: string;
+  typicalMiss: string;
+  swingThoughts: string;
+  coachFocus: string;
+}
+
+const toDraft = (profile: PlayerProfile | undefined): ProfileDraft => ({
+  handedness: profile?.handedness ?? 'right',
+  handicap: profile?.handicap?.toString() ?? '',
+  heightCm: profile?.heightCm?.toString() ?? '',
+  typicalMiss: profile?.typicalMiss ?? '',
+  swingThoughts: profile?.swingThoughts ?? '',
+  coachFocus: profile?.coachFocus ?? '',
+});
+
+const toProfile = (draft: ProfileDraft): PlayerProfile => ({
+  handedness: draft.handedness,
+  ...(draft.handicap !== '' && { handicap: Number(draft.handicap) }),
+  ...(draft.heightCm !== '' && { heightCm: Number(draft.heightCm) }),
+  ...(draft.typicalMiss.trim() && { typicalMiss: draft.typicalMiss.trim() }),
+  ...(draft.swingThoughts.trim() && { swingThoughts: draft.swingThoughts.trim() }),
+  ...(draft.coachFocus.trim() && { coachFocus: draft.coachFocus.trim() }),
+});
+
+const TEXT_FIELDS = [
+  { key: 'typicalMiss', label: 'profile.typicalMiss', placeholder: 'profile.typicalMissPlaceholder' },
+  { key: 'swingThoughts', label: 'profile.swingThoughts', placeholder: 'profile.swingThoughtsPlaceholder' },
+  { key: 'coachFocus', label: 'profile.coachFocus', placeholder: 'profile.coachFocusPlaceholder' },
+] as const;
+
+// プレーヤープロフィールの編集フォーム（折りたたみ式）
+export default function PlayerProfileForm({ profile, onSave }: PlayerProfileFormProps) {
+  const { t } = useTranslation();
+  const [isOpen, setIsOpen] = useState(false);
+  const [draft, setDraft] = useState<ProfileDraft>(() => toDraft(profile));
+
+  const open = () => {
+    setDraft(toDraft(profile));
+    setIsOpen(true);
+  };
+
+  return (
+    <div className="text-sm text-gray-700">
+      <div className="flex items-center justify-center gap-2">
+        <span>
+          👤 {profile
+            ? `${t(`handedness.${profile.handedness}`)}${profile.handicap !== undefined ? ` / ${t('profile.handicapShort', { handicap: profile.handicap })}` : ''}`
+            : t('profile.notSet')}
+        </span>
+        <button
+          type="button"
+          onClick={() => (isOpen ? setIsOpen(false) : open())}
+          className="px-2 py-1 text-xs bg-gray-100 rounded hover:bg-gray-200"
+        >
+          {isOpen ? t('common.close') : t('common.edit')}
+        </button>
+      </div>
+
+      {isOpen && (
+        <form
+          className="mt-3 p-4 bg-gray-50 rounded-lg border border-gray-200 space-y-3 text-left"
+          onSubmit={(e) => {
+            e.preventDefault();
+            onSave(toProfile(draft));
+            setIsOpen(false);
+          }}
+        >
+          <div className="flex flex-wrap gap-4">
+            <fieldset className="flex items-center gap-3">
+              <legend className="sr-only">{t('profile.handednessLegend')}</legend>
+              {(Object.keys(HANDEDNESS_LABELS) as Handedness[]).map(key => (
+                <label key={key} className="flex items-center gap-1">
+                  <input
+                    type="radio"
+                    name="handedness"
+                    checked={draft.handedness === key}
+                    onChange={() => setDraft({ ...draft, handedness: key })}
+                  />
+                  {t(`handedness.${key}`)}
+                </label>
+              ))}
+            </fieldset>
+            <label className="flex items-center gap-1">
+              {t('profile.handicap')}
+              <input
+                type="number"
+                min={-10}
+                max={54}
+                step={0.1}
+                value={draft.handicap}
+                onChange={(e) => setDraft({ ...draft, handicap: e.target.value })}
+                className="w-20 px-2 py-1 border border-gray-300 rounded"
+              />
+            </label>
+            <label className="flex items-center gap-1">
+              {t('profile.height')}
+              <input
+                type="number"
+                min={100}
+                max={250}
+                value={draft.heightCm}
+                onChange={(e) => setDraft({ ...draft, heightCm: e.target.value })}
+                className="w-20 px-2 py-1 border border-gray-300 rounded"
+              />
+              cm
+            </label>
+          </div>
+
+          {TEXT_FIELDS.map(({ key, label, placeholder }) => (
+            <label key={key} className="flex flex-col gap-1">
+              {t(label)}
+              <input
+                type="text"
+                maxLength={PROFILE_TEXT_MAX_LENGTH}
+                value={draft[key]}
+                onChange={(e) => setDraft({ ...draft, [key]: e.target.value })}
+                placeholder={t(placeholder)}
+                className="px-2 py-1 border border-gray-300 rounded"
+              />
+            </label>
+          ))}
+
+          <div className="flex justify-between">
+            <button type="submit" className="px-4 py-1 bg-blue-600 text-white rounded hover:bg-blue-700">
+              {t('common.save')}
+            </button>
+            {profile && (
+              <button
+                type="button"
+                onClick={() => { onSave(undefined); setIsOpen(false); }}
+                className="px-4 py-1 text-red-600 hover:underline"
+              >
+                {t('profile.remove')}
+              </button>
+            )}
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
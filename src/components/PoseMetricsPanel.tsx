@@ -0,0 +1,96 @@
+import { useTranslation } from '@/components/I18nProvider';
+import { formatTimestamp } from '@/lib/swing-session';
+import type { PoseMetrics } from '@/lib/pose-metrics';
+
+export type PoseExtractionStatus = 'idle' | 'extracting' | 'done' | 'failed';
+
+interface PoseMetricsPanelProps {
+  status: PoseExtractionStatus;
+  progress: number;                 // 推定の進捗（0〜1）
+  metrics: PoseMetrics | null;      // 解析範囲内の計測値（人物を検出できなければ null）
+  showOverlay: boolean;
+  onToggleOverlay: (show: boolean) => void;
+  onExtract: () => void;
+  onCancel: () => void;
+  onSeek: (seconds: number) => void;
+}
+
+const KEY_FRAMES = ['address', 'top', 'impact'] as const;
+
+// ブラウザでの姿勢推定の操作と計測値の表示
+export default function PoseMetricsPanel({
+  status, progress, metrics, showOverlay, onToggleOverlay, onExtract, onCancel, onSeek,
+}: PoseMetricsPanelProps) {
+  const { t } = useTranslation();
+  const degrees = (value: number | null) => value === null ? t('pose.notMeasured') : t('pose.degrees', { value });
+
+  return (
+    <div className="p-3 border border-gray-200 rounded-lg space-y-3 text-sm text-gray-700">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <span className="font-medium">{t('pose.title')}</span>
+        <div className="flex items-center gap-2">
+          {status === 'done' && (
+            <label className="flex items-center gap-1">
+              <input type="checkbox" checked={showOverlay} onChange={(e) => onToggleOverlay(e.target.checked)} />
+              {t('pose.showOverlay')}
+            </label>
+          )}
+          {status === 'extracting' ? (
+            <>
+              <span className="text-blue-600">{t('pose.extracting', { percent: Math.floor(progress * 100) })}</span>
+              <button type="button" onClick={onCancel} className="px-2 py-1 text-xs text-red-600 hover:underline">
+                {t('pose.cancel')}
+              </button>
+            </>
+          ) : status !== 'done' && (
+            <button type="button" onClick={onExtract} className="px-3 py-1 text-xs bg-gray-100 rounded hover:bg-gray-200">
+              {status === 'failed' ? t('pose.retry') : t('pose.extract')}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {status === 'idle' && <p className="text-xs text-gray-500">{t('pose.description')}</p>}
+      {status === 'failed' && <p className="text-xs text-red-600">{t('pose.failed')}</p>}
+      {status === 'done' && !metrics && <p className="text-xs text-gray-500">{t('pose.noPerson')}</p>}
+
+      {status === 'done' && metrics && (
+        <>
+          <div className="flex flex-wrap items-center gap-2">
+            <span>{t('pose.keyFrames')}</span>
+            {KEY_FRAMES.map(key => {
+              const seconds = metrics.keyFrames[key];
+              return seconds !== null && (
+                <button
+                  key={key}
+                  type="button"
+                  onClick={() => onSeek(seconds)}
+                  className="px-2 py-0.5 rounded bg-blue-50 text-blue-700 text-xs hover:bg-blue-100"
+                >
+                  {t(`phases.${key}`)} <span className="font-mono">{formatTimestamp(seconds)}</span>
+                </button>
+              );
+            })}
+          </div>
+          <dl className="grid grid-cols-2 gap-x-4 gap-y-1">
+            <dt>{t('pose.headDrift')}</dt>
+            <dd>
+              {metrics.headDrift
+                ? t('pose.headDriftValue', { horizontal: metrics.headDrift.horizontal, vertical: metrics.headDrift.vertical })
+                : t('pose.notMeasured')}
+            </dd>
+            <dt>{t('pose.spineAngle')}</dt>
+            <dd>{KEY_FRAMES.map(key => degrees(metrics.spineAngle[key])).join(' / ')}</dd>
+            <dt>{t('pose.shoulderTurn')}</dt>
+            <dd>{degrees(metrics.shoulderTurn)}</dd>
+            <dt>{t('pose.hipTurn')}</dt>
+            <dd>{degrees(metrics.hipTurn)}</dd>
+            <dt>{t('pose.xFactor')}</dt>
+            <dd>{degrees(metrics.xFactor)}</dd>
+          </dl>
+          <p className="text-xs text-gray-500">{t('pose.note')}</p>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+import { RefObject, useEffect, useRef } from 'react';
+import { MIN_KEYPOINT_SCORE, POSE_SKELETON_EDGES, PoseTrack, nearestPoseFrame } from '@/lib/pose-metrics';
+import { fitCanvasToVideo, toScreenPoint, videoContentRect } from '@/lib/video-canvas';
+
+interface PoseOverlayProps {
+  videoRef: RefObject<HTMLVideoElement>;
+  track: PoseTrack;
+}
+
+// 推定したフレームとの時刻差がこれより大きければ描画しない（シーク直後のずれ防止）
+const MAX_FRAME_GAP_SECONDS = 0.3;
+
+// プレビュー動画に重ねる骨格の描画（再生位置に最も近いフレームの姿勢を描く）
+export default function PoseOverlay({ videoRef, track }: PoseOverlayProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    let animationFrame = 0;
+
+    const draw = () => {
+      animationFrame = requestAnimationFrame(draw);
+      const video = videoRef.current;
+      const canvas = canvasRef.current;
+      const context = video && canvas && fitCanvasToVideo(canvas, video);
+      const rect = video && videoContentRect(video);
+      if (!video || !context || !rect) return;
+
+      const frame = nearestPoseFrame(track.frames, video.currentTime);
+      if (!frame || Math.abs(frame.seconds - video.currentTime) > MAX_FRAME_GAP_SECONDS) return;
+
+      // 推定時の解像度と表示中の動画の解像度の差を吸収する
+      const ratio = video.videoWidth / track.width;
+      const toScreen = (index: number) => {
+        const keypoint = frame.keypoints[index];
+        return keypoint && keypoint.score >= MIN_KEYPOINT_SCORE
+          ? toScreenPoint(rect, { x: keypoint.x * ratio, y: keypoint.y * ratio })
+          : null;
+      };
+
+      context.lineWidth = 3;
+      context.strokeStyle = 'rgba(74, 222, 128, 0.9)';
+      for (const [a, b] of POSE_SKELETON_EDGES) {
+        const from = toScreen(a);
+        const to = toScreen(b);
+        if (!from || !to) continue;
+        context.beginPath();
+        context.moveTo(from.x, from.y);
+        context.lineTo(to.x, to.y);
+        context.stroke();
+      }
+      context.fillStyle = 'rgba(250, 204, 21, 0.95)';
+      frame.keypoints.forEach((_, index) => {
+        const p = toScreen(index);
+        if (!p) return;
+        context.beginPath();
+        context.arc(p.x, p.y, 4, 0, Math.PI * 2);
+        context.fill();
+      });
+    };
+
+    draw();
+    return () => cancelAnimationFrame(animationFrame);
+  }, [videoRef, track]);
+
+  return <canvas ref={canvasRef} className="absolute top-0 left-0 pointer-events-none" />;
+}
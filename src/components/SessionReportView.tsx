@@ -0,0 +1,96 @@
+import SwingReportView, { scoreColor } from '@/components/SwingReportView';
+import { useTranslation } from '@/components/I18nProvider';
+import { SWING_REPORT_SECTIONS, SCORE_MAX } from '@/lib/swing-report';
+import { SwingSession, formatTimestamp } from '@/lib/swing-session';
+
+interface SessionReportViewProps {
+  session: SwingSession;
+  selectedIndex: number;
+  onSelect: (index: number) => void;
+  onSeek?: (seconds: number) => void;
+}
+
+export default function SessionReportView({ session, selectedIndex, onSelect, onSeek }: SessionReportViewProps) {
+  const { t } = useTranslation();
+  const selected = session.swings[selectedIndex];
+  const { averageScores, summary } = session;
+
+  return (
+    <div className="space-y-4">
+      {/* セッション総評 */}
+      {summary && (
+        <div className="space-y-2">
+          <p className="text-gray-800 text-sm leading-relaxed">{summary.summary}</p>
+          {summary.consistentStrengths.length > 0 && (
+            <div>
+              <h4 className="font-semibold text-green-700 text-sm">{t('session.strengths')}</h4>
+              <ul className="list-disc list-inside text-sm text-gray-700">
+                {summary.consistentStrengths.map((item, i) => <li key={i}>{item}</li>)}
+              </ul>
+            </div>
+          )}
+          {summary.recurringIssues.length > 0 && (
+            <div>
+              <h4 className="font-semibold text-red-700 text-sm">{t('session.issues')}</h4>
+              <ul className="list-disc list-inside text-sm text-gray-700">
+                {summary.recurringIssues.map((item, i) => <li key={i}>{item}</li>)}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* 平均スコア */}
+      <div className="border-t border-gray-200 pt-3">
+        <h4 className="font-semibold text-gray-800 mb-2">{t('session.averageScores', { count: session.swings.length })}</h4>
+        <div className="flex flex-wrap gap-2 text-xs">
+          {averageScores.overall !== undefined && (
+            <span className={`px-2 py-0.5 rounded-full font-semibold ${scoreColor(averageScores.overall)}`}>
+              {t('session.overall')} {averageScores.overall} / {SCORE_MAX}
+            </span>
+          )}
+          {SWING_REPORT_SECTIONS.map(({ key }) => {
+            const score = averageScores[key];
+            return score !== undefined && (
+              <span key={key} className={`px-2 py-0.5 rounded-full ${scoreColor(score)}`}>
+                {t(`sections.${key}`)} {score}
+              </span>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* スイング一覧（クリックで該当位置へジャンプ） */}
+      <div className="border-t border-gray-200 pt-3">
+        <div className="flex flex-wrap gap-2 mb-3">
+          {session.swings.map(({ swing, report }, i) => (
+            <button
+              key={swing.index}
+              type="button"
+              onClick={() => {
+                onSelect(i);
+                onSeek?.(swing.startSeconds);
+              }}
+              className={`px-3 py-1 rounded-lg text-sm border transition-colors ${
+                i === selectedIndex ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+              }`}
+            >
+              #{swing.index + 1} {formatTimestamp(swing.startSeconds)}
+              {report?.overallScore != null && ` (${report.overallScore})`}
+            </button>
+          ))}
+        </div>
+
+        {selected && (
+          selected.report ? (
+            <SwingReportView report={selected.report} />
+          ) : (
+            <pre className="whitespace-pre-wrap text-gray-800 text-sm leading-relaxed font-sans">
+              {selected.analysis}
+            </pre>
+          )
+        )}
+      </div>
+    </div>
+  );
+}
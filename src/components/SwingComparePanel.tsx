@@ -0,0 +1,193 @@
+import { useEffect, useState } from 'react';
+import DualSwingPlayer from '@/components/DualSwingPlayer';
+import SwingComparisonView from '@/components/SwingComparisonView';
+import { useTranslation } from '@/components/I18nProvider';
+import type { GolfComparisonResponse } from '@/lib/comparison-pipeline';
+import { AnalysisHistoryEntry, listHistoryEntries } from '@/lib/history-store';
+import type { PlayerProfile } from '@/lib/player-profile';
+
+type CompareSource = 'videos' | 'history';
+
+interface SwingComparePanelProps {
+  profile?: PlayerProfile;
+}
+
+interface ComparisonVideo {
+  file: File;
+  url: string;
+}
+
+// 2つのスイングの比較（動画2本、または解析履歴の2件）
+export default function SwingComparePanel({ profile }: SwingComparePanelProps) {
+  const { locale, t } = useTranslation();
+  const [source, setSource] = useState<CompareSource>('videos');
+  const [beforeVideo, setBeforeVideo] = useState<ComparisonVideo | null>(null);
+  const [afterVideo, setAfterVideo] = useState<ComparisonVideo | null>(null);
+  const [historyEntries, setHistoryEntries] = useState<AnalysisHistoryEntry[]>([]);
+  const [beforeId, setBeforeId] = useState('');
+  const [afterId, setAfterId] = useState('');
+  const [isComparing, setIsComparing] = useState(false);
+  const [result, setResult] = useState<GolfComparisonResponse | null>(null);
+  const [errorMessage, setErrorMessage] = useState('');
+
+  // 比較できるのは構造化レポートのある単一スイングの履歴のみ
+  useEffect(() => {
+    listHistoryEntries()
+      .then(entries => setHistoryEntries(entries.filter(entry => entry.report)))
+      .catch(error => console.warn('⚠️ 履歴の読み込みに失敗しました:', error));
+  }, []);
+
+  useEffect(() => () => { if (beforeVideo) URL.revokeObjectURL(beforeVideo.url); }, [beforeVideo]);
+  useEffect(() => () => { if (afterVideo) URL.revokeObjectURL(afterVideo.url); }, [afterVideo]);
+
+  const historyLabel = (entry: AnalysisHistoryEntry) =>
+    `${new Date(entry.createdAt).toLocaleDateString(locale)} ${entry.club ? t(`clubs.${entry.club}`) : t('common.unspecified')} - ${entry.fileName}`;
+
+  const selectVideo = (event: React.ChangeEvent<HTMLInputElement>, setVideo: (video: ComparisonVideo | null) => void) => {
+    const file = event.target.files?.[0];
+    setVideo(file ? { file, url: URL.createObjectURL(file) } : null);
+    setResult(null);
+  };
+
+  const buildFormData = () => {
+    const formData = new FormData();
+    if (profile) formData.append('profile', JSON.stringify(profile));
+    formData.append('language', locale);
+    if (source === 'videos') {
+      if (!beforeVideo || !afterVideo) throw new Error(t('compare.selectVideos'));
+      formData.append('before', beforeVideo.file);
+      formData.append('after', afterVideo.file);
+      return formData;
+    }
+    const before = historyEntries.find(entry => entry.id === beforeId);
+    const after = historyEntries.find(entry => entry.id === afterId);
+    if (!before?.report || !after?.report) throw new Error(t('compare.selectHistory'));
+    formData.append('beforeReport', JSON.stringify(before.report));
+    formData.append('beforeLabel', historyLabel(before));
+    formData.append('afterReport', JSON.stringify(after.report));
+    formData.append('afterLabel', historyLabel(after));
+    return formData;
+  };
+
+  const handleCompare = async () => {
+    setIsComparing(true);
+    setResult(null);
+    setErrorMessage('');
+    try {
+      const response = await fetch('/api/analyze-file/compare', {
+        method: 'POST',
+        headers: { 'Accept-Language': locale },
+        body: buildFormData(),
+      });
+      const data: GolfComparisonResponse = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || t('common.serverError', { status: response.status }));
+      }
+      setResult(data);
+    } catch (error) {
+      console.error('比較エラー:', error);
+      setErrorMessage(error instanceof Error ? error.message : t('compare.unexpectedError'));
+    } finally {
+      setIsComparing(false);
+    }
+  };
+
+  const canCompare = source === 'videos' ? beforeVideo && afterVideo : beforeId && afterId && beforeId !== afterId;
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6 space-y-6">
+      <h2 className="text-2xl font-semibold text-gray-800">
+        {t('compare.title')}
+      </h2>
+
+      {/* 比較対象の種類 */}
+      <div className="flex gap-2 text-sm">
+        {([['videos', t('compare.sourceVideos')], ['history', t('compare.sourceHistory')]] as const).map(([key, label]) => (
+          <button
+            key={key}
+            type="button"
+            onClick={() => { setSource(key); setResult(null); setErrorMessage(''); }}
+            className={`px-4 py-1 rounded-full border transition-colors ${
+              source === key ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {source === 'videos' ? (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm text-gray-700">
+          {([[t('compare.before'), beforeVideo, setBeforeVideo], [t('compare.after'), afterVideo, setAfterVideo]] as const).map(([label, video, setVideo]) => (
+            <label key={label} className="flex flex-col gap-1">
+              <span className="font-medium">{label}</span>
+              <input
+                type="file"
+                accept="video/*,.mp4,.mov,.qt,.avi,.mkv,.webm,.wmv,.flv,.3gp,.3gpp,.m4v,.ogv"
+                onChange={(e) => selectVideo(e, setVideo)}
+                className="text-xs"
+              />
+              {video && <span className="text-xs text-green-700">✅ {video.file.name}</span>}
+            </label>
+          ))}
+        </div>
+      ) : historyEntries.length < 2 ? (
+        <p className="text-sm text-gray-500">{t('compare.needHistory')}</p>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm text-gray-700">
+          {([[t('compare.before'), beforeId, setBeforeId], [t('compare.after'), afterId, setAfterId]] as const).map(([label, value, setValue]) => (
+            <label key={label} className="flex flex-col gap-1">
+              <span className="font-medium">{label}</span>
+              <select
+                value={value}
+                onChange={(e) => { setValue(e.target.value); setResult(null); }}
+                className="px-2 py-1 border border-gray-300 rounded"
+              >
+                <option value="">{t('compare.choose')}</option>
+                {historyEntries.map(entry => (
+                  <option key={entry.id} value={entry.id}>{historyLabel(entry)}</option>
+                ))}
+              </select>
+            </label>
+          ))}
+        </div>
+      )}
+
+      <button
+        type="button"
+        onClick={handleCompare}
+        disabled={!canCompare || isComparing}
+        className={`w-full py-3 px-6 rounded-lg font-semibold transition-colors ${
+          canCompare && !isComparing ? 'bg-blue-600 hover:bg-blue-700 text-white' : 'bg-gray-300 text-gray-500 cursor-not-allowed'
+        }`}
+      >
+        {isComparing ? t('compare.comparing') : t('compare.start')}
+      </button>
+
+      {errorMessage && <p className="text-sm text-red-600">❌ {errorMessage}</p>}
+
+      {result && (
+        <div className="space-y-6">
+          {source === 'videos' && beforeVideo && afterVideo && (
+            <DualSwingPlayer
+              beforeUrl={beforeVideo.url}
+              afterUrl={afterVideo.url}
+              beforeImpact={result.comparison?.impact.beforeSeconds ?? null}
+              afterImpact={result.comparison?.impact.afterSeconds ?? null}
+            />
+          )}
+          <div className="bg-gray-50 rounded-lg p-4 border border-gray-200">
+            {result.comparison ? (
+              <SwingComparisonView comparison={result.comparison} />
+            ) : (
+              /* 構造化レポートがない場合は生テキストを表示 */
+              <pre className="whitespace-pre-wrap text-gray-800 text-sm leading-relaxed font-sans">
+                {result.analysis}
+              </pre>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+import { useTranslation } from '@/components/I18nProvider';
+import { SWING_PHASES } from '@/lib/swing-report';
+import type { ComparisonTrend, SwingComparison } from '@/lib/swing-comparison';
+
+interface SwingComparisonViewProps {
+  comparison: SwingComparison;
+}
+
+const trendColor: Record<ComparisonTrend, string> = {
+  improved: 'bg-green-100 text-green-700',
+  regressed: 'bg-red-100 text-red-700',
+  unchanged: 'bg-gray-100 text-gray-600',
+  notObservable: 'bg-gray-100 text-gray-500',
+};
+
+export default function SwingComparisonView({ comparison }: SwingComparisonViewProps) {
+  const { t } = useTranslation();
+
+  return (
+    <div className="space-y-4">
+      {/* 総評 */}
+      <div>
+        <p className="font-semibold text-gray-800 mb-1">🆚 {t(`compare.verdicts.${comparison.verdict}`)}</p>
+        <p className="text-gray-800 text-sm leading-relaxed">{comparison.summary}</p>
+      </div>
+
+      {/* フェーズごとの変化 */}
+      {SWING_PHASES.map(({ key }, index) => {
+        const phase = comparison.phases[key];
+        return (
+          <div key={key} className="border-t border-gray-200 pt-3">
+            <div className="flex items-center justify-between mb-1">
+              <h4 className="font-semibold text-gray-800">
+                {index + 1}. {t(`phases.${key}`)}
+              </h4>
+              <span className={`text-xs px-2 py-0.5 rounded-full font-semibold ${trendColor[phase.trend]}`}>
+                {t(`compare.trends.${phase.trend}`)}
+              </span>
+            </div>
+            <p className="text-sm text-gray-700">{phase.change}</p>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,238 @@
+import { ReactNode, RefObject, useEffect, useState } from 'react';
+import DrawingLayer, { DrawingShape, DrawingTool, drawShapes } from '@/components/DrawingLayer';
+import { useTranslation } from '@/components/I18nProvider';
+import { formatTimestamp } from '@/lib/swing-session';
+import { CapturedFrame, captureVideoFrame } from '@/lib/video-canvas';
+
+interface SwingPlayerProps {
+  src: string;
+  videoRef: RefObject<HTMLVideoElement>;
+  className?: string;                                 // video 要素のクラス（高さの上限など）
+  overlay?: ReactNode;                                // 描画レイヤーの下に重ねる要素（骨格など）
+  onLoadedMetadata?: (duration: number) => void;
+  onTimeUpdate?: (seconds: number) => void;
+  onCaptureFrame?: (frame: CapturedFrame) => void;    // 指定した場合のみ「フレームを添付」を表示
+}
+
+const PLAYBACK_RATES = [1, 0.5, 0.25];
+const DRAWING_TOOLS: DrawingTool[] = ['none', 'line', 'angle', 'circle'];
+const DRAWING_COLORS = ['#ef4444', '#facc15', '#3b82f6', '#ffffff'];
+const DEFAULT_FRAME_DURATION = 1 / 30;  // フレームレートを測定できるまでの仮の値
+const FRAME_SAMPLES = 10;
+
+// ゴルフスイングの確認用プレイヤー（コマ送り・スロー再生・A–Bループ・図形の描画・フレームの添付）
+export default function SwingPlayer({
+  src, videoRef, className = 'max-h-96', overlay, onLoadedMetadata, onTimeUpdate, onCaptureFrame,
+}: SwingPlayerProps) {
+  const { t } = useTranslation();
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [playbackRate, setPlaybackRate] = useState(1);
+  const [frameDuration, setFrameDuration] = useState(DEFAULT_FRAME_DURATION);
+  const [loopA, setLoopA] = useState<number | null>(null);
+  const [loopB, setLoopB] = useState<number | null>(null);
+  const [tool, setTool] = useState<DrawingTool>('none');
+  const [color, setColor] = useState(DRAWING_COLORS[0]);
+  const [shapes, setShapes] = useState<DrawingShape[]>([]);
+
+  const loopActive = loopA !== null && loopB !== null && loopB > loopA;
+
+  // 動画が変わったらループ・描画・フレームレートをリセットする
+  useEffect(() => {
+    setLoopA(null);
+    setLoopB(null);
+    setShapes([]);
+    setFrameDuration(DEFAULT_FRAME_DURATION);
+  }, [src]);
+
+  useEffect(() => {
+    if (videoRef.current) videoRef.current.playbackRate = playbackRate;
+  }, [videoRef, playbackRate]);
+
+  // 再生中に表示されたフレームの間隔からフレームレートを測定する（requestVideoFrameCallback 対応ブラウザのみ）
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !isPlaying || !('requestVideoFrameCallback' in video)) return;
+    let handle = 0;
+    let last: number | null = null;
+    const deltas: number[] = [];
+    const onFrame: VideoFrameRequestCallback = (_, metadata) => {
+      if (last !== null) {
+        const delta = metadata.mediaTime - last;
+        if (delta > 0 && delta < 0.2) deltas.push(delta);
+      }
+      last = metadata.mediaTime;
+      if (deltas.length >= FRAME_SAMPLES) {
+        deltas.sort((a, b) => a - b);
+        setFrameDuration(deltas[Math.floor(deltas.length / 2)]);
+        return;
+      }
+      handle = video.requestVideoFrameCallback(onFrame);
+    };
+    handle = video.requestVideoFrameCallback(onFrame);
+    return () => video.cancelVideoFrameCallback(handle);
+  }, [videoRef, isPlaying, src]);
+
+  // A–Bループ（timeupdate は間隔が粗いため再生中はフレームごとに確認する）
+  useEffect(() => {
+    if (!loopActive || !isPlaying) return;
+    let animationFrame = 0;
+    const tick = () => {
+      const video = videoRef.current;
+      if (video && (video.currentTime >= loopB || video.currentTime < loopA)) {
+        video.currentTime = loopA;
+      }
+      animationFrame = requestAnimationFrame(tick);
+    };
+    animationFrame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(animationFrame);
+  }, [videoRef, loopActive, isPlaying, loopA, loopB]);
+
+  const togglePlay = () => {
+    const video = videoRef.current;
+    if (!video) return;
+    if (video.paused) {
+      if (loopActive && (video.currentTime >= loopB || video.currentTime < loopA)) video.currentTime = loopA;
+      video.play().catch(() => undefined);
+    } else {
+      video.pause();
+    }
+  };
+
+  // 1フレームずつ進める・戻す
+  const stepFrame = (direction: 1 | -1) => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.pause();
+    video.currentTime = Math.min(Math.max(video.currentTime + direction * frameDuration, 0), video.duration || 0);
+  };
+
+  const setLoopPoint = (point: 'a' | 'b') => {
+    const seconds = Math.round((videoRef.current?.currentTime ?? 0) * 100) / 100;
+    if (point === 'a') setLoopA(seconds);
+    else setLoopB(seconds);
+  };
+
+  const handleCapture = () => {
+    const video = videoRef.current;
+    if (!video || !onCaptureFrame) return;
+    video.pause();
+    const frame = captureVideoFrame(video, (context, scale) => {
+      drawShapes(context, shapes, point => ({ x: point.x * scale, y: point.y * scale }));
+    });
+    if (frame) onCaptureFrame(frame);
+  };
+
+  const buttonClass = (active: boolean) => `px-2 py-1 text-xs rounded border transition-colors ${
+    active ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+  }`;
+
+  return (
+    <div className="space-y-2">
+      <div className="relative bg-black rounded-lg overflow-hidden">
+        <video
+          ref={videoRef}
+          src={src}
+          controls
+          playsInline
+          className={`w-full object-contain ${className}`}
+          preload="metadata"
+          onLoadedMetadata={(e) => onLoadedMetadata?.(e.currentTarget.duration)}
+          onTimeUpdate={(e) => onTimeUpdate?.(e.currentTarget.currentTime)}
+          onPlay={() => setIsPlaying(true)}
+          onPause={() => setIsPlaying(false)}
+          onRateChange={(e) => setPlaybackRate(e.currentTarget.playbackRate)}
+        >
+          {t('home.videoUnsupported')}
+        </video>
+        {overlay}
+        <DrawingLayer
+          videoRef={videoRef}
+          shapes={shapes}
+          tool={tool}
+          color={color}
+          onAddShape={(shape) => setShapes(prev => [...prev, shape])}
+        />
+      </div>
+
+      {/* 再生操作（コマ送り・スロー・A–Bループ） */}
+      <div className="flex flex-wrap items-center justify-center gap-2 text-sm text-gray-700">
+        <button type="button" onClick={() => stepFrame(-1)} className={buttonClass(false)} title={t('swingPlayer.frameBack')}>
+          ⏮ -1
+        </button>
+        <button type="button" onClick={togglePlay} className="px-3 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700">
+          {isPlaying ? t('swingPlayer.pause') : t('swingPlayer.play')}
+        </button>
+        <button type="button" onClick={() => stepFrame(1)} className={buttonClass(false)} title={t('swingPlayer.frameForward')}>
+          +1 ⏭
+        </button>
+        <span className="ml-2 text-xs">{t('swingPlayer.speed')}</span>
+        {PLAYBACK_RATES.map(rate => (
+          <button key={rate} type="button" onClick={() => setPlaybackRate(rate)} className={buttonClass(playbackRate === rate)}>
+            {rate}x
+          </button>
+        ))}
+        <span className="ml-2 text-xs">{t('swingPlayer.loop')}</span>
+        <button type="button" onClick={() => setLoopPoint('a')} className={buttonClass(loopA !== null)}>
+          A{loopA !== null && ` ${formatTimestamp(loopA)}`}
+        </button>
+        <button type="button" onClick={() => setLoopPoint('b')} className={buttonClass(loopB !== null)}>
+          B{loopB !== null && ` ${formatTimestamp(loopB)}`}
+        </button>
+        {(loopA !== null || loopB !== null) && (
+          <button
+            type="button"
+            onClick={() => { setLoopA(null); setLoopB(null); }}
+            className="px-2 py-1 text-xs text-red-600 hover:underline"
+          >
+            {t('swingPlayer.clearLoop')}
+          </button>
+        )}
+        {loopA !== null && loopB !== null && !loopActive && (
+          <span className="text-xs text-red-600">{t('swingPlayer.invalidLoop')}</span>
+        )}
+      </div>
+
+      {/* 図形の描画とフレームの添付 */}
+      <div className="flex flex-wrap items-center justify-center gap-2 text-sm text-gray-700">
+        <span className="text-xs">{t('swingPlayer.draw')}</span>
+        {DRAWING_TOOLS.map(item => (
+          <button key={item} type="button" onClick={() => setTool(item)} className={buttonClass(tool === item)}>
+            {t(`swingPlayer.tools.${item}`)}
+          </button>
+        ))}
+        {DRAWING_COLORS.map(item => (
+          <button
+            key={item}
+            type="button"
+            onClick={() => setColor(item)}
+            aria-label={item}
+            className={`w-5 h-5 rounded-full border-2 ${color === item ? 'border-gray-800' : 'border-gray-300'}`}
+            style={{ backgroundColor: item }}
+          />
+        ))}
+        <button
+          type="button"
+          onClick={() => setShapes(prev => prev.slice(0, -1))}
+          disabled={shapes.length === 0}
+          className="px-2 py-1 text-xs bg-gray-100 rounded hover:bg-gray-200 disabled:text-gray-400"
+        >
+          {t('swingPlayer.undo')}
+        </button>
+        <button
+          type="button"
+          onClick={() => setShapes([])}
+          disabled={shapes.length === 0}
+          className="px-2 py-1 text-xs bg-gray-100 rounded hover:bg-gray-200 disabled:text-gray-400"
+        >
+          {t('swingPlayer.clearDrawings')}
+        </button>
+        {onCaptureFrame && (
+          <button type="button" onClick={handleCapture} className="px-2 py-1 text-xs bg-green-600 text-white rounded hover:bg-green-700">
+            {t('swingPlayer.capture')}
+          </button>
+        )}
+      </div>
+      {tool !== 'none' && <p className="text-xs text-center text-gray-500">{t(`swingPlayer.hints.${tool}`)}</p>}
+    </div>
+  );
+}
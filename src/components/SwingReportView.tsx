@@ -0,0 +1,56 @@
+import { useTranslation } from '@/components/I18nProvider';
+import { SWING_REPORT_SECTIONS, SCORE_MAX, SwingReport } from '@/lib/swing-report';
+
+interface SwingReportViewProps {
+  report: SwingReport;
+}
+
+// スコアに応じたバッジの色
+export const scoreColor = (score: number) =>
+  score >= 8 ? 'bg-green-100 text-green-700' : score >= 5 ? 'bg-yellow-100 text-yellow-700' : 'bg-red-100 text-red-700';
+
+export default function SwingReportView({ report }: SwingReportViewProps) {
+  const { t } = useTranslation();
+
+  return (
+    <div className="space-y-4">
+      {/* 総評 */}
+      <div className="flex items-start justify-between gap-4">
+        <p className="text-gray-800 text-sm leading-relaxed">{report.summary}</p>
+        {report.overallScore !== null && (
+          <span className={`flex-shrink-0 px-3 py-1 rounded-full font-semibold ${scoreColor(report.overallScore)}`}>
+            {report.overallScore} / {SCORE_MAX}
+          </span>
+        )}
+      </div>
+
+      {/* セクションごとの評価 */}
+      {SWING_REPORT_SECTIONS.map(({ key }, index) => {
+        const section = report.sections[key];
+        return (
+          <div key={key} className="border-t border-gray-200 pt-3">
+            <div className="flex items-center justify-between mb-1">
+              <h4 className="font-semibold text-gray-800">
+                {index + 1}. {t(`sections.${key}`)}
+              </h4>
+              {section.notObservable ? (
+                <span className="text-xs px-2 py-0.5 rounded-full bg-gray-100 text-gray-500">{t('common.notObservable')}</span>
+              ) : section.score !== null && (
+                <span className={`text-xs px-2 py-0.5 rounded-full font-semibold ${scoreColor(section.score)}`}>
+                  {section.score} / {SCORE_MAX}
+                </span>
+              )}
+            </div>
+            {section.observations.length > 0 && (
+              <ul className="list-disc list-inside text-sm text-gray-700 space-y-1">
+                {section.observations.map((observation, i) => (
+                  <li key={i}>{observation}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+import { useTranslation } from '@/components/I18nProvider';
+import { formatTimestamp } from '@/lib/swing-session';
+import { SwingTempo, TEMPO_BENCHMARK_RATIO } from '@/lib/swing-tempo';
+
+interface TempoCardProps {
+  tempo: SwingTempo;
+  onSeek?: (seconds: number) => void;
+}
+
+// 目安からこの幅以内なら「目安に近い」とする
+const BENCHMARK_TOLERANCE = 0.5;
+
+// テンポの計測値（バックスイングとダウンスイングの長さと比）
+export default function TempoCard({ tempo, onSeek }: TempoCardProps) {
+  const { t } = useTranslation();
+  const total = tempo.backswingSeconds + tempo.downswingSeconds;
+  const assessment = tempo.ratio > TEMPO_BENCHMARK_RATIO + BENCHMARK_TOLERANCE
+    ? t('tempo.slowBackswing')
+    : tempo.ratio < TEMPO_BENCHMARK_RATIO - BENCHMARK_TOLERANCE
+      ? t('tempo.fastBackswing')
+      : t('tempo.onBenchmark');
+  const markers = [
+    { label: t('tempo.takeaway'), seconds: tempo.takeawaySeconds },
+    { label: t('tempo.top'), seconds: tempo.topSeconds },
+    { label: t('tempo.impact'), seconds: tempo.impactSeconds },
+  ];
+
+  return (
+    <div className="mb-4 p-3 bg-white rounded-lg border border-gray-200 space-y-3 text-sm text-gray-700">
+      <div className="flex items-center justify-between">
+        <h4 className="font-semibold text-gray-800">{t('tempo.title')}</h4>
+        <span className="text-xs text-gray-500">{t('tempo.benchmark', { ratio: TEMPO_BENCHMARK_RATIO })}</span>
+      </div>
+
+      {/* 比 */}
+      <div className="flex items-baseline gap-2">
+        <span className="text-gray-600">{t('tempo.ratio')}</span>
+        <span className="text-2xl font-bold text-blue-700">{t('tempo.ratioValue', { ratio: tempo.ratio })}</span>
+      </div>
+
+      {/* バックスイングとダウンスイングの長さ（幅は時間の比率） */}
+      <div className="flex h-6 rounded overflow-hidden text-xs text-white font-medium">
+        <div className="flex items-center justify-center bg-blue-500" style={{ width: `${(tempo.backswingSeconds / total) * 100}%` }}>
+          {t('tempo.seconds', { value: tempo.backswingSeconds.toFixed(2) })}
+        </div>
+        <div className="flex items-center justify-center bg-orange-500" style={{ width: `${(tempo.downswingSeconds / total) * 100}%` }}>
+          {tempo.downswingSeconds.toFixed(2)}
+        </div>
+      </div>
+      <div className="flex justify-between text-xs text-gray-600">
+        <span>{t('tempo.backswing')}</span>
+        <span>{t('tempo.downswing')} {t('tempo.seconds', { value: tempo.downswingSeconds.toFixed(2) })}</span>
+      </div>
+
+      {/* 各時点（クリックで該当位置へジャンプ） */}
+      <div className="flex flex-wrap gap-2">
+        {markers.map(({ label, seconds }) => (
+          <button
+            key={label}
+            type="button"
+            onClick={() => onSeek?.(seconds)}
+            disabled={!onSeek}
+            className="px-2 py-0.5 rounded bg-blue-50 text-blue-700 text-xs hover:bg-blue-100 disabled:hover:bg-blue-50"
+          >
+            {label} <span className="font-mono">{formatTimestamp(seconds)}</span>
+          </button>
+        ))}
+      </div>
+
+      <p>{assessment}</p>
+      <p className="text-xs text-gray-500">{t('tempo.note')}</p>
+    </div>
+  );
+}
@@ -0,0 +1,191 @@
+import crypto from "crypto";
+import { EventEmitter } from "events";
+import { AnalysisInput, GolfAnalysisResponse, cleanup, runAnalysisPipeline } from "@/lib/analysis-pipeline";
+import { AnalysisStage, isTerminalStage } from "@/lib/analysis-stages";
+import { AnalysisJob, getJobStore } from "@/lib/job-store";
+import { saveAnalysisRecord } from "@/lib/analysis-records";
+import { ApiErrorFields, describeError } from "@/lib/api-errors";
+import { usageRecorder } from "@/lib/usage-limits";
+import { DEFAULT_LOCALE } from "@/lib/i18n/locales";
+import { localizeError } from "@/lib/i18n/localized-error";
+import { translate } from "@/lib/i18n/translate";
+
+// クライアントに返すジョブ状態
+export interface AnalysisJobStatus extends ApiErrorFields {
+    jobId: string;
+    stage: AnalysisStage;
+    fileName: string;
+    createdAt: string;
+    updatedAt: string;
+    result?: GolfAnalysisResponse;
+    error?: string;
+}
+
+// ジョブのライブイベント（SSEでクライアントに送信する）
+export type AnalysisJobEvent =
+    | { type: 'stage'; stage: AnalysisStage }
+    | { type: 'text'; delta: string }
+    | { type: 'reset' }
+    | { type: 'end'; status: AnalysisJobStatus };
+
+// このプロセスで実行中のジョブ
+interface RunningJob {
+    controller: AbortController;
+    text: string;               // 途中から購読したクライアントに送るための累積テキスト
+    events: EventEmitter;
+}
+
+// 終了したジョブを保持する時間（結果は解析結果として別に保存されるため、ジョブは短期間で削除する）
+const JOB_RETENTION_MS = 60 * 60 * 1000; // 1時間
+
+// 終了していないジョブだけを更新する条件（キャンセル後に完了・失敗で上書きしない）
+const isActive = (job: AnalysisJob) => !isTerminalStage(job.stage);
+
+const globalForJobs = globalThis as unknown as { analysisRunningJobs?: Map<string, RunningJob> };
+const runningJobs = globalForJobs.analysisRunningJobs ??= new Map<string, RunningJob>();
+
+export const toJobStatus = (job: AnalysisJob): AnalysisJobStatus => ({
+    jobId: job.id,
+    stage: job.stage,
+    fileName: job.fileName,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+    result: job.result,
+    error: job.error,
+    errorCode: job.errorCode,
+    retryable: job.retryable,
+    retryAfterSeconds: job.retryAfterSeconds,
+});
+
+// ジョブを登録し、バックグラウンドで解析を開始する
+export async function startAnalysisJob(input: AnalysisInput): Promise<AnalysisJob> {
+    const store = getJobStore();
+    const now = new Date().toISOString();
+    const job: AnalysisJob = {
+        id: crypto.randomUUID(),
+        stage: 'received',
+        fileName: input.fileName,
+        createdAt: now,
+        updatedAt: now,
+        tempFilePath: input.tempFilePath,
+        ownerId: input.owner?.userId,
+        workspaceId: input.owner?.workspaceId,
+    };
+    await sweepFinishedJobs();
+    await store.create(job);
+    console.log(`📥 解析ジョブ受付: ${job.id} (${input.fileName})`);
+
+    // レスポンスを待たせないよう、完了を待たずに実行する
+    void runJob(job.id, input);
+    return job;
+}
+
+async function runJob(jobId: string, input: AnalysisInput): Promise<void> {
+    const store = getJobStore();
+    const running: RunningJob = { controller: new AbortController(), text: '', events: new EventEmitter() };
+    const { controller } = running;
+    const emit = (event: AnalysisJobEvent) => running.events.emit('event', event);
+    runningJobs.set(jobId, running);
+
+    try {
+        const result = await runAnalysisPipeline(input, {
+            signal: controller.signal,
+            onStage: async (stage) => {
+                // 別プロセスでキャンセルされた場合もここで検知する
+                if (!await store.update(jobId, { stage }, isActive)) {
+                    controller.abort();
+                    return;
+                }
+                console.log(`📍 ジョブ ${jobId}: ${stage}`);
+                emit({ type: 'stage', stage });
+            },
+            onText: (delta) => {
+                running.text += delta;
+                emit({ type: 'text', delta });
+            },
+            onTextReset: () => {
+                running.text = '';
+                emit({ type: 'reset' });
+            },
+            onUsage: usageRecorder(input.caller),
+        });
+        // 解析の完了と同時にキャンセルされた場合は、完了に戻さず結果も保存しない
+        if (await store.update(jobId, { stage: 'done', result }, isActive)) {
+            await saveAnalysisRecord(input, result, jobId);
+        } else {
+            console.log(`🛑 ジョブ ${jobId} は完了前にキャンセルされました`);
+        }
+    } catch (error: unknown) {
+        const current = await store.get(jobId);
+        if (controller.signal.aborted || current?.stage === 'cancelled') {
+            console.log(`🛑 ジョブ ${jobId} はキャンセルされました`);
+        } else {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+            console.error(`❌ ジョブ ${jobId} 失敗:`, { message: errorMessage });
+            // ポーリング・SSEのどちらでも同じ文言を返せるよう、ジョブ作成時の言語で保存する
+            const locale = input.locale ?? DEFAULT_LOCALE;
+            await store.update(jobId, {
+                stage: 'failed',
+                error: translate(locale, 'errors.analysisFailed', { message: localizeError(error, locale) }),
+                ...describeError(error).details,
+            }, isActive);
+        }
+    } finally {
+        runningJobs.delete(jobId);
+        const finished = await store.get(jobId);
+        if (finished) {
+            emit({ type: 'end', status: toJobStatus(finished) });
+        }
+        running.events.removeAllListeners();
+    }
+}
+
+// 実行中ジョブのイベントを購読する
+// このプロセスで実行中でなければ null（呼び出し側はストアをポーリングする）
+export function subscribeToJob(jobId: string, listener: (event: AnalysisJobEvent) => void): { text: string; unsubscribe: () => void } | null {
+    const running = runningJobs.get(jobId);
+    if (!running) return null;
+    running.events.on('event', listener);
+    return {
+        text: running.text,
+        unsubscribe: () => running.events.off('event', listener),
+    };
+}
+
+// ジョブをキャンセルし、一時ファイル・アップロード済みファイルを削除する
+export async function cancelAnalysisJob(jobId: string): Promise<AnalysisJob | null> {
+    const store = getJobStore();
+    const job = await store.get(jobId);
+    if (!job) return null;
+    if (isTerminalStage(job.stage)) return job;
+
+    // 確認後に完了した場合は、完了したジョブをそのまま返す
+    const cancelled = await store.update(jobId, { stage: 'cancelled' }, isActive);
+    if (!cancelled) return store.get(jobId);
+    const running = runningJobs.get(jobId);
+    if (running) {
+        // 実行中のパイプラインが finally でクリーンアップする
+        running.controller.abort();
+    } else {
+        // 実行プロセスが存在しない（再起動後など）場合は一時ファイルのみ削除
+        await cleanup(job.tempFilePath, null, null);
+    }
+    return cancelled;
+}
+
+// SSE で終了イベントを送ったジョブを削除する（結果は解析結果として保存済み）
+export async function releaseFinishedJob(jobId: string): Promise<void> {
+    const store = getJobStore();
+    const job = await store.get(jobId);
+    if (job && isTerminalStage(job.stage) && !runningJobs.has(jobId)) {
+        await store.delete(jobId);
+    }
+}
+
+// 保持期間を過ぎた終了済みのジョブを削除する
+async function sweepFinishedJobs(): Promise<void> {
+    const expired = await getJobStore().sweep(Date.now() - JOB_RETENTION_MS);
+    if (expired.length > 0) {
+        console.log(`🗑️ 終了済みのジョブを削除: ${expired.length}件`);
+    }
+}
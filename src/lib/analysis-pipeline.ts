@@ -0,0 +1,386 @@
+import { NextRequest } from "next/server";
+import fs from "fs/promises";
+import path from "path";
+import os from "os";
+import crypto from "crypto";
+import { SwingReport, offsetSwingReport, parseSwingReport } from "@/lib/swing-report";
+import type { AnalysisStage } from "@/lib/analysis-stages";
+import type { Part } from "@google/generative-ai";
+import { AnalysisProvider, GenerateOptions, GenerateResult, ProviderFile, TokenUsage, createAnalysisProvider } from "@/lib/providers/analysis-provider";
+import { TrimRange, isNormalizationEnabled, normalizeVideo, parseTrimRange } from "@/lib/video-preprocess";
+import { buildAnalysisPrompt, buildKeyFramePrompt } from "@/lib/prompts";
+import { AnalysisPipeline, KeyFrameHint, KeyFrameImage, PreparedKeyFrames, extractKeyFrames, isAnalysisPipeline } from "@/lib/key-frames";
+import { PlayerProfile, parsePlayerProfile } from "@/lib/player-profile";
+import { PoseMetrics, offsetPoseMetrics, parsePoseMetrics } from "@/lib/pose-metrics";
+import { SwingTempo, offsetSwingTempo, parseSwingTempo } from "@/lib/swing-tempo";
+import { ClubType, isClubType } from "@/lib/clubs";
+import { CameraAngle, isCameraAngle } from "@/lib/camera-angles";
+import { parseAttachedFrames } from "@/lib/attached-frames";
+import type { CapturedFrame } from "@/lib/video-canvas";
+import { SESSION_TIME_BUDGET_MS, analyzeSession } from "@/lib/session-analysis";
+import type { VideoFileInfo } from "@/lib/video-probe";
+import type { ApiErrorFields } from "@/lib/api-errors";
+import type { AnalysisOwner } from "@/lib/analysis-records";
+import type { Locale } from "@/lib/i18n/locales";
+import { LocalizedError } from "@/lib/i18n/localized-error";
+import { parseOutputLanguage } from "@/lib/i18n/request-locale";
+import type { MessageKey } from "@/lib/i18n/translate";
+import type { AnalysisMode, SwingSession } from "@/lib/swing-session";
+
+// 型定義
+// フォームで指定する解析オプション（multipart の解析リクエストと分割アップロードの finalize で共通）
+export interface AnalysisOptions {
+    trim?: TrimRange;
+    mode: AnalysisMode;
+    profile?: PlayerProfile;
+    club?: ClubType;
+    cameraAngle?: CameraAngle;
+    language?: Locale;
+    poseMetrics?: PoseMetrics;
+    tempo?: SwingTempo;
+    pipeline?: AnalysisPipeline;
+    frames?: CapturedFrame[];
+}
+
+export interface GolfAnalysisRequest extends AnalysisOptions {
+    file: File;
+    fileSize: number;
+    fileSizeMB: number;
+}
+
+export interface GolfAnalysisFileInfo {
+    originalName: string;
+    originalSize: string;
+    processingTime: string;
+    method: string;
+    normalized?: boolean;       // サーバー側でH.264 MP4に正規化したか
+    analyzedSize?: string;      // 解析に使用したファイルのサイズ（正規化後）
+    model?: string;             // 回答を生成したモデル
+    attempts?: number;          // フォールバックを含む総試行回数
+    usage?: TokenUsage;         // 入力・出力トークン数（セッションモードは全呼び出しの合計）
+    video?: VideoFileInfo;      // 受信した動画のコンテナ・長さ・解像度・コーデック
+}
+
+// 失敗時は error に加えて errorCode・retryable・retryAfterSeconds を返す
+export interface GolfAnalysisResponse extends ApiErrorFields {
+    success: boolean;
+    analysis?: string;          // モデルの生テキスト（レポートの検証に失敗した場合のフォールバック）
+    report?: SwingReport | null;
+    session?: SwingSession;     // mode=session の場合のスイングごとの結果
+    tempo?: SwingTempo;         // リクエストで受け取ったテンポの計測値（元動画の時刻）
+    keyFrames?: KeyFrameImage[]; // キーフレーム方式で解析に使用した画像（元動画の時刻）
+    error?: string;
+    fileInfo?: GolfAnalysisFileInfo;
+}
+
+// 一時ファイルに保存済みの解析対象
+export interface AnalysisInput {
+    tempFilePath: string;
+    fileName: string;
+    fileSize: number;
+    mimeType: string;           // マジックバイトから判定した MIME タイプ
+    video?: VideoFileInfo;
+    trim?: TrimRange;
+    mode?: AnalysisMode;
+    profile?: PlayerProfile;    // プロンプトに追加するプレーヤー情報
+    club?: ClubType;            // プロンプトテンプレートの切り替えに使用
+    cameraAngle?: CameraAngle;
+    language?: Locale;          // 解析結果の出力言語
+    poseMetrics?: PoseMetrics;  // ブラウザの姿勢推定による計測値（単一スイングのみプロンプトに追加）
+    tempo?: SwingTempo;         // 同じくテンポの計測値
+    pipeline?: AnalysisPipeline; // keyFrames の場合は動画の代わりにキーフレームの画像を渡す（単一スイングのみ）
+    frames?: CapturedFrame[];   // プレーヤーで添付したフレーム（解析には使わず、ワークスペースの解析結果に保存する）
+    locale?: Locale;            // ジョブ失敗時のエラーメッセージの言語
+    caller?: string;            // トークン使用量を記録する呼び出し元（レート制限のキー）
+    owner?: AnalysisOwner;      // 解析結果を保存するユーザーとワークスペース
+}
+
+export interface AnalysisHooks extends GenerateOptions {
+    onStage?: (stage: AnalysisStage) => void | Promise<void>;
+}
+
+// 定数
+export const MAX_FILE_SIZE = 2 * 1024 * 1024 * 1024; // 2GB
+export const GEMINI_BASE64_LIMIT = 20 * 1024 * 1024; // 20MB（Geminiの絶対制限）
+
+// 解析後に削除が必要なリソース（準備の途中で失敗しても後片付けできるよう逐次記録する）
+export interface MediaResources {
+    uploadedFile: ProviderFile | null;
+    normalizedFilePath: string;
+}
+
+export interface PreparedMedia {
+    part: Part;
+    useBase64: boolean;
+    analyzedSize: number;       // 解析に使用したファイルのサイズ（正規化後）
+}
+
+export type StageReporter = (stage: AnalysisStage) => Promise<void>;
+
+// 動画を正規化し、モデルに渡すメディアパートを準備する（Base64 / Files API）
+// base64Limit: 1リクエストに複数の動画を含める場合は制限を分け合う
+export async function prepareMedia(
+    provider: AnalysisProvider,
+    input: Pick<AnalysisInput, 'tempFilePath' | 'fileSize' | 'mimeType' | 'trim'>,
+    resources: MediaResources,
+    reportStage: StageReporter,
+    signal?: AbortSignal,
+    base64Limit: number = GEMINI_BASE64_LIMIT,
+): Promise<PreparedMedia> {
+    // 解析対象（正規化に成功した場合は変換後のファイル）
+    let source = { filePath: input.tempFilePath, fileSize: input.fileSize, mimeType: input.mimeType };
+
+    if (isNormalizationEnabled()) {
+        await reportStage('normalizing');
+        try {
+            const normalized = await normalizeVideo(input.tempFilePath, input.trim, signal);
+            resources.normalizedFilePath = normalized.filePath;
+            source = normalized;
+        } catch (normalizeError) {
+            signal?.throwIfAborted();
+            // トリミング指定がある場合は元の動画全体を解析せずに失敗させる
+            if (input.trim) {
+                throw normalizeError;
+            }
+            console.warn('⚠️ 動画の正規化に失敗しました。元のファイルで解析します:', normalizeError);
+        }
+    } else if (input.trim) {
+        throw new LocalizedError('errors.trimWithoutNormalization');
+    }
+
+    const useBase64 = source.fileSize <= base64Limit;
+    if (useBase64) {
+        return { part: await processWithBase64(source.filePath, source.mimeType), useBase64, analyzedSize: source.fileSize };
+    }
+
+    await reportStage('uploading');
+    const uploadedFile = await uploadFileWithFilesAPI(provider, source.filePath, source.mimeType);
+    resources.uploadedFile = uploadedFile;
+    await reportStage('processing');
+    await provider.waitForReady(uploadedFile, signal);
+    return { part: processWithFilesAPI(uploadedFile), useBase64, analyzedSize: source.fileSize };
+}
+
+// キーフレームを抽出する（失敗した場合は動画全体で解析できるよう null を返す）
+async function prepareKeyFrames(input: AnalysisInput, reportStage: StageReporter, signal?: AbortSignal): Promise<PreparedKeyFrames | null> {
+    await reportStage('extractingFrames');
+    // 姿勢推定の時刻はトリミング後の動画の時刻に揃えて渡す
+    const offset = input.trim?.start ?? 0;
+    const toClipTime = (seconds: number | null | undefined) => seconds === null || seconds === undefined || seconds < offset ? undefined : seconds - offset;
+    const hint: KeyFrameHint = input.tempo
+        ? { takeaway: toClipTime(input.tempo.takeawaySeconds), top: toClipTime(input.tempo.topSeconds), impact: toClipTime(input.tempo.impactSeconds) }
+        : { top: toClipTime(input.poseMetrics?.keyFrames.top), impact: toClipTime(input.poseMetrics?.keyFrames.impact) };
+    try {
+        return await extractKeyFrames(input.tempFilePath, input.trim, hint, signal);
+    } catch (keyFrameError) {
+        signal?.throwIfAborted();
+        console.warn('⚠️ キーフレームの抽出に失敗しました。動画全体で解析します:', keyFrameError);
+        return null;
+    }
+}
+
+// 一時ファイル・正規化済みファイル・アップロード済みファイルを削除する
+export async function releaseMedia(tempFilePath: string, resources: MediaResources, provider: AnalysisProvider | null): Promise<void> {
+    await cleanup(tempFilePath, resources.uploadedFile, provider);
+    await removeTemporaryFile(resources.normalizedFilePath);
+}
+
+// 解析パイプライン本体（認証 → 正規化 → Base64 / Files API またはキーフレーム抽出 → 解析 → クリーンアップ）
+export async function runAnalysisPipeline(input: AnalysisInput, hooks: AnalysisHooks = {}): Promise<GolfAnalysisResponse> {
+    const { signal } = hooks;
+    const startTime = Date.now();
+    const resources: MediaResources = { uploadedFile: null, normalizedFilePath: '' };
+    let provider: AnalysisProvider | null = null; // finallyブロックで使うために関数スコープで宣言
+
+    const reportStage = async (stage: AnalysisStage) => {
+        signal?.throwIfAborted();
+        await hooks.onStage?.(stage);
+        signal?.throwIfAborted();
+    };
+
+    try {
+        provider = await createAnalysisProvider();
+
+        // キーフレーム方式では動画の代わりにラベル付きの静止画を渡す
+        const keyFrames = input.pipeline === 'keyFrames' && input.mode !== 'session'
+            ? await prepareKeyFrames(input, reportStage, signal)
+            : null;
+        const media = keyFrames ? null : await prepareMedia(provider, input, resources, reportStage, signal);
+
+        const method = keyFrames ? 'Key frames' : media?.useBase64 ? 'Server-side Base64' : 'Files API';
+        let analysisResult: GenerateResult;
+        let report: SwingReport | null = null;
+        let session: SwingSession | undefined;
+
+        if (input.mode === 'session' && media) {
+            // 複数スイングを検出し、スイングごとに解析
+            const sessionResult = await analyzeSession(provider, media.part, method, {
+                ...hooks,
+                onStage: reportStage,
+            }, {
+                timeOffset: input.trim?.start ?? 0,
+                deadline: startTime + SESSION_TIME_BUDGET_MS,
+                profile: input.profile,
+                club: input.club,
+                cameraAngle: input.cameraAngle,
+                language: input.language,
+            });
+            session = sessionResult.session;
+            analysisResult = sessionResult.generation;
+        } else {
+            await reportStage('analyzing');
+            // 計測値の時刻はトリミング後の動画の時刻に揃えて渡す
+            const poseMetrics = input.poseMetrics && offsetPoseMetrics(input.poseMetrics, -(input.trim?.start ?? 0));
+            const tempo = input.tempo && offsetSwingTempo(input.tempo, -(input.trim?.start ?? 0));
+            const context = { ...input, poseMetrics, tempo };
+            const contents: Part[] = keyFrames
+                ? [{ text: buildKeyFramePrompt(keyFrames.times, context) }, ...keyFrames.parts]
+                : [{ text: buildAnalysisPrompt(context) }, ...(media ? [media.part] : [])];
+            analysisResult = await provider.generate(contents, method, hooks);
+            report = parseSwingReport(analysisResult.text);
+            if (!report) {
+                console.warn('⚠️ レポートのスキーマ検証に失敗しました。生テキストを返します');
+            } else {
+                // フェーズの時刻を元動画の時刻に揃える
+                report = offsetSwingReport(report, input.trim?.start ?? 0);
+            }
+        }
+
+        const processingTime = ((Date.now() - startTime) / 1000).toFixed(1);
+        console.log('🎉 解析完了！');
+        console.log(`⏱️ 総処理時間: ${processingTime}秒`);
+
+        return {
+            success: true,
+            analysis: analysisResult.text,
+            report,
+            session,
+            tempo: session ? undefined : input.tempo,
+            keyFrames: keyFrames?.frames,
+            fileInfo: {
+                originalName: input.fileName,
+                originalSize: `${(input.fileSize / 1024 / 1024).toFixed(1)}MB`,
+                processingTime: `${processingTime}秒`,
+                method: keyFrames ? 'Key frames' : media?.useBase64 ? 'Base64' : 'Files API',
+                normalized: resources.normalizedFilePath !== '',
+                analyzedSize: `${((keyFrames?.totalBytes ?? media?.analyzedSize ?? 0) / 1024 / 1024).toFixed(1)}MB`,
+                model: analysisResult.model,
+                attempts: analysisResult.attempts,
+                usage: analysisResult.usage,
+                video: input.video,
+            }
+        };
+    } finally {
+        await releaseMedia(input.tempFilePath, resources, provider);
+    }
+}
+
+// 解析オプションの検証
+export function parseAnalysisOptions(formData: FormData): AnalysisOptions {
+    const trim = parseTrimRange(formData.get('trimStart'), formData.get('trimEnd'));
+    const mode: AnalysisMode = formData.get('mode') === 'session' ? 'session' : 'single';
+    const profile = parsePlayerProfile(formData.get('profile'));
+    const club = parseOptionalOption(formData.get('club'), isClubType, 'errors.invalidClub');
+    const cameraAngle = parseOptionalOption(formData.get('cameraAngle'), isCameraAngle, 'errors.invalidCameraAngle');
+    const language = parseOutputLanguage(formData.get('language'));
+    const poseMetrics = parsePoseMetrics(formData.get('poseMetrics'));
+    const tempo = parseSwingTempo(formData.get('tempo'));
+    const pipeline = parseOptionalOption(formData.get('pipeline'), isAnalysisPipeline, 'errors.invalidPipeline');
+    const frames = parseAttachedFrames(formData.get('frames'));
+    if (pipeline === 'keyFrames' && mode === 'session') {
+        throw new LocalizedError('errors.keyFramesWithSession');
+    }
+    return { trim, mode, profile, club, cameraAngle, language, poseMetrics, tempo, pipeline, frames };
+}
+
+// ファイル受信と検証
+export async function validateAndExtractFile(request: NextRequest): Promise<GolfAnalysisRequest> {
+    const formData = await request.formData();
+    const file = formData.get('file') as File;
+    const options = parseAnalysisOptions(formData);
+
+    if (!file) {
+        throw new LocalizedError('errors.noFile');
+    }
+
+    const fileSize = file.size;
+    const fileSizeMB = fileSize / 1024 / 1024;
+
+    if (fileSize > MAX_FILE_SIZE) {
+        throw new LocalizedError('errors.fileTooLarge', { size: fileSizeMB.toFixed(1) });
+    }
+
+    return { file, fileSize, fileSizeMB, ...options };
+}
+
+// 選択式の項目（未指定は undefined、不正な値はエラー）
+function parseOptionalOption<T extends string>(value: FormDataEntryValue | null, isValid: (value: unknown) => value is T, errorKey: MessageKey): T | undefined {
+    if (value === null || value === '') return undefined;
+    if (!isValid(value)) {
+        throw new LocalizedError(errorKey, { value: String(value) });
+    }
+    return value;
+}
+
+// 一時ファイル保存
+export async function saveTemporaryFile(file: File, tempDir: string = os.tmpdir()): Promise<string> {
+    const fileId = crypto.randomUUID();
+    const tempFilePath = path.join(tempDir, `${fileId}_${file.name}`);
+    const bytes = await file.arrayBuffer();
+    await fs.writeFile(tempFilePath, Buffer.from(bytes));
+    return tempFilePath;
+}
+
+
+// Base64形式での処理（サーバー側変換）
+async function processWithBase64(tempFilePath: string, fileType: string | undefined): Promise<Part> {
+    console.log('📊 20MB以下 → Base64形式で処理');
+    const processedBuffer = await fs.readFile(tempFilePath);
+    const base64Data = processedBuffer.toString('base64');
+    const mimeType = fileType || 'video/quicktime';
+    console.log(`✅ Base64準備完了: ${mimeType}`);
+    return { inlineData: { mimeType, data: base64Data } };
+}
+
+// Files API使用でのファイルアップロード
+async function uploadFileWithFilesAPI(provider: AnalysisProvider, tempFilePath: string, mimeType: string): Promise<ProviderFile> {
+    console.log('🎬 20MB超 → Files API使用');
+    return await provider.upload(tempFilePath, mimeType || 'video/quicktime');
+}
+
+// Files API使用での解析
+function processWithFilesAPI(uploadedFile: ProviderFile): Part {
+    if (!uploadedFile.mimeType || !uploadedFile.uri) {
+        throw new Error('処理済みファイルのMIMEタイプまたはURIが取得できませんでした。');
+    }
+    return { fileData: { mimeType: uploadedFile.mimeType, fileUri: uploadedFile.uri } };
+}
+
+// クリーンアップ処理
+export async function cleanup(tempFilePath: string, uploadedFile: ProviderFile | null, provider: AnalysisProvider | null): Promise<void> {
+    try {
+        if (uploadedFile?.name) {
+            if (provider) {
+                await provider.delete(uploadedFile);
+            } else {
+                console.warn('⚠️ アップロードファイル削除スキップ: プロバイダーがありません');
+            }
+        }
+    } catch (deleteError) {
+        console.error('❌ アップロードファイル削除エラー:', deleteError);
+    }
+    await removeTemporaryFile(tempFilePath);
+    console.log('✅ クリーンアップ完了');
+}
+
+// 一時ファイル削除
+async function removeTemporaryFile(filePath: string): Promise<void> {
+    try {
+        if (filePath && await fs.stat(filePath).catch(() => false)) {
+            await fs.unlink(filePath);
+            console.log(`🗑️ 一時ファイル削除: ${path.basename(filePath)}`);
+        }
+    } catch (cleanupError) {
+        console.error('❌ クリーンアップエラー:', cleanupError);
+    }
+}
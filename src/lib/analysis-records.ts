@@ -0,0 +1,138 @@
+import crypto from "crypto";
+import type { AnalysisInput, GolfAnalysisResponse } from "@/lib/analysis-pipeline";
+import { getRecordStore } from "@/lib/record-store";
+import { AuthContext, canAccess, requireCoach } from "@/lib/auth/sessions";
+import { CoachReview, ReviewStatus, parseCoachReviewContent, reviewableReports } from "@/lib/coach-review";
+import { LocalizedError } from "@/lib/i18n/localized-error";
+import type { ClubType } from "@/lib/clubs";
+import type { CameraAngle } from "@/lib/camera-angles";
+import type { CapturedFrame } from "@/lib/video-canvas";
+
+// ワークスペースに保存する解析結果（端末内の履歴とは別に、コーチと共有する）
+
+// 解析を依頼したユーザーとワークスペース
+export interface AnalysisOwner {
+    userId: string;
+    email: string;
+    workspaceId: string;
+}
+
+export interface AnalysisRecord {
+    id: string;                 // ジョブで解析した場合はジョブID
+    ownerId: string;
+    ownerEmail: string;
+    workspaceId: string;
+    fileName: string;
+    club?: ClubType;
+    cameraAngle?: CameraAngle;
+    createdAt: string;
+    result: GolfAnalysisResponse;   // AIの元の解析結果（レビューで編集しても変更しない）
+    review?: CoachReview;
+    frames?: CapturedFrame[];       // プレーヤーで添付したフレーム（解析後も追加・削除できる）
+}
+
+// 一覧の項目（解析結果本体・レビュー本体は含めない）
+export interface AnalysisRecordSummary extends Omit<AnalysisRecord, 'result' | 'review' | 'frames'> {
+    overallScore?: number;      // セッションは平均
+    swingCount?: number;
+    frameCount?: number;
+    reviewStatus?: ReviewStatus;
+}
+
+export const ownerOf = (auth: AuthContext): AnalysisOwner => ({
+    userId: auth.user.id,
+    email: auth.user.email,
+    workspaceId: auth.workspace.id,
+});
+
+const analysisRecords = () => getRecordStore<AnalysisRecord>('analyses');
+
+const toSummary = ({ result, review, frames, ...record }: AnalysisRecord): AnalysisRecordSummary => ({
+    ...record,
+    overallScore: result.session ? result.session.averageScores.overall : result.report?.overallScore ?? undefined,
+    swingCount: result.session?.swings.length,
+    frameCount: frames?.length || undefined,
+    reviewStatus: review?.status,
+});
+
+// 公開前のレビュー（下書き）はコーチにのみ見せる
+const visibleRecord = (auth: AuthContext, { review, ...record }: AnalysisRecord): AnalysisRecord =>
+    review && (review.status === 'published' || auth.role === 'coach') ? { ...record, review } : record;
+
+// 成功した解析結果を保存する（所有者のない呼び出しや失敗した解析は保存しない）
+export async function saveAnalysisRecord(input: AnalysisInput, result: GolfAnalysisResponse, id: string = crypto.randomUUID()): Promise<void> {
+    if (!input.owner || !result.success) return;
+    await analysisRecords().put({
+        id,
+        ownerId: input.owner.userId,
+        ownerEmail: input.owner.email,
+        workspaceId: input.owner.workspaceId,
+        fileName: input.fileName,
+        club: input.club,
+        cameraAngle: input.cameraAngle,
+        createdAt: new Date().toISOString(),
+        result,
+        frames: input.frames,
+    });
+}
+
+// 閲覧できる解析結果の一覧（新しい順）
+export async function listAnalysisRecords(auth: AuthContext): Promise<AnalysisRecordSummary[]> {
+    const records = await analysisRecords().list(record => canAccess(auth, record));
+    return records
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+        .map(record => toSummary(visibleRecord(auth, record)));
+}
+
+// 閲覧できない解析結果は存在しない場合と同じく null
+export async function getAnalysisRecord(auth: AuthContext, id: string): Promise<AnalysisRecord | null> {
+    const record = await analysisRecords().get(id);
+    return record && canAccess(auth, record) ? visibleRecord(auth, record) : null;
+}
+
+// コーチのレビューを保存する（publish: true でプレーヤーに公開、false で下書きに戻す）
+export async function saveCoachReview(auth: AuthContext, id: string, content: unknown, publish: boolean): Promise<AnalysisRecord> {
+    requireCoach(auth);
+    const record = await getAnalysisRecord(auth, id);
+    if (!record) {
+        throw new LocalizedError('errors.analysisNotFound', { id });
+    }
+    const { reports, comments } = parseCoachReviewContent(content, reviewableReports(record.result));
+    const now = new Date().toISOString();
+    const previous = record.review;
+    const action = publish ? 'published' : previous?.status === 'published' ? 'unpublished' : 'saved';
+    const review: CoachReview = {
+        reports,
+        comments,
+        status: publish ? 'published' : 'draft',
+        reviewerEmail: auth.user.email,
+        updatedAt: now,
+        ...(publish && { publishedAt: now }),
+        history: [...previous?.history ?? [], { action, userEmail: auth.user.email, at: now }],
+    };
+    const updated = { ...record, review };
+    await analysisRecords().put(updated);
+    console.log(`📝 レビューを${publish ? '公開' : '保存'}: ${id} (${auth.user.email})`);
+    return updated;
+}
+
+// 添付フレームを置き換える（解析後にプレーヤーで追加・削除した場合）
+export async function saveAttachedFrames(auth: AuthContext, id: string, frames: CapturedFrame[]): Promise<AnalysisRecord> {
+    // 下書きのレビューを消さないよう、閲覧用に絞り込む前の解析結果を更新する
+    const record = await analysisRecords().get(id);
+    if (!record || !canAccess(auth, record)) {
+        throw new LocalizedError('errors.analysisNotFound', { id });
+    }
+    const updated = { ...record, frames };
+    await analysisRecords().put(updated);
+    console.log(`📌 添付フレームを保存: ${id} (${frames.length}枚)`);
+    return visibleRecord(auth, updated);
+}
+
+export async function deleteAnalysisRecord(auth: AuthContext, id: string): Promise<boolean> {
+    const record = await getAnalysisRecord(auth, id);
+    if (!record) return false;
+    await analysisRecords().delete(id);
+    console.log(`🗑️ 解析結果を削除: ${id}`);
+    return true;
+}
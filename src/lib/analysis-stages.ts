@@ -0,0 +1,6 @@
+// 解析の進行段階（サーバー・クライアント共通）
+export type AnalysisStage = 'received' | 'normalizing' | 'uploading' | 'processing' | 'extractingFrames' | 'detecting' | 'analyzing' | 'done' | 'failed' | 'cancelled';
+
+export const TERMINAL_STAGES: readonly AnalysisStage[] = ['done', 'failed', 'cancelled'];
+
+export const isTerminalStage = (stage: AnalysisStage) => TERMINAL_STAGES.includes(stage);
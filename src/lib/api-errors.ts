@@ -0,0 +1,195 @@
+import { GoogleGenerativeAIFetchError, GoogleGenerativeAIResponseError } from "@google/generative-ai";
+import { LocalizedError } from "@/lib/i18n/localized-error";
+import type { MessageKey, MessageParams } from "@/lib/i18n/translate";
+import { getRetryDelayMs } from "@/lib/providers/retry-policy";
+
+// API のエラー分類（クライアントは文言ではなく errorCode で対処方法を判断する）
+
+export type ApiErrorCode =
+    | 'no-file'
+    | 'invalid-request'
+    | 'file-too-large'
+    | 'unsupported-media-type'
+    | 'unauthorized'
+    | 'unauthenticated'
+    | 'forbidden'
+    | 'not-found'
+    | 'conflict'
+    | 'no-swings-detected'
+    | 'safety-blocked'
+    | 'video-processing-failed'
+    | 'rate-limited'
+    | 'usage-quota-exceeded'
+    | 'quota-exceeded'
+    | 'config-error'
+    | 'upstream-unavailable'
+    | 'processing-timeout'
+    | 'internal';
+
+// 画面で案内する対処方法
+export type ErrorAction = 'fixInput' | 'shrinkFile' | 'changeFile' | 'retry' | 'retryLater' | 'fixConfig' | 'signIn';
+
+interface ErrorCodeDefinition {
+    status: number;
+    retryable: boolean;         // 同じリクエストを再送して成功する見込みがあるか
+    action: ErrorAction;
+}
+
+const ERROR_CODES: Record<ApiErrorCode, ErrorCodeDefinition> = {
+    'no-file': { status: 400, retryable: false, action: 'fixInput' },
+    'invalid-request': { status: 400, retryable: false, action: 'fixInput' },
+    'file-too-large': { status: 413, retryable: false, action: 'shrinkFile' },
+    'unsupported-media-type': { status: 415, retryable: false, action: 'changeFile' },
+    'unauthorized': { status: 401, retryable: false, action: 'fixInput' },
+    'unauthenticated': { status: 401, retryable: false, action: 'signIn' },
+    'forbidden': { status: 403, retryable: false, action: 'fixInput' },
+    'not-found': { status: 404, retryable: false, action: 'retry' },
+    'conflict': { status: 409, retryable: true, action: 'retry' },
+    'no-swings-detected': { status: 422, retryable: false, action: 'changeFile' },
+    'safety-blocked': { status: 422, retryable: false, action: 'changeFile' },
+    'video-processing-failed': { status: 422, retryable: false, action: 'changeFile' },
+    'rate-limited': { status: 429, retryable: true, action: 'retryLater' },
+    'usage-quota-exceeded': { status: 429, retryable: true, action: 'retryLater' },
+    'quota-exceeded': { status: 429, retryable: true, action: 'retryLater' },
+    'config-error': { status: 503, retryable: false, action: 'fixConfig' },
+    'upstream-unavailable': { status: 503, retryable: true, action: 'retryLater' },
+    'processing-timeout': { status: 504, retryable: true, action: 'retryLater' },
+    'internal': { status: 500, retryable: false, action: 'retry' },
+};
+
+// 利用者向けエラー（LocalizedError）のメッセージキーとエラーコードの対応
+const MESSAGE_ERROR_CODES: Partial<Record<MessageKey, ApiErrorCode>> = {
+    'errors.noFile': 'no-file',
+    'errors.fileTooLarge': 'file-too-large',
+    'errors.chunkTooLarge': 'file-too-large',
+    'errors.unsupportedVideo': 'unsupported-media-type',
+    'errors.invalidClub': 'invalid-request',
+    'errors.invalidCameraAngle': 'invalid-request',
+    'errors.invalidPipeline': 'invalid-request',
+    'errors.keyFramesWithSession': 'invalid-request',
+    'errors.invalidLanguage': 'invalid-request',
+    'errors.invalidExportFormat': 'invalid-request',
+    'errors.trimWithoutNormalization': 'invalid-request',
+    'errors.invalidTrimPosition': 'invalid-request',
+    'errors.trimEndBeforeStart': 'invalid-request',
+    'errors.invalidProfile': 'invalid-request',
+    'errors.invalidPoseMetrics': 'invalid-request',
+    'errors.invalidTempo': 'invalid-request',
+    'errors.invalidAttachedFrames': 'invalid-request',
+    'errors.invalidHandedness': 'invalid-request',
+    'errors.handicapOutOfRange': 'invalid-request',
+    'errors.heightOutOfRange': 'invalid-request',
+    'errors.invalidBeforeReport': 'invalid-request',
+    'errors.invalidAfterReport': 'invalid-request',
+    'errors.comparisonNeedsTwoVideos': 'invalid-request',
+    'errors.invalidUploadRequest': 'invalid-request',
+    'errors.invalidApiToken': 'unauthorized',
+    'errors.invalidEmail': 'invalid-request',
+    'errors.invalidRole': 'invalid-request',
+    'errors.invalidReview': 'invalid-request',
+    'errors.signInRequired': 'unauthenticated',
+    'errors.coachOnly': 'forbidden',
+    'errors.lastCoach': 'conflict',
+    'errors.memberNotFound': 'not-found',
+    'errors.workspaceNotFound': 'not-found',
+    'errors.analysisNotFound': 'not-found',
+    'errors.rateLimited': 'rate-limited',
+    'errors.dailyQuotaExceeded': 'usage-quota-exceeded',
+    'errors.monthlyQuotaExceeded': 'usage-quota-exceeded',
+    'errors.uploadNotFound': 'not-found',
+    'errors.jobNotFound': 'not-found',
+    'errors.uploadOffsetMismatch': 'conflict',
+    'errors.uploadInProgress': 'conflict',
+    'errors.uploadIncomplete': 'conflict',
+    'errors.noSwingsDetected': 'no-swings-detected',
+    'errors.fileProcessingIncomplete': 'video-processing-failed',
+    'errors.fileProcessingTimeout': 'processing-timeout',
+    'errors.sessionTimeBudgetExceeded': 'processing-timeout',
+    'errors.fileNameLost': 'upstream-unavailable',      // Files API の応答の不備（時間をおいて再送すれば成功する見込みがある）
+    'errors.serviceAccountMissing': 'config-error',
+    'errors.serviceAccountInvalid': 'config-error',
+    'errors.accessTokenFailed': 'config-error',
+    'errors.mailNotConfigured': 'config-error',
+};
+
+// エラーレスポンスに含める項目
+export interface ApiErrorDetails {
+    errorCode: ApiErrorCode;
+    retryable: boolean;
+    retryAfterSeconds?: number; // サーバーが待機時間を指定した場合（Retry-After ヘッダーと同じ値）
+}
+
+// GolfAnalysisResponse などのレスポンス型に含める（成功時は省略）
+export type ApiErrorFields = Partial<ApiErrorDetails>;
+
+// クライアント側で受け取ったエラーレスポンス
+// status はHTTPレスポンスのステータス（ジョブの失敗など、エラーレスポンス以外の場合は省略）
+export class ApiResponseError extends Error {
+    constructor(message: string, readonly details: ApiErrorFields = {}, readonly status?: number) {
+        super(message);
+        this.name = 'ApiResponseError';
+    }
+}
+
+// 利用回数・利用量の上限超過（retryAfterSeconds 後に再試行できる）
+export class UsageLimitError extends LocalizedError {
+    constructor(key: MessageKey, params: MessageParams, readonly retryAfterSeconds: number) {
+        super(key, params);
+        this.name = 'UsageLimitError';
+    }
+}
+
+// エラーコードに対応するレスポンスの項目（ルートで直接 404 などを返す場合に使う）
+export const errorDetailsOf = (code: ApiErrorCode): ApiErrorDetails => ({ errorCode: code, retryable: ERROR_CODES[code].retryable });
+
+// エラーを分類し、HTTP ステータスとレスポンスの項目を返す
+export function describeError(error: unknown): { status: number; details: ApiErrorDetails } {
+    const { code, retryAfterSeconds } = classifyApiError(error);
+    return {
+        status: ERROR_CODES[code].status,
+        details: { ...errorDetailsOf(code), ...(retryAfterSeconds !== undefined && { retryAfterSeconds }) },
+    };
+}
+
+// Retry-After ヘッダー（待機時間が分かる場合のみ）
+export function retryAfterHeaders(details: ApiErrorDetails): HeadersInit | undefined {
+    return details.retryAfterSeconds !== undefined ? { 'Retry-After': String(details.retryAfterSeconds) } : undefined;
+}
+
+// エラーコードから画面で案内する対処方法を返す（コードがない古いレスポンスは再試行を案内）
+export const errorActionOf = (code: ApiErrorCode | undefined): ErrorAction =>
+    code ? ERROR_CODES[code].action : 'retry';
+
+function classifyApiError(error: unknown): { code: ApiErrorCode; retryAfterSeconds?: number } {
+    if (error instanceof UsageLimitError) {
+        return { code: MESSAGE_ERROR_CODES[error.key] ?? 'rate-limited', retryAfterSeconds: error.retryAfterSeconds };
+    }
+    if (error instanceof LocalizedError) {
+        return { code: MESSAGE_ERROR_CODES[error.key] ?? 'internal' };
+    }
+    // セーフティフィルターによるブロック（SDK はテキスト取得時に ResponseError を投げる）
+    if (error instanceof GoogleGenerativeAIResponseError) {
+        return { code: /blocked/i.test(error.message) ? 'safety-blocked' : 'internal' };
+    }
+    if (error instanceof GoogleGenerativeAIFetchError && error.status === 429) {
+        const retryDelayMs = getRetryDelayMs(error);
+        return {
+            code: 'quota-exceeded',
+            ...(retryDelayMs !== undefined && { retryAfterSeconds: Math.ceil(retryDelayMs / 1000) }),
+        };
+    }
+    // Gemini / Files API の HTTP エラー（どちらの SDK も status を持つ）
+    const status = error instanceof Error ? (error as Error & { status?: unknown }).status : undefined;
+    if (typeof status === 'number') {
+        if (status === 429) return { code: 'quota-exceeded' };
+        if (status === 401 || status === 403 || status === 404) return { code: 'config-error' };
+        if (status === 413) return { code: 'file-too-large' };
+        if (status === 408 || status === 504) return { code: 'processing-timeout' };
+        if (status >= 500) return { code: 'upstream-unavailable' };
+    }
+    // fetch 自体の失敗（ネットワーク切断・DNS など）
+    if (error instanceof TypeError && /fetch failed/i.test(error.message)) {
+        return { code: 'upstream-unavailable' };
+    }
+    return { code: 'internal' };
+}
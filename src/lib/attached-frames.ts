@@ -0,0 +1,39 @@
+import type { CapturedFrame } from "@/lib/video-canvas";
+import { LocalizedError } from "@/lib/i18n/localized-error";
+
+// 解析結果に添付できるフレームの数（プレーヤーの「フレームを添付」も同じ数で打ち止めにする）
+export const MAX_ATTACHED_FRAMES = 12;
+
+const JPEG_DATA_URL_PREFIX = 'data:image/jpeg;base64,';
+const MAX_IMAGE_LENGTH = 2 * 1024 * 1024;   // data URL の文字数（幅1280pxの JPEG に十分な大きさ）
+const SECONDS_MAX = 60 * 60;
+const BASE64_PATTERN = /^[A-Za-z0-9+/]+={0,2}$/;
+
+// FormData の frames（JSON文字列）を検証して取り出す
+export function parseAttachedFrames(value: FormDataEntryValue | null): CapturedFrame[] | undefined {
+    if (typeof value !== 'string' || value.trim() === '') return undefined;
+
+    let data: unknown;
+    try {
+        data = JSON.parse(value);
+    } catch {
+        throw new LocalizedError('errors.invalidAttachedFrames', { max: MAX_ATTACHED_FRAMES });
+    }
+    return validateAttachedFrames(data);
+}
+
+// 添付フレームの配列を検証する（JPEG の data URL と元動画の秒数のみ受け付ける）
+export function validateAttachedFrames(data: unknown): CapturedFrame[] {
+    if (!Array.isArray(data) || data.length > MAX_ATTACHED_FRAMES) {
+        throw new LocalizedError('errors.invalidAttachedFrames', { max: MAX_ATTACHED_FRAMES });
+    }
+    return data.map(item => {
+        const { seconds, image } = (typeof item === 'object' && item !== null ? item : {}) as Record<string, unknown>;
+        if (typeof seconds !== 'number' || !Number.isFinite(seconds) || seconds < 0 || seconds > SECONDS_MAX
+            || typeof image !== 'string' || image.length > MAX_IMAGE_LENGTH
+            || !image.startsWith(JPEG_DATA_URL_PREFIX) || !BASE64_PATTERN.test(image.slice(JPEG_DATA_URL_PREFIX.length))) {
+            throw new LocalizedError('errors.invalidAttachedFrames', { max: MAX_ATTACHED_FRAMES });
+        }
+        return { seconds, image };
+    });
+}
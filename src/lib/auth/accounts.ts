@@ -0,0 +1,190 @@
+import crypto from "crypto";
+import { LocalizedError } from "@/lib/i18n/localized-error";
+import { getRecordStore } from "@/lib/record-store";
+
+// ユーザー・チームワークスペース・メンバー
+// コーチはワークスペース内の全員の解析を、プレーヤーは自分の解析だけを閲覧できる
+
+export const WORKSPACE_ROLES = ['coach', 'player'] as const;
+export type WorkspaceRole = typeof WORKSPACE_ROLES[number];
+
+export const isWorkspaceRole = (value: unknown): value is WorkspaceRole =>
+    typeof value === 'string' && (WORKSPACE_ROLES as readonly string[]).includes(value);
+
+export interface User {
+    id: string;
+    email: string;              // 小文字に正規化済み
+    createdAt: string;
+}
+
+export interface Workspace {
+    id: string;
+    name: string;
+    createdAt: string;
+}
+
+export interface Membership {
+    id: string;
+    workspaceId: string;
+    userId: string;
+    role: WorkspaceRole;
+    createdAt: string;
+}
+
+// 未登録のメールアドレスへの招待（サインイン時にメンバーになる）
+export interface Invitation {
+    id: string;
+    workspaceId: string;
+    email: string;
+    role: WorkspaceRole;
+    invitedBy: string;          // 招待したユーザーのID
+    createdAt: string;
+}
+
+// メンバー一覧の項目
+export interface WorkspaceMember {
+    userId: string;
+    email: string;
+    role: WorkspaceRole;
+}
+
+const users = () => getRecordStore<User>('users');
+const workspaces = () => getRecordStore<Workspace>('workspaces');
+const memberships = () => getRecordStore<Membership>('memberships');
+const invitations = () => getRecordStore<Invitation>('invitations');
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// メールアドレスの検証と正規化
+export function parseEmail(value: unknown): string {
+    const email = typeof value === 'string' ? value.trim().toLowerCase() : '';
+    if (!EMAIL_PATTERN.test(email) || email.length > 254) {
+        throw new LocalizedError('errors.invalidEmail');
+    }
+    return email;
+}
+
+export async function getUser(id: string): Promise<User | null> {
+    return await users().get(id);
+}
+
+export async function getWorkspace(id: string): Promise<Workspace | null> {
+    return await workspaces().get(id);
+}
+
+// サインインしたメールアドレスのユーザーを返す（初回は作成し、招待を受け入れる）
+// 招待がなければ自分がコーチのワークスペースを作成する
+export async function findOrCreateUser(email: string): Promise<User> {
+    const [existing] = await users().list(user => user.email === email);
+    const user = existing ?? { id: crypto.randomUUID(), email, createdAt: new Date().toISOString() };
+    if (!existing) {
+        await users().put(user);
+        console.log(`👤 ユーザーを作成: ${email}`);
+    }
+
+    await acceptInvitations(user);
+    if ((await listMemberships(user.id)).length === 0) {
+        await createWorkspace(user, email.split('@')[0]);
+    }
+    return user;
+}
+
+async function createWorkspace(owner: User, name: string): Promise<Workspace> {
+    const now = new Date().toISOString();
+    const workspace: Workspace = { id: crypto.randomUUID(), name, createdAt: now };
+    await workspaces().put(workspace);
+    await addMember(workspace.id, owner.id, 'coach');
+    console.log(`👥 ワークスペースを作成: ${workspace.name} (${workspace.id})`);
+    return workspace;
+}
+
+async function addMember(workspaceId: string, userId: string, role: WorkspaceRole): Promise<void> {
+    const existing = await getMembership(userId, workspaceId);
+    await memberships().put({
+        id: existing?.id ?? crypto.randomUUID(),
+        workspaceId,
+        userId,
+        role,
+        createdAt: existing?.createdAt ?? new Date().toISOString(),
+    });
+}
+
+async function acceptInvitations(user: User): Promise<void> {
+    const pending = await invitations().list(invitation => invitation.email === user.email);
+    for (const invitation of pending) {
+        await addMember(invitation.workspaceId, user.id, invitation.role);
+        await invitations().delete(invitation.id);
+        console.log(`📨 招待を受け入れ: ${user.email} → ${invitation.workspaceId} (${invitation.role})`);
+    }
+}
+
+export async function listMemberships(userId: string): Promise<Membership[]> {
+    const list = await memberships().list(membership => membership.userId === userId);
+    return list.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export async function getMembership(userId: string, workspaceId: string): Promise<Membership | null> {
+    const [membership] = await memberships().list(item => item.userId === userId && item.workspaceId === workspaceId);
+    return membership ?? null;
+}
+
+export async function listMembers(workspaceId: string): Promise<WorkspaceMember[]> {
+    const list = await memberships().list(membership => membership.workspaceId === workspaceId);
+    const members: WorkspaceMember[] = [];
+    for (const membership of list) {
+        const user = await getUser(membership.userId);
+        if (user) members.push({ userId: user.id, email: user.email, role: membership.role });
+    }
+    return members.sort((a, b) => a.email.localeCompare(b.email));
+}
+
+export async function listInvitations(workspaceId: string): Promise<Invitation[]> {
+    return await invitations().list(invitation => invitation.workspaceId === workspaceId);
+}
+
+// メンバーを招待する（登録済みのユーザーはすぐにメンバーになる）
+export async function inviteMember(workspaceId: string, email: string, role: WorkspaceRole, invitedBy: string): Promise<'added' | 'invited'> {
+    const [user] = await users().list(item => item.email === email);
+    if (user) {
+        if (role !== 'coach') {
+            await ensureAnotherCoach(workspaceId, user.id);
+        }
+        await addMember(workspaceId, user.id, role);
+        return 'added';
+    }
+    const [existing] = await invitations().list(item => item.workspaceId === workspaceId && item.email === email);
+    await invitations().put({
+        id: existing?.id ?? crypto.randomUUID(),
+        workspaceId,
+        email,
+        role,
+        invitedBy,
+        createdAt: new Date().toISOString(),
+    });
+    return 'invited';
+}
+
+export async function removeMember(workspaceId: string, userId: string): Promise<void> {
+    const membership = await getMembership(userId, workspaceId);
+    if (!membership) {
+        throw new LocalizedError('errors.memberNotFound');
+    }
+    await ensureAnotherCoach(workspaceId, userId);
+    await memberships().delete(membership.id);
+}
+
+// コーチがいなくなる変更（最後のコーチを外す・プレーヤーにする）を防ぐ
+async function ensureAnotherCoach(workspaceId: string, userId: string): Promise<void> {
+    const coaches = await memberships().list(item => item.workspaceId === workspaceId && item.role === 'coach');
+    if (coaches.length > 0 && coaches.every(item => item.userId === userId)) {
+        throw new LocalizedError('errors.lastCoach');
+    }
+}
+
+export async function cancelInvitation(workspaceId: string, invitationId: string): Promise<void> {
+    const invitation = await invitations().get(invitationId);
+    if (!invitation || invitation.workspaceId !== workspaceId) {
+        throw new LocalizedError('errors.memberNotFound');
+    }
+    await invitations().delete(invitationId);
+}
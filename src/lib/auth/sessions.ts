@@ -0,0 +1,179 @@
+import { NextRequest, NextResponse } from "next/server";
+import crypto from "crypto";
+import { errorDetailsOf } from "@/lib/api-errors";
+import { LocalizedError } from "@/lib/i18n/localized-error";
+import { getRequestLocale } from "@/lib/i18n/request-locale";
+import { translate } from "@/lib/i18n/translate";
+import { getRecordStore } from "@/lib/record-store";
+import {
+    User,
+    Workspace,
+    WorkspaceRole,
+    getMembership,
+    getUser,
+    getWorkspace,
+    listMemberships,
+} from "@/lib/auth/accounts";
+
+// メールのリンクによるサインインとセッション（Cookie にはランダムなトークン、ストアにはそのハッシュを保存する）
+
+export const SESSION_COOKIE = 'golf_session';
+const SIGN_IN_TOKEN_TTL_MS = 15 * 60 * 1000;           // 15分
+const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;        // 30日
+
+// メールで送るサインイン用トークン（1回限り）
+interface SignInToken {
+    id: string;                 // トークンのハッシュ
+    email: string;
+    next: string;               // サインイン後に移動するパス
+    expiresAt: string;
+}
+
+interface Session {
+    id: string;                 // Cookie のトークンのハッシュ
+    userId: string;
+    workspaceId: string;        // 選択中のワークスペース
+    createdAt: string;
+    expiresAt: string;
+}
+
+// リクエストのサインイン状態
+export interface AuthContext {
+    sessionId: string;
+    user: User;
+    workspace: Workspace;
+    role: WorkspaceRole;
+}
+
+const signInTokens = () => getRecordStore<SignInToken>('sign-in-tokens');
+const sessions = () => getRecordStore<Session>('sessions');
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+const isExpired = (record: { expiresAt: string }) => Date.parse(record.expiresAt) <= Date.now();
+
+// オープンリダイレクト対策として、同じオリジン内のパスだけを許可する
+// ブラウザは「/\evil.com」を「//evil.com」と解釈するため、バックスラッシュや制御文字を含むものは拒否する
+export function safeNextPath(value: unknown, origin: string): string {
+    if (typeof value !== 'string' || !value.startsWith('/') || /[\\\u0000-\u001f\u007f]/.test(value)) return '/';
+    try {
+        const url = new URL(value, origin);
+        const path = url.pathname + url.search + url.hash;
+        // 「/..//evil.com」のように正規化後に「//」で始まるものも別のオリジンとして解釈されるため拒否する
+        return url.origin === origin && !path.startsWith('//') ? path : '/';
+    } catch {
+        return '/';
+    }
+}
+
+// サインイン用のリンクを作成する（APP_URL が未指定ならリクエストのオリジン）
+export async function createSignInLink(request: NextRequest, email: string, next: unknown): Promise<string> {
+    const token = crypto.randomBytes(32).toString('base64url');
+    await signInTokens().put({
+        id: hashToken(token),
+        email,
+        next: safeNextPath(next, request.nextUrl.origin),
+        expiresAt: new Date(Date.now() + SIGN_IN_TOKEN_TTL_MS).toISOString(),
+    });
+    const url = new URL('/api/auth/callback', process.env.APP_URL || request.nextUrl.origin);
+    url.searchParams.set('token', token);
+    return url.toString();
+}
+
+// サインイン用トークンを使用済みにして、メールアドレスと移動先を返す（無効・期限切れは null）
+export async function consumeSignInToken(token: string): Promise<Pick<SignInToken, 'email' | 'next'> | null> {
+    const id = hashToken(token);
+    const record = await signInTokens().get(id);
+    if (!record) return null;
+    await signInTokens().delete(id);
+    return isExpired(record) ? null : { email: record.email, next: record.next };
+}
+
+// セッションを作成し、Cookie に保存するトークンを返す
+export async function createSession(user: User): Promise<{ token: string; expiresAt: Date }> {
+    const [membership] = await listMemberships(user.id);
+    const token = crypto.randomBytes(32).toString('base64url');
+    const now = Date.now();
+    const expiresAt = new Date(now + SESSION_TTL_MS);
+    await sessions().put({
+        id: hashToken(token),
+        userId: user.id,
+        workspaceId: membership?.workspaceId ?? '',
+        createdAt: new Date(now).toISOString(),
+        expiresAt: expiresAt.toISOString(),
+    });
+    console.log(`🔑 サインイン: ${user.email}`);
+    return { token, expiresAt };
+}
+
+export function setSessionCookie(response: NextResponse, token: string, expiresAt: Date): void {
+    response.cookies.set(SESSION_COOKIE, token, {
+        httpOnly: true,
+        sameSite: 'lax',
+        secure: process.env.NODE_ENV === 'production',
+        path: '/',
+        expires: expiresAt,
+    });
+}
+
+export function clearSessionCookie(response: NextResponse): void {
+    response.cookies.set(SESSION_COOKIE, '', { path: '/', maxAge: 0 });
+}
+
+// Cookie のセッションを読み込む（未サインイン・期限切れは null）
+// 選択中のワークスペースから外された場合は、所属する別のワークスペースに切り替える
+export async function getAuth(request: NextRequest): Promise<AuthContext | null> {
+    const token = request.cookies.get(SESSION_COOKIE)?.value;
+    if (!token) return null;
+    const session = await sessions().get(hashToken(token));
+    if (!session || isExpired(session)) return null;
+    const user = await getUser(session.userId);
+    if (!user) return null;
+
+    let membership = await getMembership(user.id, session.workspaceId);
+    if (!membership) {
+        [membership] = await listMemberships(user.id);
+        if (!membership) return null;
+        await sessions().put({ ...session, workspaceId: membership.workspaceId });
+    }
+    const workspace = await getWorkspace(membership.workspaceId);
+    if (!workspace) return null;
+    return { sessionId: session.id, user, workspace, role: membership.role };
+}
+
+// サインインが必要なAPIで使う（未サインインは LocalizedError）
+export async function requireAuth(request: NextRequest): Promise<AuthContext> {
+    const auth = await getAuth(request);
+    if (!auth) {
+        throw new LocalizedError('errors.signInRequired');
+    }
+    return auth;
+}
+
+// 未サインインのレスポンス（ジョブの取得など、エラーを throw しないルートで使う）
+export const signInRequiredResponse = (request: NextRequest) =>
+    NextResponse.json({ success: false, error: translate(getRequestLocale(request), 'errors.signInRequired'), ...errorDetailsOf('unauthenticated') }, { status: 401 });
+
+// コーチのみ実行できる操作
+export function requireCoach(auth: AuthContext): void {
+    if (auth.role !== 'coach') {
+        throw new LocalizedError('errors.coachOnly');
+    }
+}
+
+// 選択中のワークスペースを切り替える
+export async function switchWorkspace(auth: AuthContext, workspaceId: unknown): Promise<void> {
+    const session = await sessions().get(auth.sessionId);
+    const membership = typeof workspaceId === 'string' ? await getMembership(auth.user.id, workspaceId) : null;
+    if (!session || !membership) {
+        throw new LocalizedError('errors.workspaceNotFound');
+    }
+    await sessions().put({ ...session, workspaceId: membership.workspaceId });
+}
+
+export async function deleteSession(auth: AuthContext): Promise<void> {
+    await sessions().delete(auth.sessionId);
+}
+
+// ワークスペースに保存されたデータの閲覧権限（コーチは全員分、プレーヤーは自分の分のみ）
+export const canAccess = (auth: AuthContext, owner: { workspaceId?: string; ownerId?: string }) =>
+    owner.workspaceId === auth.workspace.id && (auth.role === 'coach' || owner.ownerId === auth.user.id);
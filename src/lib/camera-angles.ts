@@ -0,0 +1,10 @@
+// 撮影アングル（プロンプトの切り替えと解析履歴に使用）
+export const CAMERA_ANGLES = [
+    { key: 'downTheLine', title: '後方（ダウンザライン）' },
+    { key: 'faceOn', title: '正面（フェースオン）' },
+] as const;
+
+export type CameraAngle = typeof CAMERA_ANGLES[number]['key'];
+
+export const isCameraAngle = (value: unknown): value is CameraAngle =>
+    CAMERA_ANGLES.some(({ key }) => key === value);
@@ -0,0 +1,116 @@
+import { delay } from "@/lib/delay";
+import { ApiResponseError } from "@/lib/api-errors";
+import type { Locale } from "@/lib/i18n/locales";
+import type { UploadStatus } from "@/lib/upload-store";
+
+// 分割アップロードのクライアント（ブラウザ専用）
+// 同じファイルを選び直した場合やページを再読み込みした場合も、localStorage のアップロードIDから再開する
+
+const RESUME_KEY_PREFIX = 'golf-analyze:upload:';
+const MAX_RETRIES = 5;
+const RETRY_BASE_DELAY = 1000;  // 1秒から倍々で待つ
+const RETRY_MAX_DELAY = 15000;
+
+export interface ChunkedUploadOptions {
+    locale: Locale;
+    signal?: AbortSignal;
+    onProgress?: (receivedBytes: number, fileSize: number) => void;
+}
+
+const resumeKey = (file: File) => `${RESUME_KEY_PREFIX}${file.name}:${file.size}:${file.lastModified}`;
+
+const uploadUrl = (uploadId: string) => `/api/analyze-file/uploads/${uploadId}`;
+
+// 409 の場合は error に理由（位置のずれ・書き込み中）が入る
+type UploadResponse = UploadStatus & { error?: string };
+
+async function requestStatus(input: string, init: RequestInit, locale: Locale): Promise<UploadResponse> {
+    const response = await fetch(input, { ...init, headers: { ...init.headers, 'Accept-Language': locale } });
+    const data = await response.json();
+    if (!response.ok && response.status !== 409) {
+        throw new ApiResponseError(data.error || `HTTP ${response.status}`, data, response.status);
+    }
+    // 409 は受信済みの位置がずれている場合。返された状態から再開する
+    return data as UploadResponse;
+}
+
+const retryDelay = (retries: number) => Math.min(RETRY_BASE_DELAY * 2 ** (retries - 1), RETRY_MAX_DELAY);
+
+// 前回のアップロードを再開できれば状態を返す（期限切れ・別ファイルの場合は null）
+async function resumeUpload(file: File, locale: Locale, signal?: AbortSignal): Promise<UploadStatus | null> {
+    const uploadId = window.localStorage.getItem(resumeKey(file));
+    if (!uploadId) return null;
+    try {
+        const status = await requestStatus(uploadUrl(uploadId), { signal }, locale);
+        if (status.fileSize === file.size) {
+            console.log(`🔁 アップロードを再開します: ${status.receivedBytes} / ${status.fileSize}バイト`);
+            return status;
+        }
+    } catch (error) {
+        signal?.throwIfAborted();
+        console.warn('⚠️ 前回のアップロードを再開できませんでした:', error);
+    }
+    window.localStorage.removeItem(resumeKey(file));
+    return null;
+}
+
+// ファイルをチャンクに分けてアップロードし、アップロードIDを返す
+// 通信エラーは受信済みの位置を確認してから再送する（連続で MAX_RETRIES 回失敗したら中断）
+export async function uploadInChunks(file: File, { locale, signal, onProgress }: ChunkedUploadOptions): Promise<string> {
+    let status: UploadResponse = await resumeUpload(file, locale, signal) ?? await requestStatus('/api/analyze-file/uploads', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ fileName: file.name, fileSize: file.size, mimeType: file.type }),
+        signal,
+    }, locale);
+    window.localStorage.setItem(resumeKey(file), status.uploadId);
+    onProgress?.(status.receivedBytes, file.size);
+
+    try {
+        let retries = 0;
+        while (status.receivedBytes < file.size) {
+            const { uploadId, receivedBytes, chunkSize } = status;
+            try {
+                status = await requestStatus(`${uploadUrl(uploadId)}?offset=${receivedBytes}`, {
+                    method: 'PUT',
+                    headers: { 'Content-Type': 'application/octet-stream' },
+                    body: file.slice(receivedBytes, receivedBytes + chunkSize),
+                    signal,
+                }, locale);
+                // 位置が変わった場合（409 の位置のずれを含む）は、返された位置から続ける
+                if (status.receivedBytes !== receivedBytes) {
+                    retries = 0;
+                    onProgress?.(status.receivedBytes, file.size);
+                    continue;
+                }
+                // 別の接続が同じアップロードに書き込み中（409）で位置が進まない場合は、待ってから再送する
+                if (++retries > MAX_RETRIES) {
+                    throw new ApiResponseError(status.error || 'HTTP 409', { errorCode: 'conflict', retryable: true }, 409);
+                }
+                console.warn(`⚠️ アップロードが進んでいません。待ってから再送します (${retries}/${MAX_RETRIES}):`, status.error);
+                await delay(retryDelay(retries), signal);
+            } catch (error) {
+                signal?.throwIfAborted();
+                // 期限切れ・動画以外のファイルなど再送しても回復しない場合（4xx）は中断する
+                if (error instanceof ApiResponseError && error.status !== undefined && error.status < 500) throw error;
+                if (++retries > MAX_RETRIES) throw error;
+                console.warn(`⚠️ チャンクの送信に失敗しました。再送します (${retries}/${MAX_RETRIES}):`, error);
+                await delay(retryDelay(retries), signal);
+                status = await requestStatus(uploadUrl(uploadId), { signal }, locale).catch(() => status);
+            }
+        }
+    } catch (error) {
+        // キャンセル時は受信済みのデータを削除する（通信エラーの場合は次回再開できるよう残す）
+        if (signal?.aborted) {
+            window.localStorage.removeItem(resumeKey(file));
+            void fetch(uploadUrl(status.uploadId), { method: 'DELETE' }).catch(() => undefined);
+        }
+        throw error;
+    }
+    return status.uploadId;
+}
+
+// finalize に成功したら再開用のIDを消す
+export function clearUploadResume(file: File): void {
+    window.localStorage.removeItem(resumeKey(file));
+}
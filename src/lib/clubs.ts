@@ -0,0 +1,14 @@
+// 使用クラブの種類（履歴の絞り込み・プロンプトの切り替えに使用）
+export const CLUB_TYPES = [
+    { key: 'driver', title: 'ドライバー' },
+    { key: 'fairwayWood', title: 'フェアウェイウッド' },
+    { key: 'utility', title: 'ユーティリティ' },
+    { key: 'iron', title: 'アイアン' },
+    { key: 'wedge', title: 'ウェッジ' },
+    { key: 'putter', title: 'パター' },
+] as const;
+
+export type ClubType = typeof CLUB_TYPES[number]['key'];
+
+export const isClubType = (value: unknown): value is ClubType =>
+    CLUB_TYPES.some(({ key }) => key === value);
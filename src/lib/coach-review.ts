@@ -0,0 +1,136 @@
+import { SWING_REPORT_SECTIONS, SCORE_MAX, SCORE_MIN, SwingReport, SwingReportSectionKey } from "@/lib/swing-report";
+import type { SwingSession } from "@/lib/swing-session";
+import { LocalizedError } from "@/lib/i18n/localized-error";
+
+// コーチによるAIレポートのレビュー（指摘の編集・取り消しと、動画の時刻に紐づくコメント）
+// AIの元のレポートは解析結果にそのまま残し、レビューは別に保存する
+
+export type ReviewStatus = 'draft' | 'published';
+
+// AIの指摘（observations の各項目）に対する編集
+export interface ReviewPoint {
+    text: string;               // コーチが編集した文言（元の文言と同じなら未編集）
+    struck: boolean;            // コーチが取り消した指摘
+}
+
+export interface ReviewedSection {
+    score: number | null;
+    points: ReviewPoint[];      // 元のレポートの observations と同じ順序・件数
+}
+
+export interface ReviewedReport {
+    summary: string;
+    overallScore: number | null;
+    sections: Record<SwingReportSectionKey, ReviewedSection>;
+}
+
+// 動画の時刻に紐づくコメント
+export interface ReviewComment {
+    seconds: number;            // 元動画の先頭からの秒数
+    text: string;
+}
+
+// レビューの操作履歴（監査用）
+export interface ReviewEvent {
+    action: 'saved' | 'published' | 'unpublished';
+    userEmail: string;
+    at: string;
+}
+
+// 画面で編集する内容
+export interface CoachReviewContent {
+    reports: (ReviewedReport | null)[];     // スイングごと（単一スイングは1件）。元のレポートがないスイングは null
+    comments: ReviewComment[];
+}
+
+export interface CoachReview extends CoachReviewContent {
+    status: ReviewStatus;       // published になるとプレーヤーにも表示する
+    reviewerEmail: string;      // 最後に編集したコーチ
+    updatedAt: string;
+    publishedAt?: string;
+    history: ReviewEvent[];
+}
+
+export const REVIEW_TEXT_MAX_LENGTH = 2000;
+export const MAX_REVIEW_COMMENTS = 100;
+
+// レビュー対象のレポート（セッションはスイングごと）
+export const reviewableReports = (result: { report?: SwingReport | null; session?: SwingSession }): (SwingReport | null)[] =>
+    result.session ? result.session.swings.map(swing => swing.report) : [result.report ?? null];
+
+// AIのレポートをそのまま写した下書き（レビュー開始時の初期値）
+export function createReviewDraft(reports: (SwingReport | null)[]): CoachReviewContent {
+    return {
+        reports: reports.map(report => report && {
+            summary: report.summary,
+            overallScore: report.overallScore,
+            sections: Object.fromEntries(SWING_REPORT_SECTIONS.map(({ key }) => [key, {
+                score: report.sections[key].score,
+                points: report.sections[key].observations.map(text => ({ text, struck: false })),
+            }])) as Record<SwingReportSectionKey, ReviewedSection>,
+        }),
+        comments: [],
+    };
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isValidScore = (value: unknown): value is number | null =>
+    value === null || (Number.isInteger(value) && (value as number) >= SCORE_MIN && (value as number) <= SCORE_MAX);
+
+function parseText(value: unknown): string {
+    if (typeof value !== 'string' || value.length > REVIEW_TEXT_MAX_LENGTH) {
+        throw new LocalizedError('errors.invalidReview');
+    }
+    return value.trim();
+}
+
+function parseReviewedReport(value: unknown, original: SwingReport): ReviewedReport {
+    if (!isRecord(value) || !isValidScore(value.overallScore) || !isRecord(value.sections)) {
+        throw new LocalizedError('errors.invalidReview');
+    }
+    const sections = {} as Record<SwingReportSectionKey, ReviewedSection>;
+    for (const { key } of SWING_REPORT_SECTIONS) {
+        const section = value.sections[key];
+        // 指摘の追加・削除はせず、元のレポートの指摘ごとに編集・取り消しする
+        if (!isRecord(section) || !isValidScore(section.score) || !Array.isArray(section.points)
+            || section.points.length !== original.sections[key].observations.length) {
+            throw new LocalizedError('errors.invalidReview');
+        }
+        sections[key] = {
+            score: section.score,
+            points: section.points.map(point => {
+                if (!isRecord(point) || typeof point.struck !== 'boolean') {
+                    throw new LocalizedError('errors.invalidReview');
+                }
+                return { text: parseText(point.text), struck: point.struck };
+            }),
+        };
+    }
+    return { summary: parseText(value.summary), overallScore: value.overallScore, sections };
+}
+
+function parseComment(value: unknown): ReviewComment {
+    if (!isRecord(value) || typeof value.seconds !== 'number' || !Number.isFinite(value.seconds) || value.seconds < 0) {
+        throw new LocalizedError('errors.invalidReview');
+    }
+    const text = parseText(value.text);
+    if (!text) {
+        throw new LocalizedError('errors.invalidReview');
+    }
+    return { seconds: Math.round(value.seconds * 10) / 10, text };
+}
+
+// リクエストのレビュー内容を、元のレポートと対応しているか確認して取り出す
+export function parseCoachReviewContent(value: unknown, originals: (SwingReport | null)[]): CoachReviewContent {
+    if (!isRecord(value) || !Array.isArray(value.reports) || value.reports.length !== originals.length) {
+        throw new LocalizedError('errors.invalidReview');
+    }
+    if (!Array.isArray(value.comments) || value.comments.length > MAX_REVIEW_COMMENTS) {
+        throw new LocalizedError('errors.invalidReview');
+    }
+    const reports = originals.map((original, i) => original && parseReviewedReport((value.reports as unknown[])[i], original));
+    const comments = value.comments.map(parseComment).sort((a, b) => a.seconds - b.seconds);
+    return { reports, comments };
+}
@@ -0,0 +1,182 @@
+import { NextRequest } from "next/server";
+import type { Part } from "@google/generative-ai";
+import {
+    AnalysisHooks,
+    AnalysisInput,
+    GEMINI_BASE64_LIMIT,
+    MAX_FILE_SIZE,
+    MediaResources,
+    StageReporter,
+    cleanup,
+    prepareMedia,
+    releaseMedia,
+    saveTemporaryFile,
+} from "@/lib/analysis-pipeline";
+import { AnalysisProvider, TokenUsage, createAnalysisProvider } from "@/lib/providers/analysis-provider";
+import { buildReportComparisonPrompt, buildSwingComparisonPrompt } from "@/lib/prompts";
+import { PlayerProfile, parsePlayerProfile } from "@/lib/player-profile";
+import type { Locale } from "@/lib/i18n/locales";
+import { LocalizedError } from "@/lib/i18n/localized-error";
+import { parseOutputLanguage } from "@/lib/i18n/request-locale";
+import { inspectVideoFile } from "@/lib/video-probe";
+import type { ApiErrorFields } from "@/lib/api-errors";
+import { parseSwingReport } from "@/lib/swing-report";
+import type { SwingReport } from "@/lib/swing-report";
+import { SWING_COMPARISON_RESPONSE_SCHEMA, SwingComparison, parseSwingComparison } from "@/lib/swing-comparison";
+
+// 比較対象の動画（一時ファイルに保存済み）
+export type ComparisonVideo = Pick<AnalysisInput, 'tempFilePath' | 'fileName' | 'fileSize' | 'mimeType'>;
+
+// 比較対象の保存済みレポート（ブラウザの解析履歴から送信される）
+export interface ComparisonReport {
+    label: string;
+    report: SwingReport;
+}
+
+// before: 以前のスイング / after: 最近のスイング
+export type ComparisonInput = (
+    | { kind: 'videos'; before: ComparisonVideo; after: ComparisonVideo }
+    | { kind: 'reports'; before: ComparisonReport; after: ComparisonReport }
+) & { profile?: PlayerProfile; language?: Locale };
+
+export interface GolfComparisonResponse extends ApiErrorFields {
+    success: boolean;
+    analysis?: string;          // モデルの生テキスト（比較レポートの検証に失敗した場合のフォールバック）
+    comparison?: SwingComparison | null;
+    error?: string;
+    fileInfo?: {
+        processingTime: string;
+        method: string;
+        model?: string;
+        attempts?: number;
+        usage?: TokenUsage;
+    };
+}
+
+// 2つのスイングを1回のリクエストで比較する
+export async function runComparisonPipeline(input: ComparisonInput, hooks: AnalysisHooks = {}): Promise<GolfComparisonResponse> {
+    const { signal, onStage, ...generateOptions } = hooks;
+    const startTime = Date.now();
+    const beforeResources: MediaResources = { uploadedFile: null, normalizedFilePath: '' };
+    const afterResources: MediaResources = { uploadedFile: null, normalizedFilePath: '' };
+    let provider: AnalysisProvider | null = null;
+
+    const reportStage: StageReporter = async (stage) => {
+        signal?.throwIfAborted();
+        await onStage?.(stage);
+        signal?.throwIfAborted();
+    };
+
+    try {
+        provider = await createAnalysisProvider();
+        let parts: Part[];
+        let method: string;
+
+        if (input.kind === 'videos') {
+            // 2つの動画を同じリクエストに含めるため、Base64の上限を分け合う
+            const base64Limit = GEMINI_BASE64_LIMIT / 2;
+            const before = await prepareMedia(provider, input.before, beforeResources, reportStage, signal, base64Limit);
+            const after = await prepareMedia(provider, input.after, afterResources, reportStage, signal, base64Limit);
+            parts = [
+                { text: buildSwingComparisonPrompt(input) },
+                { text: `以前のスイング: ${input.before.fileName}` },
+                before.part,
+                { text: `最近のスイング: ${input.after.fileName}` },
+                after.part,
+            ];
+            method = before.useBase64 && after.useBase64 ? 'Base64' : 'Files API';
+        } else {
+            parts = [{
+                text: buildReportComparisonPrompt(
+                    JSON.stringify({ label: input.before.label, ...input.before.report }, null, 2),
+                    JSON.stringify({ label: input.after.label, ...input.after.report }, null, 2),
+                    input,
+                ),
+            }];
+            method = 'Stored reports';
+        }
+
+        await reportStage('analyzing');
+        const result = await provider.generate(parts, `Comparison (${method})`, {
+            ...generateOptions,
+            signal,
+            responseSchema: SWING_COMPARISON_RESPONSE_SCHEMA,
+        });
+
+        const comparison = parseSwingComparison(result.text);
+        if (!comparison) {
+            console.warn('⚠️ 比較レポートのスキーマ検証に失敗しました。生テキストを返します');
+        }
+
+        const processingTime = ((Date.now() - startTime) / 1000).toFixed(1);
+        console.log(`🎉 比較完了！ (${processingTime}秒)`);
+
+        return {
+            success: true,
+            analysis: result.text,
+            comparison,
+            fileInfo: {
+                processingTime: `${processingTime}秒`,
+                method,
+                model: result.model,
+                attempts: result.attempts,
+                usage: result.usage,
+            },
+        };
+    } finally {
+        if (input.kind === 'videos') {
+            await releaseMedia(input.before.tempFilePath, beforeResources, provider);
+            await releaseMedia(input.after.tempFilePath, afterResources, provider);
+        }
+    }
+}
+
+// 保存済みレポート（JSON文字列）を検証して取り出す
+function extractReport(formData: FormData, key: 'before' | 'after'): ComparisonReport {
+    const rawReport = formData.get(`${key}Report`);
+    const report = typeof rawReport === 'string' ? parseSwingReport(rawReport) : null;
+    if (!report) {
+        throw new LocalizedError(key === 'before' ? 'errors.invalidBeforeReport' : 'errors.invalidAfterReport');
+    }
+    const label = formData.get(`${key}Label`);
+    return { label: typeof label === 'string' && label ? label : key, report };
+}
+
+async function saveComparisonVideo(file: File): Promise<ComparisonVideo> {
+    if (file.size > MAX_FILE_SIZE) {
+        throw new LocalizedError('errors.fileTooLarge', { size: (file.size / 1024 / 1024).toFixed(1) });
+    }
+    const tempFilePath = await saveTemporaryFile(file);
+    try {
+        const video = await inspectVideoFile(tempFilePath);
+        return { tempFilePath, fileName: file.name, fileSize: file.size, mimeType: video.mimeType };
+    } catch (error) {
+        await cleanup(tempFilePath, null, null);
+        throw error;
+    }
+}
+
+// 比較リクエストの受信と検証（動画2本、または保存済みレポート2件）
+// 動画は一時ファイルに保存される。runComparisonPipeline が完了時に削除する
+export async function extractComparisonInput(request: NextRequest): Promise<ComparisonInput> {
+    const formData = await request.formData();
+    const profile = parsePlayerProfile(formData.get('profile'));
+    const language = parseOutputLanguage(formData.get('language'));
+    const beforeFile = formData.get('before');
+    const afterFile = formData.get('after');
+
+    if (beforeFile instanceof File && afterFile instanceof File) {
+        const before = await saveComparisonVideo(beforeFile);
+        try {
+            const after = await saveComparisonVideo(afterFile);
+            return { kind: 'videos', before, after, profile, language };
+        } catch (error) {
+            await cleanup(before.tempFilePath, null, null);
+            throw error;
+        }
+    }
+    if (beforeFile || afterFile) {
+        throw new LocalizedError('errors.comparisonNeedsTwoVideos');
+    }
+    return { kind: 'reports', before: extractReport(formData, 'before'), after: extractReport(formData, 'after'), profile, language };
+}
@@ -0,0 +1,101 @@
+import type { GolfAnalysisFileInfo } from "@/lib/analysis-pipeline";
+import type { CameraAngle } from "@/lib/camera-angles";
+import type { ClubType } from "@/lib/clubs";
+import type { KeyFrameImage } from "@/lib/key-frames";
+import type { SwingReport } from "@/lib/swing-report";
+import type { SwingSession } from "@/lib/swing-session";
+import type { SwingTempo } from "@/lib/swing-tempo";
+import type { CapturedFrame } from "@/lib/video-canvas";
+
+// 解析履歴の保存（ブラウザの IndexedDB。オフラインでも閲覧できる）
+const DB_NAME = 'golf-analyze';
+const DB_VERSION = 1;
+const STORE_NAME = 'analyses';
+
+export interface AnalysisHistoryEntry {
+    id: string;
+    createdAt: string;                  // ISO 8601
+    fileName: string;
+    club?: ClubType;
+    cameraAngle?: CameraAngle;
+    notes: string;
+    analysis: string;                   // モデルの生テキスト
+    report: SwingReport | null;
+    session?: SwingSession;
+    tempo?: SwingTempo;
+    fileInfo?: GolfAnalysisFileInfo;
+    thumbnail?: string;                 // ポスターフレーム（JPEG の data URL）
+    frames?: CapturedFrame[];           // プレイヤーで添付したフレーム（描画した図形を含む）
+    keyFrames?: KeyFrameImage[];        // キーフレーム方式の解析で使用した画像
+}
+
+export type NewAnalysisHistoryEntry = Omit<AnalysisHistoryEntry, 'id' | 'createdAt'>;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            if (typeof indexedDB === 'undefined') {
+                reject(new Error('このブラウザは IndexedDB に対応していません。'));
+                return;
+            }
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+                store.createIndex('createdAt', 'createdAt');
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error ?? new Error('履歴データベースを開けませんでした。'));
+        });
+        // 失敗した場合は次回再試行する
+        dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+}
+
+// 1つのトランザクションで処理を実行する
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(STORE_NAME, mode);
+        const request = run(transaction.objectStore(STORE_NAME));
+        transaction.oncomplete = () => resolve(request.result);
+        transaction.onerror = () => reject(transaction.error ?? new Error('履歴の操作に失敗しました。'));
+        transaction.onabort = () => reject(transaction.error ?? new Error('履歴の操作が中断されました。'));
+    });
+}
+
+export async function saveHistoryEntry(entry: NewAnalysisHistoryEntry): Promise<AnalysisHistoryEntry> {
+    const saved: AnalysisHistoryEntry = {
+        ...entry,
+        id: crypto.randomUUID(),
+        createdAt: new Date().toISOString(),
+    };
+    await withStore('readwrite', store => store.add(saved));
+    return saved;
+}
+
+// 新しい順に全件取得する
+export async function listHistoryEntries(): Promise<AnalysisHistoryEntry[]> {
+    const entries = await withStore<AnalysisHistoryEntry[]>('readonly', store => store.index('createdAt').getAll());
+    return entries.reverse();
+}
+
+export async function getHistoryEntry(id: string): Promise<AnalysisHistoryEntry | undefined> {
+    return await withStore<AnalysisHistoryEntry | undefined>('readonly', store => store.get(id));
+}
+
+export async function updateHistoryEntry(id: string, changes: Partial<Pick<AnalysisHistoryEntry, 'club' | 'notes' | 'frames'>>): Promise<AnalysisHistoryEntry> {
+    const current = await getHistoryEntry(id);
+    if (!current) {
+        throw new Error('履歴が見つかりません。');
+    }
+    const updated = { ...current, ...changes };
+    await withStore('readwrite', store => store.put(updated));
+    return updated;
+}
+
+export async function deleteHistoryEntry(id: string): Promise<void> {
+    await withStore('readwrite', store => store.delete(id));
+}
@@ -0,0 +1,14 @@
+import { Locale, isLocale, matchLocale } from "@/lib/i18n/locales";
+
+// 選択した表示言語はブラウザの localStorage に保存する（未選択ならブラウザの言語設定に従う）
+const STORAGE_KEY = 'golf-analyze:locale';
+
+export function loadLocale(): Locale {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    if (isLocale(stored)) return stored;
+    return matchLocale(navigator.languages?.length ? navigator.languages : [navigator.language]);
+}
+
+export function saveLocale(locale: Locale): void {
+    window.localStorage.setItem(STORAGE_KEY, locale);
+}
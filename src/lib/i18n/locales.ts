@@ -0,0 +1,40 @@
+// 対応言語（UI表示・サーバーのエラーメッセージ・解析結果の出力言語）
+export const SUPPORTED_LOCALES = ['ja', 'en', 'ko'] as const;
+
+export type Locale = typeof SUPPORTED_LOCALES[number];
+
+export const DEFAULT_LOCALE: Locale = 'ja';
+
+// 言語切り替えメニューの表示名（各言語での自称）
+export const LOCALE_LABELS: Record<Locale, string> = {
+    ja: '日本語',
+    en: 'English',
+    ko: '한국어',
+};
+
+export const isLocale = (value: unknown): value is Locale =>
+    SUPPORTED_LOCALES.includes(value as Locale);
+
+// 優先順の言語タグ（navigator.languages / Accept-Language）から対応言語を選ぶ
+export function matchLocale(languages: readonly string[]): Locale {
+    for (const language of languages) {
+        const base = language.trim().toLowerCase().split('-')[0];
+        if (isLocale(base)) return base;
+    }
+    return DEFAULT_LOCALE;
+}
+
+// Accept-Language ヘッダーを q 値の順に並べて対応言語を選ぶ
+export function matchAcceptLanguage(header: string | null): Locale {
+    if (!header) return DEFAULT_LOCALE;
+    const languages = header
+        .split(',')
+        .map(part => {
+            const [tag, ...params] = part.trim().split(';');
+            const q = params.find(param => param.trim().startsWith('q='));
+            return { tag, q: q ? Number(q.trim().slice(2)) || 0 : 1 };
+        })
+        .sort((a, b) => b.q - a.q)
+        .map(({ tag }) => tag);
+    return matchLocale(languages);
+}
@@ -0,0 +1,18 @@
+import { DEFAULT_LOCALE, Locale } from "@/lib/i18n/locales";
+import { MessageKey, MessageParams, translate } from "@/lib/i18n/translate";
+
+// 利用者に表示するエラー（message は既定の言語。レスポンス時にリクエストの言語へ翻訳する）
+export class LocalizedError extends Error {
+    constructor(readonly key: MessageKey, readonly params: MessageParams = {}) {
+        super(translate(DEFAULT_LOCALE, key, params));
+        this.name = 'LocalizedError';
+    }
+}
+
+// エラーをリクエストの言語のメッセージにする（想定外のエラーはそのままのメッセージ）
+export function localizeError(error: unknown, locale: Locale): string {
+    if (error instanceof LocalizedError) {
+        return translate(locale, error.key, error.params);
+    }
+    return error instanceof Error ? error.message : 'Unknown error occurred';
+}
@@ -0,0 +1,463 @@
+import type { Messages } from "@/lib/i18n/messages/ja";
+
+// English
+const en: Messages = {
+    common: {
+        unspecified: 'Not specified',
+        all: 'All',
+        clear: 'Clear',
+        save: '💾 Save',
+        close: 'Close',
+        edit: 'Edit',
+        delete: '🗑️ Delete',
+        unknown: 'Unknown',
+        notObservable: 'Not observable',
+        language: '🌐 Language',
+        serverError: 'Server error: {status}',
+    },
+    stages: {
+        received: '📥 File received',
+        normalizing: '🎞️ Converting video to MP4',
+        uploading: '☁️ Uploading to Gemini',
+        processing: '⏳ Processing video (PROCESSING)',
+        extractingFrames: '🖼️ Extracting key frames',
+        detecting: '🔍 Detecting swings in the video',
+        analyzing: '🤖 AI is analyzing your swing',
+        done: '✅ Analysis complete',
+        failed: '❌ Analysis failed',
+        cancelled: '🛑 Cancelled',
+    },
+    sections: {
+        swingForm: 'Swing form',
+        tempo: 'Tempo and rhythm',
+        weightShift: 'Weight shift',
+        axisStability: 'Axis stability',
+        clubPath: 'Club path',
+        finish: 'Finish',
+        improvements: 'Suggested improvements',
+    },
+    phases: {
+        address: 'Address',
+        takeaway: 'Takeaway',
+        top: 'Top',
+        downswing: 'Downswing',
+        impact: 'Impact',
+        followThrough: 'Follow-through',
+        finish: 'Finish',
+    },
+    clubs: {
+        driver: 'Driver',
+        fairwayWood: 'Fairway wood',
+        utility: 'Hybrid',
+        iron: 'Iron',
+        wedge: 'Wedge',
+        putter: 'Putter',
+    },
+    cameraAngles: {
+        downTheLine: 'Down the line',
+        faceOn: 'Face on',
+    },
+    handedness: {
+        right: 'Right-handed',
+        left: 'Left-handed',
+    },
+    home: {
+        tagline: 'Analyze your golf swing with AI and keep improving',
+        historyLink: '📚 History',
+        modeSingle: '🏌️ Swing analysis',
+        modeCompare: '🆚 Compare two swings',
+        uploadTitle: '📹 Upload a video',
+        uploadPrompt: 'Click to choose a video file',
+        supportedFormats: 'Supported formats: MP4, MOV, AVI, MKV, WebM, WMV, FLV, 3GP, M4V, OGV',
+        sizeNote: 'Up to 2GB, including iPhone MOV files',
+        recommendations: '📝 Recommendations',
+        recommendSize: '• Videos under 20MB are processed fastest',
+        recommendConvert: '• MOV, AVI and other formats are converted to MP4 on the server',
+        videoUnsupported: 'Your browser does not support video playback.',
+        trimLabel: '✂️ Range:',
+        trimStart: 'Start (s)',
+        trimEnd: 'End (s)',
+        currentPosition: 'Current',
+        sessionMode: '🏌️ Detect multiple swings and analyze each one',
+        keyFrameMode: '🖼️ Analyze key-frame stills only (faster, lower cost)',
+        keyFrameModeHint: 'Seven frames from address to finish are extracted and sent. Cannot be combined with multi-swing analysis.',
+        club: '⛳ Club:',
+        cameraAngle: '🎥 Camera angle:',
+        previewNote: 'This video will be analyzed. Play it to check the content.',
+        chooseAnother: '📁 Choose another video',
+        selected: '✅ Selected: {name}',
+        fileSize: 'Size: {size} MB',
+        fileType: 'Format: {type} → converted to H.264 MP4 on the server',
+        processingMethod: 'Method: Base64 if 20MB or less after conversion, Files API otherwise',
+        fileTooLarge: '⚠️ The file is larger than 2GB',
+        analyzeTitle: '🤖 AI analysis',
+        analyzing: 'Analyzing with Gemini AI...',
+        startAnalysis: '🚀 Start swing analysis',
+        durationNote: '* Large files can take several minutes to analyze',
+        durationEstimate: '💡 Under 20MB: about 30s–1min / 20MB or more: about 2–5min',
+        resultTitle: '📊 Results',
+        loadingTitle: '🤖 Gemini AI is analyzing your video...',
+        loadingDefault: 'Running a detailed analysis of your swing',
+        uploading: '☁️ Uploading video... {percent}%',
+        usageDaily: 'Remaining today: {remaining} / {limit} tokens',
+        usageMonthly: 'Remaining this month: {remaining} / {limit} tokens',
+        cancel: 'Cancel analysis',
+        errorTitle: 'Analysis error',
+        doneTitle: 'Analysis complete!',
+        analyzeNew: '🔄 Analyze another video',
+        placeholderTitle: 'Gemini AI results will appear here',
+        placeholderBody: 'Upload a video and start the analysis',
+        unsupportedFile: 'This video format is not supported.\n\nSupported formats:\nMP4, MOV, AVI, MKV, WebM, WMV, FLV, 3GP, M4V, OGV',
+        selectFileFirst: 'Please choose a video file first.',
+        watchFailed: 'Could not get the analysis status',
+        cancelled: 'Analysis cancelled',
+        failed: 'Analysis failed',
+        unexpectedError: 'An error occurred during analysis.',
+        footer: '© 2024 Golf Analyze. AI-powered golf improvement.',
+    },
+    session: {
+        strengths: '👍 Consistent strengths',
+        issues: '⚠️ Recurring issues',
+        averageScores: '📊 Average scores ({count} swings)',
+        overall: 'Overall',
+    },
+    profile: {
+        notSet: 'No profile set',
+        handicapShort: 'HCP {handicap}',
+        handicap: 'Handicap',
+        height: 'Height',
+        typicalMiss: 'Typical miss',
+        typicalMissPlaceholder: 'e.g. slice, fat shots',
+        swingThoughts: 'Current swing thoughts',
+        swingThoughtsPlaceholder: 'e.g. start the downswing with the lower body',
+        coachFocus: "Coach's focus areas",
+        coachFocusPlaceholder: 'e.g. spine angle at address',
+        remove: 'Remove profile',
+        handednessLegend: 'Handedness',
+    },
+    compare: {
+        title: '🆚 Compare swings',
+        sourceVideos: '📹 Two videos',
+        sourceHistory: '📚 From history',
+        before: 'Earlier swing',
+        after: 'Recent swing',
+        choose: 'Select',
+        needHistory: 'You need at least two analyses in your history to compare.',
+        start: '🆚 Start comparison',
+        comparing: '🔄 Comparing...',
+        selectVideos: 'Please choose two videos to compare.',
+        selectHistory: 'Please choose two history entries to compare.',
+        unexpectedError: 'An error occurred during the comparison.',
+        verdicts: {
+            improved: 'Improved overall',
+            regressed: 'Got worse overall',
+            mixed: 'Mixed: some improvements, some issues',
+            unchanged: 'No major changes',
+        },
+        trends: {
+            improved: '⬆️ Improved',
+            regressed: '⬇️ Worse',
+            unchanged: '➡️ Unchanged',
+            notObservable: '❔ Not observable',
+        },
+    },
+    player: {
+        beforeLabel: 'Earlier',
+        afterLabel: 'Recent',
+        play: '▶️ Play both',
+        pause: '⏸ Pause',
+        toImpact: '🎯 Go to impact',
+        beforeImpact: '{time} before impact',
+        afterImpact: '{time} after impact',
+        impactUnknown: '⚠️ The impact time could not be determined, so the videos are aligned at the start.',
+    },
+    history: {
+        title: '📚 History',
+        description: 'Past analyses saved on this device (available offline)',
+        back: '🏌️ Back to swing analysis',
+        dateFrom: 'From',
+        dateTo: 'To',
+        club: 'Club',
+        keyword: 'Keyword',
+        keywordPlaceholder: 'File name, notes, summary',
+        loading: 'Loading...',
+        loadFailed: 'Could not load the history.',
+        empty: 'No analyses yet.',
+        noMatch: 'No entries match the filters.',
+        swingCount: '{count} swings',
+        notesPlaceholder: 'Notes (practice content, things you noticed, etc.)',
+        saveNotes: '💾 Save notes',
+        confirmDelete: 'Delete this analysis?',
+        updateFailed: 'Could not update the history entry.',
+        deleteFailed: 'Could not delete the history entry.',
+    },
+    auth: {
+        title: '🔑 Sign in',
+        description: 'We will email you a link to sign in.',
+        email: 'Email address',
+        emailPlaceholder: 'you@example.com',
+        sendLink: '✉️ Send link',
+        sending: 'Sending...',
+        linkSent: 'A sign-in link has been sent to {email}. Please check your inbox (valid for 15 minutes).',
+        devHint: 'In development without SMTP_URL, the link is printed to the server log.',
+        invalidLink: 'The link is invalid or has expired. Please request a new one.',
+        sendFailed: 'Could not send the link: {message}',
+        signOut: 'Sign out',
+        signInMailSubject: '[Golf Analyze] Your sign-in link',
+        signInMailBody: 'Use the link below to sign in (valid for 15 minutes).\n\n{url}\n\nIf you did not request this email, you can ignore it.',
+        invitationMailSubject: '[Golf Analyze] Invitation to the "{workspace}" workspace',
+        invitationMailBody: 'You have been invited to the "{workspace}" workspace. Sign in with the link below to join (valid for 15 minutes).\n\n{url}',
+    },
+    workspace: {
+        link: '👥 Workspace',
+        title: '👥 Workspace',
+        back: '← Back to analysis',
+        signedInAs: 'Signed in as {email}',
+        current: 'Workspace',
+        coachNote: 'Coaches can see the analyses of everyone in the workspace.',
+        frameCount: '📌 {count} frames',
+        playerNote: 'Players can only see their own analyses.',
+        roleCoach: 'Coach',
+        rolePlayer: 'Player',
+        members: 'Members',
+        you: '(you)',
+        pendingInvitations: 'Pending invitations',
+        invite: 'Invite',
+        inviteButton: '📨 Invite',
+        invited: 'An invitation has been sent to {email}.',
+        added: '{email} has been added to the workspace.',
+        remove: 'Remove',
+        confirmRemove: 'Remove {email} from the workspace?',
+        cancelInvitation: 'Cancel',
+        analyses: 'Analyses',
+        analysesEmpty: 'No analyses yet.',
+        loading: 'Loading...',
+        loadFailed: 'Could not load the workspace.',
+        actionFailed: 'The operation failed: {message}',
+        confirmDeleteAnalysis: 'Delete this analysis?',
+    },
+    review: {
+        approvedBadge: '✅ Coach approved',
+        draftBadge: '📝 In review',
+        approvedVersion: 'Coach-approved',
+        originalVersion: 'Original AI report',
+        approvedBy: 'Approved by {email} on {date}',
+        draftBy: 'Draft ({email}, {date})',
+        edit: '✏️ Review',
+        editTitle: 'Edit review',
+        swing: 'Swing #{index}',
+        summary: 'Summary',
+        overallScore: 'Overall score',
+        strike: 'Strike',
+        restore: 'Restore',
+        edited: '✏️ Edited',
+        originalText: 'Original AI text: {text}',
+        struckNote: 'Struck by the coach',
+        noReport: 'This swing has no structured report and cannot be edited.',
+        comments: '💬 Coach comments',
+        commentsEmpty: 'No comments.',
+        commentPlaceholder: 'Comment at this time',
+        addComment: '+ Add comment',
+        useCurrentTime: '⏱ Current time',
+        seconds: 'Time (s)',
+        removeComment: 'Delete',
+        loadVideo: '🎬 Load video',
+        videoNote: 'Videos are not stored on the server. Choose the original video to check comment timestamps.',
+        saveDraft: '💾 Save draft',
+        unpublish: '💾 Unpublish and save',
+        publish: '✅ Approve and publish',
+        cancel: 'Cancel',
+        saved: 'The review has been saved.',
+        published: 'The review has been published.',
+        saveFailed: 'Could not save the review: {message}',
+        history: 'History',
+        historySaved: 'Saved by {email}',
+        historyPublished: 'Published by {email}',
+        historyUnpublished: 'Unpublished by {email}',
+    },
+    pose: {
+        title: '🦴 Pose measurements',
+        description: 'Estimate the skeleton in your browser and measure head drift, spine angle, shoulder/hip turn and swing tempo. The numbers are sent with the analysis so the report is grounded in them.',
+        extract: 'Estimate pose',
+        extracting: 'Estimating... {percent}%',
+        cancel: 'Cancel',
+        retry: 'Retry',
+        failed: 'Could not estimate the pose.',
+        noPerson: 'No person was detected reliably in the analysis range. Try a video that shows the whole body.',
+        showOverlay: 'Show skeleton',
+        keyFrames: 'Key frames:',
+        headDrift: 'Head drift (relative to torso length)',
+        headDriftValue: 'Horizontal {horizontal}% / Vertical {vertical}%',
+        spineAngle: 'Spine angle (address / top / impact)',
+        shoulderTurn: 'Shoulder turn (top)',
+        hipTurn: 'Hip turn (top)',
+        xFactor: 'X-factor',
+        degrees: '{value}°',
+        notMeasured: '-',
+        note: 'Estimated from 2D images. Shoulder and hip turn are only indicative for face-on videos. Measurements within the analysis range are sent; they are not sent in session mode.',
+    },
+    tempo: {
+        title: '⏱️ Tempo',
+        takeaway: 'Takeaway',
+        top: 'Top',
+        impact: 'Impact',
+        backswing: 'Backswing',
+        downswing: 'Downswing',
+        seconds: '{value}s',
+        ratio: 'Backswing : downswing',
+        ratioValue: '{ratio}:1',
+        benchmark: 'Benchmark {ratio}:1',
+        slowBackswing: 'The backswing is slow relative to the downswing.',
+        fastBackswing: 'The backswing is quick, leaving little difference from the downswing.',
+        onBenchmark: 'Close to the benchmark tempo.',
+        note: 'Measured from the wrist movement in the pose estimation (interpolated between frames).',
+    },
+    swingPlayer: {
+        play: '▶️ Play',
+        pause: '⏸ Pause',
+        frameBack: 'Back one frame',
+        frameForward: 'Forward one frame',
+        speed: 'Speed:',
+        loop: 'A–B loop:',
+        clearLoop: 'Clear loop',
+        invalidLoop: 'Point B must be after point A',
+        draw: 'Draw:',
+        tools: {
+            none: 'Control',
+            line: 'Line',
+            angle: 'Angle',
+            circle: 'Circle',
+        },
+        hints: {
+            line: 'Click the video to set the start and end points (shows the angle from horizontal)',
+            angle: 'Click the video to set three points (the second is the vertex)',
+            circle: 'Click the video to set the center and a point on the circle',
+        },
+        undo: 'Undo',
+        clearDrawings: 'Clear drawings',
+        capture: '📸 Attach this frame',
+        attachedFrames: '📌 Attached frames',
+        attachedNote: 'Saved to the analysis history and the workspace together with the result (up to {max}).',
+        removeFrame: 'Remove',
+    },
+    keyFrames: {
+        title: '🖼️ Key frames used for the analysis',
+        note: 'Report notes tagged with a phase name refer to the matching frame.',
+        phases: {
+            address: 'Address',
+            takeaway: 'Takeaway',
+            top: 'Top',
+            transition: 'Transition',
+            impact: 'Impact',
+            followThrough: 'Follow-through',
+            finish: 'Finish',
+        },
+    },
+    export: {
+        pdf: '📄 Save as PDF',
+        html: '🌐 Save as HTML',
+        exporting: 'Creating...',
+        failed: 'Failed to create the report: {message}',
+        title: 'Swing Analysis Report',
+        createdAt: 'Analyzed: {date}',
+        overallScore: 'Overall',
+        phases: 'Phases',
+        swing: 'Swing {index} ({start}–{end})',
+        analysis: 'Analysis',
+        keyFrames: 'Key frames',
+        attachedFrames: 'Attached frames',
+        fileInfo: 'Video and analysis details',
+        tokens: '{input} input / {output} output tokens',
+        yes: 'Yes',
+        no: 'No',
+        footer: 'AI swing analysis report by Golf Analyze',
+        fields: {
+            fileName: 'File name',
+            club: 'Club',
+            cameraAngle: 'Camera angle',
+            originalSize: 'File size',
+            analyzedSize: 'Analyzed size',
+            normalized: 'Normalized',
+            method: 'Method',
+            model: 'Model',
+            attempts: 'Attempts',
+            usage: 'Token usage',
+            processingTime: 'Processing time',
+            duration: 'Duration',
+            resolution: 'Resolution',
+            codec: 'Codec',
+        },
+    },
+    errorActions: {
+        fixInput: 'Please check your input and try again.',
+        shrinkFile: 'Trim or compress the video to reduce its size, then try again.',
+        changeFile: 'Please try another video that clearly shows the whole swing.',
+        retry: 'Please try again.',
+        retryLater: 'The service is busy or the usage limit has been reached. Please wait a while and try again.',
+        retryAfter: 'Please wait about {seconds} seconds and try again.',
+        fixConfig: 'The server is misconfigured. Ask the administrator to check the GOOGLE_SERVICE_ACCOUNT_KEY_JSON environment variable.',
+        retryButton: '🔄 Analyze again',
+        chooseFileButton: '📁 Choose another video',
+        signIn: 'Your session has expired. Please sign in again.',
+        signInButton: '🔑 Sign in',
+    },
+    errors: {
+        analysisFailed: 'Analysis failed: {message}',
+        jobCreationFailed: 'Could not create the analysis job: {message}',
+        comparisonFailed: 'Comparison failed: {message}',
+        jobNotFound: 'Job not found: {id}',
+        noFile: 'No file was selected.',
+        fileTooLarge: 'The file exceeds the 2GB limit: {size}MB',
+        unsupportedVideo: 'The file could not be recognized as a video. Supported formats: MP4, MOV, AVI, MKV, WebM, WMV, FLV, 3GP, M4V, OGV',
+        invalidClub: 'Invalid club: {value}',
+        invalidCameraAngle: 'Invalid camera angle: {value}',
+        invalidPipeline: 'Invalid analysis method: {value}',
+        keyFramesWithSession: 'Key-frame analysis cannot be combined with multi-swing analysis.',
+        invalidLanguage: 'Invalid output language: {value}',
+        invalidExportFormat: 'Invalid export format: {value}',
+        trimWithoutNormalization: 'Trimming is unavailable because video normalization is disabled.',
+        invalidTrimPosition: 'Invalid trim position: {value}',
+        trimEndBeforeStart: 'The trim end must be after the trim start.',
+        invalidProfile: 'The player profile is malformed.',
+        invalidPoseMetrics: 'The pose measurements are malformed.',
+        invalidTempo: 'The tempo measurements are malformed.',
+        invalidAttachedFrames: 'The attached frames are malformed (JPEG images, up to {max}).',
+        invalidHandedness: 'Please specify handedness (right / left).',
+        handicapOutOfRange: 'Handicap must be between {min} and {max}.',
+        heightOutOfRange: 'Height must be between {min} and {max}.',
+        fileNameLost: 'The file name was lost during processing.',
+        fileProcessingIncomplete: 'File processing did not complete. State: {state}',
+        fileProcessingTimeout: 'Video processing did not finish within {seconds} seconds.',
+        serviceAccountMissing: 'The service account environment variable (GOOGLE_SERVICE_ACCOUNT_KEY_JSON) is not set.',
+        serviceAccountInvalid: 'The service account environment variable (GOOGLE_SERVICE_ACCOUNT_KEY_JSON) is not valid JSON.',
+        accessTokenFailed: 'Could not obtain an access token from the service account.',
+        noSwingsDetected: 'No swings were detected in the video.',
+        sessionTimeBudgetExceeded: 'The session analysis did not finish within the time limit ({seconds} seconds). Trim the video to fewer swings and try again.',
+        invalidBeforeReport: 'The earlier report to compare is malformed.',
+        invalidAfterReport: 'The recent report to compare is malformed.',
+        comparisonNeedsTwoVideos: 'Please choose two videos to compare.',
+        uploadFailed: 'Upload failed: {message}',
+        invalidUploadRequest: 'The upload request is invalid.',
+        invalidApiToken: 'The API token is invalid.',
+        signInRequired: 'You need to sign in.',
+        coachOnly: 'Only coaches can do this.',
+        invalidEmail: 'The email address is invalid.',
+        invalidRole: 'Please specify a role (coach / player).',
+        invalidReview: 'The review is malformed.',
+        memberNotFound: 'Member not found.',
+        lastCoach: 'A workspace needs at least one coach.',
+        workspaceNotFound: 'Workspace not found.',
+        analysisNotFound: 'Analysis not found: {id}',
+        mailNotConfigured: 'Email delivery is not configured (SMTP_URL).',
+        rateLimited: 'Too many requests (up to {limit} per minute).',
+        dailyQuotaExceeded: 'The daily usage limit ({limit} tokens) has been reached.',
+        monthlyQuotaExceeded: 'The monthly usage limit ({limit} tokens) has been reached.',
+        uploadNotFound: 'Upload not found (it may have expired): {id}',
+        uploadOffsetMismatch: 'The upload offset does not match. Received so far: {received} bytes',
+        uploadInProgress: 'A chunk for this upload is already being received.',
+        chunkTooLarge: 'The chunk is too large (max {max} bytes)',
+        uploadIncomplete: 'The upload is not complete ({received} / {size} bytes)',
+    },
+};
+
+export default en;
@@ -0,0 +1,463 @@
+// 日本語（基準となる辞書。他の言語は同じキー構成にする）
+const ja = {
+    common: {
+        unspecified: '未指定',
+        all: 'すべて',
+        clear: 'クリア',
+        save: '💾 保存',
+        close: '閉じる',
+        edit: '編集',
+        delete: '🗑️ 削除',
+        unknown: '不明',
+        notObservable: '確認できません',
+        language: '🌐 言語',
+        serverError: 'サーバーエラー: {status}',
+    },
+    stages: {
+        received: '📥 ファイル受信完了',
+        normalizing: '🎞️ 動画をMP4に変換中',
+        uploading: '☁️ Geminiへアップロード中',
+        processing: '⏳ 動画を処理中（PROCESSING）',
+        extractingFrames: '🖼️ キーフレームを抽出中',
+        detecting: '🔍 動画内のスイングを検出中',
+        analyzing: '🤖 AIがスイングを解析中',
+        done: '✅ 解析完了',
+        failed: '❌ 解析失敗',
+        cancelled: '🛑 キャンセル済み',
+    },
+    sections: {
+        swingForm: 'スイングフォーム分析',
+        tempo: 'テンポとリズム',
+        weightShift: '体重移動',
+        axisStability: '軸の安定性',
+        clubPath: 'クラブパス',
+        finish: 'フィニッシュ',
+        improvements: '改善提案',
+    },
+    phases: {
+        address: 'アドレス',
+        takeaway: 'テイクバック',
+        top: 'トップ',
+        downswing: 'ダウンスイング',
+        impact: 'インパクト',
+        followThrough: 'フォロースルー',
+        finish: 'フィニッシュ',
+    },
+    clubs: {
+        driver: 'ドライバー',
+        fairwayWood: 'フェアウェイウッド',
+        utility: 'ユーティリティ',
+        iron: 'アイアン',
+        wedge: 'ウェッジ',
+        putter: 'パター',
+    },
+    cameraAngles: {
+        downTheLine: '後方（ダウンザライン）',
+        faceOn: '正面（フェースオン）',
+    },
+    handedness: {
+        right: '右打ち',
+        left: '左打ち',
+    },
+    home: {
+        tagline: 'AIでゴルフスイングを解析して上達をサポート',
+        historyLink: '📚 解析履歴',
+        modeSingle: '🏌️ スイング解析',
+        modeCompare: '🆚 2つのスイングを比較',
+        uploadTitle: '📹 動画をアップロード',
+        uploadPrompt: 'クリックして動画ファイルを選択',
+        supportedFormats: '対応形式：MP4, MOV, AVI, MKV, WebM, WMV, FLV, 3GP, M4V, OGV',
+        sizeNote: '最大2GB対応・iPhone MOVファイル対応',
+        recommendations: '📝 推奨事項',
+        recommendSize: '• 20MB未満の動画が好ましい（高速処理）',
+        recommendConvert: '• MOV・AVI等の形式はサーバーで自動的にMP4に変換されます',
+        videoUnsupported: 'お使いのブラウザは動画の再生をサポートしていません。',
+        trimLabel: '✂️ 解析範囲:',
+        trimStart: '開始(秒)',
+        trimEnd: '終了(秒)',
+        currentPosition: '現在位置',
+        sessionMode: '🏌️ 複数スイングを自動検出して個別に解析',
+        keyFrameMode: '🖼️ キーフレームの静止画だけで解析（高速・低コスト）',
+        keyFrameModeHint: 'アドレスからフィニッシュまでの7枚を抽出して送信します。複数スイングの解析とは併用できません。',
+        club: '⛳ クラブ:',
+        cameraAngle: '🎥 撮影アングル:',
+        previewNote: 'この動画が解析されます。再生して内容を確認してください。',
+        chooseAnother: '📁 別の動画を選択',
+        selected: '✅ 選択済み: {name}',
+        fileSize: 'サイズ: {size} MB',
+        fileType: 'ファイル形式: {type} → サーバーでH.264 MP4に変換',
+        processingMethod: '処理方法: 変換後20MB以下はBase64、20MB超はFiles API',
+        fileTooLarge: '⚠️ ファイルサイズが2GBを超えています',
+        analyzeTitle: '🤖 AI解析',
+        analyzing: 'Gemini AIで解析中...',
+        startAnalysis: '🚀 スイング解析を開始',
+        durationNote: '※ ファイルサイズが大きい場合、解析に数分かかることがあります',
+        durationEstimate: '💡 20MB未満の動画：約30秒〜1分 / 20MB以上：約2〜5分',
+        resultTitle: '📊 解析結果',
+        loadingTitle: '🤖 Gemini AIが動画を解析中...',
+        loadingDefault: 'スイングの詳細な分析を行っています',
+        uploading: '☁️ 動画をアップロード中... {percent}%',
+        usageDaily: '本日の残り: {remaining} / {limit} トークン',
+        usageMonthly: '今月の残り: {remaining} / {limit} トークン',
+        cancel: '解析をキャンセル',
+        errorTitle: '解析エラー',
+        doneTitle: '解析完了！',
+        analyzeNew: '🔄 新しい動画を解析',
+        placeholderTitle: 'Gemini AIの解析結果がここに表示されます',
+        placeholderBody: '動画をアップロードして解析を開始してください',
+        unsupportedFile: '対応していない動画ファイル形式です。\n\n対応形式：\nMP4, MOV, AVI, MKV, WebM, WMV, FLV, 3GP, M4V, OGV',
+        selectFileFirst: 'まず動画ファイルを選択してください。',
+        watchFailed: '解析状況の取得に失敗しました',
+        cancelled: '解析をキャンセルしました',
+        failed: '解析に失敗しました',
+        unexpectedError: '解析中にエラーが発生しました。',
+        footer: '© 2024 Golf Analyze. AI-powered golf improvement.',
+    },
+    session: {
+        strengths: '👍 一貫して良い点',
+        issues: '⚠️ 繰り返し見られる課題',
+        averageScores: '📊 平均スコア（{count}スイング）',
+        overall: '総合',
+    },
+    profile: {
+        notSet: 'プロフィール未設定',
+        handicapShort: 'HC {handicap}',
+        handicap: 'ハンディキャップ',
+        height: '身長',
+        typicalMiss: '典型的なミス',
+        typicalMissPlaceholder: '例: スライス、ダフリ',
+        swingThoughts: '現在意識していること',
+        swingThoughtsPlaceholder: '例: 切り返しで下半身から動く',
+        coachFocus: 'コーチからの重点項目',
+        coachFocusPlaceholder: '例: アドレスの前傾角度',
+        remove: 'プロフィールを削除',
+        handednessLegend: '利き手',
+    },
+    compare: {
+        title: '🆚 スイングを比較',
+        sourceVideos: '📹 動画2本',
+        sourceHistory: '📚 解析履歴から',
+        before: '以前のスイング',
+        after: '最近のスイング',
+        choose: '選択してください',
+        needHistory: '比較するには、解析履歴が2件以上必要です。',
+        start: '🆚 比較を開始',
+        comparing: '🔄 比較中...',
+        selectVideos: '比較する動画を2つ選択してください。',
+        selectHistory: '比較する履歴を2件選択してください。',
+        unexpectedError: '比較中にエラーが発生しました。',
+        verdicts: {
+            improved: '全体的に改善しています',
+            regressed: '全体的に悪化しています',
+            mixed: '改善点と課題が混在しています',
+            unchanged: '大きな変化はありません',
+        },
+        trends: {
+            improved: '⬆️ 改善',
+            regressed: '⬇️ 悪化',
+            unchanged: '➡️ 変化なし',
+            notObservable: '❔ 確認できません',
+        },
+    },
+    player: {
+        beforeLabel: '以前',
+        afterLabel: '最近',
+        play: '▶️ 同時再生',
+        pause: '⏸ 一時停止',
+        toImpact: '🎯 インパクトへ',
+        beforeImpact: 'インパクト前 {time}',
+        afterImpact: 'インパクト後 {time}',
+        impactUnknown: '⚠️ インパクトの時刻を確認できなかったため、動画の先頭で揃えています。',
+    },
+    history: {
+        title: '📚 解析履歴',
+        description: 'この端末に保存された過去の解析結果（オフラインでも閲覧できます）',
+        back: '🏌️ スイング解析に戻る',
+        dateFrom: '開始日',
+        dateTo: '終了日',
+        club: 'クラブ',
+        keyword: 'キーワード',
+        keywordPlaceholder: 'ファイル名・メモ・総評',
+        loading: '読み込み中...',
+        loadFailed: '履歴の読み込みに失敗しました。',
+        empty: 'まだ解析履歴がありません。',
+        noMatch: '条件に一致する履歴がありません。',
+        swingCount: '{count}スイング',
+        notesPlaceholder: 'メモ（練習内容、気づいたことなど）',
+        saveNotes: '💾 メモを保存',
+        confirmDelete: 'この解析結果を削除しますか？',
+        updateFailed: '履歴の更新に失敗しました。',
+        deleteFailed: '履歴の削除に失敗しました。',
+    },
+    auth: {
+        title: '🔑 サインイン',
+        description: 'メールアドレスにサインイン用のリンクを送信します。',
+        email: 'メールアドレス',
+        emailPlaceholder: 'you@example.com',
+        sendLink: '✉️ リンクを送信',
+        sending: '送信中...',
+        linkSent: '{email} にサインイン用のリンクを送信しました。メールを確認してください（有効期限15分）。',
+        devHint: '開発環境で SMTP_URL が未設定の場合、リンクはサーバーのログに出力されます。',
+        invalidLink: 'リンクが無効か、有効期限が切れています。もう一度送信してください。',
+        sendFailed: 'リンクの送信に失敗しました: {message}',
+        signOut: 'サインアウト',
+        signInMailSubject: '【Golf Analyze】サインイン用のリンク',
+        signInMailBody: '以下のリンクからサインインしてください（有効期限15分）。\n\n{url}\n\nこのメールに心当たりがない場合は破棄してください。',
+        invitationMailSubject: '【Golf Analyze】ワークスペース「{workspace}」への招待',
+        invitationMailBody: 'ワークスペース「{workspace}」に招待されました。以下のリンクからサインインすると参加できます（有効期限15分）。\n\n{url}',
+    },
+    workspace: {
+        link: '👥 ワークスペース',
+        title: '👥 ワークスペース',
+        back: '← 解析画面に戻る',
+        signedInAs: '{email} でサインイン中',
+        current: 'ワークスペース',
+        coachNote: 'コーチはワークスペースの全員の解析結果を閲覧できます。',
+        frameCount: '📌 フレーム {count}枚',
+        playerNote: 'プレーヤーは自分の解析結果だけを閲覧できます。',
+        roleCoach: 'コーチ',
+        rolePlayer: 'プレーヤー',
+        members: 'メンバー',
+        you: '（あなた）',
+        pendingInvitations: '招待中',
+        invite: '招待',
+        inviteButton: '📨 招待する',
+        invited: '{email} に招待メールを送信しました。',
+        added: '{email} をメンバーに追加しました。',
+        remove: '外す',
+        confirmRemove: '{email} をワークスペースから外しますか？',
+        cancelInvitation: '取り消す',
+        analyses: '解析結果',
+        analysesEmpty: 'まだ解析結果がありません。',
+        loading: '読み込み中...',
+        loadFailed: 'ワークスペースの読み込みに失敗しました。',
+        actionFailed: '操作に失敗しました: {message}',
+        confirmDeleteAnalysis: 'この解析結果を削除しますか？',
+    },
+    review: {
+        approvedBadge: '✅ コーチ承認済み',
+        draftBadge: '📝 レビュー中',
+        approvedVersion: 'コーチ承認版',
+        originalVersion: 'AIの元のレポート',
+        approvedBy: '{email} が {date} に承認',
+        draftBy: '下書き（{email}、{date}）',
+        edit: '✏️ レビューする',
+        editTitle: 'レビューの編集',
+        swing: 'スイング #{index}',
+        summary: '総評',
+        overallScore: '総合スコア',
+        strike: '取り消す',
+        restore: '元に戻す',
+        edited: '✏️ 編集済み',
+        originalText: 'AIの元の文言: {text}',
+        struckNote: 'コーチが取り消した指摘',
+        noReport: '構造化レポートがないため、このスイングは編集できません。',
+        comments: '💬 コーチのコメント',
+        commentsEmpty: 'コメントはありません。',
+        commentPlaceholder: 'この時刻へのコメント',
+        addComment: '＋ コメントを追加',
+        useCurrentTime: '⏱ 再生位置',
+        seconds: '時刻（秒）',
+        removeComment: '削除',
+        loadVideo: '🎬 動画を読み込む',
+        videoNote: '動画はサーバーに保存されないため、コメントの時刻を確認するには元の動画を選択してください。',
+        saveDraft: '💾 下書き保存',
+        unpublish: '💾 非公開にして保存',
+        publish: '✅ 承認して公開',
+        cancel: 'キャンセル',
+        saved: 'レビューを保存しました。',
+        published: 'レビューを公開しました。',
+        saveFailed: 'レビューの保存に失敗しました: {message}',
+        history: '操作履歴',
+        historySaved: '{email} が保存',
+        historyPublished: '{email} が公開',
+        historyUnpublished: '{email} が非公開に変更',
+    },
+    pose: {
+        title: '🦴 姿勢の計測',
+        description: 'ブラウザ内で骨格を推定し、頭の移動・背骨の傾き・肩と腰の回転・スイングのテンポを計測します。計測値は解析時にAIへ渡され、レポートの根拠になります。',
+        extract: '骨格を推定',
+        extracting: '推定中... {percent}%',
+        cancel: 'キャンセル',
+        retry: '再試行',
+        failed: '姿勢を推定できませんでした。',
+        noPerson: '解析範囲で人物を十分に検出できませんでした。全身が映る動画で試してください。',
+        showOverlay: '骨格を表示',
+        keyFrames: 'キーフレーム:',
+        headDrift: '頭の移動（胴の長さ比）',
+        headDriftValue: '左右 {horizontal}% / 上下 {vertical}%',
+        spineAngle: '背骨の傾き（アドレス / トップ / インパクト）',
+        shoulderTurn: '肩の回転（トップ）',
+        hipTurn: '腰の回転（トップ）',
+        xFactor: '捻転差',
+        degrees: '{value}°',
+        notMeasured: '-',
+        note: '2D画像からの推定値です。肩と腰の回転は正面から撮影した動画でのみ目安になります。解析範囲内の計測値を送信し、セッションモードでは送信しません。',
+    },
+    tempo: {
+        title: '⏱️ テンポ',
+        takeaway: 'テイクバック開始',
+        top: 'トップ',
+        impact: 'インパクト',
+        backswing: 'バックスイング',
+        downswing: 'ダウンスイング',
+        seconds: '{value}秒',
+        ratio: 'バックスイング:ダウンスイング',
+        ratioValue: '{ratio}:1',
+        benchmark: '目安 {ratio}:1',
+        slowBackswing: 'ダウンスイングに対してバックスイングがゆっくりです。',
+        fastBackswing: 'バックスイングが速く、ダウンスイングとの差が小さいテンポです。',
+        onBenchmark: '目安に近いテンポです。',
+        note: '姿勢推定の両手首の動きから計測した値です（フレームの間は補間）。',
+    },
+    swingPlayer: {
+        play: '▶️ 再生',
+        pause: '⏸ 一時停止',
+        frameBack: '1フレーム戻る',
+        frameForward: '1フレーム進む',
+        speed: '速度:',
+        loop: 'A–Bループ:',
+        clearLoop: 'ループ解除',
+        invalidLoop: 'B点はA点より後にしてください',
+        draw: '描画:',
+        tools: {
+            none: '操作',
+            line: '直線',
+            angle: '角度',
+            circle: '円',
+        },
+        hints: {
+            line: '動画をクリックして始点と終点を指定します（水平からの角度を表示）',
+            angle: '動画をクリックして3点を指定します（2点目が頂点）',
+            circle: '動画をクリックして中心と円周上の点を指定します',
+        },
+        undo: '元に戻す',
+        clearDrawings: '図形を消去',
+        capture: '📸 このフレームを添付',
+        attachedFrames: '📌 添付したフレーム',
+        attachedNote: '解析結果と一緒に解析履歴とワークスペースに保存されます（最大{max}枚）。',
+        removeFrame: '削除',
+    },
+    keyFrames: {
+        title: '🖼️ 解析に使用したキーフレーム',
+        note: 'レポートの【フェーズ名】は、それぞれの画像をもとにした指摘です。',
+        phases: {
+            address: 'アドレス',
+            takeaway: 'テイクバック',
+            top: 'トップ',
+            transition: '切り返し',
+            impact: 'インパクト',
+            followThrough: 'フォロースルー',
+            finish: 'フィニッシュ',
+        },
+    },
+    export: {
+        pdf: '📄 PDFで保存',
+        html: '🌐 HTMLで保存',
+        exporting: '作成中...',
+        failed: 'レポートの作成に失敗しました: {message}',
+        title: 'スイング解析レポート',
+        createdAt: '解析日時: {date}',
+        overallScore: '総合評価',
+        phases: '各フェーズ',
+        swing: 'スイング {index}（{start}〜{end}）',
+        analysis: '解析結果',
+        keyFrames: 'キーフレーム',
+        attachedFrames: '添付したフレーム',
+        fileInfo: '動画と解析の情報',
+        tokens: '入力 {input} / 出力 {output} トークン',
+        yes: 'あり',
+        no: 'なし',
+        footer: 'Golf Analyze によるAIスイング解析レポート',
+        fields: {
+            fileName: 'ファイル名',
+            club: 'クラブ',
+            cameraAngle: '撮影アングル',
+            originalSize: 'ファイルサイズ',
+            analyzedSize: '解析したサイズ',
+            normalized: '正規化',
+            method: '解析方式',
+            model: 'モデル',
+            attempts: '試行回数',
+            usage: 'トークン使用量',
+            processingTime: '処理時間',
+            duration: '動画の長さ',
+            resolution: '解像度',
+            codec: 'コーデック',
+        },
+    },
+    errorActions: {
+        fixInput: '入力内容を確認してから、もう一度お試しください。',
+        shrinkFile: '動画をトリミング・圧縮してサイズを小さくしてから、もう一度お試しください。',
+        changeFile: 'スイング全体がはっきり映っている別の動画でお試しください。',
+        retry: 'もう一度お試しください。',
+        retryLater: '混み合っているか、利用上限に達しています。しばらく待ってからお試しください。',
+        retryAfter: '{seconds}秒ほど待ってからお試しください。',
+        fixConfig: 'サーバーの設定に問題があります。管理者に環境変数（GOOGLE_SERVICE_ACCOUNT_KEY_JSON）の確認を依頼してください。',
+        retryButton: '🔄 もう一度解析',
+        chooseFileButton: '📁 別の動画を選ぶ',
+        signIn: 'サインインの有効期限が切れています。もう一度サインインしてください。',
+        signInButton: '🔑 サインイン',
+    },
+    errors: {
+        analysisFailed: '解析に失敗しました: {message}',
+        jobCreationFailed: '解析ジョブの作成に失敗しました: {message}',
+        comparisonFailed: '比較に失敗しました: {message}',
+        jobNotFound: 'ジョブが見つかりません: {id}',
+        noFile: 'ファイルが選択されていません。',
+        fileTooLarge: 'ファイルサイズが制限(2GB)を超えています: {size}MB',
+        unsupportedVideo: '動画ファイルとして認識できませんでした。対応形式: MP4, MOV, AVI, MKV, WebM, WMV, FLV, 3GP, M4V, OGV',
+        invalidClub: 'クラブの指定が不正です: {value}',
+        invalidCameraAngle: '撮影アングルの指定が不正です: {value}',
+        invalidPipeline: '解析方式の指定が不正です: {value}',
+        keyFramesWithSession: 'キーフレーム方式は複数スイングの解析と併用できません。',
+        invalidLanguage: '出力言語の指定が不正です: {value}',
+        invalidExportFormat: 'エクスポート形式の指定が不正です: {value}',
+        trimWithoutNormalization: '動画の正規化が無効なため、トリミングできません。',
+        invalidTrimPosition: 'トリミング位置が不正です: {value}',
+        trimEndBeforeStart: 'トリミングの終了位置は開始位置より後にしてください。',
+        invalidProfile: 'プレーヤープロフィールの形式が不正です。',
+        invalidPoseMetrics: '姿勢の計測値の形式が不正です。',
+        invalidTempo: 'テンポの計測値の形式が不正です。',
+        invalidAttachedFrames: '添付フレームの形式が不正です（JPEG画像・最大{max}枚）。',
+        invalidHandedness: '利き手（right / left）を指定してください。',
+        handicapOutOfRange: 'ハンディキャップは{min}〜{max}の範囲で入力してください。',
+        heightOutOfRange: '身長は{min}〜{max}の範囲で入力してください。',
+        fileNameLost: '処理中にファイル名が失われました。',
+        fileProcessingIncomplete: 'ファイルの処理が完了しませんでした。状態: {state}',
+        fileProcessingTimeout: '動画の処理が{seconds}秒以内に完了しませんでした。',
+        serviceAccountMissing: 'サービスアカウントの環境変数（GOOGLE_SERVICE_ACCOUNT_KEY_JSON）が設定されていません。',
+        serviceAccountInvalid: 'サービスアカウントの環境変数（GOOGLE_SERVICE_ACCOUNT_KEY_JSON）がJSONとして読み込めません。',
+        accessTokenFailed: 'サービスアカウントからアクセストークンを取得できませんでした。',
+        noSwingsDetected: '動画内にスイングを検出できませんでした。',
+        sessionTimeBudgetExceeded: 'セッションの解析が制限時間（{seconds}秒）内に完了しませんでした。トリミングしてスイングの数を減らし、再度お試しください。',
+        invalidBeforeReport: '比較するレポート（以前）の形式が不正です。',
+        invalidAfterReport: '比較するレポート（最近）の形式が不正です。',
+        comparisonNeedsTwoVideos: '比較する動画を2つ選択してください。',
+        uploadFailed: 'アップロードに失敗しました: {message}',
+        invalidUploadRequest: 'アップロードの指定が不正です。',
+        invalidApiToken: 'APIトークンが正しくありません。',
+        signInRequired: 'サインインが必要です。',
+        coachOnly: 'この操作はコーチのみ実行できます。',
+        invalidEmail: 'メールアドレスの形式が正しくありません。',
+        invalidRole: '役割（coach / player）を指定してください。',
+        invalidReview: 'レビューの形式が不正です。',
+        memberNotFound: 'メンバーが見つかりません。',
+        lastCoach: 'ワークスペースには少なくとも1人のコーチが必要です。',
+        workspaceNotFound: 'ワークスペースが見つかりません。',
+        analysisNotFound: '解析結果が見つかりません: {id}',
+        mailNotConfigured: 'メール送信の設定（SMTP_URL）がありません。',
+        rateLimited: 'リクエストが多すぎます（1分あたり{limit}回まで）。',
+        dailyQuotaExceeded: '本日の利用上限（{limit}トークン）に達しました。',
+        monthlyQuotaExceeded: '今月の利用上限（{limit}トークン）に達しました。',
+        uploadNotFound: 'アップロードが見つかりません（期限切れの可能性があります）: {id}',
+        uploadOffsetMismatch: 'アップロード位置が一致しません。受信済み: {received}バイト',
+        uploadInProgress: '同じアップロードのチャンクを受信中です。',
+        chunkTooLarge: 'チャンクが大きすぎます（最大 {max}バイト）',
+        uploadIncomplete: 'アップロードが完了していません（{received} / {size}バイト）',
+    },
+};
+
+export type Messages = typeof ja;
+
+export default ja;
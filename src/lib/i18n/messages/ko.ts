@@ -0,0 +1,463 @@
+import type { Messages } from "@/lib/i18n/messages/ja";
+
+// 韓国語
+const ko: Messages = {
+    common: {
+        unspecified: '미지정',
+        all: '전체',
+        clear: '지우기',
+        save: '💾 저장',
+        close: '닫기',
+        edit: '편집',
+        delete: '🗑️ 삭제',
+        unknown: '알 수 없음',
+        notObservable: '확인할 수 없음',
+        language: '🌐 언어',
+        serverError: '서버 오류: {status}',
+    },
+    stages: {
+        received: '📥 파일 수신 완료',
+        normalizing: '🎞️ 동영상을 MP4로 변환 중',
+        uploading: '☁️ Gemini에 업로드 중',
+        processing: '⏳ 동영상 처리 중 (PROCESSING)',
+        extractingFrames: '🖼️ 키프레임 추출 중',
+        detecting: '🔍 동영상에서 스윙을 감지하는 중',
+        analyzing: '🤖 AI가 스윙을 분석하는 중',
+        done: '✅ 분석 완료',
+        failed: '❌ 분석 실패',
+        cancelled: '🛑 취소됨',
+    },
+    sections: {
+        swingForm: '스윙 폼 분석',
+        tempo: '템포와 리듬',
+        weightShift: '체중 이동',
+        axisStability: '축의 안정성',
+        clubPath: '클럽 패스',
+        finish: '피니시',
+        improvements: '개선 제안',
+    },
+    phases: {
+        address: '어드레스',
+        takeaway: '테이크어웨이',
+        top: '톱',
+        downswing: '다운스윙',
+        impact: '임팩트',
+        followThrough: '팔로스루',
+        finish: '피니시',
+    },
+    clubs: {
+        driver: '드라이버',
+        fairwayWood: '페어웨이 우드',
+        utility: '유틸리티',
+        iron: '아이언',
+        wedge: '웨지',
+        putter: '퍼터',
+    },
+    cameraAngles: {
+        downTheLine: '후방 (다운 더 라인)',
+        faceOn: '정면 (페이스 온)',
+    },
+    handedness: {
+        right: '오른손잡이',
+        left: '왼손잡이',
+    },
+    home: {
+        tagline: 'AI로 골프 스윙을 분석하여 실력 향상을 지원합니다',
+        historyLink: '📚 분석 기록',
+        modeSingle: '🏌️ 스윙 분석',
+        modeCompare: '🆚 두 스윙 비교',
+        uploadTitle: '📹 동영상 업로드',
+        uploadPrompt: '클릭하여 동영상 파일 선택',
+        supportedFormats: '지원 형식: MP4, MOV, AVI, MKV, WebM, WMV, FLV, 3GP, M4V, OGV',
+        sizeNote: '최대 2GB · iPhone MOV 파일 지원',
+        recommendations: '📝 권장 사항',
+        recommendSize: '• 20MB 미만의 동영상을 권장합니다 (빠른 처리)',
+        recommendConvert: '• MOV·AVI 등의 형식은 서버에서 자동으로 MP4로 변환됩니다',
+        videoUnsupported: '사용 중인 브라우저는 동영상 재생을 지원하지 않습니다.',
+        trimLabel: '✂️ 분석 범위:',
+        trimStart: '시작(초)',
+        trimEnd: '종료(초)',
+        currentPosition: '현재 위치',
+        sessionMode: '🏌️ 여러 스윙을 자동 감지하여 개별 분석',
+        keyFrameMode: '🖼️ 키프레임 정지 이미지만으로 분석 (빠르고 저렴)',
+        keyFrameModeHint: '어드레스부터 피니시까지 7장을 추출해 전송합니다. 여러 스윙 분석과 함께 사용할 수 없습니다.',
+        club: '⛳ 클럽:',
+        cameraAngle: '🎥 촬영 각도:',
+        previewNote: '이 동영상이 분석됩니다. 재생하여 내용을 확인하세요.',
+        chooseAnother: '📁 다른 동영상 선택',
+        selected: '✅ 선택됨: {name}',
+        fileSize: '크기: {size} MB',
+        fileType: '파일 형식: {type} → 서버에서 H.264 MP4로 변환',
+        processingMethod: '처리 방법: 변환 후 20MB 이하는 Base64, 20MB 초과는 Files API',
+        fileTooLarge: '⚠️ 파일 크기가 2GB를 초과합니다',
+        analyzeTitle: '🤖 AI 분석',
+        analyzing: 'Gemini AI로 분석 중...',
+        startAnalysis: '🚀 스윙 분석 시작',
+        durationNote: '※ 파일 크기가 크면 분석에 몇 분이 걸릴 수 있습니다',
+        durationEstimate: '💡 20MB 미만: 약 30초~1분 / 20MB 이상: 약 2~5분',
+        resultTitle: '📊 분석 결과',
+        loadingTitle: '🤖 Gemini AI가 동영상을 분석하는 중...',
+        loadingDefault: '스윙을 자세히 분석하고 있습니다',
+        uploading: '☁️ 동영상 업로드 중... {percent}%',
+        usageDaily: '오늘 남은 사용량: {remaining} / {limit} 토큰',
+        usageMonthly: '이번 달 남은 사용량: {remaining} / {limit} 토큰',
+        cancel: '분석 취소',
+        errorTitle: '분석 오류',
+        doneTitle: '분석 완료!',
+        analyzeNew: '🔄 새 동영상 분석',
+        placeholderTitle: 'Gemini AI의 분석 결과가 여기에 표시됩니다',
+        placeholderBody: '동영상을 업로드하고 분석을 시작하세요',
+        unsupportedFile: '지원하지 않는 동영상 형식입니다.\n\n지원 형식:\nMP4, MOV, AVI, MKV, WebM, WMV, FLV, 3GP, M4V, OGV',
+        selectFileFirst: '먼저 동영상 파일을 선택하세요.',
+        watchFailed: '분석 상태를 가져오지 못했습니다',
+        cancelled: '분석을 취소했습니다',
+        failed: '분석에 실패했습니다',
+        unexpectedError: '분석 중 오류가 발생했습니다.',
+        footer: '© 2024 Golf Analyze. AI-powered golf improvement.',
+    },
+    session: {
+        strengths: '👍 일관된 장점',
+        issues: '⚠️ 반복되는 과제',
+        averageScores: '📊 평균 점수 ({count}스윙)',
+        overall: '종합',
+    },
+    profile: {
+        notSet: '프로필 미설정',
+        handicapShort: 'HC {handicap}',
+        handicap: '핸디캡',
+        height: '키',
+        typicalMiss: '자주 나오는 미스',
+        typicalMissPlaceholder: '예: 슬라이스, 뒤땅',
+        swingThoughts: '현재 의식하고 있는 점',
+        swingThoughtsPlaceholder: '예: 전환 동작에서 하체부터 움직이기',
+        coachFocus: '코치의 중점 항목',
+        coachFocusPlaceholder: '예: 어드레스의 전경각',
+        remove: '프로필 삭제',
+        handednessLegend: '타석',
+    },
+    compare: {
+        title: '🆚 스윙 비교',
+        sourceVideos: '📹 동영상 2개',
+        sourceHistory: '📚 분석 기록에서',
+        before: '이전 스윙',
+        after: '최근 스윙',
+        choose: '선택하세요',
+        needHistory: '비교하려면 분석 기록이 2개 이상 필요합니다.',
+        start: '🆚 비교 시작',
+        comparing: '🔄 비교 중...',
+        selectVideos: '비교할 동영상 2개를 선택하세요.',
+        selectHistory: '비교할 기록 2개를 선택하세요.',
+        unexpectedError: '비교 중 오류가 발생했습니다.',
+        verdicts: {
+            improved: '전반적으로 개선되었습니다',
+            regressed: '전반적으로 나빠졌습니다',
+            mixed: '개선점과 과제가 섞여 있습니다',
+            unchanged: '큰 변화가 없습니다',
+        },
+        trends: {
+            improved: '⬆️ 개선',
+            regressed: '⬇️ 악화',
+            unchanged: '➡️ 변화 없음',
+            notObservable: '❔ 확인할 수 없음',
+        },
+    },
+    player: {
+        beforeLabel: '이전',
+        afterLabel: '최근',
+        play: '▶️ 동시 재생',
+        pause: '⏸ 일시 정지',
+        toImpact: '🎯 임팩트로',
+        beforeImpact: '임팩트 전 {time}',
+        afterImpact: '임팩트 후 {time}',
+        impactUnknown: '⚠️ 임팩트 시점을 확인할 수 없어 동영상 시작 위치로 맞췄습니다.',
+    },
+    history: {
+        title: '📚 분석 기록',
+        description: '이 기기에 저장된 과거 분석 결과 (오프라인에서도 볼 수 있습니다)',
+        back: '🏌️ 스윙 분석으로 돌아가기',
+        dateFrom: '시작일',
+        dateTo: '종료일',
+        club: '클럽',
+        keyword: '키워드',
+        keywordPlaceholder: '파일 이름·메모·총평',
+        loading: '불러오는 중...',
+        loadFailed: '기록을 불러오지 못했습니다.',
+        empty: '아직 분석 기록이 없습니다.',
+        noMatch: '조건에 맞는 기록이 없습니다.',
+        swingCount: '{count}스윙',
+        notesPlaceholder: '메모 (연습 내용, 느낀 점 등)',
+        saveNotes: '💾 메모 저장',
+        confirmDelete: '이 분석 결과를 삭제할까요?',
+        updateFailed: '기록을 업데이트하지 못했습니다.',
+        deleteFailed: '기록을 삭제하지 못했습니다.',
+    },
+    auth: {
+        title: '🔑 로그인',
+        description: '이메일 주소로 로그인 링크를 보내드립니다.',
+        email: '이메일 주소',
+        emailPlaceholder: 'you@example.com',
+        sendLink: '✉️ 링크 보내기',
+        sending: '보내는 중...',
+        linkSent: '{email}(으)로 로그인 링크를 보냈습니다. 메일을 확인해 주세요(유효기간 15분).',
+        devHint: '개발 환경에서 SMTP_URL이 설정되지 않은 경우 링크는 서버 로그에 출력됩니다.',
+        invalidLink: '링크가 유효하지 않거나 만료되었습니다. 다시 보내 주세요.',
+        sendFailed: '링크를 보내지 못했습니다: {message}',
+        signOut: '로그아웃',
+        signInMailSubject: '[Golf Analyze] 로그인 링크',
+        signInMailBody: '아래 링크로 로그인해 주세요(유효기간 15분).\n\n{url}\n\n요청하지 않은 메일이라면 무시해 주세요.',
+        invitationMailSubject: '[Golf Analyze] "{workspace}" 워크스페이스 초대',
+        invitationMailBody: '"{workspace}" 워크스페이스에 초대되었습니다. 아래 링크로 로그인하면 참여할 수 있습니다(유효기간 15분).\n\n{url}',
+    },
+    workspace: {
+        link: '👥 워크스페이스',
+        title: '👥 워크스페이스',
+        back: '← 분석 화면으로 돌아가기',
+        signedInAs: '{email}(으)로 로그인 중',
+        current: '워크스페이스',
+        coachNote: '코치는 워크스페이스 전원의 분석 결과를 볼 수 있습니다.',
+        frameCount: '📌 프레임 {count}장',
+        playerNote: '플레이어는 자신의 분석 결과만 볼 수 있습니다.',
+        roleCoach: '코치',
+        rolePlayer: '플레이어',
+        members: '멤버',
+        you: '(나)',
+        pendingInvitations: '초대 중',
+        invite: '초대',
+        inviteButton: '📨 초대하기',
+        invited: '{email}(으)로 초대 메일을 보냈습니다.',
+        added: '{email}을(를) 멤버로 추가했습니다.',
+        remove: '제외',
+        confirmRemove: '{email}을(를) 워크스페이스에서 제외하시겠습니까?',
+        cancelInvitation: '취소',
+        analyses: '분석 결과',
+        analysesEmpty: '아직 분석 결과가 없습니다.',
+        loading: '불러오는 중...',
+        loadFailed: '워크스페이스를 불러오지 못했습니다.',
+        actionFailed: '작업에 실패했습니다: {message}',
+        confirmDeleteAnalysis: '이 분석 결과를 삭제하시겠습니까?',
+    },
+    review: {
+        approvedBadge: '✅ 코치 승인됨',
+        draftBadge: '📝 검토 중',
+        approvedVersion: '코치 승인본',
+        originalVersion: 'AI 원본 리포트',
+        approvedBy: '{email}님이 {date}에 승인',
+        draftBy: '임시 저장({email}, {date})',
+        edit: '✏️ 검토하기',
+        editTitle: '검토 편집',
+        swing: '스윙 #{index}',
+        summary: '총평',
+        overallScore: '종합 점수',
+        strike: '취소',
+        restore: '되돌리기',
+        edited: '✏️ 편집됨',
+        originalText: 'AI 원문: {text}',
+        struckNote: '코치가 취소한 지적',
+        noReport: '구조화된 리포트가 없어 이 스윙은 편집할 수 없습니다.',
+        comments: '💬 코치 코멘트',
+        commentsEmpty: '코멘트가 없습니다.',
+        commentPlaceholder: '이 시점에 대한 코멘트',
+        addComment: '+ 코멘트 추가',
+        useCurrentTime: '⏱ 재생 위치',
+        seconds: '시각(초)',
+        removeComment: '삭제',
+        loadVideo: '🎬 동영상 불러오기',
+        videoNote: '동영상은 서버에 저장되지 않으므로 코멘트 시각을 확인하려면 원본 동영상을 선택해 주세요.',
+        saveDraft: '💾 임시 저장',
+        unpublish: '💾 비공개로 저장',
+        publish: '✅ 승인 후 공개',
+        cancel: '취소',
+        saved: '검토를 저장했습니다.',
+        published: '검토를 공개했습니다.',
+        saveFailed: '검토를 저장하지 못했습니다: {message}',
+        history: '작업 이력',
+        historySaved: '{email}님이 저장',
+        historyPublished: '{email}님이 공개',
+        historyUnpublished: '{email}님이 비공개로 변경',
+    },
+    pose: {
+        title: '🦴 자세 측정',
+        description: '브라우저에서 골격을 추정하여 머리 이동, 척추 기울기, 어깨와 골반 회전, 스윙 템포를 측정합니다. 측정값은 분석 시 AI에 전달되어 리포트의 근거가 됩니다.',
+        extract: '골격 추정',
+        extracting: '추정 중... {percent}%',
+        cancel: '취소',
+        retry: '다시 시도',
+        failed: '자세를 추정하지 못했습니다.',
+        noPerson: '분석 범위에서 사람을 충분히 감지하지 못했습니다. 전신이 보이는 동영상으로 시도해 주세요.',
+        showOverlay: '골격 표시',
+        keyFrames: '키 프레임:',
+        headDrift: '머리 이동 (몸통 길이 대비)',
+        headDriftValue: '좌우 {horizontal}% / 상하 {vertical}%',
+        spineAngle: '척추 기울기 (어드레스 / 톱 / 임팩트)',
+        shoulderTurn: '어깨 회전 (톱)',
+        hipTurn: '골반 회전 (톱)',
+        xFactor: '꼬임 차이',
+        degrees: '{value}°',
+        notMeasured: '-',
+        note: '2D 이미지에서 추정한 값입니다. 어깨와 골반 회전은 정면에서 촬영한 동영상에서만 참고가 됩니다. 분석 범위 내의 측정값을 전송하며, 세션 모드에서는 전송하지 않습니다.',
+    },
+    tempo: {
+        title: '⏱️ 템포',
+        takeaway: '테이크어웨이 시작',
+        top: '톱',
+        impact: '임팩트',
+        backswing: '백스윙',
+        downswing: '다운스윙',
+        seconds: '{value}초',
+        ratio: '백스윙:다운스윙',
+        ratioValue: '{ratio}:1',
+        benchmark: '기준 {ratio}:1',
+        slowBackswing: '다운스윙에 비해 백스윙이 느립니다.',
+        fastBackswing: '백스윙이 빨라 다운스윙과의 차이가 작은 템포입니다.',
+        onBenchmark: '기준에 가까운 템포입니다.',
+        note: '자세 추정의 양 손목 움직임으로 측정한 값입니다 (프레임 사이는 보간).',
+    },
+    swingPlayer: {
+        play: '▶️ 재생',
+        pause: '⏸ 일시정지',
+        frameBack: '1프레임 뒤로',
+        frameForward: '1프레임 앞으로',
+        speed: '속도:',
+        loop: 'A–B 반복:',
+        clearLoop: '반복 해제',
+        invalidLoop: 'B 지점은 A 지점보다 뒤여야 합니다',
+        draw: '그리기:',
+        tools: {
+            none: '조작',
+            line: '직선',
+            angle: '각도',
+            circle: '원',
+        },
+        hints: {
+            line: '동영상을 클릭하여 시작점과 끝점을 지정합니다 (수평 기준 각도 표시)',
+            angle: '동영상을 클릭하여 3개의 점을 지정합니다 (두 번째 점이 꼭짓점)',
+            circle: '동영상을 클릭하여 중심과 원 위의 점을 지정합니다',
+        },
+        undo: '실행 취소',
+        clearDrawings: '도형 지우기',
+        capture: '📸 이 프레임 첨부',
+        attachedFrames: '📌 첨부한 프레임',
+        attachedNote: '분석 결과와 함께 분석 기록과 워크스페이스에 저장됩니다(최대 {max}장).',
+        removeFrame: '삭제',
+    },
+    keyFrames: {
+        title: '🖼️ 분석에 사용한 키프레임',
+        note: '리포트의 【페이즈 이름】은 해당 이미지를 근거로 한 지적입니다.',
+        phases: {
+            address: '어드레스',
+            takeaway: '테이크백',
+            top: '톱',
+            transition: '전환',
+            impact: '임팩트',
+            followThrough: '팔로스루',
+            finish: '피니시',
+        },
+    },
+    export: {
+        pdf: '📄 PDF로 저장',
+        html: '🌐 HTML로 저장',
+        exporting: '작성 중...',
+        failed: '리포트를 만들지 못했습니다: {message}',
+        title: '스윙 분석 리포트',
+        createdAt: '분석 일시: {date}',
+        overallScore: '종합 평가',
+        phases: '각 페이즈',
+        swing: '스윙 {index} ({start}~{end})',
+        analysis: '분석 결과',
+        keyFrames: '키프레임',
+        attachedFrames: '첨부한 프레임',
+        fileInfo: '동영상 및 분석 정보',
+        tokens: '입력 {input} / 출력 {output} 토큰',
+        yes: '예',
+        no: '아니요',
+        footer: 'Golf Analyze의 AI 스윙 분석 리포트',
+        fields: {
+            fileName: '파일 이름',
+            club: '클럽',
+            cameraAngle: '촬영 각도',
+            originalSize: '파일 크기',
+            analyzedSize: '분석한 크기',
+            normalized: '정규화',
+            method: '분석 방식',
+            model: '모델',
+            attempts: '시도 횟수',
+            usage: '토큰 사용량',
+            processingTime: '처리 시간',
+            duration: '동영상 길이',
+            resolution: '해상도',
+            codec: '코덱',
+        },
+    },
+    errorActions: {
+        fixInput: '입력 내용을 확인한 후 다시 시도해 주세요.',
+        shrinkFile: '동영상을 자르거나 압축해 크기를 줄인 후 다시 시도해 주세요.',
+        changeFile: '스윙 전체가 선명하게 찍힌 다른 동영상으로 시도해 주세요.',
+        retry: '다시 시도해 주세요.',
+        retryLater: '서비스가 혼잡하거나 사용 한도에 도달했습니다. 잠시 후 다시 시도해 주세요.',
+        retryAfter: '약 {seconds}초 후에 다시 시도해 주세요.',
+        fixConfig: '서버 설정에 문제가 있습니다. 관리자에게 환경 변수(GOOGLE_SERVICE_ACCOUNT_KEY_JSON) 확인을 요청해 주세요.',
+        retryButton: '🔄 다시 분석',
+        chooseFileButton: '📁 다른 동영상 선택',
+        signIn: '로그인이 만료되었습니다. 다시 로그인해 주세요.',
+        signInButton: '🔑 로그인',
+    },
+    errors: {
+        analysisFailed: '분석에 실패했습니다: {message}',
+        jobCreationFailed: '분석 작업을 만들지 못했습니다: {message}',
+        comparisonFailed: '비교에 실패했습니다: {message}',
+        jobNotFound: '작업을 찾을 수 없습니다: {id}',
+        noFile: '파일이 선택되지 않았습니다.',
+        fileTooLarge: '파일 크기가 제한(2GB)을 초과합니다: {size}MB',
+        unsupportedVideo: '동영상 파일로 인식할 수 없습니다. 지원 형식: MP4, MOV, AVI, MKV, WebM, WMV, FLV, 3GP, M4V, OGV',
+        invalidClub: '클럽 지정이 올바르지 않습니다: {value}',
+        invalidCameraAngle: '촬영 각도 지정이 올바르지 않습니다: {value}',
+        invalidPipeline: '분석 방식 지정이 올바르지 않습니다: {value}',
+        keyFramesWithSession: '키프레임 방식은 여러 스윙 분석과 함께 사용할 수 없습니다.',
+        invalidLanguage: '출력 언어 지정이 올바르지 않습니다: {value}',
+        invalidExportFormat: '내보내기 형식 지정이 올바르지 않습니다: {value}',
+        trimWithoutNormalization: '동영상 정규화가 비활성화되어 있어 자를 수 없습니다.',
+        invalidTrimPosition: '자르기 위치가 올바르지 않습니다: {value}',
+        trimEndBeforeStart: '자르기 종료 위치는 시작 위치보다 뒤여야 합니다.',
+        invalidProfile: '플레이어 프로필 형식이 올바르지 않습니다.',
+        invalidPoseMetrics: '자세 측정값 형식이 올바르지 않습니다.',
+        invalidTempo: '템포 측정값 형식이 올바르지 않습니다.',
+        invalidAttachedFrames: '첨부 프레임 형식이 올바르지 않습니다(JPEG 이미지, 최대 {max}장).',
+        invalidHandedness: '타석(right / left)을 지정하세요.',
+        handicapOutOfRange: '핸디캡은 {min}~{max} 범위로 입력하세요.',
+        heightOutOfRange: '키는 {min}~{max} 범위로 입력하세요.',
+        fileNameLost: '처리 중 파일 이름이 손실되었습니다.',
+        fileProcessingIncomplete: '파일 처리가 완료되지 않았습니다. 상태: {state}',
+        fileProcessingTimeout: '동영상 처리가 {seconds}초 안에 완료되지 않았습니다.',
+        serviceAccountMissing: '서비스 계정 환경 변수(GOOGLE_SERVICE_ACCOUNT_KEY_JSON)가 설정되어 있지 않습니다.',
+        serviceAccountInvalid: '서비스 계정 환경 변수(GOOGLE_SERVICE_ACCOUNT_KEY_JSON)를 JSON으로 읽을 수 없습니다.',
+        accessTokenFailed: '서비스 계정에서 액세스 토큰을 가져오지 못했습니다.',
+        noSwingsDetected: '동영상에서 스윙을 감지하지 못했습니다.',
+        sessionTimeBudgetExceeded: '세션 분석이 제한 시간({seconds}초) 안에 완료되지 않았습니다. 동영상을 잘라 스윙 수를 줄인 뒤 다시 시도해 주세요.',
+        invalidBeforeReport: '비교할 리포트(이전)의 형식이 올바르지 않습니다.',
+        invalidAfterReport: '비교할 리포트(최근)의 형식이 올바르지 않습니다.',
+        comparisonNeedsTwoVideos: '비교할 동영상 2개를 선택하세요.',
+        uploadFailed: '업로드에 실패했습니다: {message}',
+        invalidUploadRequest: '업로드 요청이 올바르지 않습니다.',
+        invalidApiToken: 'API 토큰이 올바르지 않습니다.',
+        signInRequired: '로그인이 필요합니다.',
+        coachOnly: '코치만 실행할 수 있습니다.',
+        invalidEmail: '이메일 주소 형식이 올바르지 않습니다.',
+        invalidRole: '역할(coach / player)을 지정해 주세요.',
+        invalidReview: '검토 형식이 올바르지 않습니다.',
+        memberNotFound: '멤버를 찾을 수 없습니다.',
+        lastCoach: '워크스페이스에는 최소 1명의 코치가 필요합니다.',
+        workspaceNotFound: '워크스페이스를 찾을 수 없습니다.',
+        analysisNotFound: '분석 결과를 찾을 수 없습니다: {id}',
+        mailNotConfigured: '메일 발송 설정(SMTP_URL)이 없습니다.',
+        rateLimited: '요청이 너무 많습니다(1분당 최대 {limit}회).',
+        dailyQuotaExceeded: '오늘의 사용 한도({limit} 토큰)에 도달했습니다.',
+        monthlyQuotaExceeded: '이번 달 사용 한도({limit} 토큰)에 도달했습니다.',
+        uploadNotFound: '업로드를 찾을 수 없습니다 (만료되었을 수 있습니다): {id}',
+        uploadOffsetMismatch: '업로드 위치가 일치하지 않습니다. 수신 완료: {received}바이트',
+        uploadInProgress: '이 업로드의 청크를 이미 수신하고 있습니다.',
+        chunkTooLarge: '청크가 너무 큽니다 (최대 {max}바이트)',
+        uploadIncomplete: '업로드가 완료되지 않았습니다 ({received} / {size}바이트)',
+    },
+};
+
+export default ko;
@@ -0,0 +1,20 @@
+import { NextRequest } from "next/server";
+import { Locale, isLocale, matchAcceptLanguage } from "@/lib/i18n/locales";
+import { LocalizedError } from "@/lib/i18n/localized-error";
+
+// レスポンスのメッセージの言語（?locale= → Accept-Language の順に判定）
+// EventSource はヘッダーを指定できないため、クエリパラメータでも受け付ける
+export function getRequestLocale(request: NextRequest): Locale {
+    const queryLocale = request.nextUrl.searchParams.get('locale');
+    if (isLocale(queryLocale)) return queryLocale;
+    return matchAcceptLanguage(request.headers.get('accept-language'));
+}
+
+// フォームの出力言語（未指定は undefined、不正な値はエラー）
+export function parseOutputLanguage(value: FormDataEntryValue | null): Locale | undefined {
+    if (value === null || value === '') return undefined;
+    if (!isLocale(value)) {
+        throw new LocalizedError('errors.invalidLanguage', { value: String(value) });
+    }
+    return value;
+}
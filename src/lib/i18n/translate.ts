@@ -0,0 +1,30 @@
+import { DEFAULT_LOCALE, Locale } from "@/lib/i18n/locales";
+import ja, { Messages } from "@/lib/i18n/messages/ja";
+import en from "@/lib/i18n/messages/en";
+import ko from "@/lib/i18n/messages/ko";
+
+const MESSAGES: Record<Locale, Messages> = { ja, en, ko };
+
+// 辞書のキー（"home.title" のようなドット区切り）
+type Leaves<T, Prefix extends string = ''> = {
+    [K in keyof T & string]: T[K] extends string ? `${Prefix}${K}` : Leaves<T[K], `${Prefix}${K}.`>;
+}[keyof T & string];
+
+export type MessageKey = Leaves<Messages>;
+
+export type MessageParams = Record<string, string | number>;
+
+const lookup = (messages: Messages, key: MessageKey): string | undefined => {
+    let node: unknown = messages;
+    for (const part of key.split('.')) {
+        node = (node as Record<string, unknown> | undefined)?.[part];
+    }
+    return typeof node === 'string' ? node : undefined;
+};
+
+// {name} 形式のプレースホルダーを置き換えて翻訳する（見つからない場合は既定の言語）
+export function translate(locale: Locale, key: MessageKey, params: MessageParams = {}): string {
+    const template = lookup(MESSAGES[locale], key) ?? lookup(MESSAGES[DEFAULT_LOCALE], key) ?? key;
+    return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+        name in params ? String(params[name]) : match);
+}
@@ -0,0 +1,141 @@
+import fs from "fs/promises";
+import path from "path";
+import os from "os";
+import type { GolfAnalysisResponse } from "@/lib/analysis-pipeline";
+import { AnalysisStage, isTerminalStage } from "@/lib/analysis-stages";
+import type { ApiErrorFields } from "@/lib/api-errors";
+
+// 解析ジョブ（失敗時は error とエラーコードを保持する）
+export interface AnalysisJob extends ApiErrorFields {
+    id: string;
+    stage: AnalysisStage;
+    fileName: string;
+    createdAt: string;
+    updatedAt: string;
+    tempFilePath: string;       // サーバー内部用（レスポンスには含めない）
+    ownerId?: string;           // ジョブを作成したユーザー（閲覧権限の確認に使う）
+    workspaceId?: string;
+    result?: GolfAnalysisResponse;
+    error?: string;
+}
+
+export type JobPatch = Partial<Omit<AnalysisJob, 'id'>>;
+
+// ジョブストアのインターフェース（差し替え可能）
+// update の condition: 現在のジョブが条件を満たす場合だけ更新する（満たさなければ null）
+export interface JobStore {
+    create(job: AnalysisJob): Promise<void>;
+    get(id: string): Promise<AnalysisJob | null>;
+    update(id: string, patch: JobPatch, condition?: (job: AnalysisJob) => boolean): Promise<AnalysisJob | null>;
+    delete(id: string): Promise<void>;
+    sweep(finishedBefore: number): Promise<string[]>;       // 終了したジョブのうち、指定時刻より前に更新されたものを削除し、IDを返す
+}
+
+const isExpired = (job: AnalysisJob, finishedBefore: number) =>
+    isTerminalStage(job.stage) && Date.parse(job.updatedAt) < finishedBefore;
+
+// メモリ上のジョブストア（単一プロセス向け）
+export class MemoryJobStore implements JobStore {
+    private jobs = new Map<string, AnalysisJob>();
+
+    async create(job: AnalysisJob): Promise<void> {
+        this.jobs.set(job.id, { ...job });
+    }
+
+    async get(id: string): Promise<AnalysisJob | null> {
+        const job = this.jobs.get(id);
+        return job ? { ...job } : null;
+    }
+
+    async update(id: string, patch: JobPatch, condition?: (job: AnalysisJob) => boolean): Promise<AnalysisJob | null> {
+        const job = this.jobs.get(id);
+        if (!job || (condition && !condition(job))) return null;
+        const updated = { ...job, ...patch, updatedAt: new Date().toISOString() };
+        this.jobs.set(id, updated);
+        return { ...updated };
+    }
+
+    async delete(id: string): Promise<void> {
+        this.jobs.delete(id);
+    }
+
+    async sweep(finishedBefore: number): Promise<string[]> {
+        const expired = Array.from(this.jobs.values()).filter(job => isExpired(job, finishedBefore)).map(job => job.id);
+        expired.forEach(id => this.jobs.delete(id));
+        return expired;
+    }
+}
+
+// JSONファイルによるジョブストア（プロセス再起動後も状態を保持）
+export class FileJobStore implements JobStore {
+    constructor(private readonly dir: string) {}
+
+    private filePath(id: string): string {
+        // パストラバーサル対策としてIDをファイル名に使える文字に限定
+        if (!/^[\w-]+$/.test(id)) {
+            throw new Error(`不正なジョブIDです: ${id}`);
+        }
+        return path.join(this.dir, `${id}.json`);
+    }
+
+    async create(job: AnalysisJob): Promise<void> {
+        await fs.mkdir(this.dir, { recursive: true });
+        await this.write(job);
+    }
+
+    async get(id: string): Promise<AnalysisJob | null> {
+        try {
+            return JSON.parse(await fs.readFile(this.filePath(id), 'utf-8')) as AnalysisJob;
+        } catch {
+            return null;
+        }
+    }
+
+    // 読み込みから書き込みまでの間に別プロセスが更新する可能性は残る（単一サーバーでの利用を想定）
+    async update(id: string, patch: JobPatch, condition?: (job: AnalysisJob) => boolean): Promise<AnalysisJob | null> {
+        const job = await this.get(id);
+        if (!job || (condition && !condition(job))) return null;
+        const updated = { ...job, ...patch, updatedAt: new Date().toISOString() };
+        await this.write(updated);
+        return updated;
+    }
+
+    async delete(id: string): Promise<void> {
+        await fs.unlink(this.filePath(id)).catch(() => undefined);
+    }
+
+    async sweep(finishedBefore: number): Promise<string[]> {
+        const entries = await fs.readdir(this.dir).catch(() => [] as string[]);
+        const expired: string[] = [];
+        for (const entry of entries) {
+            if (!entry.endsWith('.json')) continue;
+            const job = await this.get(entry.slice(0, -'.json'.length));
+            if (job && isExpired(job, finishedBefore)) {
+                await this.delete(job.id);
+                expired.push(job.id);
+            }
+        }
+        return expired;
+    }
+
+    // 書き込み途中のファイルを読まれないよう一時ファイル経由で置き換える
+    private async write(job: AnalysisJob): Promise<void> {
+        const target = this.filePath(job.id);
+        const temp = `${target}.${process.pid}.tmp`;
+        await fs.writeFile(temp, JSON.stringify(job), 'utf-8');
+        await fs.rename(temp, target);
+    }
+}
+
+// 開発時のホットリロードでストアが消えないようglobalThisに保持
+const globalForJobs = globalThis as unknown as { analysisJobStore?: JobStore };
+
+// ANALYSIS_JOB_STORE=file でファイル保存、それ以外はメモリ保存
+export function getJobStore(): JobStore {
+    if (!globalForJobs.analysisJobStore) {
+        globalForJobs.analysisJobStore = process.env.ANALYSIS_JOB_STORE === 'file'
+            ? new FileJobStore(process.env.ANALYSIS_JOB_DIR || path.join(os.tmpdir(), 'golf-analyze-jobs'))
+            : new MemoryJobStore();
+    }
+    return globalForJobs.analysisJobStore;
+}
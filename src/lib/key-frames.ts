@@ -0,0 +1,217 @@
+import type { Part } from "@google/generative-ai";
+import { TrimRange, runFfmpeg } from "@/lib/video-preprocess";
+
+// キーフレーム方式の解析（動画全体をアップロードせず、スイングの要所の静止画だけをモデルに渡す）
+// ffmpeg で縮小したフレームの差分から動きの量を計測してキーフレームの時刻を推定し、その時刻の画像を切り出す
+// ブラウザの姿勢推定によるテンポ・キーフレームがあれば、その時刻を優先する
+
+// キーフレームの定義（画像の前に付けるラベルに対応）
+export const KEY_FRAME_PHASES = [
+    { key: 'address', title: 'アドレス' },
+    { key: 'takeaway', title: 'テイクバック' },
+    { key: 'top', title: 'トップ' },
+    { key: 'transition', title: '切り返し' },
+    { key: 'impact', title: 'インパクト' },
+    { key: 'followThrough', title: 'フォロースルー' },
+    { key: 'finish', title: 'フィニッシュ' },
+] as const;
+
+export type KeyFramePhase = typeof KEY_FRAME_PHASES[number]['key'];
+
+// モデルに渡す動画の形式（video: 動画全体 / keyFrames: キーフレームの静止画）
+export type AnalysisPipeline = 'video' | 'keyFrames';
+
+export const isAnalysisPipeline = (value: unknown): value is AnalysisPipeline => value === 'video' || value === 'keyFrames';
+
+// クライアントに返すキーフレーム
+export interface KeyFrameImage {
+    phase: KeyFramePhase;
+    seconds: number;            // 元動画の先頭からの秒数
+    image: string;              // JPEG の data URL
+}
+
+// 各キーフレームの時刻（解析対象の先頭からの秒数）
+export type KeyFrameTimes = Record<KeyFramePhase, number>;
+
+// 姿勢推定で求めた時刻（解析対象の先頭からの秒数）
+export interface KeyFrameHint {
+    takeaway?: number;
+    top?: number;
+    impact?: number;
+}
+
+export interface PreparedKeyFrames {
+    frames: KeyFrameImage[];
+    parts: Part[];              // ラベルのテキストと画像を交互に並べたパート
+    times: KeyFrameTimes;
+    totalBytes: number;         // 画像の合計サイズ
+}
+
+const MOTION_FPS = 30;
+const MOTION_SIZE = 64;                 // 動きの計測に使う縮小フレームの一辺（px）
+const MAX_MOTION_SECONDS = 60;          // 動きを計測する長さの上限
+const SMOOTHING_RADIUS = 2;             // 動きの量の移動平均の半径（フレーム）
+const ACTIVE_THRESHOLD = 0.2;           // ベースラインから最大値までのこの割合を超えたら動いているとみなす
+const START_THRESHOLD = 0.05;           // テイクバック開始はこの割合を下回るまでさかのぼる
+const QUIET_GAP_SECONDS = 0.3;          // トップの切り返しで動きが小さくなっても、この長さまではスイングの途中とみなす
+const TOP_SEARCH_START = 0.4;           // トップはテイクバック〜インパクトのこの割合以降で探す
+const ADDRESS_LEAD_SECONDS = 0.3;       // テイクバックのこの秒数前をアドレスとする
+const TRANSITION_RATIO = 0.3;           // トップ〜インパクトのこの割合の時点を切り返しとする
+const FOLLOW_THROUGH_RATIO = 0.4;       // インパクト〜フィニッシュのこの割合の時点をフォロースルーとする
+const FRAME_MAX_SIDE = 640;             // 切り出す画像の長辺の上限（px）
+
+const round = (seconds: number) => Math.round(seconds * 100) / 100;
+
+// 連続するグレースケールのフレームから、前のフレームとの輝度差の平均（動きの量）を求める
+export function measureMotion(frames: Buffer, frameSize: number): number[] {
+    const count = Math.floor(frames.length / frameSize);
+    if (count === 0) return [];
+    const motion = [0];
+    for (let i = 1; i < count; i++) {
+        const previous = (i - 1) * frameSize;
+        const current = i * frameSize;
+        let sum = 0;
+        for (let j = 0; j < frameSize; j++) {
+            sum += Math.abs(frames[current + j] - frames[previous + j]);
+        }
+        motion.push(sum / frameSize);
+    }
+    return motion;
+}
+
+function smooth(values: number[], radius: number): number[] {
+    return values.map((_, i) => {
+        const window = values.slice(Math.max(0, i - radius), i + radius + 1);
+        return window.reduce((sum, value) => sum + value, 0) / window.length;
+    });
+}
+
+function indexOfExtreme(values: number[], from: number, to: number, better: (a: number, b: number) => boolean): number {
+    let best = from;
+    for (let i = from + 1; i <= to; i++) {
+        if (better(values[i], values[best])) best = i;
+    }
+    return best;
+}
+
+// 動きの量の系列からキーフレームの時刻を推定する（スイングを検出できなければ null）
+// インパクト付近で動きが最大になり、トップの切り返しで一度小さくなることを利用する
+export function detectKeyFrameTimes(motion: number[], fps: number, hint: KeyFrameHint = {}): KeyFrameTimes | null {
+    if (motion.length < fps) return null;
+    const smoothed = smooth(motion, SMOOTHING_RADIUS);
+    const last = smoothed.length - 1;
+    const duration = last / fps;
+
+    const peak = indexOfExtreme(smoothed, 0, last, (a, b) => a > b);
+    const baseline = [...smoothed].sort((a, b) => a - b)[Math.floor(smoothed.length * 0.2)];
+    if (smoothed[peak] <= baseline) return null;
+    const range = smoothed[peak] - baseline;
+    const threshold = baseline + range * ACTIVE_THRESHOLD;
+
+    // 最大値の前後で動きが閾値を下回るまでをスイングとみなす（前側は切り返しの短い停止をまたぐ）
+    const maxGap = Math.round(QUIET_GAP_SECONDS * fps);
+    let start = peak;
+    for (let i = peak - 1, gap = 0; i >= 0 && gap <= maxGap; i--) {
+        if (smoothed[i] > threshold) {
+            start = i;
+            gap = 0;
+        } else {
+            gap++;
+        }
+    }
+    // 動き始めはゆっくりなので、低い閾値を下回るまでさかのぼる
+    while (start > 0 && smoothed[start - 1] > baseline + range * START_THRESHOLD) start--;
+    let end = peak;
+    while (end < last && smoothed[end + 1] > threshold) end++;
+
+    const takeaway = hint.takeaway ?? start / fps;
+    const impact = hint.impact ?? peak / fps;
+    let top = hint.top;
+    if (top === undefined) {
+        const from = Math.round((takeaway + (impact - takeaway) * TOP_SEARCH_START) * fps);
+        const to = Math.round(impact * fps) - 1;
+        top = from < to ? indexOfExtreme(smoothed, from, to, (a, b) => a < b) / fps : takeaway + (impact - takeaway) * 0.7;
+    }
+    const finish = end / fps > impact ? end / fps : duration;
+    if (!(takeaway < top && top < impact && impact < finish)) return null;
+
+    return {
+        address: round(Math.max(0, takeaway - ADDRESS_LEAD_SECONDS)),
+        takeaway: round(takeaway),
+        top: round(top),
+        transition: round(top + (impact - top) * TRANSITION_RATIO),
+        impact: round(impact),
+        followThrough: round(impact + (finish - impact) * FOLLOW_THROUGH_RATIO),
+        finish: round(finish),
+    };
+}
+
+// 解析対象の範囲の動きの量を計測する
+async function extractMotion(filePath: string, trim: TrimRange | undefined, signal?: AbortSignal): Promise<number[]> {
+    const start = trim?.start ?? 0;
+    const length = trim?.end !== undefined ? Math.min(trim.end - start, MAX_MOTION_SECONDS) : MAX_MOTION_SECONDS;
+    const raw = await runFfmpeg([
+        '-hide_banner',
+        '-ss', String(start),
+        '-i', filePath,
+        '-t', String(length),
+        '-an',
+        '-vf', `fps=${MOTION_FPS},scale=${MOTION_SIZE}:${MOTION_SIZE},format=gray`,
+        '-f', 'rawvideo',
+        'pipe:1',
+    ], signal);
+    return measureMotion(raw, MOTION_SIZE * MOTION_SIZE);
+}
+
+// 指定した時刻（元動画の秒数）のフレームを JPEG で切り出す
+async function extractFrameImage(filePath: string, seconds: number, signal?: AbortSignal): Promise<Buffer> {
+    const image = await runFfmpeg([
+        '-hide_banner',
+        '-ss', String(seconds),
+        '-i', filePath,
+        '-frames:v', '1',
+        '-an',
+        '-vf', `scale='min(${FRAME_MAX_SIDE},iw)':'min(${FRAME_MAX_SIDE},ih)':force_original_aspect_ratio=decrease`,
+        '-q:v', '4',
+        '-f', 'image2pipe',
+        '-c:v', 'mjpeg',
+        'pipe:1',
+    ], signal);
+    if (image.length === 0) {
+        throw new Error(`${seconds}秒のフレームを切り出せませんでした。`);
+    }
+    return image;
+}
+
+// キーフレームの画像の前に付けるラベル（時刻は解析対象の先頭からの秒数）
+export const keyFrameLabel = (phase: KeyFramePhase, seconds: number) =>
+    `【${KEY_FRAME_PHASES.find(({ key }) => key === phase)?.title}】${seconds.toFixed(2)}秒`;
+
+// キーフレームの時刻を推定し、モデルに渡す画像を切り出す
+export async function extractKeyFrames(
+    filePath: string,
+    trim: TrimRange | undefined,
+    hint: KeyFrameHint,
+    signal?: AbortSignal,
+): Promise<PreparedKeyFrames> {
+    const offset = trim?.start ?? 0;
+    console.log('🖼️ キーフレームを抽出中...');
+    const motion = await extractMotion(filePath, trim, signal);
+    const times = detectKeyFrameTimes(motion, MOTION_FPS, hint);
+    if (!times) {
+        throw new Error('動画からスイングのキーフレームを検出できませんでした。');
+    }
+
+    const frames: KeyFrameImage[] = [];
+    const parts: Part[] = [];
+    let totalBytes = 0;
+    for (const { key } of KEY_FRAME_PHASES) {
+        const image = await extractFrameImage(filePath, offset + times[key], signal);
+        const data = image.toString('base64');
+        frames.push({ phase: key, seconds: round(offset + times[key]), image: `data:image/jpeg;base64,${data}` });
+        parts.push({ text: keyFrameLabel(key, times[key]) }, { inlineData: { mimeType: 'image/jpeg', data } });
+        totalBytes += image.length;
+    }
+    console.log(`✅ キーフレーム抽出完了: ${frames.length}枚 (${(totalBytes / 1024).toFixed(0)}KB)`);
+    return { frames, parts, times, totalBytes };
+}
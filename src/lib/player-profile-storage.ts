@@ -0,0 +1,22 @@
+import { PlayerProfile, parsePlayerProfile } from "@/lib/player-profile";
+
+// プレーヤープロフィールはブラウザの localStorage に保存する
+const STORAGE_KEY = 'golf-analyze:player-profile';
+
+export function loadPlayerProfile(): PlayerProfile | undefined {
+    if (typeof window === 'undefined') return undefined;
+    try {
+        return parsePlayerProfile(window.localStorage.getItem(STORAGE_KEY));
+    } catch (error) {
+        console.warn('⚠️ 保存済みのプレーヤープロフィールを読み込めませんでした:', error);
+        return undefined;
+    }
+}
+
+export function savePlayerProfile(profile: PlayerProfile | undefined): void {
+    if (profile) {
+        window.localStorage.setItem(STORAGE_KEY, JSON.stringify(profile));
+    } else {
+        window.localStorage.removeItem(STORAGE_KEY);
+    }
+}
@@ -0,0 +1,68 @@
+import { LocalizedError } from "@/lib/i18n/localized-error";
+
+// プレーヤープロフィール（ブラウザに保存し、解析リクエストと一緒に送信する）
+export type Handedness = 'right' | 'left';
+
+export const HANDEDNESS_LABELS: Record<Handedness, string> = {
+    right: '右打ち',
+    left: '左打ち',
+};
+
+export interface PlayerProfile {
+    handedness: Handedness;
+    handicap?: number;
+    heightCm?: number;
+    typicalMiss?: string;       // 典型的なミス（例: スライス、ダフリ）
+    swingThoughts?: string;     // 現在意識していること
+    coachFocus?: string;        // コーチから指摘されている重点項目
+}
+
+export const PROFILE_TEXT_MAX_LENGTH = 200;
+const HANDICAP_RANGE = { min: -10, max: 54 };
+const HEIGHT_RANGE = { min: 100, max: 250 };
+
+const TEXT_FIELDS = ['typicalMiss', 'swingThoughts', 'coachFocus'] as const;
+
+// FormData の profile（JSON文字列）を検証して取り出す
+export function parsePlayerProfile(value: FormDataEntryValue | null): PlayerProfile | undefined {
+    if (typeof value !== 'string' || value.trim() === '') return undefined;
+
+    let data: unknown;
+    try {
+        data = JSON.parse(value);
+    } catch {
+        throw new LocalizedError('errors.invalidProfile');
+    }
+    if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+        throw new LocalizedError('errors.invalidProfile');
+    }
+    const raw = data as Record<string, unknown>;
+
+    if (raw.handedness !== 'right' && raw.handedness !== 'left') {
+        throw new LocalizedError('errors.invalidHandedness');
+    }
+    const profile: PlayerProfile = { handedness: raw.handedness };
+
+    const toNumber = (key: 'handicap' | 'heightCm', range: { min: number; max: number }, errorKey: 'errors.handicapOutOfRange' | 'errors.heightOutOfRange') => {
+        const fieldValue = raw[key];
+        if (fieldValue === undefined || fieldValue === null || fieldValue === '') return;
+        const num = Number(fieldValue);
+        if (!Number.isFinite(num) || num < range.min || num > range.max) {
+            throw new LocalizedError(errorKey, range);
+        }
+        profile[key] = num;
+    };
+    toNumber('handicap', HANDICAP_RANGE, 'errors.handicapOutOfRange');
+    toNumber('heightCm', HEIGHT_RANGE, 'errors.heightOutOfRange');
+
+    for (const key of TEXT_FIELDS) {
+        const text = raw[key];
+        if (text === undefined || text === null) continue;
+        if (typeof text !== 'string') {
+            throw new LocalizedError('errors.invalidProfile');
+        }
+        const trimmed = text.trim().slice(0, PROFILE_TEXT_MAX_LENGTH);
+        if (trimmed) profile[key] = trimmed;
+    }
+    return profile;
+}
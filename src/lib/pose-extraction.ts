@@ -0,0 +1,100 @@
+import type { PoseDetector } from "@tensorflow-models/pose-detection";
+import type { PoseFrame, PoseTrack } from "@/lib/pose-metrics";
+
+// ブラウザでの姿勢推定（ブラウザ専用）
+// MoveNet（SinglePose Lightning）を TF.js の WASM バックエンドで実行し、動画をシークしながらフレームごとに推定する
+// TF.js は数MBあるため、推定を始めたときに動的に読み込む
+// WASM とモデルは public/ から配信し、外部の CDN には依存しない（PWA としてオフラインでも使えるようにする）
+
+const SAMPLE_FPS = 15;      // テンポの計測にはダウンスイング（約0.3秒）を数フレームに分けられる間隔が必要
+const MAX_FRAMES = 600;     // 長い動画はサンプリング間隔を広げて上限に収める
+const WASM_PATH = '/tfjs-backend-wasm/';                                    // @tensorflow/tfjs-backend-wasm/dist/*.wasm のコピー
+const MODEL_URL = '/models/movenet-singlepose-lightning/model.json';        // MoveNet SinglePose Lightning v4（TF.js 形式）
+
+export interface PoseExtractionOptions {
+    signal?: AbortSignal;
+    onProgress?: (ratio: number) => void;
+}
+
+let detectorPromise: Promise<PoseDetector> | null = null;
+
+// 推定器はページ内で使い回す（モデルとWASMの読み込みは初回のみ）
+function loadDetector(): Promise<PoseDetector> {
+    detectorPromise ??= (async () => {
+        const [tf, wasm, poseDetection] = await Promise.all([
+            import('@tensorflow/tfjs-core'),
+            import('@tensorflow/tfjs-backend-wasm'),
+            import('@tensorflow-models/pose-detection'),
+        ]);
+        wasm.setWasmPaths(WASM_PATH);
+        await tf.setBackend('wasm');
+        await tf.ready();
+        console.log('🦴 姿勢推定モデルを読み込みます（MoveNet / WASM）');
+        try {
+            return await poseDetection.createDetector(poseDetection.SupportedModels.MoveNet, {
+                modelType: poseDetection.movenet.modelType.SINGLEPOSE_LIGHTNING,
+                modelUrl: MODEL_URL,
+            });
+        } catch (error) {
+            throw new Error(`姿勢推定モデル（${MODEL_URL}）を読み込めませんでした。README の手順でモデルを public/ に配置してください: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    })();
+    // 失敗した場合は次回やり直せるようにする
+    detectorPromise.catch(() => { detectorPromise = null; });
+    return detectorPromise;
+}
+
+const waitForEvent = (video: HTMLVideoElement, type: 'loadeddata' | 'seeked', signal?: AbortSignal) =>
+    new Promise<void>((resolve, reject) => {
+        const cleanup = () => {
+            video.removeEventListener(type, onEvent);
+            video.removeEventListener('error', onError);
+            signal?.removeEventListener('abort', onAbort);
+        };
+        const onEvent = () => { cleanup(); resolve(); };
+        const onError = () => { cleanup(); reject(new Error('動画を読み込めませんでした')); };
+        const onAbort = () => { cleanup(); reject(signal?.reason); };
+        video.addEventListener(type, onEvent);
+        video.addEventListener('error', onError);
+        signal?.addEventListener('abort', onAbort);
+    });
+
+// 動画ファイルの各フレームの姿勢を推定する
+export async function extractPoseTrack(file: File, { signal, onProgress }: PoseExtractionOptions = {}): Promise<PoseTrack> {
+    const detector = await loadDetector();
+    signal?.throwIfAborted();
+
+    // プレビューとは別の非表示の video 要素でシークする
+    const url = URL.createObjectURL(file);
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = 'auto';
+    try {
+        const loaded = waitForEvent(video, 'loadeddata', signal);
+        video.src = url;
+        await loaded;
+
+        const duration = video.duration;
+        const step = Math.max(1 / SAMPLE_FPS, duration / MAX_FRAMES);
+        const frames: PoseFrame[] = [];
+        for (let seconds = 0; seconds < duration; seconds += step) {
+            signal?.throwIfAborted();
+            const seeked = waitForEvent(video, 'seeked', signal);
+            video.currentTime = seconds;
+            await seeked;
+            const [pose] = await detector.estimatePoses(video);
+            frames.push({
+                seconds: Math.round(seconds * 100) / 100,
+                keypoints: pose?.keypoints.map(({ x, y, score }) => ({ x, y, score: score ?? 0 })) ?? [],
+            });
+            onProgress?.(Math.min(1, (seconds + step) / duration));
+        }
+        console.log(`🦴 姿勢推定完了: ${frames.length}フレーム`);
+        return { width: video.videoWidth, height: video.videoHeight, frames };
+    } finally {
+        video.removeAttribute('src');
+        video.load();
+        URL.revokeObjectURL(url);
+    }
+}
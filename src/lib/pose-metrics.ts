@@ -0,0 +1,264 @@
+import { LocalizedError } from "@/lib/i18n/localized-error";
+
+// ブラウザの姿勢推定（MoveNet）の結果から、スイングの計測値を求める
+// 推定はブラウザで行い、計測値だけを解析リクエストに添えてプロンプトの根拠にする
+
+// MoveNet が返す COCO形式の17点（添字はこの順序）
+export const POSE_KEYPOINT_NAMES = [
+    'nose', 'leftEye', 'rightEye', 'leftEar', 'rightEar',
+    'leftShoulder', 'rightShoulder', 'leftElbow', 'rightElbow', 'leftWrist', 'rightWrist',
+    'leftHip', 'rightHip', 'leftKnee', 'rightKnee', 'leftAnkle', 'rightAnkle',
+] as const;
+
+export type PoseKeypointName = typeof POSE_KEYPOINT_NAMES[number];
+
+const KP = Object.fromEntries(POSE_KEYPOINT_NAMES.map((name, i) => [name, i])) as Record<PoseKeypointName, number>;
+
+// 骨格として線で結ぶキーポイントの組
+export const POSE_SKELETON_EDGES: [number, number][] = [
+    [KP.leftEar, KP.leftEye], [KP.leftEye, KP.nose], [KP.nose, KP.rightEye], [KP.rightEye, KP.rightEar],
+    [KP.leftShoulder, KP.rightShoulder], [KP.leftHip, KP.rightHip],
+    [KP.leftShoulder, KP.leftHip], [KP.rightShoulder, KP.rightHip],
+    [KP.leftShoulder, KP.leftElbow], [KP.leftElbow, KP.leftWrist],
+    [KP.rightShoulder, KP.rightElbow], [KP.rightElbow, KP.rightWrist],
+    [KP.leftHip, KP.leftKnee], [KP.leftKnee, KP.leftAnkle],
+    [KP.rightHip, KP.rightKnee], [KP.rightKnee, KP.rightAnkle],
+];
+
+// 動画のピクセル座標（score は0〜1の信頼度）
+export interface PoseKeypoint {
+    x: number;
+    y: number;
+    score: number;
+}
+
+export interface PoseFrame {
+    seconds: number;            // 元動画の先頭からの秒数
+    keypoints: PoseKeypoint[];  // POSE_KEYPOINT_NAMES の順（人物を検出できなければ空）
+}
+
+// 動画1本分の推定結果
+export interface PoseTrack {
+    width: number;              // 推定に使った動画の解像度
+    height: number;
+    frames: PoseFrame[];        // 時刻順
+}
+
+export interface PoseKeyFrames {
+    address: number;            // 秒数（元動画の先頭から）
+    top: number | null;
+    impact: number | null;
+}
+
+// 解析リクエストに添える計測値（角度は度、頭の移動は胴の長さに対する%）
+export interface PoseMetrics {
+    framesAnalyzed: number;
+    keyFrames: PoseKeyFrames;
+    headDrift: { horizontal: number; vertical: number } | null;    // アドレス〜インパクトの最大移動量
+    spineAngle: { address: number | null; top: number | null; impact: number | null };  // 胴の垂直からの傾き
+    shoulderTurn: number | null;    // トップでの肩の回転（2Dの肩幅の縮みからの推定値）
+    hipTurn: number | null;         // トップでの腰の回転（同上）
+    xFactor: number | null;         // 肩と腰の回転差
+}
+
+export const MIN_KEYPOINT_SCORE = 0.3;
+const MIN_POSE_FRAMES = 5;
+
+export interface Point {
+    x: number;
+    y: number;
+}
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+export const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+// 信頼度が低いキーポイントは使わない
+function point(frame: PoseFrame, index: number): Point | null {
+    const keypoint = frame.keypoints[index];
+    return keypoint && keypoint.score >= MIN_KEYPOINT_SCORE ? keypoint : null;
+}
+
+function midpoint(frame: PoseFrame, a: number, b: number): Point | null {
+    const pa = point(frame, a);
+    const pb = point(frame, b);
+    return pa && pb ? { x: (pa.x + pb.x) / 2, y: (pa.y + pb.y) / 2 } : null;
+}
+
+export const shoulderCenter = (frame: PoseFrame) => midpoint(frame, KP.leftShoulder, KP.rightShoulder);
+export const hipCenter = (frame: PoseFrame) => midpoint(frame, KP.leftHip, KP.rightHip);
+export const wristCenter = (frame: PoseFrame) => midpoint(frame, KP.leftWrist, KP.rightWrist);
+const head = (frame: PoseFrame) => point(frame, KP.nose) ?? midpoint(frame, KP.leftEar, KP.rightEar);
+
+// 胴（腰の中心→肩の中心）の垂直からの傾き
+function spineAngle(frame: PoseFrame | undefined): number | null {
+    const shoulders = frame && shoulderCenter(frame);
+    const hips = frame && hipCenter(frame);
+    if (!shoulders || !hips) return null;
+    return round1(Math.abs(Math.atan2(shoulders.x - hips.x, hips.y - shoulders.y)) * 180 / Math.PI);
+}
+
+// 左右の点の間隔がアドレスからどれだけ縮んだかで回転角を推定する（正面から撮影した場合に有効）
+function turnAngle(address: PoseFrame, top: PoseFrame, left: number, right: number): number | null {
+    const [a1, a2, t1, t2] = [point(address, left), point(address, right), point(top, left), point(top, right)];
+    if (!a1 || !a2 || !t1 || !t2) return null;
+    const addressWidth = distance(a1, a2);
+    if (addressWidth === 0) return null;
+    const ratio = Math.min(1, distance(t1, t2) / addressWidth);
+    return round1(Math.acos(ratio) * 180 / Math.PI);
+}
+
+// 肩・腰・両手首を検出できたフレーム（人物を十分に検出できなければ null）
+export function usablePoseFrames(frames: PoseFrame[]): PoseFrame[] | null {
+    const usable = frames.filter(frame => shoulderCenter(frame) && hipCenter(frame) && wristCenter(frame));
+    return usable.length >= MIN_POSE_FRAMES ? usable : null;
+}
+
+// usablePoseFrames のフレームの添字
+export interface SwingKeyFrameIndices {
+    address: number;
+    top: number | null;
+    impact: number | null;
+}
+
+// アドレス=最初に全身を検出したフレーム、トップ=両手首が最も高いフレーム、
+// インパクト=トップ以降で両手首がアドレスの位置に最も近いフレーム
+export function findSwingKeyFrames(usable: PoseFrame[]): SwingKeyFrameIndices {
+    const addressWrists = wristCenter(usable[0])!;
+    let top = 0;
+    usable.forEach((frame, i) => {
+        if (wristCenter(frame)!.y < wristCenter(usable[top])!.y) top = i;
+    });
+    if (top === 0) return { address: 0, top: null, impact: null };
+
+    let impact: number | null = null;
+    for (let i = top + 1; i < usable.length; i++) {
+        if (impact === null || distance(wristCenter(usable[i])!, addressWrists) < distance(wristCenter(usable[impact])!, addressWrists)) {
+            impact = i;
+        }
+    }
+    return { address: 0, top, impact };
+}
+
+// 推定結果から計測値を求める（人物を十分に検出できなければ null）
+export function computePoseMetrics(frames: PoseFrame[]): PoseMetrics | null {
+    const usable = usablePoseFrames(frames);
+    if (!usable) return null;
+
+    const indices = findSwingKeyFrames(usable);
+    const address = usable[indices.address];
+    const top = indices.top !== null ? usable[indices.top] : undefined;
+    const impact = indices.impact !== null ? usable[indices.impact] : undefined;
+
+    // 頭の移動量（アドレス〜インパクト。インパクトがなければ最後まで）
+    const torsoLength = distance(shoulderCenter(address)!, hipCenter(address)!);
+    const addressHead = head(address);
+    let headDrift: PoseMetrics['headDrift'] = null;
+    if (addressHead && torsoLength > 0) {
+        const end = impact ?? usable[usable.length - 1];
+        const drifts = usable
+            .filter(frame => frame.seconds <= end.seconds)
+            .map(head)
+            .filter((p): p is Point => p !== null);
+        headDrift = {
+            horizontal: round1(Math.max(...drifts.map(p => Math.abs(p.x - addressHead.x))) / torsoLength * 100),
+            vertical: round1(Math.max(...drifts.map(p => Math.abs(p.y - addressHead.y))) / torsoLength * 100),
+        };
+    }
+
+    const shoulderTurn = top ? turnAngle(address, top, KP.leftShoulder, KP.rightShoulder) : null;
+    const hipTurn = top ? turnAngle(address, top, KP.leftHip, KP.rightHip) : null;
+
+    return {
+        framesAnalyzed: usable.length,
+        keyFrames: { address: round1(address.seconds), top: top ? round1(top.seconds) : null, impact: impact ? round1(impact.seconds) : null },
+        headDrift,
+        spineAngle: { address: spineAngle(address), top: spineAngle(top), impact: spineAngle(impact) },
+        shoulderTurn,
+        hipTurn,
+        xFactor: shoulderTurn !== null && hipTurn !== null ? round1(shoulderTurn - hipTurn) : null,
+    };
+}
+
+// 指定時刻に最も近いフレーム（frames は時刻順）
+export function nearestPoseFrame(frames: PoseFrame[], seconds: number): PoseFrame | undefined {
+    let low = 0;
+    let high = frames.length - 1;
+    while (low < high) {
+        const mid = (low + high) >> 1;
+        if (frames[mid].seconds < seconds) low = mid + 1;
+        else high = mid;
+    }
+    const previous = frames[low - 1];
+    return previous && seconds - previous.seconds < frames[low].seconds - seconds ? previous : frames[low];
+}
+
+// キーフレームの時刻をずらす（トリミングした動画の時刻に揃える）
+export function offsetPoseMetrics(metrics: PoseMetrics, offsetSeconds: number): PoseMetrics {
+    const shift = (seconds: number | null) => seconds === null ? null : round1(Math.max(0, seconds + offsetSeconds));
+    return {
+        ...metrics,
+        keyFrames: {
+            address: shift(metrics.keyFrames.address)!,
+            top: shift(metrics.keyFrames.top),
+            impact: shift(metrics.keyFrames.impact),
+        },
+    };
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// null または範囲内の数値
+function parseNumber(value: unknown, min: number, max: number, nullable: true): number | null;
+function parseNumber(value: unknown, min: number, max: number, nullable: false): number;
+function parseNumber(value: unknown, min: number, max: number, nullable: boolean): number | null {
+    if (value === null && nullable) return null;
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+        throw new LocalizedError('errors.invalidPoseMetrics');
+    }
+    return round1(value);
+}
+
+const SECONDS_MAX = 24 * 60 * 60;
+const ANGLE_MAX = 180;
+const DRIFT_MAX = 1000;
+
+// FormData の poseMetrics（JSON文字列）を検証して取り出す
+export function parsePoseMetrics(value: FormDataEntryValue | null): PoseMetrics | undefined {
+    if (typeof value !== 'string' || value.trim() === '') return undefined;
+
+    let data: unknown;
+    try {
+        data = JSON.parse(value);
+    } catch {
+        throw new LocalizedError('errors.invalidPoseMetrics');
+    }
+    if (!isRecord(data) || !isRecord(data.keyFrames) || !isRecord(data.spineAngle)
+        || (data.headDrift !== null && !isRecord(data.headDrift))) {
+        throw new LocalizedError('errors.invalidPoseMetrics');
+    }
+    const framesAnalyzed = parseNumber(data.framesAnalyzed, 0, Number.MAX_SAFE_INTEGER, false);
+    const { keyFrames, spineAngle, headDrift } = data;
+
+    return {
+        framesAnalyzed: Math.round(framesAnalyzed),
+        keyFrames: {
+            address: parseNumber(keyFrames.address, 0, SECONDS_MAX, false),
+            top: parseNumber(keyFrames.top, 0, SECONDS_MAX, true),
+            impact: parseNumber(keyFrames.impact, 0, SECONDS_MAX, true),
+        },
+        headDrift: headDrift && {
+            horizontal: parseNumber(headDrift.horizontal, 0, DRIFT_MAX, false),
+            vertical: parseNumber(headDrift.vertical, 0, DRIFT_MAX, false),
+        },
+        spineAngle: {
+            address: parseNumber(spineAngle.address, 0, ANGLE_MAX, true),
+            top: parseNumber(spineAngle.top, 0, ANGLE_MAX, true),
+            impact: parseNumber(spineAngle.impact, 0, ANGLE_MAX, true),
+        },
+        shoulderTurn: parseNumber(data.shoulderTurn, 0, ANGLE_MAX, true),
+        hipTurn: parseNumber(data.hipTurn, 0, ANGLE_MAX, true),
+        xFactor: parseNumber(data.xFactor, -ANGLE_MAX, ANGLE_MAX, true),
+    };
+}
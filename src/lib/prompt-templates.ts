@@ -0,0 +1,138 @@
+import type { CameraAngle } from "@/lib/camera-angles";
+import type { ClubType } from "@/lib/clubs";
+import { SWING_REPORT_SECTIONS, SwingReportSectionKey } from "@/lib/swing-report";
+
+// 解析プロンプトのテンプレート（クラブ種別 × 撮影アングル）
+
+export interface ClubPromptTemplate {
+    subject: string;                                                // 「この動画は〜の動画です」
+    checkpoints: Record<SwingReportSectionKey, string>;             // 7項目それぞれの確認ポイント
+}
+
+export interface CameraAnglePromptTemplate {
+    description: string;
+    limitedSections: Partial<Record<SwingReportSectionKey, string>>;  // このアングルでは確認しにくい項目と理由
+}
+
+const DEFAULT_CHECKPOINTS: Record<SwingReportSectionKey, string> = {
+    swingForm: 'アドレス、バックスイング、ダウンスイング、インパクト、フォロースルー',
+    tempo: 'スイングのテンポ、切り返しのタイミング',
+    weightShift: '左右の体重移動の流れ',
+    axisStability: '頭の位置、体の軸のブレ',
+    clubPath: 'スイング軌道の確認',
+    finish: 'バランスの良いフィニッシュポジション',
+    improvements: '具体的な改善点とアドバイス',
+};
+
+// クラブ未指定時のテンプレート
+export const DEFAULT_CLUB_TEMPLATE: ClubPromptTemplate = {
+    subject: 'ゴルフスイング',
+    checkpoints: DEFAULT_CHECKPOINTS,
+};
+
+export const CLUB_PROMPT_TEMPLATES: Record<ClubType, ClubPromptTemplate> = {
+    driver: {
+        subject: 'ドライバーショットのスイング',
+        checkpoints: {
+            ...DEFAULT_CHECKPOINTS,
+            swingForm: 'アドレスでのボール位置（左足かかと線上付近）とスタンス幅、バックスイングの捻転、インパクト、フォロースルー',
+            weightShift: 'バックスイングでの後ろ足への荷重と、インパクトに向けた前足への移動',
+            axisStability: 'インパクトで頭がボールより後方に残っているか、体の軸のブレ',
+            clubPath: 'アッパーブローで捉えられているか、インサイドからの軌道か',
+        },
+    },
+    fairwayWood: {
+        subject: 'フェアウェイウッドのスイング',
+        checkpoints: {
+            ...DEFAULT_CHECKPOINTS,
+            swingForm: 'ボール位置、払い打ちに適したアドレス、バックスイング、インパクト、フォロースルー',
+            clubPath: 'レベルブロー（払い打ち）の軌道か、すくい打ちになっていないか',
+        },
+    },
+    utility: {
+        subject: 'ユーティリティのスイング',
+        checkpoints: {
+            ...DEFAULT_CHECKPOINTS,
+            clubPath: 'レベル〜ややダウンブローの軌道か、すくい打ちになっていないか',
+        },
+    },
+    iron: {
+        subject: 'アイアンショットのスイング',
+        checkpoints: {
+            ...DEFAULT_CHECKPOINTS,
+            swingForm: 'アドレスでのボール位置と前傾、バックスイング、インパクトでのハンドファースト、フォロースルー',
+            weightShift: 'インパクトで前足に体重が乗っているか',
+            clubPath: 'ダウンブローで捉えられているか、スイング軌道',
+        },
+    },
+    wedge: {
+        subject: 'ウェッジショット（アプローチを含む）のスイング',
+        checkpoints: {
+            ...DEFAULT_CHECKPOINTS,
+            swingForm: 'スタンス幅とボール位置、振り幅（距離感）、インパクトでのハンドファースト、フォロースルー',
+            tempo: '振り幅に対して一定のリズムで振れているか、緩みがないか',
+            weightShift: '前足寄りの荷重を保てているか（大きな体重移動は不要）',
+            clubPath: 'ダウンブローの軌道か、ヘッドの入射角',
+        },
+    },
+    putter: {
+        subject: 'パッティングストローク',
+        checkpoints: {
+            swingForm: 'アドレス（目の位置、前傾、ボール位置）、テークバック、インパクト、フォロー',
+            tempo: 'テークバックとフォローのリズムと振り幅のバランス',
+            weightShift: '下半身が静止しているか（パッティングでは体重移動しないのが基本）',
+            axisStability: '頭と体が動かずにストロークできているか',
+            clubPath: 'ストロークの軌道（ストレート / イントゥイン）とフェースの向き',
+            finish: 'フォローでヘッドが目標方向に出ているか、インパクト後の静止',
+            improvements: '具体的な改善点とアドバイス',
+        },
+    },
+};
+
+export const CAMERA_ANGLE_PROMPT_TEMPLATES: Record<CameraAngle, CameraAnglePromptTemplate> = {
+    downTheLine: {
+        description: '飛球線の後方（ダウンザライン）から撮影された動画です。',
+        limitedSections: {
+            weightShift: '左右の体重移動が奥行き方向になるため',
+            axisStability: '頭や体の左右方向のブレは確認しにくいため（前傾角度の変化は確認できます）',
+        },
+    },
+    faceOn: {
+        description: '正面（フェースオン）から撮影された動画です。',
+        limitedSections: {
+            clubPath: 'スイング軌道（インサイド / アウトサイド）が奥行き方向になるため',
+        },
+    },
+};
+
+export interface ResolvedPromptTemplate {
+    club: ClubPromptTemplate;
+    angle?: CameraAnglePromptTemplate;
+}
+
+export const resolvePromptTemplate = (club?: ClubType, angle?: CameraAngle): ResolvedPromptTemplate => ({
+    club: club ? CLUB_PROMPT_TEMPLATES[club] : DEFAULT_CLUB_TEMPLATE,
+    angle: angle ? CAMERA_ANGLE_PROMPT_TEMPLATES[angle] : undefined,
+});
+
+// テンプレートから7項目の一覧と撮影アングルの注意書きを組み立てる
+export function renderAnalysisAreas({ club, angle }: ResolvedPromptTemplate): string {
+    const areas = SWING_REPORT_SECTIONS
+        .map(({ key, title }, index) => `${index + 1}. **${title}**: ${club.checkpoints[key]}`)
+        .join('\n');
+    if (!angle) return areas;
+
+    const limited = SWING_REPORT_SECTIONS
+        .map(({ key, title }, index) => ({ number: index + 1, title, reason: angle.limitedSections[key] }))
+        .filter(({ reason }) => reason);
+    const observable = SWING_REPORT_SECTIONS
+        .map(({ key }, index) => (angle.limitedSections[key] ? null : index + 1))
+        .filter((number): number is number => number !== null);
+
+    return `${areas}
+
+**撮影アングル**: ${angle.description}
+- このアングルで確認できる項目: ${observable.join(', ')}
+${limited.map(({ number, title, reason }) => `- このアングルでは確認が難しい項目: ${number}. ${title}（${reason}）`).join('\n')}
+確認が難しい項目は、動画から明確に観察できる場合のみ評価し、それ以外は notObservable を true にしてください。`;
+}
@@ -0,0 +1,186 @@
+import type { CameraAngle } from "@/lib/camera-angles";
+import type { ClubType } from "@/lib/clubs";
+import { DEFAULT_LOCALE, Locale } from "@/lib/i18n/locales";
+import { HANDEDNESS_LABELS, PlayerProfile } from "@/lib/player-profile";
+import type { PoseMetrics } from "@/lib/pose-metrics";
+import { KEY_FRAME_PHASES, KeyFrameTimes, keyFrameLabel } from "@/lib/key-frames";
+import { SwingTempo, TEMPO_BENCHMARK_RATIO } from "@/lib/swing-tempo";
+import { renderAnalysisAreas, resolvePromptTemplate } from "@/lib/prompt-templates";
+
+// 解析プロンプトの文脈（クラブ種別・撮影アングル・プレーヤー情報・出力言語・姿勢とテンポの計測値）
+export interface PromptContext {
+    club?: ClubType;
+    cameraAngle?: CameraAngle;
+    profile?: PlayerProfile;
+    language?: Locale;
+    poseMetrics?: PoseMetrics;
+    tempo?: SwingTempo;
+}
+
+// プロンプト内で回答言語を指定するときの言語名
+const OUTPUT_LANGUAGE_NAMES: Record<Locale, string> = {
+    ja: '日本語',
+    en: '英語（English）',
+    ko: '韓国語（한국어）',
+};
+
+const outputLanguage = (language: Locale = DEFAULT_LOCALE) => OUTPUT_LANGUAGE_NAMES[language];
+
+// JSONのキーや列挙値はスキーマのまま、文章だけを指定の言語にさせる
+const outputLanguageNote = (language: Locale = DEFAULT_LOCALE) => language === DEFAULT_LOCALE
+    ? ''
+    : `
+
+**回答言語**: JSONのキーと列挙値はスキーマのまま、文章（summary・observations・comment など）はすべて${outputLanguage(language)}で記載してください。観察できない部分も${outputLanguage(language)}で記載してください。`;
+
+// 1スイングの解析プロンプトの共通部分（注意事項と出力形式）
+const ANALYSIS_OUTPUT_FORMAT = `**重要**: 動画から実際に観察できる内容のみを分析し、推測は避けてください。観察できない部分は「確認できません」と記載してください。
+
+**出力形式**: 指定されたJSONスキーマに従って出力してください。
+- sections の各キーは上記の項目に対応します（swingForm=1, tempo=2, weightShift=3, axisStability=4, clubPath=5, finish=6, improvements=7）
+- score は1〜10の整数で評価してください。observations には観察内容を箇条書きで記載してください
+- 動画から確認できない項目は notObservable を true、score を null にしてください
+- summary には全体の総評を、overallScore には総合評価（1〜10）を記載してください
+- phases には各フェーズ（address=アドレス, takeaway=テイクバック, top=トップ, downswing=ダウンスイング, impact=インパクト, followThrough=フォロースルー, finish=フィニッシュ）が起きた時刻を動画先頭からの秒数（小数第1位まで）で記載し、comment にそのフェーズで観察できた内容を1〜2文で記載してください
+- 動画から時刻を確認できないフェーズは seconds を null にしてください`;
+
+// 複数スイングを含む動画からスイングを検出するプロンプト
+export const SWING_DETECTION_PROMPT = `この動画はゴルフ練習の動画で、複数回のスイングが含まれている可能性があります。
+動画内の各スイングについて、アドレスの開始からフィニッシュの完了までの時間範囲を秒単位で検出してください。
+
+- 素振りやワッグル、ボールのセットなど、実際にボールを打っていない動作は含めないでください
+- 各スイングの範囲は重複しないようにしてください
+- 指定されたJSONスキーマに従い、時刻順に出力してください`;
+
+// プレーヤープロフィールをプロンプトに追加する文脈（プロフィールがなければ空文字）
+export function buildPlayerProfileContext(profile?: PlayerProfile): string {
+    if (!profile) return '';
+    const lines = [
+        `- 利き手: ${HANDEDNESS_LABELS[profile.handedness]}`,
+        profile.handicap !== undefined && `- ハンディキャップ: ${profile.handicap}`,
+        profile.heightCm !== undefined && `- 身長: ${profile.heightCm}cm`,
+        profile.typicalMiss && `- 典型的なミス: ${profile.typicalMiss}`,
+        profile.swingThoughts && `- 現在意識していること: ${profile.swingThoughts}`,
+        profile.coachFocus && `- コーチからの重点項目: ${profile.coachFocus}`,
+    ].filter(Boolean);
+    const handednessNote = profile.handedness === 'left'
+        ? 'このゴルファーは左打ちです。ターゲット側は体の右側になります。'
+        : 'このゴルファーは右打ちです。ターゲット側は体の左側になります。';
+
+    return `
+
+**プレーヤー情報**:
+${lines.join('\n')}
+
+${handednessNote}体重移動や体の向きは「左右」ではなく「前足（ターゲット側）」「後ろ足」「ターゲット方向」などの表現で説明してください。
+典型的なミスや意識していること、コーチからの重点項目がある場合は、それらとの関係に触れてアドバイスしてください。`;
+}
+
+// 姿勢の計測値をプロンプトに追加する文脈（計測値がなければ空文字）
+export function buildPoseMetricsContext(metrics?: PoseMetrics): string {
+    if (!metrics) return '';
+    const seconds = (value: number | null) => value === null ? '検出できず' : `${value.toFixed(1)}秒`;
+    const degrees = (value: number | null) => value === null ? '計測できず' : `${value}°`;
+    const lines = [
+        `- 計測したフレーム数: ${metrics.framesAnalyzed}`,
+        `- キーフレーム（動画先頭からの秒数）: アドレス ${seconds(metrics.keyFrames.address)} / トップ ${seconds(metrics.keyFrames.top)} / インパクト ${seconds(metrics.keyFrames.impact)}`,
+        metrics.headDrift
+            ? `- 頭の最大移動量（アドレス〜インパクト、胴の長さに対する割合）: 左右 ${metrics.headDrift.horizontal}% / 上下 ${metrics.headDrift.vertical}%`
+            : '- 頭の移動量: 計測できず',
+        `- 背骨の傾き（胴の垂直からの角度）: アドレス ${degrees(metrics.spineAngle.address)} / トップ ${degrees(metrics.spineAngle.top)} / インパクト ${degrees(metrics.spineAngle.impact)}`,
+        `- トップでの肩の回転: ${degrees(metrics.shoulderTurn)} / 腰の回転: ${degrees(metrics.hipTurn)} / 捻転差: ${degrees(metrics.xFactor)}`,
+    ];
+
+    return `
+
+**姿勢推定による計測値**:
+${lines.join('\n')}
+
+これらはブラウザの姿勢推定（2D）で動画から計測した値です。肩と腰の回転は画面上の幅の変化からの推定値で、正面以外のアングルでは参考程度にしてください。
+observations では、該当する観察の根拠として計測値を数値で引用してください（例: 「頭が左右に胴の長さの8%動いている」）。計測値と動画の見た目が食い違う場合は、その旨を記載してください。`;
+}
+
+// テンポの計測値をプロンプトに追加する文脈（計測値がなければ空文字）
+export function buildTempoContext(tempo?: SwingTempo): string {
+    if (!tempo) return '';
+    return `
+
+**テンポの計測値**:
+- テイクバック開始 ${tempo.takeawaySeconds.toFixed(2)}秒 / トップ ${tempo.topSeconds.toFixed(2)}秒 / インパクト ${tempo.impactSeconds.toFixed(2)}秒（動画先頭からの秒数）
+- バックスイング ${tempo.backswingSeconds.toFixed(2)}秒 / ダウンスイング ${tempo.downswingSeconds.toFixed(2)}秒
+- バックスイング:ダウンスイング = ${tempo.ratio}:1
+
+これらは両手首の動きから計測した値です。tempo（テンポとリズム）の項目では、一般的な目安である${TEMPO_BENCHMARK_RATIO}:1と比較し、計測値を数値で引用してコメントしてください。`;
+}
+
+// 1スイングの解析プロンプト（クラブ種別・撮影アングルのテンプレートとプレーヤー情報・計測値から組み立てる）
+export function buildAnalysisPrompt(context: PromptContext = {}): string {
+    const template = resolvePromptTemplate(context.club, context.cameraAngle);
+    return `この動画は${template.club.subject}の動画です。以下の観点から詳細に分析し、${outputLanguage(context.language)}で回答してください：
+
+${renderAnalysisAreas(template)}
+
+${ANALYSIS_OUTPUT_FORMAT}${outputLanguageNote(context.language)}${buildPlayerProfileContext(context.profile)}${buildPoseMetricsContext(context.poseMetrics)}${buildTempoContext(context.tempo)}`;
+}
+
+// キーフレーム方式の解析プロンプト（動画の代わりにラベル付きの静止画を渡す）
+export function buildKeyFramePrompt(times: KeyFrameTimes, context: PromptContext = {}): string {
+    const template = resolvePromptTemplate(context.club, context.cameraAngle);
+    const labels = KEY_FRAME_PHASES.map(({ key }) => `- ${keyFrameLabel(key, times[key])}`);
+    return `これから渡す画像は、${template.club.subject}の動画から切り出したキーフレーム（静止画）${labels.length}枚です。各画像の直前に【フェーズ名】と動画先頭からの秒数を記載しています。
+${labels.join('\n')}
+
+これらの画像から、以下の観点で詳細に分析し、${outputLanguage(context.language)}で回答してください：
+
+${renderAnalysisAreas(template)}
+
+${ANALYSIS_OUTPUT_FORMAT}
+
+**キーフレームについての注意**:
+- 画像から観察できる姿勢や位置関係をもとに分析し、observations では根拠にした画像を【トップ】のようにフェーズ名で示してください
+- 静止画からは動きの速さやリズムを判断できません。テンポの計測値がない場合、tempo は notObservable を true、score を null にしてください
+- phases の seconds には対応するキーフレームの秒数を記載してください（downswing には【切り返し】の秒数を使ってください）${outputLanguageNote(context.language)}${buildPlayerProfileContext(context.profile)}${buildPoseMetricsContext(context.poseMetrics)}${buildTempoContext(context.tempo)}`;
+}
+
+// 指定した時間範囲のスイングだけを解析させるプロンプト
+export const buildSwingRangePrompt = (startSeconds: number, endSeconds: number, context: PromptContext = {}) => `${buildAnalysisPrompt(context)}
+
+**対象範囲**: この動画の ${startSeconds.toFixed(1)}秒〜${endSeconds.toFixed(1)}秒 のスイングのみを分析してください。それ以外の部分は無視してください。`;
+
+// 各スイングのレポートからセッション全体の総評を作成するプロンプト
+export const buildSessionSummaryPrompt = (reportsJson: string, { profile, language }: PromptContext = {}) => `以下は同じゴルファーの練習セッションにおける各スイングの解析結果（JSON）です。
+セッション全体を通しての総評、一貫して良い点、繰り返し見られる課題を${outputLanguage(language)}でまとめてください。
+個々のスイングの結果に書かれていない内容を推測で追加しないでください。
+
+${reportsJson}${outputLanguageNote(language)}${buildPlayerProfileContext(profile)}`;
+
+const COMPARISON_OUTPUT_FORMAT = `**出力形式**: 指定されたJSONスキーマに従って出力してください。
+- phases の各キー（address=アドレス, takeaway=テイクバック, top=トップ, downswing=ダウンスイング, impact=インパクト, followThrough=フォロースルー, finish=フィニッシュ）ごとに、以前のスイングから最近のスイングで何が変わったかを change に1〜2文で記載してください
+- trend は improved（改善）/ regressed（悪化）/ unchanged（変化なし）/ notObservable（確認できない）のいずれかにしてください
+- verdict には全体として improved / regressed / mixed（混在）/ unchanged のいずれかを、summary には比較の総評を記載してください`;
+
+// 2つの動画を比較するプロンプト（動画は「以前」「最近」の順に渡す）
+const SWING_COMPARISON_PROMPT = `これから同じゴルファーの2つのゴルフスイング動画を渡します。1つ目が以前のスイング、2つ目が最近のスイングです。
+2つのスイングをフェーズごとに比較し、何が変わったかを分析してください。
+
+**重要**: 動画から実際に観察できる内容のみを比較し、推測は避けてください。
+
+${COMPARISON_OUTPUT_FORMAT}
+- impact には各動画でインパクトが起きた時刻を動画先頭からの秒数（小数第1位まで）で記載してください（beforeSeconds=以前、afterSeconds=最近）。確認できない場合は null にしてください`;
+
+export const buildSwingComparisonPrompt = ({ profile, language }: PromptContext = {}) => `${SWING_COMPARISON_PROMPT}
+- 回答は${outputLanguage(language)}で記載してください${outputLanguageNote(language)}${buildPlayerProfileContext(profile)}`;
+
+// 保存済みの2つのレポートを比較するプロンプト（動画なし）
+export const buildReportComparisonPrompt = (beforeJson: string, afterJson: string, { profile, language }: PromptContext = {}) => `以下は同じゴルファーの2つのスイングの解析結果（JSON）です。
+以前のスイングから最近のスイングで何が変わったかを、フェーズごとに${outputLanguage(language)}で比較してください。
+解析結果に書かれていない内容を推測で追加しないでください。
+
+${COMPARISON_OUTPUT_FORMAT}
+- impact の beforeSeconds / afterSeconds は解析結果の phases.impact.seconds をそのまま記載してください（ない場合は null）
+
+## 以前のスイング
+${beforeJson}
+
+## 最近のスイング
+${afterJson}${outputLanguageNote(language)}${buildPlayerProfileContext(profile)}`;
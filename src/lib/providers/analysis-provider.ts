@@ -0,0 +1,57 @@
+import type { Part, ResponseSchema } from "@google/generative-ai";
+
+// プロバイダーにアップロードされたファイル
+export interface ProviderFile {
+    name?: string;
+    uri?: string;
+    mimeType?: string;
+    state?: string;
+    error?: unknown;
+}
+
+// 生成時のオプション
+export interface GenerateOptions {
+    signal?: AbortSignal;
+    onText?: (delta: string) => void;   // ストリーミング中の部分テキスト
+    onTextReset?: () => void;           // 再試行・フォールバックの際、それまでのテキストを破棄
+    responseSchema?: ResponseSchema;    // 出力のJSONスキーマ（省略時はスイングレポート）
+    onUsage?: (usage: TokenUsage) => void;  // 生成が成功するたびにトークン使用量を通知（利用量の記録）
+}
+
+// トークン使用量（Gemini のレスポンスの usageMetadata）
+export interface TokenUsage {
+    inputTokens: number;
+    outputTokens: number;
+}
+
+// 生成結果
+export interface GenerateResult {
+    text: string;
+    model: string;          // 回答を生成したモデル
+    attempts: number;       // フォールバックを含む総試行回数
+    usage: TokenUsage;
+}
+
+export const addTokenUsage = (a: TokenUsage, b: TokenUsage): TokenUsage => ({
+    inputTokens: a.inputTokens + b.inputTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+});
+
+// 解析プロバイダーのインターフェース（アップロード → 処理待機 → 生成 → 削除）
+export interface AnalysisProvider {
+    readonly name: string;
+    upload(filePath: string, mimeType: string): Promise<ProviderFile>;
+    waitForReady(file: ProviderFile, signal?: AbortSignal): Promise<void>;
+    generate(parts: Part[], method: string, options?: GenerateOptions): Promise<GenerateResult>;
+    delete(file: ProviderFile): Promise<void>;
+}
+
+// ANALYSIS_PROVIDER=mock でフィクスチャを返すモック、それ以外は Gemini を使用
+export async function createAnalysisProvider(): Promise<AnalysisProvider> {
+    if (process.env.ANALYSIS_PROVIDER === 'mock') {
+        const { MockProvider } = await import("@/lib/providers/mock-provider");
+        return new MockProvider();
+    }
+    const { createGeminiProvider } = await import("@/lib/providers/gemini-provider");
+    return await createGeminiProvider();
+}
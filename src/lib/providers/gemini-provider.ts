@@ -0,0 +1,178 @@
+import { GenerativeModel, GoogleGenerativeAI, Part, ResponseSchema } from "@google/generative-ai";
+import { GoogleGenAI } from "@google/genai";
+import { auth } from "google-auth-library"; // ★ Vercelで動かすために追加
+import { delay } from "@/lib/delay";
+import { LocalizedError } from "@/lib/i18n/localized-error";
+import { SWING_REPORT_RESPONSE_SCHEMA } from "@/lib/swing-report";
+import { RetryPolicy, backoffDelay, classifyError, loadRetryPolicy } from "@/lib/providers/retry-policy";
+import type { AnalysisProvider, GenerateOptions, GenerateResult, ProviderFile, TokenUsage } from "@/lib/providers/analysis-provider";
+
+// 定数
+const PROCESSING_MAX_ATTEMPTS = 10;
+const PROCESSING_DELAY = 5000; // 5秒
+
+// 構造化出力用の生成設定
+const buildGenerationConfig = (responseSchema: ResponseSchema = SWING_REPORT_RESPONSE_SCHEMA) => ({
+    maxOutputTokens: 8192,
+    responseMimeType: 'application/json',
+    responseSchema,
+});
+
+// Google Gemini による解析プロバイダー
+export class GeminiProvider implements AnalysisProvider {
+    readonly name = 'gemini';
+    private readonly genAI: GoogleGenerativeAI;
+    private readonly fileClient: GoogleGenAI;
+
+    constructor(apiKey: string, private readonly retryPolicy: RetryPolicy = loadRetryPolicy()) {
+        this.genAI = new GoogleGenerativeAI(apiKey);
+        this.fileClient = new GoogleGenAI({ apiKey });
+    }
+
+    async upload(filePath: string, mimeType: string): Promise<ProviderFile> {
+        const uploadedFile = await this.fileClient.files.upload({
+            file: filePath,
+            config: { mimeType }
+        });
+        console.log(`✅ Files APIアップロード完了: ${uploadedFile.uri}`);
+        return uploadedFile;
+    }
+
+    async waitForReady(file: ProviderFile, signal?: AbortSignal): Promise<void> {
+        await waitForFileProcessing(this.fileClient, file, signal);
+    }
+
+    async generate(parts: Part[], method: string, options: GenerateOptions = {}): Promise<GenerateResult> {
+        return await executeGeminiAnalysis(this.genAI, parts, method, this.retryPolicy, options);
+    }
+
+    async delete(file: ProviderFile): Promise<void> {
+        if (!file.name) return;
+        await this.fileClient.files.delete({ name: file.name });
+        console.log('🗑️ Files API: アップロードファイル削除完了');
+    }
+}
+
+// サービスアカウントで認証した Gemini プロバイダーを作成
+export async function createGeminiProvider(): Promise<GeminiProvider> {
+    return new GeminiProvider(await getAccessToken());
+}
+
+// サービスアカウントからアクセストークンを取得
+async function getAccessToken(): Promise<string> {
+    const keyFileContent = process.env.GOOGLE_SERVICE_ACCOUNT_KEY_JSON;
+    if (!keyFileContent) {
+        throw new LocalizedError('errors.serviceAccountMissing');
+    }
+    let credentials;
+    try {
+        credentials = JSON.parse(keyFileContent);
+    } catch {
+        throw new LocalizedError('errors.serviceAccountInvalid');
+    }
+
+    const authClient = auth.fromJSON({
+        ...credentials,
+        scopes: ['https://www.googleapis.com/auth/cloud-platform'],
+    });
+
+    const accessToken = await authClient.getAccessToken();
+    if (!accessToken.token) {
+        throw new LocalizedError('errors.accessTokenFailed');
+    }
+    return accessToken.token;
+}
+
+// ファイル処理完了待機
+async function waitForFileProcessing(fileClient: GoogleGenAI, uploadedFile: ProviderFile, signal?: AbortSignal): Promise<void> {
+    console.log('⏳ ファイルの処理待機中...');
+    let attempts = 0;
+    let currentFile = uploadedFile;
+
+    while (currentFile.state === 'PROCESSING' && attempts < PROCESSING_MAX_ATTEMPTS) {
+        await delay(PROCESSING_DELAY, signal);
+        if (!currentFile.name) {
+            throw new LocalizedError('errors.fileNameLost');
+        }
+        currentFile = await fileClient.files.get({ name: currentFile.name });
+        console.log(`   ...現在の状態: ${currentFile.state}`);
+        attempts++;
+        Object.assign(uploadedFile, currentFile);
+    }
+
+    // 待機回数の上限まで処理中のまま（タイムアウト）
+    if (currentFile.state === 'PROCESSING') {
+        throw new LocalizedError('errors.fileProcessingTimeout', { seconds: PROCESSING_MAX_ATTEMPTS * PROCESSING_DELAY / 1000 });
+    }
+    if (currentFile.state !== 'ACTIVE') {
+        console.error('File processing failed with error:', currentFile.error);
+        throw new LocalizedError('errors.fileProcessingIncomplete', { state: String(currentFile.state) });
+    }
+    console.log('✅ ファイルがACTIVEになりました！');
+}
+
+// ストリーミングで生成し、部分テキストを逐次通知する
+async function generateWithStream(model: GenerativeModel, parts: Part[], options: GenerateOptions): Promise<{ text: string; usage: TokenUsage }> {
+    const result = await model.generateContentStream({ contents: [{ role: "user", parts }] }, { signal: options.signal });
+    let text = '';
+    for await (const chunk of result.stream) {
+        const delta = chunk.text();
+        text += delta;
+        options.onText?.(delta);
+    }
+    // 集約済みレスポンスの usageMetadata からトークン数を取得する
+    const { usageMetadata } = await result.response;
+    const usage = {
+        inputTokens: usageMetadata?.promptTokenCount ?? 0,
+        outputTokens: usageMetadata?.candidatesTokenCount ?? 0,
+    };
+    return { text, usage };
+}
+
+// Gemini解析実行関数（モデルチェーンによるフォールバック・リトライ付き）
+async function executeGeminiAnalysis(genAI: GoogleGenerativeAI, parts: Part[], method: string, policy: RetryPolicy, options: GenerateOptions = {}): Promise<GenerateResult> {
+    const { signal } = options;
+    console.log(`🔄 Gemini解析準備 (${method})`);
+    let totalAttempts = 0;
+    let lastError: unknown;
+
+    for (const { model: modelName, maxAttempts } of policy.chain) {
+        const model = genAI.getGenerativeModel({ model: modelName, generationConfig: buildGenerationConfig(options.responseSchema) });
+
+        for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+            signal?.throwIfAborted();
+            if (totalAttempts > 0) {
+                // 失敗した試行の部分テキストを破棄
+                options.onTextReset?.();
+            }
+            totalAttempts++;
+            try {
+                console.log(`🚀 ${modelName} で解析開始... (${method}, ${attempt}/${maxAttempts})`);
+                const { text, usage } = await generateWithStream(model, parts, options);
+                console.log(`✅ ${modelName} 解析成功！（総試行回数: ${totalAttempts}、トークン: 入力 ${usage.inputTokens} / 出力 ${usage.outputTokens}）`);
+                options.onUsage?.(usage);
+                return { text, model: modelName, attempts: totalAttempts, usage };
+            } catch (error) {
+                signal?.throwIfAborted();
+                lastError = error;
+                const errorClass = classifyError(error);
+                console.warn(`❌ ${modelName} 失敗 (${errorClass}):`, error);
+
+                if (errorClass === 'fatal') {
+                    throw error;
+                }
+                if (errorClass === 'model-unavailable') {
+                    break;
+                }
+                if (attempt < maxAttempts) {
+                    const waitMs = backoffDelay(attempt, policy, error);
+                    console.log(`⏳ ${waitMs}ms 待機して再試行...`);
+                    await delay(waitMs, signal);
+                }
+            }
+        }
+    }
+
+    console.error('❌ すべてのモデルで解析に失敗しました');
+    throw lastError;
+}
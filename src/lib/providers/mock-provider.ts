@@ -0,0 +1,76 @@
+import type { Part } from "@google/generative-ai";
+import fs from "fs/promises";
+import path from "path";
+import crypto from "crypto";
+import { delay } from "@/lib/delay";
+import defaultFixture from "@/lib/providers/fixtures/swing-report.json";
+import detectionFixture from "@/lib/providers/fixtures/swing-detection.json";
+import sessionSummaryFixture from "@/lib/providers/fixtures/session-summary.json";
+import comparisonFixture from "@/lib/providers/fixtures/swing-comparison.json";
+import { SWING_COMPARISON_RESPONSE_SCHEMA } from "@/lib/swing-comparison";
+import { SESSION_SUMMARY_RESPONSE_SCHEMA, SWING_DETECTION_RESPONSE_SCHEMA } from "@/lib/swing-session";
+import type { AnalysisProvider, GenerateOptions, GenerateResult, ProviderFile } from "@/lib/providers/analysis-provider";
+
+const STREAM_CHUNK_SIZE = 64; // 文字数
+const CHARS_PER_TOKEN = 4;      // 擬似トークン数の換算
+const MEDIA_PART_TOKENS = 1000; // 動画1件あたりの擬似トークン数
+
+// ネットワーク・認証なしで動作するフィクスチャベースのプロバイダー
+// MOCK_PROVIDER_FIXTURE: 返却するテキストのファイルパス（省略時は同梱のレポート。スイング検出・セッション総評・比較は専用フィクスチャ）
+// MOCK_PROVIDER_DELAY_MS: 各処理の擬似待機時間（省略時は0）
+export class MockProvider implements AnalysisProvider {
+    readonly name = 'mock';
+    private readonly delayMs = Number(process.env.MOCK_PROVIDER_DELAY_MS) || 0;
+
+    async upload(filePath: string, mimeType: string): Promise<ProviderFile> {
+        await delay(this.delayMs);
+        // 同じファイル名なら同じ名前を返す（決定的な動作）
+        const id = crypto.createHash('sha1').update(path.basename(filePath)).digest('hex').slice(0, 12);
+        console.log(`🧪 Mock: アップロード完了 (mock-files/${id})`);
+        return { name: `mock-files/${id}`, uri: `mock://files/${id}`, mimeType, state: 'PROCESSING' };
+    }
+
+    async waitForReady(file: ProviderFile, signal?: AbortSignal): Promise<void> {
+        await delay(this.delayMs, signal);
+        file.state = 'ACTIVE';
+        console.log('🧪 Mock: ファイルがACTIVEになりました');
+    }
+
+    async generate(parts: Part[], method: string, options: GenerateOptions = {}): Promise<GenerateResult> {
+        console.log(`🧪 Mock: 解析開始 (${method})`);
+        const text = await loadFixture(options.responseSchema);
+        // 実際のストリーミングと同様に分割して通知する
+        for (let i = 0; i < text.length; i += STREAM_CHUNK_SIZE) {
+            await delay(this.delayMs / 10, options.signal);
+            options.onText?.(text.slice(i, i + STREAM_CHUNK_SIZE));
+        }
+        // トークン数は文字数から求めた擬似的な値
+        const usage = {
+            inputTokens: parts.reduce((sum, part) => sum + (part.text ? Math.ceil(part.text.length / CHARS_PER_TOKEN) : MEDIA_PART_TOKENS), 0),
+            outputTokens: Math.ceil(text.length / CHARS_PER_TOKEN),
+        };
+        options.onUsage?.(usage);
+        return { text, model: 'mock-fixture', attempts: 1, usage };
+    }
+
+    async delete(file: ProviderFile): Promise<void> {
+        console.log(`🧪 Mock: ファイル削除 (${file.name})`);
+    }
+}
+
+async function loadFixture(responseSchema: GenerateOptions['responseSchema']): Promise<string> {
+    if (responseSchema === SWING_DETECTION_RESPONSE_SCHEMA) {
+        return JSON.stringify(detectionFixture, null, 2);
+    }
+    if (responseSchema === SESSION_SUMMARY_RESPONSE_SCHEMA) {
+        return JSON.stringify(sessionSummaryFixture, null, 2);
+    }
+    if (responseSchema === SWING_COMPARISON_RESPONSE_SCHEMA) {
+        return JSON.stringify(comparisonFixture, null, 2);
+    }
+    const fixturePath = process.env.MOCK_PROVIDER_FIXTURE;
+    if (fixturePath) {
+        return await fs.readFile(fixturePath, 'utf-8');
+    }
+    return JSON.stringify(defaultFixture, null, 2);
+}
@@ -0,0 +1,98 @@
+import {
+    GoogleGenerativeAIAbortError,
+    GoogleGenerativeAIFetchError,
+    GoogleGenerativeAIRequestInputError,
+    GoogleGenerativeAIResponseError,
+} from "@google/generative-ai";
+
+// フォールバックチェーンの各モデル設定
+export interface ModelAttemptConfig {
+    model: string;
+    maxAttempts: number;    // このモデルでの最大試行回数（初回を含む）
+}
+
+export interface RetryPolicy {
+    chain: ModelAttemptConfig[];
+    baseDelayMs: number;    // 指数バックオフの基準値
+    maxDelayMs: number;     // 待機時間の上限
+}
+
+// エラー分類
+// transient: 同じモデルで再試行（429 / 5xx / ネットワークエラー）
+// model-unavailable: 次のモデルへ（モデルが見つからない等）
+// fatal: 即座に失敗（セーフティブロック、不正な引数、キャンセル）
+export type ErrorClass = 'transient' | 'model-unavailable' | 'fatal';
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    chain: [
+        { model: 'gemini-1.5-flash', maxAttempts: 2 },
+        { model: 'gemini-1.5-pro', maxAttempts: 1 },
+    ],
+    baseDelayMs: 2000,
+    maxDelayMs: 30000,
+};
+
+const TRANSIENT_STATUSES = [408, 429, 500, 502, 503, 504];
+const FATAL_STATUSES = [400, 401, 413];
+
+// 環境変数からリトライポリシーを読み込む
+// GEMINI_MODEL_CHAIN="gemini-1.5-flash:3,gemini-1.5-pro:2"（モデル名:最大試行回数、回数省略時は1）
+// GEMINI_RETRY_BASE_DELAY_MS / GEMINI_RETRY_MAX_DELAY_MS
+export function loadRetryPolicy(env: NodeJS.ProcessEnv = process.env): RetryPolicy {
+    const chain = env.GEMINI_MODEL_CHAIN
+        ? env.GEMINI_MODEL_CHAIN.split(',').map(parseChainEntry).filter((entry): entry is ModelAttemptConfig => entry !== null)
+        : [];
+    return {
+        chain: chain.length > 0 ? chain : DEFAULT_RETRY_POLICY.chain,
+        baseDelayMs: parsePositiveInt(env.GEMINI_RETRY_BASE_DELAY_MS) ?? DEFAULT_RETRY_POLICY.baseDelayMs,
+        maxDelayMs: parsePositiveInt(env.GEMINI_RETRY_MAX_DELAY_MS) ?? DEFAULT_RETRY_POLICY.maxDelayMs,
+    };
+}
+
+function parseChainEntry(entry: string): ModelAttemptConfig | null {
+    const [model, attempts] = entry.trim().split(':');
+    if (!model) return null;
+    return { model, maxAttempts: parsePositiveInt(attempts) ?? 1 };
+}
+
+function parsePositiveInt(value: string | undefined): number | undefined {
+    const parsed = Number(value);
+    return Number.isInteger(parsed) && parsed > 0 ? parsed : undefined;
+}
+
+export function classifyError(error: unknown): ErrorClass {
+    if (error instanceof GoogleGenerativeAIAbortError || (error instanceof Error && error.name === 'AbortError')) {
+        return 'fatal';
+    }
+    // セーフティブロック・レスポンス解析エラー・入力エラーは再試行しても結果が変わらない
+    if (error instanceof GoogleGenerativeAIResponseError || error instanceof GoogleGenerativeAIRequestInputError) {
+        return 'fatal';
+    }
+    if (error instanceof GoogleGenerativeAIFetchError && error.status !== undefined) {
+        if (TRANSIENT_STATUSES.includes(error.status)) return 'transient';
+        if (FATAL_STATUSES.includes(error.status)) return 'fatal';
+        return 'model-unavailable'; // 403 / 404 などモデル固有の問題
+    }
+    // ステータスのないエラー（ネットワーク切断など）は一時的なものとみなす
+    return 'transient';
+}
+
+// 指数バックオフ（フルジッター）。429でサーバーが待機時間を指定した場合はそれを優先する
+export function backoffDelay(attempt: number, policy: RetryPolicy, error?: unknown): number {
+    const retryAfter = getRetryDelayMs(error);
+    if (retryAfter !== undefined) {
+        return Math.min(retryAfter, policy.maxDelayMs);
+    }
+    const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+    return Math.round(Math.random() * ceiling);
+}
+
+// RetryInfo の retryDelay（例: "30s"）をミリ秒に変換
+export function getRetryDelayMs(error: unknown): number | undefined {
+    if (!(error instanceof GoogleGenerativeAIFetchError)) return undefined;
+    const retryInfo = error.errorDetails?.find(detail => detail['@type']?.endsWith('RetryInfo'));
+    const retryDelay = retryInfo?.retryDelay;
+    if (typeof retryDelay !== 'string') return undefined;
+    const seconds = parseFloat(retryDelay);
+    return Number.isFinite(seconds) ? seconds * 1000 : undefined;
+}
@@ -0,0 +1,101 @@
+import fs from "fs/promises";
+import path from "path";
+import os from "os";
+
+// アカウント・ワークスペース・保存済み解析などのレコードの保存先（コレクションごと）
+// 件数の少ない用途を想定し、一覧は全件を読み込んでから絞り込む
+
+export interface StoredRecord {
+    id: string;
+}
+
+// レコードストアのインターフェース（差し替え可能）
+export interface RecordStore<T extends StoredRecord> {
+    get(id: string): Promise<T | null>;
+    put(record: T): Promise<void>;
+    delete(id: string): Promise<void>;
+    list(predicate?: (record: T) => boolean): Promise<T[]>;
+}
+
+// メモリ上のストア（単一プロセス向け。再起動すると消える）
+export class MemoryRecordStore<T extends StoredRecord> implements RecordStore<T> {
+    private records = new Map<string, T>();
+
+    async get(id: string): Promise<T | null> {
+        const record = this.records.get(id);
+        return record ? { ...record } : null;
+    }
+
+    async put(record: T): Promise<void> {
+        this.records.set(record.id, { ...record });
+    }
+
+    async delete(id: string): Promise<void> {
+        this.records.delete(id);
+    }
+
+    async list(predicate: (record: T) => boolean = () => true): Promise<T[]> {
+        return Array.from(this.records.values()).filter(predicate).map(record => ({ ...record }));
+    }
+}
+
+// JSONファイルによるストア（1レコード1ファイル。プロセス再起動後も保持）
+export class FileRecordStore<T extends StoredRecord> implements RecordStore<T> {
+    constructor(private readonly dir: string) {}
+
+    private filePath(id: string): string {
+        // パストラバーサル対策としてIDをファイル名に使える文字に限定
+        if (!/^[\w-]+$/.test(id)) {
+            throw new Error(`不正なレコードIDです: ${id}`);
+        }
+        return path.join(this.dir, `${id}.json`);
+    }
+
+    async get(id: string): Promise<T | null> {
+        try {
+            return JSON.parse(await fs.readFile(this.filePath(id), 'utf-8')) as T;
+        } catch {
+            return null;
+        }
+    }
+
+    // 書き込み途中のファイルを読まれないよう一時ファイル経由で置き換える
+    async put(record: T): Promise<void> {
+        await fs.mkdir(this.dir, { recursive: true });
+        const target = this.filePath(record.id);
+        const temp = `${target}.${process.pid}.tmp`;
+        await fs.writeFile(temp, JSON.stringify(record), 'utf-8');
+        await fs.rename(temp, target);
+    }
+
+    async delete(id: string): Promise<void> {
+        await fs.unlink(this.filePath(id)).catch(() => undefined);
+    }
+
+    async list(predicate: (record: T) => boolean = () => true): Promise<T[]> {
+        const entries = await fs.readdir(this.dir).catch(() => [] as string[]);
+        const records: T[] = [];
+        for (const entry of entries) {
+            if (!entry.endsWith('.json')) continue;
+            const record = await this.get(entry.slice(0, -'.json'.length));
+            if (record && predicate(record)) records.push(record);
+        }
+        return records;
+    }
+}
+
+// 開発時のホットリロードでストアが消えないようglobalThisに保持
+const globalForRecords = globalThis as unknown as { analysisRecordStores?: Map<string, RecordStore<StoredRecord>> };
+const recordStores = globalForRecords.analysisRecordStores ??= new Map<string, RecordStore<StoredRecord>>();
+
+// ANALYSIS_DATA_STORE=file でファイル保存（ANALYSIS_DATA_DIR/<collection>）、それ以外はメモリ保存
+export function getRecordStore<T extends StoredRecord>(collection: string): RecordStore<T> {
+    let store = recordStores.get(collection);
+    if (!store) {
+        store = process.env.ANALYSIS_DATA_STORE === 'file'
+            ? new FileRecordStore(path.join(process.env.ANALYSIS_DATA_DIR || path.join(os.tmpdir(), 'golf-analyze-data'), collection))
+            : new MemoryRecordStore();
+        recordStores.set(collection, store);
+    }
+    return store as unknown as RecordStore<T>;
+}
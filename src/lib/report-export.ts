@@ -0,0 +1,246 @@
+import path from "path";
+import type { AnalysisRecord } from "@/lib/analysis-records";
+import type { CoachReview, ReviewedReport } from "@/lib/coach-review";
+import type { GolfAnalysisFileInfo } from "@/lib/analysis-pipeline";
+import { SCORE_MAX, SWING_PHASES, SWING_REPORT_SECTIONS, SwingReport } from "@/lib/swing-report";
+import { formatTimestamp } from "@/lib/swing-session";
+import type { SwingTempo } from "@/lib/swing-tempo";
+import type { Locale } from "@/lib/i18n/locales";
+import { LocalizedError } from "@/lib/i18n/localized-error";
+import { MessageKey, MessageParams, translate } from "@/lib/i18n/translate";
+import { renderReportHtml } from "@/lib/report-html";
+import { renderReportPdf } from "@/lib/report-pdf";
+
+// 解析結果のエクスポート（PDF・HTML）
+// 解析結果を見出し・段落・箇条書き・表・画像のブロックに変換し、形式ごとのレンダラーで出力する
+
+export type ExportFormat = 'pdf' | 'html';
+
+export const isExportFormat = (value: unknown): value is ExportFormat => value === 'pdf' || value === 'html';
+
+const REPORT_BRAND = 'Golf Analyze';
+
+export type ExportBlock =
+    | { kind: 'heading'; text: string; score?: string }      // score: 右側に表示する評価（「7 / 10」など）
+    | { kind: 'paragraph'; text: string }
+    | { kind: 'list'; items: string[] }
+    | { kind: 'table'; rows: [string, string][] }
+    | { kind: 'images'; images: { caption: string; image: string }[] };   // image: JPEG の data URL
+
+export interface ExportDocument {
+    locale: Locale;
+    brand: string;
+    title: string;
+    subtitle: string;           // ファイル名
+    meta: string;               // 解析日時
+    blocks: ExportBlock[];
+    footer: string;
+}
+
+export interface ExportedFile {
+    body: Buffer;
+    contentType: string;
+    fileName: string;
+}
+
+type Translator = (key: MessageKey, params?: MessageParams) => string;
+
+const scoreText = (score: number | null) => score === null ? undefined : `${score} / ${SCORE_MAX}`;
+
+// 1スイングのレポート（総評・項目ごとの評価・フェーズ）
+// コーチが承認したレビューがあれば、編集後の総評・スコア・指摘を使う（取り消した指摘は含めない）
+function reportBlocks(report: SwingReport, t: Translator, reviewed?: ReviewedReport | null): ExportBlock[] {
+    const blocks: ExportBlock[] = [
+        { kind: 'heading', text: t('export.overallScore'), score: scoreText(reviewed ? reviewed.overallScore : report.overallScore) },
+        { kind: 'paragraph', text: reviewed ? reviewed.summary : report.summary },
+    ];
+    SWING_REPORT_SECTIONS.forEach(({ key }, index) => {
+        const section = report.sections[key];
+        const reviewedSection = reviewed?.sections[key];
+        const observations = reviewedSection
+            ? reviewedSection.points.filter(point => !point.struck).map(point => point.text)
+            : section.observations;
+        blocks.push({
+            kind: 'heading',
+            text: `${index + 1}. ${t(`sections.${key}`)}`,
+            score: reviewedSection ? scoreText(reviewedSection.score)
+                : section.notObservable ? t('common.notObservable') : scoreText(section.score),
+        });
+        if (observations.length > 0) {
+            blocks.push({ kind: 'list', items: observations });
+        }
+    });
+    if (report.phases) {
+        const phases = report.phases;
+        blocks.push(
+            { kind: 'heading', text: t('export.phases') },
+            {
+                kind: 'table',
+                rows: SWING_PHASES.map(({ key }) => [
+                    `${t(`phases.${key}`)}${phases[key].seconds === null ? '' : ` ${formatTimestamp(phases[key].seconds)}`}`,
+                    phases[key].comment,
+                ]),
+            },
+        );
+    }
+    return blocks;
+}
+
+// コーチの承認と時刻つきのコメント
+function reviewBlocks(review: CoachReview, t: Translator, formatDate: (iso: string) => string): ExportBlock[] {
+    return [
+        { kind: 'heading', text: t('review.approvedBadge') },
+        { kind: 'paragraph', text: t('review.approvedBy', { email: review.reviewerEmail, date: formatDate(review.publishedAt ?? review.updatedAt) }) },
+    ];
+}
+
+function reviewCommentBlocks(review: CoachReview, t: Translator): ExportBlock[] {
+    return [
+        { kind: 'heading', text: t('review.comments') },
+        review.comments.length > 0
+            ? { kind: 'table', rows: review.comments.map(({ seconds, text }): [string, string] => [formatTimestamp(seconds), text]) }
+            : { kind: 'paragraph', text: t('review.commentsEmpty') },
+    ];
+}
+
+function tempoBlocks(tempo: SwingTempo, t: Translator): ExportBlock[] {
+    const seconds = (value: number) => t('tempo.seconds', { value: value.toFixed(2) });
+    return [
+        { kind: 'heading', text: t('tempo.title') },
+        {
+            kind: 'table',
+            rows: [
+                [t('tempo.ratio'), t('tempo.ratioValue', { ratio: tempo.ratio })],
+                [t('tempo.backswing'), seconds(tempo.backswingSeconds)],
+                [t('tempo.downswing'), seconds(tempo.downswingSeconds)],
+                [t('tempo.takeaway'), formatTimestamp(tempo.takeawaySeconds)],
+                [t('tempo.top'), formatTimestamp(tempo.topSeconds)],
+                [t('tempo.impact'), formatTimestamp(tempo.impactSeconds)],
+            ],
+        },
+    ];
+}
+
+function fileInfoRows(record: AnalysisRecord, fileInfo: GolfAnalysisFileInfo | undefined, t: Translator): [string, string][] {
+    const video = fileInfo?.video;
+    const rows: [string, string | undefined][] = [
+        [t('export.fields.fileName'), record.fileName],
+        [t('export.fields.club'), record.club && t(`clubs.${record.club}`)],
+        [t('export.fields.cameraAngle'), record.cameraAngle && t(`cameraAngles.${record.cameraAngle}`)],
+        [t('export.fields.duration'), video?.durationSeconds !== undefined ? formatTimestamp(video.durationSeconds) : undefined],
+        [t('export.fields.resolution'), video?.width && video.height ? `${video.width}x${video.height}` : undefined],
+        [t('export.fields.codec'), video?.codec],
+        [t('export.fields.originalSize'), fileInfo?.originalSize],
+        [t('export.fields.analyzedSize'), fileInfo?.analyzedSize],
+        [t('export.fields.normalized'), fileInfo?.normalized === undefined ? undefined : t(fileInfo.normalized ? 'export.yes' : 'export.no')],
+        [t('export.fields.method'), fileInfo?.method],
+        [t('export.fields.model'), fileInfo?.model],
+        [t('export.fields.attempts'), fileInfo?.attempts?.toString()],
+        [t('export.fields.usage'), fileInfo?.usage && t('export.tokens', { input: fileInfo.usage.inputTokens, output: fileInfo.usage.outputTokens })],
+        [t('export.fields.processingTime'), fileInfo?.processingTime],
+    ];
+    return rows.filter((row): row is [string, string] => Boolean(row[1]));
+}
+
+// 解析結果をエクスポート用の文書に変換する
+// コーチのレビューが公開されていれば、画面のコーチ承認版と同じ内容を出力する
+export function buildExportDocument(record: AnalysisRecord, locale: Locale): ExportDocument {
+    const t: Translator = (key, params) => translate(locale, key, params);
+    const formatDate = (iso: string) => new Intl.DateTimeFormat(locale, { dateStyle: 'medium', timeStyle: 'short' }).format(new Date(iso));
+    const { result } = record;
+    const review = record.review?.status === 'published' ? record.review : undefined;
+    const blocks: ExportBlock[] = review ? reviewBlocks(review, t, formatDate) : [];
+
+    if (result.tempo) {
+        blocks.push(...tempoBlocks(result.tempo, t));
+    }
+
+    if (result.session) {
+        const { summary, swings } = result.session;
+        if (summary) {
+            blocks.push({ kind: 'paragraph', text: summary.summary });
+            if (summary.consistentStrengths.length > 0) {
+                blocks.push({ kind: 'heading', text: t('session.strengths') }, { kind: 'list', items: summary.consistentStrengths });
+            }
+            if (summary.recurringIssues.length > 0) {
+                blocks.push({ kind: 'heading', text: t('session.issues') }, { kind: 'list', items: summary.recurringIssues });
+            }
+        }
+        swings.forEach(({ swing, report, analysis }, i) => {
+            const reviewed = review?.reports[i];
+            blocks.push({
+                kind: 'heading',
+                text: t('export.swing', { index: swing.index + 1, start: formatTimestamp(swing.startSeconds), end: formatTimestamp(swing.endSeconds) }),
+                score: report ? scoreText(reviewed ? reviewed.overallScore : report.overallScore) : undefined,
+            });
+            blocks.push(...(report ? reportBlocks(report, t, reviewed).slice(1) : [{ kind: 'paragraph' as const, text: analysis }]));
+        });
+    } else if (result.report) {
+        blocks.push(...reportBlocks(result.report, t, review?.reports[0]));
+    } else {
+        // 構造化レポートがない場合はモデルの生テキスト
+        blocks.push({ kind: 'heading', text: t('export.analysis') }, { kind: 'paragraph', text: result.analysis ?? '' });
+    }
+
+    if (review) {
+        blocks.push(...reviewCommentBlocks(review, t));
+    }
+
+    if (result.keyFrames && result.keyFrames.length > 0) {
+        blocks.push(
+            { kind: 'heading', text: t('export.keyFrames') },
+            {
+                kind: 'images',
+                images: result.keyFrames.map(frame => ({
+                    caption: `${t(`keyFrames.phases.${frame.phase}`)} ${formatTimestamp(frame.seconds)}`,
+                    image: frame.image,
+                })),
+            },
+        );
+    }
+
+    if (record.frames && record.frames.length > 0) {
+        blocks.push(
+            { kind: 'heading', text: t('export.attachedFrames') },
+            { kind: 'images', images: record.frames.map(frame => ({ caption: formatTimestamp(frame.seconds), image: frame.image })) },
+        );
+    }
+
+    blocks.push({ kind: 'heading', text: t('export.fileInfo') }, { kind: 'table', rows: fileInfoRows(record, result.fileInfo, t) });
+
+    return {
+        locale,
+        brand: REPORT_BRAND,
+        title: t('export.title'),
+        subtitle: record.fileName,
+        meta: t('export.createdAt', { date: formatDate(record.createdAt) }),
+        blocks,
+        footer: t('export.footer'),
+    };
+}
+
+// ダウンロード時のファイル名（golf-analysis-<元のファイル名>-<解析日>.pdf）
+export function exportFileName(record: AnalysisRecord, format: ExportFormat): string {
+    const baseName = path.parse(record.fileName).name || 'video';
+    const date = record.createdAt.slice(0, 10).replace(/-/g, '');
+    return `golf-analysis-${baseName}-${date}.${format}`;
+}
+
+// 形式の指定を検証する（未指定は PDF）
+export function parseExportFormat(value: string | null): ExportFormat {
+    if (value === null || value === '') return 'pdf';
+    if (!isExportFormat(value)) {
+        throw new LocalizedError('errors.invalidExportFormat', { value });
+    }
+    return value;
+}
+
+// 解析結果を指定の形式で出力する
+export function exportAnalysisRecord(record: AnalysisRecord, format: ExportFormat, locale: Locale): ExportedFile {
+    const document = buildExportDocument(record, locale);
+    const fileName = exportFileName(record, format);
+    if (format === 'html') {
+        return { body: Buffer.from(renderReportHtml(document), 'utf-8'), contentType: 'text/html; charset=utf-8', fileName };
+    }
+    return { body: renderReportPdf(document), contentType: 'application/pdf', fileName };
+}
@@ -0,0 +1,75 @@
+import type { ExportBlock, ExportDocument } from "@/lib/report-export";
+
+// エクスポート用の HTML（画像は data URL、スタイルは埋め込みのため1ファイルで表示できる）
+
+const escapeHtml = (text: string) => text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const STYLE = `
+  * { box-sizing: border-box; }
+  body { margin: 0; background: #f3f4f6; color: #1f2937; font-family: "Hiragino Sans", "Noto Sans JP", "Noto Sans KR", "Apple SD Gothic Neo", "Segoe UI", sans-serif; line-height: 1.6; }
+  .page { max-width: 820px; margin: 24px auto; background: #fff; border-radius: 12px; overflow: hidden; box-shadow: 0 1px 4px rgba(0, 0, 0, 0.08); }
+  header { background: #166534; color: #fff; padding: 20px 32px; }
+  header .brand { font-size: 13px; letter-spacing: 0.08em; opacity: 0.85; }
+  header h1 { margin: 4px 0 0; font-size: 24px; }
+  .meta { padding: 12px 32px; border-bottom: 1px solid #e5e7eb; color: #4b5563; font-size: 13px; }
+  .meta strong { color: #1f2937; font-size: 15px; }
+  main { padding: 8px 32px 24px; }
+  h2 { display: flex; justify-content: space-between; align-items: center; gap: 12px; margin: 20px 0 8px; padding-left: 10px; border-left: 4px solid #16a34a; font-size: 16px; }
+  .score { flex-shrink: 0; padding: 2px 10px; border-radius: 999px; background: #dcfce7; color: #166534; font-size: 13px; }
+  p { margin: 0 0 8px; font-size: 14px; white-space: pre-wrap; }
+  ul { margin: 0 0 8px; padding-left: 20px; font-size: 14px; }
+  table { width: 100%; border-collapse: collapse; font-size: 13px; margin-bottom: 8px; }
+  th, td { padding: 6px 8px; border-bottom: 1px solid #e5e7eb; text-align: left; vertical-align: top; }
+  th { width: 32%; color: #4b5563; font-weight: 600; white-space: nowrap; }
+  .frames { display: grid; grid-template-columns: repeat(4, 1fr); gap: 8px; }
+  .frames figure { margin: 0; }
+  .frames img { width: 100%; border-radius: 6px; background: #000; }
+  .frames figcaption { font-size: 12px; color: #4b5563; text-align: center; }
+  footer { padding: 12px 32px; border-top: 1px solid #e5e7eb; color: #6b7280; font-size: 12px; }
+  @media (max-width: 600px) { .frames { grid-template-columns: repeat(2, 1fr); } main, header, .meta, footer { padding-left: 16px; padding-right: 16px; } }
+  @media print { body { background: #fff; } .page { margin: 0; box-shadow: none; border-radius: 0; } h2, figure, tr { break-inside: avoid; } }
+`;
+
+function renderBlock(block: ExportBlock): string {
+    switch (block.kind) {
+        case 'heading':
+            return `<h2><span>${escapeHtml(block.text)}</span>${block.score ? `<span class="score">${escapeHtml(block.score)}</span>` : ''}</h2>`;
+        case 'paragraph':
+            return `<p>${escapeHtml(block.text)}</p>`;
+        case 'list':
+            return `<ul>${block.items.map(item => `<li>${escapeHtml(item)}</li>`).join('')}</ul>`;
+        case 'table':
+            return `<table>${block.rows.map(([label, value]) => `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`).join('')}</table>`;
+        case 'images':
+            return `<div class="frames">${block.images.map(({ caption, image }) =>
+                `<figure><img src="${escapeHtml(image)}" alt="${escapeHtml(caption)}"><figcaption>${escapeHtml(caption)}</figcaption></figure>`).join('')}</div>`;
+    }
+}
+
+export function renderReportHtml(document: ExportDocument): string {
+    return `<!DOCTYPE html>
+<html lang="${document.locale}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(`${document.title} - ${document.subtitle}`)}</title>
+<style>${STYLE}</style>
+</head>
+<body>
+<div class="page">
+<header><div class="brand">${escapeHtml(document.brand)}</div><h1>${escapeHtml(document.title)}</h1></header>
+<div class="meta"><strong>${escapeHtml(document.subtitle)}</strong><br>${escapeHtml(document.meta)}</div>
+<main>
+${document.blocks.map(renderBlock).join('\n')}
+</main>
+<footer>${escapeHtml(document.footer)}</footer>
+</div>
+</body>
+</html>
+`;
+}
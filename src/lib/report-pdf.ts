@@ -0,0 +1,422 @@
+import zlib from "zlib";
+import type { ExportBlock, ExportDocument } from "@/lib/report-export";
+import type { Locale } from "@/lib/i18n/locales";
+
+// エクスポート用の PDF（外部のライブラリやサービスを使わずにサーバーで生成する）
+// 日本語・韓国語は PDF ビューアーが持つ標準の CJK フォント（埋め込みなし）で表示し、英語は Helvetica を使う
+// 画像（キーフレーム）は JPEG をそのまま DCTDecode で埋め込む
+
+const PAGE_WIDTH = 595.28;              // A4（pt）
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 48;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const HEADER_HEIGHT = 72;               // 1ページ目のヘッダー帯
+const RUNNING_HEADER_HEIGHT = 26;       // 2ページ目以降のヘッダー帯
+const CONTENT_BOTTOM = 56;              // フッターの上端
+const TABLE_LABEL_WIDTH = 130;
+const IMAGE_COLUMNS = 4;
+const IMAGE_GAP = 8;
+const IMAGE_MAX_ASPECT = 1.4;           // 縦長の画像はセルの幅のこの倍率の高さまで
+
+type Color = [number, number, number];
+const BRAND: Color = [0.086, 0.396, 0.204];     // #166534
+const ACCENT: Color = [0.086, 0.639, 0.29];     // #16a34a
+const TEXT: Color = [0.122, 0.161, 0.216];      // #1f2937
+const MUTED: Color = [0.42, 0.447, 0.502];      // #6b7280
+const RULE: Color = [0.898, 0.906, 0.922];      // #e5e7eb
+const WHITE: Color = [1, 1, 1];
+
+// 埋め込みなしで使う CJK フォント（Adobe の文字コレクションと Unicode の CMap）
+const CID_FONTS: Partial<Record<Locale, { name: string; encoding: string; ordering: string; supplement: number; bullet: string }>> = {
+    ja: { name: 'HeiseiKakuGo-W5', encoding: 'UniJIS-UCS2-H', ordering: 'Japan1', supplement: 2, bullet: '・' },
+    ko: { name: 'HYGoThic-Medium', encoding: 'UniKS-UCS2-H', ordering: 'Korea1', supplement: 1, bullet: '·' },
+};
+
+// Helvetica の文字幅（1/1000 em、U+0020〜U+007E）
+const HELVETICA_WIDTHS = [
+    278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+    1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+    333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+    556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+// WinAnsiEncoding で Latin-1 と異なる位置にある記号
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+    '•': 0x95, '–': 0x96, '—': 0x97, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '…': 0x85,
+};
+
+interface PdfFont {
+    resource: string;                           // ページのリソースでの名前（F1 など）
+    encode: (text: string) => string;           // Tj に渡す16進文字列
+    width: (text: string) => number;            // フォントサイズ 1 あたりの幅
+    bullet: string;
+    register: (objects: PdfObjects) => number;  // フォントの辞書を追加し、オブジェクト番号を返す
+}
+
+const hex = (value: number, digits: number) => value.toString(16).toUpperCase().padStart(digits, '0');
+const num = (value: number) => String(Math.round(value * 100) / 100);
+const rgb = ([r, g, b]: Color) => `${num(r)} ${num(g)} ${num(b)}`;
+
+// フォントにない絵文字や BMP 外の文字を除く
+const sanitize = (text: string) => text
+    .replace(/[\u2300-\u23FF\u2600-\u27BF\u2B00-\u2BFF\uFE0F\u200D]|[\uD800-\uDBFF][\uDC00-\uDFFF]/g, '')
+    .replace(/\t/g, '    ')
+    .replace(/\r/g, '');
+
+function createFont(locale: Locale, resource: string): PdfFont {
+    const cid = CID_FONTS[locale];
+    if (cid) {
+        return {
+            resource,
+            encode: text => Array.from(text, char => hex(char.charCodeAt(0), 4)).join(''),
+            // 英数字は半角、それ以外は全角として扱う
+            width: text => Array.from(text).reduce((sum, char) => sum + (char >= ' ' && char <= '~' ? 0.5 : 1), 0),
+            bullet: cid.bullet,
+            register: objects => {
+                const descriptor = objects.add(`<< /Type /FontDescriptor /FontName /${cid.name} /Flags 4 /FontBBox [-100 -250 1000 900] /ItalicAngle 0 /Ascent 880 /Descent -120 /CapHeight 700 /StemV 80 >>`);
+                const descendant = objects.add(`<< /Type /Font /Subtype /CIDFontType0 /BaseFont /${cid.name} /CIDSystemInfo << /Registry (Adobe) /Ordering (${cid.ordering}) /Supplement ${cid.supplement} >> /FontDescriptor ${descriptor} 0 R /DW 1000 /W [1 95 500] >>`);
+                return objects.add(`<< /Type /Font /Subtype /Type0 /BaseFont /${cid.name}-${cid.encoding} /Encoding /${cid.encoding} /DescendantFonts [${descendant} 0 R] >>`);
+            },
+        };
+    }
+    const code = (char: string) => {
+        const value = char.charCodeAt(0);
+        if (WIN_ANSI_EXTRAS[char]) return WIN_ANSI_EXTRAS[char];
+        return value >= 0x20 && value <= 0xff && (value < 0x7f || value >= 0xa0) ? value : 0x3f;   // 表せない文字は「?」
+    };
+    return {
+        resource,
+        encode: text => Array.from(text, char => hex(code(char), 2)).join(''),
+        width: text => Array.from(text).reduce((sum, char) => {
+            const value = code(char);
+            return sum + (value <= 0x7e ? HELVETICA_WIDTHS[value - 0x20] : 556) / 1000;
+        }, 0),
+        bullet: '•',
+        register: objects => objects.add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>'),
+    };
+}
+
+const HANGUL = /[\u1100-\u11FF\u3130-\u318F\uAC00-\uD7AF]/;
+const KANA_OR_CJK = /[\u3000-\u30FF\u3400-\u4DBF\u4E00-\u9FFF\uFF00-\uFFEF]/;
+
+// 文書で使うフォント（表示言語に関わらず、文字の種類に合わせて選ぶ）
+// ファイル名やモデル・コーチの文章には表示言語と違う文字が含まれることがあるため、
+// ハングルは韓国語、かな・漢字は日本語、それ以外は表示言語のフォントで表示する
+class PdfFonts {
+    private readonly fonts = new Map<Locale, PdfFont>();
+
+    constructor(private locale: Locale) {}
+
+    get base(): PdfFont {
+        return this.get(this.locale);
+    }
+
+    get used(): PdfFont[] {
+        return Array.from(this.fonts.values());
+    }
+
+    pick(text: string): PdfFont {
+        if (HANGUL.test(text)) return this.get('ko');
+        if (KANA_OR_CJK.test(text)) return this.get('ja');
+        return this.base;
+    }
+
+    private get(locale: Locale): PdfFont {
+        let font = this.fonts.get(locale);
+        if (!font) {
+            font = createFont(locale, `F${this.fonts.size + 1}`);
+            this.fonts.set(locale, font);
+        }
+        return font;
+    }
+}
+
+// PDF のオブジェクト（番号は追加順に1から）
+class PdfObjects {
+    private bodies: (string | Buffer)[] = [];
+
+    add(body: string | Buffer): number {
+        this.bodies.push(body);
+        return this.bodies.length;
+    }
+
+    set(id: number, body: string | Buffer) {
+        this.bodies[id - 1] = body;
+    }
+
+    stream(dictionary: string, data: Buffer): number {
+        return this.add(Buffer.concat([
+            Buffer.from(`<< ${dictionary} /Length ${data.length} >>\nstream\n`, 'latin1'),
+            data,
+            Buffer.from('\nendstream', 'latin1'),
+        ]));
+    }
+
+    serialize(rootId: number, infoId: number): Buffer {
+        const chunks = [Buffer.from('%PDF-1.4\n%\xE2\xE3\xCF\xD3\n', 'latin1')];
+        let offset = chunks[0].length;
+        const offsets = this.bodies.map((body, i) => {
+            const chunk = Buffer.concat([
+                Buffer.from(`${i + 1} 0 obj\n`, 'latin1'),
+                typeof body === 'string' ? Buffer.from(body, 'latin1') : body,
+                Buffer.from('\nendobj\n', 'latin1'),
+            ]);
+            chunks.push(chunk);
+            const start = offset;
+            offset += chunk.length;
+            return start;
+        });
+        const xref = [
+            'xref',
+            `0 ${offsets.length + 1}`,
+            '0000000000 65535 f ',
+            ...offsets.map(start => `${String(start).padStart(10, '0')} 00000 n `),
+            'trailer',
+            `<< /Size ${offsets.length + 1} /Root ${rootId} 0 R /Info ${infoId} 0 R >>`,
+            'startxref',
+            String(offset),
+            '%%EOF',
+            '',
+        ].join('\n');
+        chunks.push(Buffer.from(xref, 'latin1'));
+        return Buffer.concat(chunks);
+    }
+}
+
+interface JpegImage {
+    data: Buffer;
+    width: number;
+    height: number;
+    colorSpace: 'DeviceRGB' | 'DeviceGray';
+}
+
+// data URL の JPEG から埋め込みに必要なサイズと色空間を読み取る（読めない画像は null）
+function parseJpeg(dataUrl: string): JpegImage | null {
+    const match = /^data:image\/jpeg;base64,(.+)$/.exec(dataUrl);
+    if (!match) return null;
+    const data = Buffer.from(match[1], 'base64');
+    if (data[0] !== 0xff || data[1] !== 0xd8) return null;
+    let i = 2;
+    while (i + 9 < data.length) {
+        if (data[i] !== 0xff) return null;
+        const marker = data[i + 1];
+        // SOF マーカー（DHT・JPG・DAC を除く C0〜CF）
+        if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+            const components = data[i + 9];
+            if (components !== 1 && components !== 3) return null;
+            return {
+                data,
+                height: data.readUInt16BE(i + 5),
+                width: data.readUInt16BE(i + 7),
+                colorSpace: components === 1 ? 'DeviceGray' : 'DeviceRGB',
+            };
+        }
+        i += 2 + data.readUInt16BE(i + 2);
+    }
+    return null;
+}
+
+// 英単語の途中で折り返さないよう、行末の英数字の並びは空白の位置で区切る
+function wrapText(font: PdfFont, text: string, size: number, maxWidth: number): string[] {
+    const lines: string[] = [];
+    for (const paragraph of sanitize(text).split('\n')) {
+        let line = '';
+        for (const char of paragraph) {
+            if (line === '' || font.width(line + char) * size <= maxWidth) {
+                line += char;
+                continue;
+            }
+            const space = line.lastIndexOf(' ');
+            if (char !== ' ' && space > 0 && /^[\x21-\x7e]*$/.test(line.slice(space + 1) + char)) {
+                lines.push(line.slice(0, space));
+                line = line.slice(space + 1) + char;
+            } else {
+                lines.push(line);
+                line = char === ' ' ? '' : char;
+            }
+        }
+        lines.push(line);
+    }
+    return lines;
+}
+
+// ブロックを上から順に配置し、ページからあふれたら改ページする
+class PdfLayout {
+    readonly pages: string[][] = [];
+    readonly images: JpegImage[] = [];
+    private ops: string[] = [];
+    private y = 0;
+
+    constructor(private fonts: PdfFonts, private document: ExportDocument) {
+        this.startPage();
+    }
+
+    private startPage() {
+        this.ops = [];
+        this.pages.push(this.ops);
+        const first = this.pages.length === 1;
+        const bandHeight = first ? HEADER_HEIGHT : RUNNING_HEADER_HEIGHT;
+        this.rect(0, PAGE_HEIGHT - bandHeight, PAGE_WIDTH, bandHeight, BRAND);
+        if (first) {
+            this.text(MARGIN, PAGE_HEIGHT - 24, 9, this.document.brand, WHITE);
+            this.text(MARGIN, PAGE_HEIGHT - 52, 20, this.document.title, WHITE);
+            this.y = PAGE_HEIGHT - HEADER_HEIGHT - 14;
+            this.paragraph(this.document.subtitle, 12, 17, TEXT);
+            this.paragraph(this.document.meta, 9, 13, MUTED);
+            this.y -= 4;
+            this.line(MARGIN, this.y, PAGE_WIDTH - MARGIN, this.y, RULE);
+        } else {
+            this.text(MARGIN, PAGE_HEIGHT - 17, 9, `${this.document.brand}  ${this.document.title}`, WHITE);
+            this.y = PAGE_HEIGHT - RUNNING_HEADER_HEIGHT - 14;
+        }
+    }
+
+    // 指定の高さが残っていなければ改ページする
+    private ensure(height: number) {
+        if (this.y - height < CONTENT_BOTTOM) this.startPage();
+    }
+
+    private text(x: number, baseline: number, size: number, text: string, color: Color, font = this.fonts.pick(text)) {
+        this.ops.push(`BT /${font.resource} ${num(size)} Tf ${rgb(color)} rg ${num(x)} ${num(baseline)} Td <${font.encode(sanitize(text))}> Tj ET`);
+    }
+
+    private rect(x: number, y: number, width: number, height: number, color: Color) {
+        this.ops.push(`${rgb(color)} rg ${num(x)} ${num(y)} ${num(width)} ${num(height)} re f`);
+    }
+
+    private line(x1: number, y1: number, x2: number, y2: number, color: Color) {
+        this.ops.push(`${rgb(color)} RG 0.75 w ${num(x1)} ${num(y1)} m ${num(x2)} ${num(y2)} l S`);
+    }
+
+    private paragraph(text: string, size: number, lineHeight: number, color: Color, indent = 0) {
+        const font = this.fonts.pick(text);
+        for (const line of wrapText(font, text, size, CONTENT_WIDTH - indent)) {
+            this.ensure(lineHeight);
+            this.text(MARGIN + indent, this.y - size, size, line, color, font);
+            this.y -= lineHeight;
+        }
+    }
+
+    addBlock(block: ExportBlock) {
+        switch (block.kind) {
+            case 'heading': {
+                const score = block.score ? sanitize(block.score) : '';
+                const scoreWidth = this.fonts.pick(score).width(score) * 10;
+                const font = this.fonts.pick(block.text);
+                const lines = wrapText(font, sanitize(block.text).trim(), 12, CONTENT_WIDTH - 12 - scoreWidth - 8);
+                // 見出しだけがページ末尾に残らないよう、続く1〜2行分の余白も確保する
+                this.ensure(18 + lines.length * 17 + 30);
+                this.y -= 14;
+                this.rect(MARGIN, this.y - lines.length * 17 + 2, 3, lines.length * 17 - 2, ACCENT);
+                if (score) this.text(PAGE_WIDTH - MARGIN - scoreWidth, this.y - 12, 10, score, BRAND);
+                for (const line of lines) {
+                    this.text(MARGIN + 12, this.y - 12, 12, line, TEXT, font);
+                    this.y -= 17;
+                }
+                this.y -= 4;
+                break;
+            }
+            case 'paragraph':
+                this.paragraph(block.text, 10, 15, TEXT);
+                this.y -= 6;
+                break;
+            case 'list':
+                for (const item of block.items) {
+                    const font = this.fonts.pick(item);
+                    const lines = wrapText(font, item, 10, CONTENT_WIDTH - 14);
+                    lines.forEach((line, i) => {
+                        this.ensure(15);
+                        if (i === 0) this.text(MARGIN + 2, this.y - 10, 10, this.fonts.base.bullet, ACCENT);
+                        this.text(MARGIN + 14, this.y - 10, 10, line, TEXT, font);
+                        this.y -= 15;
+                    });
+                    this.y -= 2;
+                }
+                this.y -= 4;
+                break;
+            case 'table':
+                for (const [label, value] of block.rows) {
+                    const labelFont = this.fonts.pick(label);
+                    const valueFont = this.fonts.pick(value);
+                    const labelLines = wrapText(labelFont, label, 9.5, TABLE_LABEL_WIDTH - 8);
+                    const valueLines = wrapText(valueFont, value, 9.5, CONTENT_WIDTH - TABLE_LABEL_WIDTH);
+                    const height = Math.max(labelLines.length, valueLines.length) * 14 + 8;
+                    this.ensure(height);
+                    labelLines.forEach((line, i) => this.text(MARGIN, this.y - 13 - i * 14, 9.5, line, MUTED, labelFont));
+                    valueLines.forEach((line, i) => this.text(MARGIN + TABLE_LABEL_WIDTH, this.y - 13 - i * 14, 9.5, line, TEXT, valueFont));
+                    this.y -= height;
+                    this.line(MARGIN, this.y + 2, PAGE_WIDTH - MARGIN, this.y + 2, RULE);
+                }
+                this.y -= 6;
+                break;
+            case 'images': {
+                const cellWidth = (CONTENT_WIDTH - IMAGE_GAP * (IMAGE_COLUMNS - 1)) / IMAGE_COLUMNS;
+                const images = block.images
+                    .map(({ caption, image }) => ({ caption, jpeg: parseJpeg(image) }))
+                    .filter((item): item is { caption: string; jpeg: JpegImage } => item.jpeg !== null);
+                for (let row = 0; row < images.length; row += IMAGE_COLUMNS) {
+                    const cells = images.slice(row, row + IMAGE_COLUMNS).map(({ caption, jpeg }) => {
+                        const height = Math.min(cellWidth * jpeg.height / jpeg.width, cellWidth * IMAGE_MAX_ASPECT);
+                        return { caption, jpeg, height, width: height * jpeg.width / jpeg.height };
+                    });
+                    const rowHeight = Math.max(...cells.map(cell => cell.height)) + 18;
+                    this.ensure(rowHeight);
+                    cells.forEach((cell, column) => {
+                        const cellX = MARGIN + column * (cellWidth + IMAGE_GAP);
+                        this.images.push(cell.jpeg);
+                        this.ops.push(`q ${num(cell.width)} 0 0 ${num(cell.height)} ${num(cellX + (cellWidth - cell.width) / 2)} ${num(this.y - cell.height)} cm /Im${this.images.length} Do Q`);
+                        const font = this.fonts.pick(cell.caption);
+                        const caption = wrapText(font, cell.caption, 8, cellWidth)[0];
+                        this.text(cellX + (cellWidth - font.width(caption) * 8) / 2, this.y - cell.height - 11, 8, caption, MUTED, font);
+                    });
+                    this.y -= rowHeight + IMAGE_GAP;
+                }
+                break;
+            }
+        }
+    }
+
+    // 全ページにフッター（文書名とページ番号）を追加する
+    addFooters() {
+        this.pages.forEach((ops, i) => {
+            this.ops = ops;
+            const pageNumber = `${i + 1} / ${this.pages.length}`;
+            this.line(MARGIN, CONTENT_BOTTOM - 14, PAGE_WIDTH - MARGIN, CONTENT_BOTTOM - 14, RULE);
+            this.text(MARGIN, CONTENT_BOTTOM - 30, 8, this.document.footer, MUTED);
+            this.text(PAGE_WIDTH - MARGIN - this.fonts.base.width(pageNumber) * 8, CONTENT_BOTTOM - 30, 8, pageNumber, MUTED, this.fonts.base);
+        });
+    }
+}
+
+// 文書情報の文字列（UTF-16BE）
+const pdfTextString = (text: string) => `<FEFF${Array.from(text, char => {
+    const code = char.codePointAt(0) ?? 0x3f;
+    return code > 0xffff ? hex(0xd800 + ((code - 0x10000) >> 10), 4) + hex(0xdc00 + ((code - 0x10000) & 0x3ff), 4) : hex(code, 4);
+}).join('')}>`;
+
+export function renderReportPdf(document: ExportDocument): Buffer {
+    const fonts = new PdfFonts(document.locale);
+    const layout = new PdfLayout(fonts, document);
+    document.blocks.forEach(block => layout.addBlock(block));
+    layout.addFooters();
+
+    const objects = new PdfObjects();
+    const catalogId = objects.add('');
+    const pagesId = objects.add('');
+    const fontRefs = fonts.used.map(font => `/${font.resource} ${font.register(objects)} 0 R`).join(' ');
+    const imageIds = layout.images.map(image => objects.stream(
+        `/Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} /ColorSpace /${image.colorSpace} /BitsPerComponent 8 /Filter /DCTDecode`,
+        image.data,
+    ));
+    const xObjects = imageIds.map((id, i) => `/Im${i + 1} ${id} 0 R`).join(' ');
+    const pageIds = layout.pages.map(ops => {
+        const contentId = objects.stream('/Filter /FlateDecode', zlib.deflateSync(Buffer.from(ops.join('\n'), 'latin1')));
+        return objects.add(`<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << ${fontRefs} >> /XObject << ${xObjects} >> >> /Contents ${contentId} 0 R >>`);
+    });
+    objects.set(catalogId, `<< /Type /Catalog /Pages ${pagesId} 0 R >>`);
+    objects.set(pagesId, `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`);
+    const infoId = objects.add(`<< /Title ${pdfTextString(`${document.title} - ${document.subtitle}`)} /Producer ${pdfTextString(document.brand)} /CreationDate (D:${new Date().toISOString().replace(/[-:T]/g, '').slice(0, 14)}Z) >>`);
+    return objects.serialize(catalogId, infoId);
+}
@@ -0,0 +1,148 @@
+import type { Part } from "@google/generative-ai";
+import type { AnalysisHooks } from "@/lib/analysis-pipeline";
+import { AnalysisProvider, GenerateResult, TokenUsage, addTokenUsage } from "@/lib/providers/analysis-provider";
+import { PromptContext, SWING_DETECTION_PROMPT, buildSessionSummaryPrompt, buildSwingRangePrompt } from "@/lib/prompts";
+import { LocalizedError } from "@/lib/i18n/localized-error";
+import { offsetSwingReport, parseSwingReport } from "@/lib/swing-report";
+import {
+    SESSION_SUMMARY_RESPONSE_SCHEMA,
+    SWING_DETECTION_RESPONSE_SCHEMA,
+    SessionSwingResult,
+    SwingSession,
+    averageSessionScores,
+    parseDetectedSwings,
+    parseSessionSummary,
+} from "@/lib/swing-session";
+
+// スイングごとの解析を同時に実行する数（Gemini のレート制限を超えないよう少数に抑える）
+export const SESSION_SWING_CONCURRENCY = 3;
+// 解析全体の制限時間。route の maxDuration（300秒）より前に明確なエラーを返せるよう余裕を持たせる
+export const SESSION_TIME_BUDGET_MS = 270 * 1000;
+
+export interface SessionAnalysisOptions extends PromptContext {
+    timeOffset?: number;            // トリミングで切り出した場合の開始秒（元動画の時刻に戻すため加算する）
+    deadline?: number;              // 解析を打ち切る時刻（Date.now() の値）。超えると errors.sessionTimeBudgetExceeded
+}
+
+export interface SessionAnalysisResult {
+    session: SwingSession;
+    generation: GenerateResult;     // 総評のテキストと、全呼び出しの合計試行回数・トークン使用量
+}
+
+// 複数スイングを含む動画を解析する
+// 1. スイング検出 → 2. スイングごとの解析（並行数を制限） → 3. セッション総評
+// deadline を過ぎた場合は途中の結果を破棄して errors.sessionTimeBudgetExceeded を投げる
+export async function analyzeSession(
+    provider: AnalysisProvider,
+    mediaPart: Part,
+    method: string,
+    hooks: AnalysisHooks,
+    { timeOffset = 0, deadline, ...context }: SessionAnalysisOptions = {},
+): Promise<SessionAnalysisResult> {
+    const { onStage, signal, ...generateOptions } = hooks;
+    let attempts = 0;
+    let usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+
+    // 制限時間を過ぎたら実行中の呼び出し（再試行の待機を含む）を中断する
+    const budget = new AbortController();
+    const onAbort = () => budget.abort(signal?.reason);
+    signal?.addEventListener('abort', onAbort, { once: true });
+    const timer = deadline !== undefined
+        ? setTimeout(() => budget.abort(new LocalizedError('errors.sessionTimeBudgetExceeded', {
+            seconds: SESSION_TIME_BUDGET_MS / 1000,
+        })), Math.max(deadline - Date.now(), 0))
+        : undefined;
+    if (signal?.aborted) onAbort();
+
+    try {
+        await onStage?.('detecting');
+        const detection = await provider.generate([{ text: SWING_DETECTION_PROMPT }, mediaPart], method, {
+            ...generateOptions,
+            signal: budget.signal,
+            responseSchema: SWING_DETECTION_RESPONSE_SCHEMA,
+        });
+        attempts += detection.attempts;
+        usage = addTokenUsage(usage, detection.usage);
+
+        const detectedSwings = parseDetectedSwings(detection.text);
+        if (!detectedSwings || detectedSwings.length === 0) {
+            throw new LocalizedError('errors.noSwingsDetected');
+        }
+        console.log(`🔍 ${detectedSwings.length}件のスイングを検出しました`);
+
+        await onStage?.('analyzing');
+        // 並行して実行するため、スイングごとの出力はストリーミングしない（総評のみストリーミングする）
+        const swingOptions = { ...generateOptions, signal: budget.signal, onText: undefined, onTextReset: undefined };
+        const swings = await mapWithConcurrency(detectedSwings, SESSION_SWING_CONCURRENCY, async (swing): Promise<SessionSwingResult> => {
+            console.log(`🏌️ スイング ${swing.index + 1}/${detectedSwings.length} を解析中 (${swing.startSeconds}s〜${swing.endSeconds}s)`);
+            const result = await provider.generate(
+                [{ text: buildSwingRangePrompt(swing.startSeconds, swing.endSeconds, context) }, mediaPart],
+                method,
+                swingOptions,
+            );
+            attempts += result.attempts;
+            usage = addTokenUsage(usage, result.usage);
+
+            const report = parseSwingReport(result.text);
+            if (!report) {
+                console.warn(`⚠️ スイング ${swing.index + 1} のレポート検証に失敗しました。生テキストを返します`);
+            }
+            return {
+                swing: {
+                    index: swing.index,
+                    startSeconds: swing.startSeconds + timeOffset,
+                    endSeconds: swing.endSeconds + timeOffset,
+                },
+                analysis: result.text,
+                report: report && offsetSwingReport(report, timeOffset),
+            };
+        });
+
+        // 総評は各スイングのレポートのみから作成する（動画は送らない）
+        generateOptions.onTextReset?.();
+        const reportsJson = JSON.stringify(swings.map(({ report, analysis }) => report ?? analysis), null, 2);
+        const summaryResult = await provider.generate([{ text: buildSessionSummaryPrompt(reportsJson, context) }], method, {
+            ...generateOptions,
+            signal: budget.signal,
+            responseSchema: SESSION_SUMMARY_RESPONSE_SCHEMA,
+        });
+        attempts += summaryResult.attempts;
+        usage = addTokenUsage(usage, summaryResult.usage);
+
+        const summary = parseSessionSummary(summaryResult.text);
+        if (!summary) {
+            console.warn('⚠️ セッション総評の検証に失敗しました');
+        }
+
+        return {
+            session: {
+                swings,
+                summary,
+                averageScores: averageSessionScores(swings.map(result => result.report)),
+            },
+            generation: { ...summaryResult, attempts, usage },
+        };
+    } catch (error) {
+        // プロバイダーが中断を独自のエラーで通知した場合も、制限時間の超過として返す
+        if (budget.signal.aborted && !signal?.aborted) throw budget.signal.reason;
+        throw error;
+    } finally {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+        budget.abort(); // 失敗したスイングがある場合、並行中の残りの呼び出しを止める
+    }
+}
+
+// items を最大 limit 件ずつ並行して処理し、入力と同じ順序で結果を返す
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let next = 0;
+    const worker = async () => {
+        while (next < items.length) {
+            const index = next++;
+            results[index] = await fn(items[index]);
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+    return results;
+}
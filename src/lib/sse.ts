@@ -0,0 +1,12 @@
+// Server-Sent Events のヘルパー
+const encoder = new TextEncoder();
+
+export const SSE_HEADERS = {
+    'Content-Type': 'text/event-stream; charset=utf-8',
+    'Cache-Control': 'no-cache, no-transform',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no', // プロキシでのバッファリングを無効化
+};
+
+export const encodeSSE = (event: string, data: unknown): Uint8Array =>
+    encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
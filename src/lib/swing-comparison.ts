@@ -0,0 +1,91 @@
+import { ResponseSchema, SchemaType } from "@google/generative-ai";
+import { SWING_PHASES, SwingPhaseKey } from "@/lib/swing-report";
+
+// 2つのスイングの比較レポート（before: 以前のスイング / after: 最近のスイング）
+export const COMPARISON_TRENDS = ['improved', 'regressed', 'unchanged', 'notObservable'] as const;
+export type ComparisonTrend = typeof COMPARISON_TRENDS[number];
+
+export const COMPARISON_VERDICTS = ['improved', 'regressed', 'mixed', 'unchanged'] as const;
+export type ComparisonVerdict = typeof COMPARISON_VERDICTS[number];
+
+// フェーズごとの変化
+export interface PhaseComparison {
+    trend: ComparisonTrend;
+    change: string;             // 何が変わったか
+}
+
+export interface SwingComparison {
+    summary: string;
+    verdict: ComparisonVerdict;
+    phases: Record<SwingPhaseKey, PhaseComparison>;
+    impact: {
+        beforeSeconds: number | null;   // 各動画のインパクトの時刻（プレイヤーの同期に使用）
+        afterSeconds: number | null;
+    };
+}
+
+const phaseComparisonSchema: ResponseSchema = {
+    type: SchemaType.OBJECT,
+    properties: {
+        trend: { type: SchemaType.STRING, format: 'enum', enum: [...COMPARISON_TRENDS] },
+        change: { type: SchemaType.STRING },
+    },
+    required: ['trend', 'change'],
+};
+
+export const SWING_COMPARISON_RESPONSE_SCHEMA: ResponseSchema = {
+    type: SchemaType.OBJECT,
+    properties: {
+        summary: { type: SchemaType.STRING },
+        verdict: { type: SchemaType.STRING, format: 'enum', enum: [...COMPARISON_VERDICTS] },
+        phases: {
+            type: SchemaType.OBJECT,
+            properties: Object.fromEntries(SWING_PHASES.map(({ key }) => [key, phaseComparisonSchema])),
+            required: SWING_PHASES.map(({ key }) => key),
+        },
+        impact: {
+            type: SchemaType.OBJECT,
+            properties: {
+                beforeSeconds: { type: SchemaType.NUMBER, nullable: true },
+                afterSeconds: { type: SchemaType.NUMBER, nullable: true },
+            },
+            required: ['beforeSeconds', 'afterSeconds'],
+        },
+    },
+    required: ['summary', 'verdict', 'phases', 'impact'],
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isSeconds = (value: unknown): value is number | null =>
+    value === null || (typeof value === 'number' && Number.isFinite(value) && value >= 0);
+
+// モデル出力をスキーマに沿って検証する（不正な場合は null）
+export function parseSwingComparison(rawText: string): SwingComparison | null {
+    let data: unknown;
+    try {
+        data = JSON.parse(rawText.replace(/^\s*```(?:json)?\s*|\s*```\s*$/g, ''));
+    } catch {
+        return null;
+    }
+    if (!isRecord(data) || typeof data.summary !== 'string') return null;
+    if (!COMPARISON_VERDICTS.includes(data.verdict as ComparisonVerdict)) return null;
+    if (!isRecord(data.phases) || !isRecord(data.impact)) return null;
+    const { beforeSeconds, afterSeconds } = data.impact;
+    if (!isSeconds(beforeSeconds) || !isSeconds(afterSeconds)) return null;
+
+    const phases = {} as Record<SwingPhaseKey, PhaseComparison>;
+    for (const { key } of SWING_PHASES) {
+        const phase = data.phases[key];
+        if (!isRecord(phase) || typeof phase.change !== 'string') return null;
+        if (!COMPARISON_TRENDS.includes(phase.trend as ComparisonTrend)) return null;
+        phases[key] = { trend: phase.trend as ComparisonTrend, change: phase.change };
+    }
+    return {
+        summary: data.summary,
+        verdict: data.verdict as ComparisonVerdict,
+        phases,
+        impact: { beforeSeconds, afterSeconds },
+    };
+}
@@ -0,0 +1,156 @@
+import { ResponseSchema, SchemaType } from "@google/generative-ai";
+
+// スイングレポートのセクション定義（解析プロンプトの7項目に対応）
+export const SWING_REPORT_SECTIONS = [
+    { key: 'swingForm', title: 'スイングフォーム分析' },
+    { key: 'tempo', title: 'テンポとリズム' },
+    { key: 'weightShift', title: '体重移動' },
+    { key: 'axisStability', title: '軸の安定性' },
+    { key: 'clubPath', title: 'クラブパス' },
+    { key: 'finish', title: 'フィニッシュ' },
+    { key: 'improvements', title: '改善提案' },
+] as const;
+
+export type SwingReportSectionKey = typeof SWING_REPORT_SECTIONS[number]['key'];
+
+// スイングのフェーズ定義（タイムライン上のマーカーに対応）
+export const SWING_PHASES = [
+    { key: 'address', title: 'アドレス' },
+    { key: 'takeaway', title: 'テイクバック' },
+    { key: 'top', title: 'トップ' },
+    { key: 'downswing', title: 'ダウンスイング' },
+    { key: 'impact', title: 'インパクト' },
+    { key: 'followThrough', title: 'フォロースルー' },
+    { key: 'finish', title: 'フィニッシュ' },
+] as const;
+
+export type SwingPhaseKey = typeof SWING_PHASES[number]['key'];
+
+export const SCORE_MIN = 1;
+export const SCORE_MAX = 10;
+
+// 各セクションの評価
+export interface SwingReportSection {
+    score: number | null;      // 1〜10。観察できない場合は null
+    observations: string[];    // 動画から実際に観察できた内容
+    notObservable: boolean;    // 動画から確認できない場合 true
+}
+
+// 各フェーズの時刻とコメント
+export interface SwingPhase {
+    seconds: number | null;    // 動画先頭からの秒数。確認できない場合は null
+    comment: string;           // そのフェーズで観察できた内容
+}
+
+export interface SwingReport {
+    summary: string;
+    overallScore: number | null;
+    sections: Record<SwingReportSectionKey, SwingReportSection>;
+    phases?: Record<SwingPhaseKey, SwingPhase>;   // 旧形式のレポートには存在しない
+}
+
+// Gemini の responseSchema 用定義
+const sectionSchema: ResponseSchema = {
+    type: SchemaType.OBJECT,
+    properties: {
+        score: { type: SchemaType.INTEGER, nullable: true, description: `${SCORE_MIN}〜${SCORE_MAX}の評価。観察できない場合は null` },
+        observations: { type: SchemaType.ARRAY, items: { type: SchemaType.STRING } },
+        notObservable: { type: SchemaType.BOOLEAN },
+    },
+    required: ['score', 'observations', 'notObservable'],
+};
+
+const phaseSchema: ResponseSchema = {
+    type: SchemaType.OBJECT,
+    properties: {
+        seconds: { type: SchemaType.NUMBER, nullable: true, description: '動画先頭からの秒数。確認できない場合は null' },
+        comment: { type: SchemaType.STRING },
+    },
+    required: ['seconds', 'comment'],
+};
+
+export const SWING_REPORT_RESPONSE_SCHEMA: ResponseSchema = {
+    type: SchemaType.OBJECT,
+    properties: {
+        summary: { type: SchemaType.STRING },
+        overallScore: { type: SchemaType.INTEGER, nullable: true },
+        sections: {
+            type: SchemaType.OBJECT,
+            properties: Object.fromEntries(SWING_REPORT_SECTIONS.map(({ key }) => [key, sectionSchema])),
+            required: SWING_REPORT_SECTIONS.map(({ key }) => key),
+        },
+        phases: {
+            type: SchemaType.OBJECT,
+            properties: Object.fromEntries(SWING_PHASES.map(({ key }) => [key, phaseSchema])),
+            required: SWING_PHASES.map(({ key }) => key),
+        },
+    },
+    required: ['summary', 'overallScore', 'sections', 'phases'],
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isValidScore = (value: unknown): value is number | null =>
+    value === null || (Number.isInteger(value) && (value as number) >= SCORE_MIN && (value as number) <= SCORE_MAX);
+
+function parseSection(value: unknown): SwingReportSection | null {
+    if (!isRecord(value)) return null;
+    const { score, observations, notObservable } = value;
+    if (!isValidScore(score) || typeof notObservable !== 'boolean') return null;
+    if (!Array.isArray(observations) || !observations.every(o => typeof o === 'string')) return null;
+    return { score, observations, notObservable };
+}
+
+function parsePhase(value: unknown): SwingPhase | null {
+    if (!isRecord(value) || typeof value.comment !== 'string') return null;
+    const { seconds } = value;
+    if (seconds !== null && (typeof seconds !== 'number' || !Number.isFinite(seconds) || seconds < 0)) return null;
+    return { seconds, comment: value.comment };
+}
+
+// フェーズは補助情報のため、不正な場合はフェーズのみ破棄する
+function parsePhases(value: unknown): Record<SwingPhaseKey, SwingPhase> | undefined {
+    if (!isRecord(value)) return undefined;
+    const phases = {} as Record<SwingPhaseKey, SwingPhase>;
+    for (const { key } of SWING_PHASES) {
+        const phase = parsePhase(value[key]);
+        if (!phase) return undefined;
+        phases[key] = phase;
+    }
+    return phases;
+}
+
+// モデル出力をスキーマに沿って検証する（不正な場合は null）
+export function parseSwingReport(rawText: string): SwingReport | null {
+    let data: unknown;
+    try {
+        // ```json ... ``` で囲まれて返ってくる場合に備える
+        data = JSON.parse(rawText.replace(/^\s*```(?:json)?\s*|\s*```\s*$/g, ''));
+    } catch {
+        return null;
+    }
+    if (!isRecord(data) || typeof data.summary !== 'string' || !isValidScore(data.overallScore)) return null;
+    if (!isRecord(data.sections)) return null;
+
+    const sections = {} as Record<SwingReportSectionKey, SwingReportSection>;
+    for (const { key } of SWING_REPORT_SECTIONS) {
+        const section = parseSection(data.sections[key]);
+        if (!section) return null;
+        sections[key] = section;
+    }
+    const phases = parsePhases(data.phases);
+    return { summary: data.summary, overallScore: data.overallScore, sections, ...(phases && { phases }) };
+}
+
+// トリミングした動画で得たフェーズの時刻を元動画の時刻に戻す
+export function offsetSwingReport(report: SwingReport, offsetSeconds: number): SwingReport {
+    if (!report.phases || offsetSeconds === 0) return report;
+    const phases = Object.fromEntries(
+        Object.entries(report.phases).map(([key, phase]) => [
+            key,
+            { ...phase, seconds: phase.seconds === null ? null : phase.seconds + offsetSeconds },
+        ]),
+    ) as Record<SwingPhaseKey, SwingPhase>;
+    return { ...report, phases };
+}
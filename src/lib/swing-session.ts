@@ -0,0 +1,119 @@
+import { ResponseSchema, SchemaType } from "@google/generative-ai";
+import { SWING_REPORT_SECTIONS, SwingReport, SwingReportSectionKey } from "@/lib/swing-report";
+
+// 解析モード（single: 1スイング / session: 複数スイングを検出して個別に解析）
+export type AnalysisMode = 'single' | 'session';
+
+export const MAX_SESSION_SWINGS = 10;
+
+// 検出されたスイング（秒は元動画の先頭からの位置）
+export interface DetectedSwing {
+    index: number;
+    startSeconds: number;
+    endSeconds: number;
+}
+
+export interface SessionSwingResult {
+    swing: DetectedSwing;
+    analysis: string;               // モデルの生テキスト
+    report: SwingReport | null;
+}
+
+export interface SessionSummary {
+    summary: string;
+    consistentStrengths: string[];
+    recurringIssues: string[];
+}
+
+export interface SwingSession {
+    swings: SessionSwingResult[];
+    summary: SessionSummary | null;
+    averageScores: Partial<Record<SwingReportSectionKey | 'overall', number>>;
+}
+
+export const SWING_DETECTION_RESPONSE_SCHEMA: ResponseSchema = {
+    type: SchemaType.OBJECT,
+    properties: {
+        swings: {
+            type: SchemaType.ARRAY,
+            items: {
+                type: SchemaType.OBJECT,
+                properties: {
+                    startSeconds: { type: SchemaType.NUMBER, description: 'アドレス開始の秒数' },
+                    endSeconds: { type: SchemaType.NUMBER, description: 'フィニッシュ完了の秒数' },
+                },
+                required: ['startSeconds', 'endSeconds'],
+            },
+        },
+    },
+    required: ['swings'],
+};
+
+export const SESSION_SUMMARY_RESPONSE_SCHEMA: ResponseSchema = {
+    type: SchemaType.OBJECT,
+    properties: {
+        summary: { type: SchemaType.STRING },
+        consistentStrengths: { type: SchemaType.ARRAY, items: { type: SchemaType.STRING } },
+        recurringIssues: { type: SchemaType.ARRAY, items: { type: SchemaType.STRING } },
+    },
+    required: ['summary', 'consistentStrengths', 'recurringIssues'],
+};
+
+const parseJson = (rawText: string): unknown => {
+    try {
+        return JSON.parse(rawText.replace(/^\s*```(?:json)?\s*|\s*```\s*$/g, ''));
+    } catch {
+        return null;
+    }
+};
+
+const isStringArray = (value: unknown): value is string[] =>
+    Array.isArray(value) && value.every(item => typeof item === 'string');
+
+// スイング検出結果を検証し、時刻順・重複なしに整える
+export function parseDetectedSwings(rawText: string): DetectedSwing[] | null {
+    const data = parseJson(rawText) as { swings?: unknown } | null;
+    if (!data || !Array.isArray(data.swings)) return null;
+
+    const swings = data.swings
+        .filter((swing): swing is { startSeconds: number; endSeconds: number } =>
+            typeof swing?.startSeconds === 'number' && typeof swing?.endSeconds === 'number'
+            && swing.startSeconds >= 0 && swing.endSeconds > swing.startSeconds)
+        .sort((a, b) => a.startSeconds - b.startSeconds)
+        .filter((swing, i, sorted) => i === 0 || swing.startSeconds >= sorted[i - 1].endSeconds)
+        .slice(0, MAX_SESSION_SWINGS);
+
+    return swings.map((swing, index) => ({ index, startSeconds: swing.startSeconds, endSeconds: swing.endSeconds }));
+}
+
+export function parseSessionSummary(rawText: string): SessionSummary | null {
+    const data = parseJson(rawText) as Record<string, unknown> | null;
+    if (!data || typeof data.summary !== 'string') return null;
+    if (!isStringArray(data.consistentStrengths) || !isStringArray(data.recurringIssues)) return null;
+    return { summary: data.summary, consistentStrengths: data.consistentStrengths, recurringIssues: data.recurringIssues };
+}
+
+// 各スイングのスコア平均（観察できなかったセクションは除外）
+export function averageSessionScores(reports: (SwingReport | null)[]): SwingSession['averageScores'] {
+    const valid = reports.filter((report): report is SwingReport => report !== null);
+    const average = (scores: (number | null)[]) => {
+        const values = scores.filter((score): score is number => score !== null);
+        return values.length > 0 ? Math.round(values.reduce((sum, v) => sum + v, 0) / values.length * 10) / 10 : undefined;
+    };
+
+    const result: SwingSession['averageScores'] = {};
+    const overall = average(valid.map(report => report.overallScore));
+    if (overall !== undefined) result.overall = overall;
+    for (const { key } of SWING_REPORT_SECTIONS) {
+        const score = average(valid.map(report => report.sections[key].notObservable ? null : report.sections[key].score));
+        if (score !== undefined) result[key] = score;
+    }
+    return result;
+}
+
+// 秒を mm:ss.s 形式に変換
+export const formatTimestamp = (seconds: number) => {
+    const minutes = Math.floor(seconds / 60);
+    const rest = (seconds % 60).toFixed(1).padStart(4, '0');
+    return `${minutes}:${rest}`;
+};
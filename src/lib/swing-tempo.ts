@@ -0,0 +1,125 @@
+import { LocalizedError } from "@/lib/i18n/localized-error";
+import { PoseFrame, distance, findSwingKeyFrames, hipCenter, shoulderCenter, usablePoseFrames, wristCenter } from "@/lib/pose-metrics";
+
+// スイングのテンポ（テイクバック開始・トップ・インパクトの時刻と、バックスイング:ダウンスイングの比）
+// ブラウザの姿勢推定の両手首の動きから求める。テイクバック開始とインパクトは前後のフレームから補間する
+
+export interface SwingTempo {
+    takeawaySeconds: number;    // 元動画の先頭からの秒数
+    topSeconds: number;
+    impactSeconds: number;
+    backswingSeconds: number;   // テイクバック開始〜トップ
+    downswingSeconds: number;   // トップ〜インパクト
+    ratio: number;              // バックスイング / ダウンスイング
+}
+
+// 一般的な目安（バックスイング:ダウンスイング = 3:1）
+export const TEMPO_BENCHMARK_RATIO = 3;
+
+// 両手首がアドレスの位置から胴の長さのこの割合だけ動いたらテイクバック開始とみなす
+const TAKEAWAY_THRESHOLD = 0.1;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// 値が threshold を超える時刻を、前後のフレームの間で線形補間する
+function interpolateCrossing(before: PoseFrame, after: PoseFrame, valueBefore: number, valueAfter: number, threshold: number): number {
+    if (valueAfter === valueBefore) return after.seconds;
+    const ratio = Math.min(1, Math.max(0, (threshold - valueBefore) / (valueAfter - valueBefore)));
+    return before.seconds + (after.seconds - before.seconds) * ratio;
+}
+
+// 推定結果からテンポを求める（テイクバック・トップ・インパクトを検出できなければ null）
+export function computeSwingTempo(frames: PoseFrame[]): SwingTempo | null {
+    const usable = usablePoseFrames(frames);
+    if (!usable) return null;
+    const { top, impact } = findSwingKeyFrames(usable);
+    if (top === null || impact === null) return null;
+
+    const address = usable[0];
+    const addressWrists = wristCenter(address)!;
+    const torsoLength = distance(shoulderCenter(address)!, hipCenter(address)!);
+    if (torsoLength === 0) return null;
+
+    // テイクバック開始: 両手首がアドレスの位置から動き始めた時刻
+    const displacement = (frame: PoseFrame) => distance(wristCenter(frame)!, addressWrists) / torsoLength;
+    const takeawayIndex = usable.findIndex((frame, i) => i > 0 && i <= top && displacement(frame) >= TAKEAWAY_THRESHOLD);
+    if (takeawayIndex < 0) return null;
+    const takeawaySeconds = interpolateCrossing(
+        usable[takeawayIndex - 1], usable[takeawayIndex],
+        displacement(usable[takeawayIndex - 1]), displacement(usable[takeawayIndex]), TAKEAWAY_THRESHOLD,
+    );
+
+    // トップ: 両手首が最も高いフレーム（切り返しは前後の速度が非対称なため補間しない）
+    const topSeconds = usable[top].seconds;
+
+    // インパクト: トップ以降で両手首がアドレスの高さまで戻った時刻（戻らなければ最も近いフレーム）
+    let impactSeconds = usable[impact].seconds;
+    for (let i = top + 1; i <= impact; i++) {
+        const y = wristCenter(usable[i])!.y;
+        if (y >= addressWrists.y) {
+            impactSeconds = interpolateCrossing(usable[i - 1], usable[i], wristCenter(usable[i - 1])!.y, y, addressWrists.y);
+            break;
+        }
+    }
+
+    const backswingSeconds = topSeconds - takeawaySeconds;
+    const downswingSeconds = impactSeconds - topSeconds;
+    if (backswingSeconds <= 0 || downswingSeconds <= 0) return null;
+
+    return {
+        takeawaySeconds: round2(takeawaySeconds),
+        topSeconds: round2(topSeconds),
+        impactSeconds: round2(impactSeconds),
+        backswingSeconds: round2(backswingSeconds),
+        downswingSeconds: round2(downswingSeconds),
+        ratio: Math.round(backswingSeconds / downswingSeconds * 10) / 10,
+    };
+}
+
+// 時刻をずらす（トリミングした動画の時刻に揃える）
+export const offsetSwingTempo = (tempo: SwingTempo, offsetSeconds: number): SwingTempo => ({
+    ...tempo,
+    takeawaySeconds: round2(Math.max(0, tempo.takeawaySeconds + offsetSeconds)),
+    topSeconds: round2(Math.max(0, tempo.topSeconds + offsetSeconds)),
+    impactSeconds: round2(Math.max(0, tempo.impactSeconds + offsetSeconds)),
+});
+
+const SECONDS_MAX = 24 * 60 * 60;
+const RATIO_MAX = 100;
+
+// FormData の tempo（JSON文字列）を検証して取り出す
+export function parseSwingTempo(value: FormDataEntryValue | null): SwingTempo | undefined {
+    if (typeof value !== 'string' || value.trim() === '') return undefined;
+
+    let data: unknown;
+    try {
+        data = JSON.parse(value);
+    } catch {
+        throw new LocalizedError('errors.invalidTempo');
+    }
+    if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+        throw new LocalizedError('errors.invalidTempo');
+    }
+    const raw = data as Record<string, unknown>;
+    const toNumber = (key: keyof SwingTempo, max: number) => {
+        const num = raw[key];
+        if (typeof num !== 'number' || !Number.isFinite(num) || num < 0 || num > max) {
+            throw new LocalizedError('errors.invalidTempo');
+        }
+        return num;
+    };
+
+    const tempo: SwingTempo = {
+        takeawaySeconds: toNumber('takeawaySeconds', SECONDS_MAX),
+        topSeconds: toNumber('topSeconds', SECONDS_MAX),
+        impactSeconds: toNumber('impactSeconds', SECONDS_MAX),
+        backswingSeconds: toNumber('backswingSeconds', SECONDS_MAX),
+        downswingSeconds: toNumber('downswingSeconds', SECONDS_MAX),
+        ratio: toNumber('ratio', RATIO_MAX),
+    };
+    // 時刻の順序が崩れているものは受け付けない
+    if (!(tempo.takeawaySeconds < tempo.topSeconds && tempo.topSeconds < tempo.impactSeconds)) {
+        throw new LocalizedError('errors.invalidTempo');
+    }
+    return tempo;
+}
@@ -0,0 +1,204 @@
+import { createWriteStream } from "fs";
+import fs from "fs/promises";
+import path from "path";
+import os from "os";
+import crypto from "crypto";
+import { Readable, Transform } from "stream";
+import { pipeline } from "stream/promises";
+import type { ReadableStream as NodeReadableStream } from "stream/web";
+import { AnalysisInput, MAX_FILE_SIZE } from "@/lib/analysis-pipeline";
+import { UnsupportedVideoError, sniffVideoFile } from "@/lib/video-probe";
+import { LocalizedError } from "@/lib/i18n/localized-error";
+
+// 分割アップロード（init → チャンクの PUT → finalize）
+// チャンクはメモリに溜めずにディスクへ追記し、通信が切れても受信済みの位置から再開できる
+
+// 1チャンクの上限（Vercelのリクエストボディ上限 4.5MB に収める）
+export const UPLOAD_CHUNK_SIZE = 4 * 1024 * 1024;
+const UPLOAD_EXPIRY_MS = 24 * 60 * 60 * 1000; // 24時間。finalize されなかったアップロードは削除する
+
+// アップロードのメタデータ（受信済みバイト数はデータファイルのサイズから求める）
+interface UploadSession {
+    id: string;
+    fileName: string;
+    fileSize: number;
+    mimeType: string;
+    ownerId?: string;           // アップロードを開始したユーザー（他のユーザーからは見えない）
+    createdAt: string;
+}
+
+// クライアントに返すアップロード状態
+export interface UploadStatus {
+    uploadId: string;
+    fileName: string;
+    fileSize: number;
+    receivedBytes: number;      // 次のチャンクはこの位置（offset）から送る
+    chunkSize: number;
+}
+
+// 組み立て済みのファイル（解析パイプラインが完了時に削除する）
+export type AssembledUpload = Pick<AnalysisInput, 'tempFilePath' | 'fileName' | 'fileSize' | 'mimeType'>;
+
+// 開発時のホットリロードで消えないようglobalThisに保持
+const globalForUploads = globalThis as unknown as { activeUploadWrites?: Set<string> };
+const activeWrites = globalForUploads.activeUploadWrites ??= new Set<string>();
+
+// 複数インスタンスで処理する場合は共有ディレクトリを UPLOAD_DIR に指定する
+const uploadDir = () => process.env.UPLOAD_DIR || path.join(os.tmpdir(), 'golf-analyze-uploads');
+
+function uploadPaths(id: string) {
+    // パストラバーサル対策としてIDをファイル名に使える文字に限定
+    if (!/^[\w-]+$/.test(id)) {
+        throw new LocalizedError('errors.uploadNotFound', { id });
+    }
+    const dir = uploadDir();
+    return { meta: path.join(dir, `${id}.json`), data: path.join(dir, `${id}.part`) };
+}
+
+async function readSession(id: string): Promise<UploadSession | null> {
+    try {
+        return JSON.parse(await fs.readFile(uploadPaths(id).meta, 'utf-8')) as UploadSession;
+    } catch {
+        return null;
+    }
+}
+
+// アップロードを開始する（空のデータファイルを作成）
+export async function createUpload(fileName: unknown, fileSize: unknown, mimeType: unknown, ownerId?: string): Promise<UploadStatus> {
+    if (typeof fileName !== 'string' || fileName.trim() === '' || !Number.isSafeInteger(fileSize) || (fileSize as number) <= 0) {
+        throw new LocalizedError('errors.invalidUploadRequest');
+    }
+    const size = fileSize as number;
+    if (size > MAX_FILE_SIZE) {
+        throw new LocalizedError('errors.fileTooLarge', { size: (size / 1024 / 1024).toFixed(1) });
+    }
+    await sweepExpiredUploads();
+
+    const session: UploadSession = {
+        id: crypto.randomUUID(),
+        fileName: path.basename(fileName),
+        fileSize: size,
+        mimeType: typeof mimeType === 'string' ? mimeType : '',
+        ownerId,
+        createdAt: new Date().toISOString(),
+    };
+    const paths = uploadPaths(session.id);
+    await fs.mkdir(uploadDir(), { recursive: true });
+    await fs.writeFile(paths.data, '');
+    await fs.writeFile(paths.meta, JSON.stringify(session), 'utf-8');
+    console.log(`📤 分割アップロード開始: ${session.id} (${session.fileName}, ${(size / 1024 / 1024).toFixed(1)}MB)`);
+    return toUploadStatus(session, 0);
+}
+
+// ownerId を指定した場合、別のユーザーのアップロードは存在しない場合と同じく null
+export async function getUploadStatus(id: string, ownerId?: string): Promise<UploadStatus | null> {
+    const session = await readSession(id);
+    if (!session || (ownerId !== undefined && session.ownerId !== ownerId)) return null;
+    const stat = await fs.stat(uploadPaths(id).data).catch(() => null);
+    return stat ? toUploadStatus(session, stat.size) : null;
+}
+
+// チャンクを受信済みの位置に追記する
+// 途中で切断された場合も書き込めた分は残し、クライアントは受信済みの位置から再送する
+// 同じアップロードに別のチャンクを書き込み中の場合は null
+// 先頭のチャンクで動画ではないと判定した場合はアップロードを削除して UnsupportedVideoError
+export async function writeUploadChunk(status: UploadStatus, body: ReadableStream<Uint8Array>): Promise<UploadStatus | null> {
+    const { uploadId, receivedBytes } = status;
+    if (activeWrites.has(uploadId)) return null;
+    activeWrites.add(uploadId);
+
+    const { data } = uploadPaths(uploadId);
+    const limit = Math.min(UPLOAD_CHUNK_SIZE, status.fileSize - receivedBytes);
+    let written = 0;
+    const limiter = new Transform({
+        transform(chunk: Buffer, _encoding, callback) {
+            written += chunk.length;
+            if (written > limit) {
+                callback(new LocalizedError('errors.chunkTooLarge', { max: limit }));
+                return;
+            }
+            callback(null, chunk);
+        },
+    });
+
+    try {
+        await pipeline(
+            Readable.fromWeb(body as NodeReadableStream<Uint8Array>),
+            limiter,
+            createWriteStream(data, { flags: 'r+', start: receivedBytes }),
+        );
+    } catch (error) {
+        // 上限を超えたチャンクは受信前の位置に戻す
+        if (error instanceof LocalizedError) {
+            await fs.truncate(data, receivedBytes);
+        }
+        throw error;
+    } finally {
+        activeWrites.delete(uploadId);
+    }
+    // 残りのチャンクを受信する前に、先頭のマジックバイトで動画かどうかを確認する
+    if (receivedBytes === 0 && !await sniffVideoFile(data)) {
+        await deleteUpload(uploadId);
+        throw new UnsupportedVideoError();
+    }
+    return getUploadStatus(uploadId);
+}
+
+// アップロードの受信が完了していることを確認する（ファイルはそのまま残す）
+export async function verifyCompletedUpload(id: string): Promise<void> {
+    await readCompletedSession(id);
+}
+
+async function readCompletedSession(id: string): Promise<UploadSession> {
+    const session = await readSession(id);
+    const status = await getUploadStatus(id);
+    if (!session || !status) {
+        throw new LocalizedError('errors.uploadNotFound', { id });
+    }
+    if (activeWrites.has(id)) {
+        throw new LocalizedError('errors.uploadInProgress');
+    }
+    if (status.receivedBytes !== session.fileSize) {
+        throw new LocalizedError('errors.uploadIncomplete', { received: status.receivedBytes, size: session.fileSize });
+    }
+    return session;
+}
+
+// 受信が完了したアップロードを解析用の一時ファイルとして取り出す（アップロード自体は削除される）
+export async function takeCompletedUpload(id: string): Promise<AssembledUpload> {
+    const session = await readCompletedSession(id);
+    const paths = uploadPaths(id);
+    const tempFilePath = path.join(uploadDir(), `${id}_${session.fileName}`);
+    await fs.rename(paths.data, tempFilePath);
+    await fs.unlink(paths.meta).catch(() => undefined);
+    return { tempFilePath, fileName: session.fileName, fileSize: session.fileSize, mimeType: session.mimeType };
+}
+
+export async function deleteUpload(id: string): Promise<void> {
+    const paths = uploadPaths(id);
+    await fs.unlink(paths.data).catch(() => undefined);
+    await fs.unlink(paths.meta).catch(() => undefined);
+}
+
+// 期限切れのアップロードを削除する
+async function sweepExpiredUploads(): Promise<void> {
+    const entries = await fs.readdir(uploadDir()).catch(() => [] as string[]);
+    const expiredBefore = Date.now() - UPLOAD_EXPIRY_MS;
+    for (const entry of entries) {
+        if (!entry.endsWith('.json')) continue;
+        const id = entry.slice(0, -'.json'.length);
+        const session = await readSession(id);
+        if (session && Date.parse(session.createdAt) < expiredBefore) {
+            await deleteUpload(id);
+            console.log(`🗑️ 期限切れのアップロードを削除: ${id}`);
+        }
+    }
+}
+
+const toUploadStatus = (session: UploadSession, receivedBytes: number): UploadStatus => ({
+    uploadId: session.id,
+    fileName: session.fileName,
+    fileSize: session.fileSize,
+    receivedBytes,
+    chunkSize: UPLOAD_CHUNK_SIZE,
+});
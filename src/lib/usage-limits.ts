@@ -0,0 +1,178 @@
+import { NextRequest } from "next/server";
+import crypto from "crypto";
+import { UsageLimitError } from "@/lib/api-errors";
+import { LocalizedError } from "@/lib/i18n/localized-error";
+import type { TokenUsage } from "@/lib/providers/analysis-provider";
+import { getUsageStore } from "@/lib/usage-store";
+
+// 解析APIのレート制限と利用量の上限（呼び出し元ごと。APIトークンがあればトークン、なければIPアドレス単位）
+// RATE_LIMIT_PER_MINUTE: 1分あたりの解析リクエスト数（デフォルト10、0で無効）
+// QUOTA_DAILY_TOKENS / QUOTA_MONTHLY_TOKENS: 1日・1か月あたりの入力＋出力トークン数（未設定は無制限。UTCで区切る）
+// ANALYSIS_API_TOKENS: 有効なAPIトークン（カンマ区切り）。Authorization: Bearer <token> で指定する
+
+export interface UsageLimits {
+    requestsPerMinute: number;
+    dailyTokens?: number;
+    monthlyTokens?: number;
+}
+
+// 上限に対する現在の利用状況
+export interface UsageWindow {
+    limit: number;
+    used: number;
+    remaining: number;
+    resetAt: string;            // ISO 8601
+}
+
+// GET /api/analyze-file/usage のレスポンス（上限が無効な項目は省略）
+export interface UsageSnapshot {
+    rateLimit?: UsageWindow;    // 1分あたりのリクエスト数
+    daily?: UsageWindow;        // 本日のトークン数
+    monthly?: UsageWindow;      // 今月のトークン数
+}
+
+const DEFAULT_REQUESTS_PER_MINUTE = 10;
+const MINUTE_MS = 60 * 1000;
+
+export function loadUsageLimits(env: NodeJS.ProcessEnv = process.env): UsageLimits {
+    return {
+        requestsPerMinute: parseNonNegativeInt(env.RATE_LIMIT_PER_MINUTE) ?? DEFAULT_REQUESTS_PER_MINUTE,
+        dailyTokens: parsePositiveInt(env.QUOTA_DAILY_TOKENS),
+        monthlyTokens: parsePositiveInt(env.QUOTA_MONTHLY_TOKENS),
+    };
+}
+
+function parseNonNegativeInt(value: string | undefined): number | undefined {
+    if (value === undefined || value.trim() === '') return undefined;
+    const parsed = Number(value);
+    return Number.isInteger(parsed) && parsed >= 0 ? parsed : undefined;
+}
+
+function parsePositiveInt(value: string | undefined): number | undefined {
+    const parsed = parseNonNegativeInt(value);
+    return parsed ? parsed : undefined;
+}
+
+// 呼び出し元のキー（APIトークンはハッシュにして保存する）
+// APIトークンがなければサインイン中のユーザー、それもなければ IP アドレスごとに集計する
+export function identifyCaller(request: NextRequest, userId?: string): string {
+    const authorization = request.headers.get('authorization');
+    if (authorization) {
+        const token = authorization.replace(/^Bearer\s+/i, '').trim();
+        const validTokens = (process.env.ANALYSIS_API_TOKENS ?? '').split(',').map(value => value.trim()).filter(Boolean);
+        if (!validTokens.includes(token)) {
+            throw new LocalizedError('errors.invalidApiToken');
+        }
+        return `token:${crypto.createHash('sha256').update(token).digest('hex').slice(0, 16)}`;
+    }
+    if (userId) {
+        return `user:${userId}`;
+    }
+    // プロキシ経由の場合は X-Forwarded-For の先頭（クライアント）を使う
+    const forwarded = request.headers.get('x-forwarded-for')?.split(',')[0]?.trim();
+    return `ip:${forwarded || request.headers.get('x-real-ip') || request.ip || 'unknown'}`;
+}
+
+// 集計期間（1分・UTCの日・UTCの月）の開始と終了
+function periods(now: Date) {
+    const minuteStart = Math.floor(now.getTime() / MINUTE_MS) * MINUTE_MS;
+    const dayStart = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+    const monthStart = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1);
+    return {
+        minute: { key: `rate:${minuteStart}`, resetAt: minuteStart + MINUTE_MS },
+        day: { key: `tokens:day:${dayStart}`, resetAt: Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1) },
+        month: { key: `tokens:month:${monthStart}`, resetAt: Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1) },
+    };
+}
+
+const toWindow = (limit: number, used: number, resetAt: number): UsageWindow => ({
+    limit,
+    used,
+    remaining: Math.max(0, limit - used),
+    resetAt: new Date(resetAt).toISOString(),
+});
+
+const secondsUntil = (time: number) => Math.max(1, Math.ceil((time - Date.now()) / 1000));
+
+// 現在の利用状況
+export async function getUsageSnapshot(caller: string, limits: UsageLimits = loadUsageLimits()): Promise<UsageSnapshot> {
+    const store = getUsageStore();
+    const { minute, day, month } = periods(new Date());
+    const snapshot: UsageSnapshot = {};
+    if (limits.requestsPerMinute > 0) {
+        snapshot.rateLimit = toWindow(limits.requestsPerMinute, await store.get(`${minute.key}:${caller}`), minute.resetAt);
+    }
+    if (limits.dailyTokens) {
+        snapshot.daily = toWindow(limits.dailyTokens, await store.get(`${day.key}:${caller}`), day.resetAt);
+    }
+    if (limits.monthlyTokens) {
+        snapshot.monthly = toWindow(limits.monthlyTokens, await store.get(`${month.key}:${caller}`), month.resetAt);
+    }
+    return snapshot;
+}
+
+// 利用量の上限を確認する（超えていれば UsageLimitError）
+// 生成前にはトークン数が分からないため、上限に達するまでは受け付ける（最後の1回で上限を超えることがある）
+export async function checkUsageQuota(caller: string, limits: UsageLimits = loadUsageLimits()): Promise<UsageSnapshot> {
+    const snapshot = await getUsageSnapshot(caller, limits);
+    if (snapshot.daily && snapshot.daily.remaining === 0) {
+        throw new UsageLimitError('errors.dailyQuotaExceeded', { limit: snapshot.daily.limit }, secondsUntil(Date.parse(snapshot.daily.resetAt)));
+    }
+    if (snapshot.monthly && snapshot.monthly.remaining === 0) {
+        throw new UsageLimitError('errors.monthlyQuotaExceeded', { limit: snapshot.monthly.limit }, secondsUntil(Date.parse(snapshot.monthly.resetAt)));
+    }
+    return snapshot;
+}
+
+// 解析リクエストを1回分数える（利用量の上限・1分あたりの回数を超えていれば UsageLimitError）
+export async function consumeAnalysisRequest(caller: string, limits: UsageLimits = loadUsageLimits()): Promise<UsageSnapshot> {
+    const snapshot = await checkUsageQuota(caller, limits);
+    if (limits.requestsPerMinute === 0) {
+        return snapshot;
+    }
+    const { minute } = periods(new Date());
+    const used = await getUsageStore().increment(`${minute.key}:${caller}`, 1, minute.resetAt);
+    if (used > limits.requestsPerMinute) {
+        console.warn(`🚦 レート制限: ${caller} (${used}/${limits.requestsPerMinute}回/分)`);
+        throw new UsageLimitError('errors.rateLimited', { limit: limits.requestsPerMinute }, secondsUntil(minute.resetAt));
+    }
+    return { ...snapshot, rateLimit: toWindow(limits.requestsPerMinute, used, minute.resetAt) };
+}
+
+// 生成ごとのトークン使用量を記録する（記録に失敗しても解析は続ける）
+export async function recordTokenUsage(caller: string, usage: TokenUsage): Promise<void> {
+    const tokens = usage.inputTokens + usage.outputTokens;
+    if (tokens === 0) return;
+    const store = getUsageStore();
+    const { day, month } = periods(new Date());
+    try {
+        await store.increment(`${day.key}:${caller}`, tokens, day.resetAt);
+        await store.increment(`${month.key}:${caller}`, tokens, month.resetAt);
+        console.log(`📊 トークン使用量を記録: ${caller} (入力 ${usage.inputTokens} / 出力 ${usage.outputTokens})`);
+    } catch (error) {
+        console.warn('⚠️ トークン使用量の記録に失敗しました:', error);
+    }
+}
+
+// 生成フックに渡す記録関数（呼び出し元がない場合は記録しない）
+export const usageRecorder = (caller: string | undefined) =>
+    caller ? (usage: TokenUsage) => void recordTokenUsage(caller, usage) : undefined;
+
+// 残りの利用量をレスポンスヘッダーで返す
+export function usageHeaders(snapshot: UsageSnapshot): Record<string, string> {
+    const headers: Record<string, string> = {};
+    if (snapshot.rateLimit) {
+        headers['X-RateLimit-Limit'] = String(snapshot.rateLimit.limit);
+        headers['X-RateLimit-Remaining'] = String(snapshot.rateLimit.remaining);
+        headers['X-RateLimit-Reset'] = String(Math.ceil(Date.parse(snapshot.rateLimit.resetAt) / 1000));
+    }
+    if (snapshot.daily) {
+        headers['X-Quota-Daily-Limit'] = String(snapshot.daily.limit);
+        headers['X-Quota-Daily-Remaining'] = String(snapshot.daily.remaining);
+    }
+    if (snapshot.monthly) {
+        headers['X-Quota-Monthly-Limit'] = String(snapshot.monthly.limit);
+        headers['X-Quota-Monthly-Remaining'] = String(snapshot.monthly.remaining);
+    }
+    return headers;
+}
@@ -0,0 +1,95 @@
+import fs from "fs/promises";
+import path from "path";
+import os from "os";
+import crypto from "crypto";
+
+// レート制限・利用量のカウンター（期限付き）
+interface UsageCounter {
+    value: number;
+    expiresAt: number;          // エポックミリ秒。過ぎたカウンターは 0 とみなす
+}
+
+// カウンターのストアのインターフェース（差し替え可能）
+export interface UsageStore {
+    // カウンターに加算し、加算後の値を返す（期限切れ・未作成の場合は 0 から数える）
+    increment(key: string, amount: number, expiresAt: number): Promise<number>;
+    get(key: string): Promise<number>;
+}
+
+const isActive = (counter: UsageCounter | undefined | null, now = Date.now()): counter is UsageCounter =>
+    !!counter && counter.expiresAt > now;
+
+// メモリ上のストア（単一プロセス向け）
+export class MemoryUsageStore implements UsageStore {
+    private counters = new Map<string, UsageCounter>();
+
+    async increment(key: string, amount: number, expiresAt: number): Promise<number> {
+        this.sweep();
+        const current = this.counters.get(key);
+        const value = (isActive(current) ? current.value : 0) + amount;
+        this.counters.set(key, { value, expiresAt });
+        return value;
+    }
+
+    async get(key: string): Promise<number> {
+        const counter = this.counters.get(key);
+        return isActive(counter) ? counter.value : 0;
+    }
+
+    // 期限切れのカウンターを削除する
+    private sweep(): void {
+        const now = Date.now();
+        this.counters.forEach((counter, key) => {
+            if (!isActive(counter, now)) this.counters.delete(key);
+        });
+    }
+}
+
+// JSONファイルによるストア（プロセス再起動後も利用量を保持）
+// 同じカウンターへの同時加算は後勝ちになるため、厳密な上限が必要な場合は共有ストアに差し替える
+export class FileUsageStore implements UsageStore {
+    constructor(private readonly dir: string) {}
+
+    private filePath(key: string): string {
+        // キーには IP アドレスなどファイル名に使えない文字が含まれるためハッシュにする
+        const name = crypto.createHash('sha256').update(key).digest('hex').slice(0, 32);
+        return path.join(this.dir, `${name}.json`);
+    }
+
+    async increment(key: string, amount: number, expiresAt: number): Promise<number> {
+        const current = await this.read(key);
+        const value = (isActive(current) ? current.value : 0) + amount;
+        await fs.mkdir(this.dir, { recursive: true });
+        const target = this.filePath(key);
+        const temp = `${target}.${process.pid}.tmp`;
+        await fs.writeFile(temp, JSON.stringify({ value, expiresAt }), 'utf-8');
+        await fs.rename(temp, target);
+        return value;
+    }
+
+    async get(key: string): Promise<number> {
+        const counter = await this.read(key);
+        return isActive(counter) ? counter.value : 0;
+    }
+
+    private async read(key: string): Promise<UsageCounter | null> {
+        try {
+            return JSON.parse(await fs.readFile(this.filePath(key), 'utf-8')) as UsageCounter;
+        } catch {
+            return null;
+        }
+    }
+}
+
+// 開発時のホットリロードでストアが消えないようglobalThisに保持
+const globalForUsage = globalThis as unknown as { analysisUsageStore?: UsageStore };
+
+// ANALYSIS_USAGE_STORE=file でファイル保存、それ以外はメモリ保存
+export function getUsageStore(): UsageStore {
+    if (!globalForUsage.analysisUsageStore) {
+        globalForUsage.analysisUsageStore = process.env.ANALYSIS_USAGE_STORE === 'file'
+            ? new FileUsageStore(process.env.ANALYSIS_USAGE_DIR || path.join(os.tmpdir(), 'golf-analyze-usage'))
+            : new MemoryUsageStore();
+    }
+    return globalForUsage.analysisUsageStore;
+}
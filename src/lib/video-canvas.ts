@@ -0,0 +1,86 @@
+// プレビュー動画に重ねるキャンバスの座標変換と、フレームの切り出し（ブラウザ専用）
+
+// 動画上の点（動画のピクセル座標）
+export interface VideoPoint {
+    x: number;
+    y: number;
+}
+
+// 動画要素の中で実際に映像が表示されている範囲（object-contain の余白を除く）
+export interface VideoContentRect {
+    offsetX: number;
+    offsetY: number;
+    scale: number;              // 動画のピクセル → 表示座標の倍率
+}
+
+// 解析結果に添付するフレーム
+export interface CapturedFrame {
+    seconds: number;            // 元動画の先頭からの秒数
+    image: string;              // JPEG の data URL（描画した図形を含む）
+}
+
+const CAPTURE_MAX_WIDTH = 1280;
+
+// 表示中の動画の映像範囲（メタデータの読み込み前は null）
+export function videoContentRect(video: HTMLVideoElement, width = video.clientWidth, height = video.clientHeight): VideoContentRect | null {
+    if (video.videoWidth === 0 || video.videoHeight === 0) return null;
+    const scale = Math.min(width / video.videoWidth, height / video.videoHeight);
+    return {
+        offsetX: (width - video.videoWidth * scale) / 2,
+        offsetY: (height - video.videoHeight * scale) / 2,
+        scale,
+    };
+}
+
+export const toScreenPoint = (rect: VideoContentRect, point: VideoPoint): VideoPoint => ({
+    x: rect.offsetX + point.x * rect.scale,
+    y: rect.offsetY + point.y * rect.scale,
+});
+
+export const toVideoPoint = (rect: VideoContentRect, point: VideoPoint): VideoPoint => ({
+    x: (point.x - rect.offsetX) / rect.scale,
+    y: (point.y - rect.offsetY) / rect.scale,
+});
+
+// キャンバスを表示サイズに合わせる（高DPIでもぼやけないように）。描画用のコンテキストを返す
+export function fitCanvasToVideo(canvas: HTMLCanvasElement, video: HTMLVideoElement): CanvasRenderingContext2D | null {
+    const context = canvas.getContext('2d');
+    if (!context) return null;
+    const ratio = window.devicePixelRatio || 1;
+    const width = video.clientWidth;
+    const height = video.clientHeight;
+    if (canvas.width !== Math.round(width * ratio) || canvas.height !== Math.round(height * ratio)) {
+        canvas.width = Math.round(width * ratio);
+        canvas.height = Math.round(height * ratio);
+        canvas.style.width = `${width}px`;
+        canvas.style.height = `${height}px`;
+    }
+    context.setTransform(ratio, 0, 0, ratio, 0, 0);
+    context.clearRect(0, 0, width, height);
+    return context;
+}
+
+// 現在のフレームを切り出す。draw には動画のピクセル座標を縮小後の座標に変換する倍率を渡す
+// フレームが読み込まれていない場合は undefined
+export function captureVideoFrame(
+    video: HTMLVideoElement,
+    draw?: (context: CanvasRenderingContext2D, scale: number) => void,
+): CapturedFrame | undefined {
+    if (video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA || video.videoWidth === 0) {
+        return undefined;
+    }
+    const scale = Math.min(1, CAPTURE_MAX_WIDTH / video.videoWidth);
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(video.videoWidth * scale);
+    canvas.height = Math.round(video.videoHeight * scale);
+    const context = canvas.getContext('2d');
+    if (!context) return undefined;
+    try {
+        context.drawImage(video, 0, 0, canvas.width, canvas.height);
+        draw?.(context, scale);
+        return { seconds: Math.round(video.currentTime * 100) / 100, image: canvas.toDataURL('image/jpeg', 0.85) };
+    } catch (error) {
+        console.warn('⚠️ フレームの切り出しに失敗しました:', error);
+        return undefined;
+    }
+}
@@ -0,0 +1,113 @@
+import { spawn } from "child_process";
+import fs from "fs/promises";
+import path from "path";
+import ffmpegPath from "ffmpeg-static";
+import { LocalizedError } from "@/lib/i18n/localized-error";
+
+// 解析前の動画正規化（H.264 MP4へ変換・縮小・フレームレート上限・トリミング）
+// VIDEO_NORMALIZE=off で無効化、VIDEO_MAX_SHORT_SIDE / VIDEO_MAX_FPS で上限を変更できる
+const MAX_SHORT_SIDE = Number(process.env.VIDEO_MAX_SHORT_SIDE) || 720;
+const MAX_FPS = Number(process.env.VIDEO_MAX_FPS) || 30;
+const STDERR_TAIL_LENGTH = 2000;
+
+// トリミング範囲（秒）
+export interface TrimRange {
+    start?: number;
+    end?: number;
+}
+
+export interface NormalizedVideo {
+    filePath: string;
+    fileSize: number;
+    mimeType: string;
+}
+
+export const isNormalizationEnabled = () => process.env.VIDEO_NORMALIZE !== 'off';
+
+// FormData のトリミング指定を検証して取り出す
+export function parseTrimRange(startValue: FormDataEntryValue | null, endValue: FormDataEntryValue | null): TrimRange | undefined {
+    const toSeconds = (value: FormDataEntryValue | null) => {
+        if (typeof value !== 'string' || value.trim() === '') return undefined;
+        const seconds = Number(value);
+        if (!Number.isFinite(seconds) || seconds < 0) {
+            throw new LocalizedError('errors.invalidTrimPosition', { value });
+        }
+        return seconds;
+    };
+    const start = toSeconds(startValue);
+    const end = toSeconds(endValue);
+    if (start === undefined && end === undefined) return undefined;
+    if (start !== undefined && end !== undefined && end <= start) {
+        throw new LocalizedError('errors.trimEndBeforeStart');
+    }
+    return { start, end };
+}
+
+function buildFfmpegArgs(inputPath: string, outputPath: string, trim?: TrimRange): string[] {
+    const args = ['-hide_banner', '-y'];
+    if (trim?.start !== undefined) {
+        args.push('-ss', String(trim.start));
+    }
+    args.push('-i', inputPath);
+    if (trim?.end !== undefined) {
+        args.push('-t', String(trim.end - (trim.start ?? 0)));
+    }
+    // 短辺を MAX_SHORT_SIDE 以下に縮小（拡大はしない）。幅・高さは偶数に揃える
+    const scale = `scale=w='if(gt(iw,ih),-2,min(${MAX_SHORT_SIDE},iw))':h='if(gt(iw,ih),min(${MAX_SHORT_SIDE},ih),-2)'`;
+    args.push(
+        '-vf', scale,
+        '-fpsmax', String(MAX_FPS),
+        '-c:v', 'libx264',
+        '-preset', 'veryfast',
+        '-crf', '26',
+        '-pix_fmt', 'yuv420p',
+        '-c:a', 'aac',
+        '-b:a', '64k',
+        '-movflags', '+faststart',
+        outputPath,
+    );
+    return args;
+}
+
+// ffmpeg を実行し、標準出力を返す（pipe:1 に出力した画像や生のフレームの読み取りに使う）
+export function runFfmpeg(args: string[], signal?: AbortSignal): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+        if (!ffmpegPath) {
+            reject(new Error('ffmpeg バイナリが見つかりません。'));
+            return;
+        }
+        const child = spawn(ffmpegPath, args, { signal, stdio: ['ignore', 'pipe', 'pipe'] });
+        const stdout: Buffer[] = [];
+        let stderr = '';
+        child.stdout.on('data', (data: Buffer) => stdout.push(data));
+        child.stderr.on('data', (data: Buffer) => {
+            stderr = (stderr + data.toString()).slice(-STDERR_TAIL_LENGTH);
+        });
+        child.on('error', reject);
+        child.on('close', (code) => {
+            if (code === 0) {
+                resolve(Buffer.concat(stdout));
+            } else {
+                reject(new Error(`ffmpeg が終了コード ${code} で失敗しました: ${stderr.trim().split('\n').pop()}`));
+            }
+        });
+    });
+}
+
+// 動画を正規化し、変換後の一時ファイルを返す（呼び出し側で削除すること）
+export async function normalizeVideo(inputPath: string, trim?: TrimRange, signal?: AbortSignal): Promise<NormalizedVideo> {
+    const parsed = path.parse(inputPath);
+    const outputPath = path.join(parsed.dir, `${parsed.name}_normalized.mp4`);
+    console.log(`🎞️ 動画を正規化中... (短辺${MAX_SHORT_SIDE}px以下, ${MAX_FPS}fps以下${trim ? `, ${trim.start ?? 0}s〜${trim.end ?? '終了'}s` : ''})`);
+
+    try {
+        await runFfmpeg(buildFfmpegArgs(inputPath, outputPath, trim), signal);
+    } catch (error) {
+        await fs.unlink(outputPath).catch(() => undefined);
+        throw error;
+    }
+
+    const { size } = await fs.stat(outputPath);
+    console.log(`✅ 正規化完了: ${(size / 1024 / 1024).toFixed(1)}MB`);
+    return { filePath: outputPath, fileSize: size, mimeType: 'video/mp4' };
+}
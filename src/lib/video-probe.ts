@@ -0,0 +1,154 @@
+import { spawn } from "child_process";
+import fs from "fs/promises";
+import ffmpegPath from "ffmpeg-static";
+import { LocalizedError } from "@/lib/i18n/localized-error";
+
+// 受信した動画の検証（クライアントの申告する MIME タイプではなく、ファイル先頭のマジックバイトで判定する）
+// 判定したコンテナから Gemini に渡す MIME タイプを決め、ffmpeg で長さ・解像度・コーデックを取得する
+
+export type VideoContainer = 'mp4' | 'quicktime' | '3gpp' | 'm4v' | 'webm' | 'matroska' | 'avi' | 'asf' | 'flv' | 'ogg' | 'mpeg';
+
+const CONTAINER_MIME_TYPES: Record<VideoContainer, string> = {
+    mp4: 'video/mp4',
+    quicktime: 'video/quicktime',
+    '3gpp': 'video/3gpp',
+    m4v: 'video/x-m4v',
+    webm: 'video/webm',
+    matroska: 'video/x-matroska',
+    avi: 'video/x-msvideo',
+    asf: 'video/x-ms-wmv',
+    flv: 'video/x-flv',
+    ogg: 'video/ogg',
+    mpeg: 'video/mpeg',
+};
+
+// 受信した動画の情報（fileInfo.video としてクライアントに返す）
+export interface VideoFileInfo {
+    container: VideoContainer;
+    mimeType: string;
+    durationSeconds?: number;
+    width?: number;             // 表示時の向き（回転メタデータを反映）
+    height?: number;
+    codec?: string;
+}
+
+// ffmpeg から取得する項目
+type VideoDetails = Pick<VideoFileInfo, 'durationSeconds' | 'width' | 'height' | 'codec'>;
+
+// 動画として扱えないファイル（ルートは 415 を返す）
+export class UnsupportedVideoError extends LocalizedError {
+    constructor() {
+        super('errors.unsupportedVideo');
+        this.name = 'UnsupportedVideoError';
+    }
+}
+
+const HEADER_LENGTH = 4096;
+const PROBE_TIMEOUT = 10000; // 10秒
+const STDERR_MAX_LENGTH = 20000;
+
+// ISO BMFF（ftyp）のうち動画ではないブランド（音声・静止画）
+const NON_VIDEO_BRANDS = ['M4A ', 'M4B ', 'M4P ', 'heic', 'heix', 'mif1', 'msf1', 'avif', 'avis', 'crx '];
+// ftyp を持たない古い QuickTime ファイルの先頭アトム
+const QUICKTIME_ATOMS = ['moov', 'mdat', 'wide', 'free', 'skip', 'pnot'];
+
+const ASF_GUID = Buffer.from([0x30, 0x26, 0xb2, 0x75, 0x8e, 0x66, 0xcf, 0x11, 0xa6, 0xd9, 0x00, 0xaa, 0x00, 0x62, 0xce, 0x6c]);
+const EBML_MAGIC = Buffer.from([0x1a, 0x45, 0xdf, 0xa3]);
+
+// ファイル先頭のバイト列からコンテナを判定する（動画でなければ null）
+export function sniffVideoContainer(header: Buffer): VideoContainer | null {
+    if (header.length < 16) return null;
+    const ascii = (start: number, end: number) => header.subarray(start, end).toString('latin1');
+
+    if (ascii(4, 8) === 'ftyp') {
+        const brand = ascii(8, 12);
+        if (NON_VIDEO_BRANDS.includes(brand)) return null;
+        if (brand === 'qt  ') return 'quicktime';
+        if (brand.startsWith('3g')) return '3gpp';
+        if (brand.startsWith('M4V')) return 'm4v';
+        return 'mp4';
+    }
+    if (QUICKTIME_ATOMS.includes(ascii(4, 8))) return 'quicktime';
+    if (header.subarray(0, 4).equals(EBML_MAGIC)) {
+        // EBML ヘッダーの DocType で WebM と Matroska を区別する
+        return header.includes('webm', 0, 'latin1') ? 'webm' : 'matroska';
+    }
+    if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'AVI ') return 'avi';
+    if (header.subarray(0, 16).equals(ASF_GUID)) return 'asf';
+    if (ascii(0, 3) === 'FLV' && header[3] === 0x01) return 'flv';
+    if (ascii(0, 4) === 'OggS') {
+        // 音声のみの Ogg（Vorbis / Opus）は除外する
+        return ['theora', 'OVP80', 'dirac'].some(codec => header.includes(codec, 0, 'latin1')) ? 'ogg' : null;
+    }
+    if (header.readUInt32BE(0) === 0x000001ba || header.readUInt32BE(0) === 0x000001b3) return 'mpeg';
+    return null;
+}
+
+// ファイル先頭を読み込んでコンテナを判定する
+export async function sniffVideoFile(filePath: string): Promise<VideoContainer | null> {
+    const handle = await fs.open(filePath, 'r');
+    try {
+        const header = Buffer.alloc(HEADER_LENGTH);
+        const { bytesRead } = await handle.read(header, 0, HEADER_LENGTH, 0);
+        return sniffVideoContainer(header.subarray(0, bytesRead));
+    } finally {
+        await handle.close();
+    }
+}
+
+// ffmpeg -i の出力から長さ・解像度・コーデックを読み取る
+export function parseFfmpegInfo(stderr: string): VideoDetails {
+    const info: VideoDetails = {};
+    const duration = stderr.match(/Duration: (\d+):(\d{2}):(\d{2}(?:\.\d+)?)/);
+    if (duration) {
+        info.durationSeconds = Math.round((Number(duration[1]) * 3600 + Number(duration[2]) * 60 + Number(duration[3])) * 10) / 10;
+    }
+    const video = stderr.match(/Stream #\d+:\d+.*?: Video: (\w+).*?, (\d{2,5})x(\d{2,5})/);
+    if (video) {
+        info.codec = video[1];
+        info.width = Number(video[2]);
+        info.height = Number(video[3]);
+        // スマートフォンの縦動画は回転メタデータで向きが指定されている
+        const rotation = stderr.match(/rotation of (-?\d+(?:\.\d+)?) degrees/) ?? stderr.match(/rotate\s*:\s*(-?\d+)/);
+        if (rotation && Math.abs(Number(rotation[1])) % 180 === 90) {
+            [info.width, info.height] = [info.height, info.width];
+        }
+    }
+    return info;
+}
+
+// ffmpeg で動画の情報を取得する（取得できない場合は空。検証自体は失敗させない）
+async function probeVideo(filePath: string): Promise<VideoDetails> {
+    if (!ffmpegPath) return {};
+    const binary = ffmpegPath;
+    try {
+        const stderr = await new Promise<string>((resolve, reject) => {
+            // 出力先を指定しないため終了コードは常にエラーになる。標準エラーの情報だけを使う
+            const child = spawn(binary, ['-hide_banner', '-i', filePath], {
+                signal: AbortSignal.timeout(PROBE_TIMEOUT),
+                stdio: ['ignore', 'ignore', 'pipe'],
+            });
+            let output = '';
+            child.stderr.on('data', (data: Buffer) => {
+                output = (output + data.toString()).slice(0, STDERR_MAX_LENGTH);
+            });
+            child.on('error', reject);
+            child.on('close', () => resolve(output));
+        });
+        return parseFfmpegInfo(stderr);
+    } catch (error) {
+        console.warn('⚠️ 動画情報の取得に失敗しました:', error);
+        return {};
+    }
+}
+
+// 受信した動画を検証し、コンテナ・MIME タイプ・動画情報を返す（動画でなければ UnsupportedVideoError）
+export async function inspectVideoFile(filePath: string): Promise<VideoFileInfo> {
+    const container = await sniffVideoFile(filePath);
+    if (!container) {
+        throw new UnsupportedVideoError();
+    }
+    const info: VideoFileInfo = { container, mimeType: CONTAINER_MIME_TYPES[container], ...await probeVideo(filePath) };
+    console.log(`🔎 動画を検証: ${info.container} (${info.mimeType})${info.width ? ` ${info.width}x${info.height}` : ''}${info.codec ? ` ${info.codec}` : ''}${info.durationSeconds !== undefined ? ` ${info.durationSeconds}s` : ''}`);
+    return info;
+}
@@ -0,0 +1,22 @@
+const THUMBNAIL_WIDTH = 320;
+
+// プレビュー動画の現在のフレームを縮小した JPEG の data URL にする
+// フレームが読み込まれていない場合は undefined
+export function captureVideoThumbnail(video: HTMLVideoElement | null): string | undefined {
+    if (!video || video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA || video.videoWidth === 0) {
+        return undefined;
+    }
+    const scale = Math.min(1, THUMBNAIL_WIDTH / video.videoWidth);
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(video.videoWidth * scale);
+    canvas.height = Math.round(video.videoHeight * scale);
+    const context = canvas.getContext('2d');
+    if (!context) return undefined;
+    try {
+        context.drawImage(video, 0, 0, canvas.width, canvas.height);
+        return canvas.toDataURL('image/jpeg', 0.7);
+    } catch (error) {
+        console.warn('⚠️ サムネイルの作成に失敗しました:', error);
+        return undefined;
+    }
+}
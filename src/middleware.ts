@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from "next/server";
+
+// 未サインインの場合はサインイン画面に移動する
+// Edge Runtime ではセッションストアを読めないため Cookie の有無だけを確認し、有効期限などは API 側で検証する
+export function middleware(request: NextRequest) {
+    if (request.cookies.has('golf_session')) {
+        return NextResponse.next();
+    }
+    const url = new URL('/login', request.url);
+    url.searchParams.set('next', request.nextUrl.pathname + request.nextUrl.search);
+    return NextResponse.redirect(url);
+}
+
+export const config = {
+    matcher: ['/', '/history', '/workspace'],
+};